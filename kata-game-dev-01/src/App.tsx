@@ -3,11 +3,21 @@ import './App.css'
 import { createWorld } from '@game/setupWorld'
 import { createMovementSystem } from '@engine/systems/MovementSystem'
 import { createEnemyAISystem } from '@engine/systems/EnemyAISystem'
+import { createHierarchySystem } from '@engine/systems/HierarchySystem'
+import { createCollisionSystem } from '@engine/systems/CollisionSystem'
+import { createCollisionResponseSystem } from '@engine/systems/CollisionResponseSystem'
+import { createProjectileSystem } from '@engine/systems/ProjectileSystem'
 import { createRenderSystem } from '@engine/systems/RenderSystem'
 import { createInputSystem, INPUT_ACTIONS } from '@engine/systems/InputSystem'
-import { createQuadTree } from '@engine/spatial/QuadTree'
+import { createSpatialIndex } from '@engine/spatial/SpatialIndex'
+import { createSpatialSyncSystem } from '@engine/spatial/SpatialSyncSystem'
+import { createScheduler } from '@engine/Scheduler'
 import { ReactiveWorld } from '@engine/ReactiveWorld'
-import { COMPONENTS, EVENT_TYPES } from '@engine/constants'
+import type { Entity } from '@engine/ECS'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { componentRegistry } from '@engine/componentRegistry'
+import { ActivePlayer, Input, QuestFlags, Spatial, Theme } from '@engine/Resources'
+import { Random, createRandomState, getRandomStream } from '@engine/Random'
 import { useCanvas } from '@hooks/useCanvas'
 import { useQuadConfig } from '@contexts/QuadConfigContext'
 import { GameStateProvider } from '@contexts/GameStateContext'
@@ -15,18 +25,22 @@ import { HealthBar } from '@ui/components/HealthBar'
 import { startDialog, chooseDialogOption, endDialog, getDialogState, pickupItem } from '@game/GameActions'
 import { createItemInstance } from '@game/configs/ItemConfig'
 import { getDialogTree, getDialogNode } from '@game/configs/DialogConfig'
-import { getLevelById } from '@game/configs/LevelConfig'
 import type { DialogNode } from '@game/configs/DialogConfig'
 import InventoryPanel from '@ui/components/InventoryPanel'
 import EquipmentPanel from '@ui/components/EquipmentPanel'
 import SaveLoadMenu from '@ui/components/SaveLoadMenu'
 import DialogBox from '@ui/components/DialogBox'
+import HintBanner from '@ui/components/HintBanner'
 import ControlsOverlay from '@ui/components/ControlsOverlay'
 import GameStartScreen from '@ui/components/GameStartScreen'
 import GameOverScreen from '@ui/components/GameOverScreen'
 import { WeaponSystem } from '@engine/systems/WeaponSystem'
 import ITEM_CATALOG from '@game/configs/ItemConfig'
+import { WEAPON_PROJECTILES, getProjectileKind } from '@game/configs/EntityBlueprints'
+import { PLAYER_SKILL, SKILL_PROJECTILES } from '@game/configs/SkillConfig'
+import { COLLISION_LAYERS, type Collider } from '@components'
 import { LevelManager } from '@game/LevelManager'
+import { createTriggerSystem } from '@game/TriggerSystem'
 import { LevelTransition } from '@ui/components/LevelTransition'
 import { saveGame, loadGame } from '@game/SaveSystem'
 import GameHUD from '@ui/layouts/GameHUD'
@@ -47,6 +61,21 @@ const LEVEL_MAP: Record<string, { id: string; name: string; description: string
 
 type GamePhase = 'menu' | 'playing' | 'dead'
 
+// Shots go at the closest hostile in range, or along the movement direction
+const aimAtHostile = (world: ReactiveWorld, player: Entity, range: number) => {
+  const { x, y } = world.getComponent(player, COMPONENTS.TRANSFORM)!
+  const aim = world.getResource(Spatial).index?.queryCircle(x, y, range)
+    .filter(({ entity }) => world.getComponent(entity, COMPONENTS.HOSTILE) !== undefined)
+    .map(({ entity }) => world.getComponent(entity, COMPONENTS.TRANSFORM))
+    .find(t => t !== undefined)
+  const velocity = world.getComponent(player, COMPONENTS.VELOCITY)
+  const moving = velocity && (velocity.vx !== 0 || velocity.vy !== 0)
+  return {
+    dirX: aim ? aim.x - x : moving ? velocity.vx : 1,
+    dirY: aim ? aim.y - y : moving ? velocity.vy : 0,
+  }
+}
+
 // ---------------------------------------------------------------------------
 // App Component
 // ---------------------------------------------------------------------------
@@ -83,6 +112,9 @@ const App = () => {
   const [currentDialogTreeId, setCurrentDialogTreeId] = useState<string | null>(null)
   const [questFlags,          setQuestFlags]           = useState<Record<string, unknown>>({})
 
+  // Hint raised by a trigger zone; the id restarts the banner timer for repeated hints
+  const [hint, setHint] = useState<{ id: number; text: string; duration: number } | null>(null)
+
   // Level transition overlay
   const [transitionActive, setTransitionActive] = useState(false)
   const [transitionLevel,  setTransitionLevel]  = useState<{ name: string; description: string } | null>(null)
@@ -94,7 +126,7 @@ const App = () => {
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics>({
     fps: 0, avgFps: 0, minFps: 0, maxFps: 0,
     frameTime: 0, avgFrameTime: 0,
-    entityCount: 0, systemTimings: [], totalFrames: 0,
+    entityCount: 0, systemTimings: [], totalFrames: 0, listenerErrors: 0,
   })
 
   // ---------------------------------------------------------------------------
@@ -124,24 +156,17 @@ const App = () => {
     const lvl = LEVEL_MAP[key]
     if (!lm || !lvl) return
 
-    // Update background theme in render system
-    const def      = getLevelById(lvl.id)
-    const themeType = def?.theme?.themeType ?? 'forest'
-    // Store it in the ref so the getThemeType callback picks it up
-    currentThemeTypeRef.current = themeType
-
+    // The level manager updates the Theme resource read by the render system
     setTransitionLevel({ name: lvl.name, description: lvl.description })
     setTransitionActive(true)
     setTimeout(() => lm.transitionToLevel(lvl.id, () => {}), 400)
   }, [])
 
-  // Ref for the current theme type (read by getThemeType callback inside render system)
-  const currentThemeTypeRef = useRef<string>('forest')
-
-  // Weapon attack — runs inside the game loop
-  const handleWeaponAttack = useCallback((world: ReactiveWorld, player: number) => {
-    const inputSystem = inputSystemRef.current
-    if (!inputSystem?.isActionPressed(INPUT_ACTIONS.ACTION_PRIMARY)) return
+  // Weapon attack — runs inside the game loop; bows and staffs fire projectiles
+  const handleWeaponAttack = useCallback((world: ReactiveWorld, projectiles: ReturnType<typeof createProjectileSystem>) => {
+    const { entity: player } = world.getResource(ActivePlayer)
+    const { index } = world.getResource(Spatial)
+    if (player == null || !index || !world.getResource(Input).actions[INPUT_ACTIONS.ACTION_PRIMARY]) return
 
     const playerTransform = world.getComponent(player, COMPONENTS.TRANSFORM)
     const equipment = world.getComponent(player, COMPONENTS.EQUIPMENT)
@@ -154,9 +179,9 @@ const App = () => {
     if (!def || def.type !== 'weapon' || !playerTransform) return
 
     const weapon: any = {
-      id: def.id, name: def.name, type: 'sword',
-      damage: { baseValue: def.stats?.attack ?? 5, variance: 2, type: 'physical' },
-      attackSpeed: 1.0, range: 60, weight: def.weight ?? 5,
+      id: def.id, name: def.name, type: def.weaponType ?? 'sword',
+      damage: { baseValue: def.stats?.attack ?? 5, variance: 2, type: 'physical', knockback: def.stats?.knockback },
+      attackSpeed: 1.0, range: def.stats?.range ?? 60, weight: def.weight ?? 5,
       durability: {
         current: invItem.durability ?? (def.stats?.durability ?? 100),
         max: def.stats?.durability ?? 100,
@@ -164,16 +189,34 @@ const App = () => {
       effects: [], rarity: def.rarity, level: 1, description: def.description,
     }
 
-    const weaponSystem = new WeaponSystem(world)
-    const enemies = world.query(COMPONENTS.TRANSFORM, COMPONENTS.HEALTH).filter(e => e.entity !== player)
-    for (const e of enemies) {
-      const [t] = e.comps
-      const dist = Math.sqrt((t.x - playerTransform.x) ** 2 + (t.y - playerTransform.y) ** 2)
-      if (dist < 120) {
-        weaponSystem.executeAttack(player, e.entity, weapon)
-        break
-      }
+    // Ranged: shoot at the closest hostile in range, or along the movement direction
+    const projectileId = WEAPON_PROJECTILES[weapon.type as keyof typeof WEAPON_PROJECTILES]
+    const kind = projectileId ? getProjectileKind(projectileId) : undefined
+    if (kind) {
+      const { x, y } = playerTransform
+      projectiles.fire({ owner: player, weapon, kind, x, y, ...aimAtHostile(world, player, weapon.range), mask: COLLISION_LAYERS.ENEMY })
+      return
     }
+
+    // Closest damageable entity within reach
+    const target = index.queryCircle(playerTransform.x, playerTransform.y, 120).find(({ entity }) =>
+      entity !== player
+      && world.getComponent(entity, COMPONENTS.HEALTH) !== undefined
+      && world.getComponent(entity, COMPONENTS.PLAYER) === undefined)
+    if (target) new WeaponSystem(world).executeAttack(player, target.entity, weapon, world.commands)
+  }, [])
+
+  // Skill cast — the secondary action launches the player's skill projectile
+  const handleSkillCast = useCallback((world: ReactiveWorld, projectiles: ReturnType<typeof createProjectileSystem>) => {
+    const { entity: player } = world.getResource(ActivePlayer)
+    if (player == null || !world.getResource(Input).actions[INPUT_ACTIONS.ACTION_SECONDARY]) return
+
+    const playerTransform = world.getComponent(player, COMPONENTS.TRANSFORM)
+    const kind = getProjectileKind(SKILL_PROJECTILES[PLAYER_SKILL.id])
+    if (!playerTransform || !kind) return
+
+    const { x, y } = playerTransform
+    projectiles.cast(PLAYER_SKILL, { owner: player, kind, x, y, ...aimAtHostile(world, player, PLAYER_SKILL.range), mask: COLLISION_LAYERS.ENEMY })
   }, [])
 
   // ---------------------------------------------------------------------------
@@ -203,10 +246,15 @@ const App = () => {
 
     try {
       const reactiveWorld = new ReactiveWorld()
+      // Catch malformed component data early in development builds
+      if (import.meta.env.DEV) reactiveWorld.setComponentValidation(componentRegistry)
+      // Fresh seed per game; the debug overlay shows it so a run can be reproduced
+      reactiveWorld.setResource(Random, createRandomState(Date.now() >>> 0))
       const { player, quadConfig } = createWorld(reactiveWorld)
 
       worldRef.current  = reactiveWorld
       playerRef.current = player
+      reactiveWorld.setResource(ActivePlayer, { entity: player })
       setGameWorld(reactiveWorld)
       setGamePlayerId(player)
 
@@ -214,57 +262,71 @@ const App = () => {
       levelManager.setPlayer(player)
       levelManagerRef.current = levelManager
       levelManager.loadLevel('level_1_forest')
-      currentThemeTypeRef.current = 'forest'
+      // Level trigger zones react to the collision events published below
+      const triggers = createTriggerSystem(reactiveWorld, levelManager)
 
       const { update: movementUpdate } = createMovementSystem()
-      const { update: enemyAIUpdate }  = createEnemyAISystem()
+      const { update: hierarchyUpdate } = createHierarchySystem()
+      const { update: collisionResponseUpdate } = createCollisionResponseSystem()
+      // Ages projectiles and resolves their hits from the collision events
+      const projectiles = createProjectileSystem(reactiveWorld)
 
       const inputSystem = createInputSystem({ movementSpeed: 150, enableDiagonalNormalization: true })
       inputSystemRef.current = inputSystem
 
-      const quad = createQuadTree(
-        quadConfig.boundary,
-        quadConfig.capacity  ?? 8,
-        quadConfig.maxDepth  ?? 8,
-        {
+      // Quad tree unless the persisted config selects the spatial hash
+      const spatialIndex = createSpatialIndex({
+        backend:  persistedConfig.backend,
+        boundary: quadConfig.boundary,
+        capacity: quadConfig.capacity ?? 8,
+        maxDepth: quadConfig.maxDepth ?? 8,
+        cellSize: persistedConfig.cellSize ?? quadConfig.cellSize,
+        options: {
           mergeThreshold:    persistedConfig.mergeThreshold    ?? quadConfig.mergeThreshold,
           rebalanceInterval: persistedConfig.rebalanceInterval ?? quadConfig.rebalanceInterval,
           onConfigChange: (c: { mergeThreshold: number; rebalanceInterval: number }) => {
             try { persistConfig(c) } catch { /* noop */ }
           },
-        }
-      )
+        },
+      })
+
+      // Renderable entities with a transform live in the spatial index as boxes covering their sprite
+      // or collider, so large entities stay visible while their centre is off screen.
+      // The sync system publishes the index as the Spatial resource for AI, combat and rendering.
+      const spatialSync = createSpatialSyncSystem(reactiveWorld, spatialIndex, {
+        with: [COMPONENTS.RENDERABLE],
+        optional: [COMPONENTS.COLLIDER],
+        extent: ([, rend, collider]) => {
+          const sprite = rend as { size?: number; radius?: number } | undefined
+          return Math.max(sprite?.size ?? sprite?.radius ?? 8, (collider as Collider | undefined)?.radius ?? 0)
+        },
+      })
+
+      const { update: enemyAIUpdate } = createEnemyAISystem()
+      // Publishes CollisionEnter/CollisionExit on world.events
+      const { update: collisionUpdate } = createCollisionSystem()
 
       const renderSys = createRenderSystem(canvas, player, {
         dpr,
         camera: { dampingSeconds: 0.12, deadZoneRadius: 3, lookAheadFactor: 0.2 },
-        getThemeType: () => currentThemeTypeRef.current,
-      }, quad)
+        getThemeType: () => reactiveWorld.getResource(Theme).type,
+      })
       renderSystemRef.current = renderSys
 
-      // Populate quad tree
-      for (const e of reactiveWorld.query(COMPONENTS.TRANSFORM, COMPONENTS.RENDERABLE)) {
-        const t = e.comps[0]
-        quad.insert({ x: t.x, y: t.y, entity: e.entity })
-      }
+      inputSystem.attach()
 
-      const unsubTransform = reactiveWorld.onComponentEvent((ev: any) => {
-        if (ev.name !== COMPONENTS.TRANSFORM) return
-        const id = ev.entity
-        if (ev.type === EVENT_TYPES.ADD) {
-          quad.insert({ x: ev.component.x, y: ev.component.y, entity: id })
-        } else if (ev.type === EVENT_TYPES.UPDATE) {
-          const pos = reactiveWorld.getComponent(id, COMPONENTS.TRANSFORM)
-          if (pos) {
-            if (quad.has(id)) quad.update(id, pos.x, pos.y)
-            else quad.insert({ x: pos.x, y: pos.y, entity: id })
-          }
-        } else if (ev.type === EVENT_TYPES.REMOVE) {
-          if (quad.has(id)) quad.remove(id)
-        }
+      // Dialogs open from NPC clicks and trigger zones alike
+      const offDialogStarted = reactiveWorld.on(GAME_EVENTS.DIALOG_STARTED, ({ treeId }) => {
+        const tree = getDialogTree(treeId)
+        if (!tree) return
+        setCurrentDialogNode(tree.nodes[tree.startNodeId])
+        setCurrentDialogTreeId(treeId)
+        setDialogVisible(true)
+        setQuestFlags({ ...reactiveWorld.getResource(QuestFlags) })
+      })
+      const offHintShown = reactiveWorld.on(GAME_EVENTS.HINT_SHOWN, ({ text, duration }) => {
+        setHint(prev => ({ id: (prev?.id ?? 0) + 1, text, duration }))
       })
-
-      inputSystem.attach()
 
       // Canvas click → dialog
       const handleCanvasClick = (e: MouseEvent) => {
@@ -277,31 +339,82 @@ const App = () => {
         const worldX = (e.clientX - rect.left) - canvasSize.width  / 2 + playerTransform.x
         const worldY = (e.clientY - rect.top)  - canvasSize.height / 2 + playerTransform.y
 
-        for (const npc of reactiveWorld.query(COMPONENTS.TRANSFORM, COMPONENTS.METADATA).filter(n => n.comps[1].isNPC)) {
-          const [nt, meta] = npc.comps
-          const dist = Math.sqrt((nt.x - worldX) ** 2 + (nt.y - worldY) ** 2)
-          if (dist < 30) {
-            const treeId: string = meta.dialogTreeId ?? 'merchant_dialog'
-            if (startDialog(w, p, npc.entity, treeId)) {
-              const tree = getDialogTree(treeId)
-              if (tree) {
-                setCurrentDialogNode(tree.nodes[tree.startNodeId])
-                setCurrentDialogTreeId(treeId)
-                setDialogVisible(true)
-                setQuestFlags((w.getComponent(p, COMPONENTS.QUEST_FLAGS) as Record<string, unknown>) ?? {})
-              }
-            }
-            break
-          }
+        const npc = w.getResource(Spatial).index?.queryCircle(worldX, worldY, 30)
+          .find(({ entity }) => w.getComponent(entity, COMPONENTS.NPC) !== undefined)
+        if (npc) {
+          const meta = w.getComponent(npc.entity, COMPONENTS.METADATA) as any
+          const treeId: string = meta?.dialogTreeId ?? 'merchant_dialog'
+          startDialog(w, p, npc.entity, treeId)
         }
       }
       canvas.addEventListener('click', handleCanvasClick)
 
       const performanceMonitor = createPerformanceMonitor(60)
+      reactiveWorld.setListenerErrorPolicy(error => {
+        performanceMonitor.recordListenerError()
+        console.error(`[ECS] ${error.message}`, error.cause)
+      })
       gameStartTimeRef.current = performance.now()
       let last    = performance.now()
       let running = true
 
+      // ── Systems ──────────────────────────────────────────────────────────
+      const scheduler = createScheduler({ world: reactiveWorld, monitor: performanceMonitor })
+      // Gameplay events are collected during the frame and delivered after the update stage
+      reactiveWorld.events.setMode('queued')
+
+      scheduler.add({ name: 'input', stage: 'pre-update', run: dt => inputSystem.update(reactiveWorld, player, dt) })
+      scheduler.add({ name: 'movement', stage: 'fixed-update', run: dt => movementUpdate(reactiveWorld, dt) })
+      scheduler.add({ name: 'projectiles', stage: 'fixed-update', after: ['movement'], run: projectiles.update })
+      // Push solid bodies apart before children follow their parents
+      scheduler.add({ name: 'collision-response', stage: 'fixed-update', after: ['movement'], run: () => collisionResponseUpdate(reactiveWorld) })
+      scheduler.add({ name: 'hierarchy', stage: 'fixed-update', after: ['collision-response'], run: () => hierarchyUpdate(reactiveWorld) })
+      // Simulation reads the index right after positions settle; the render-stage pass picks up later spawns
+      scheduler.add({ name: 'spatial-sync', stage: 'fixed-update', after: ['hierarchy'], run: spatialSync.update })
+      scheduler.add({ name: 'ai', stage: 'fixed-update', after: ['spatial-sync'], run: () => enemyAIUpdate(reactiveWorld) })
+      scheduler.add({ name: 'collision', stage: 'fixed-update', after: ['spatial-sync'], run: () => collisionUpdate(reactiveWorld) })
+      scheduler.add({ name: 'weapon', stage: 'update', run: () => handleWeaponAttack(reactiveWorld, projectiles) })
+      scheduler.add({ name: 'skill', stage: 'update', run: () => handleSkillCast(reactiveWorld, projectiles) })
+
+      // Remove dead enemies from world (EnemyKilled is published by WeaponSystem)
+      scheduler.add({
+        name: 'enemy-death', stage: 'update', after: ['weapon'],
+        run: () => {
+          for (const e of reactiveWorld.query(COMPONENTS.HEALTH, COMPONENTS.HOSTILE)) {
+            const [hp] = e.comps as [any, unknown]
+            if (hp?.current <= 0) {
+              reactiveWorld.commands.despawn(e.entity)
+            }
+          }
+        },
+      })
+
+      // Player death detection
+      scheduler.add({
+        name: 'player-death', stage: 'update', after: ['enemy-death'],
+        run: () => {
+          const playerHp = reactiveWorld.getComponent(player, COMPONENTS.HEALTH) as any
+          if (playerHp && playerHp.current <= 0 && gamePhaseRef.current === 'playing') {
+            const elapsed = (performance.now() - gameStartTimeRef.current) / 1000
+            setElapsedTime(elapsed)
+            setPhase('dead')
+            running = false
+          }
+        },
+      })
+
+      scheduler.add({ name: 'spatial-sync-render', stage: 'render', before: ['render'], run: spatialSync.update })
+      scheduler.add({
+        name: 'render', stage: 'render',
+        run: dt => {
+          try {
+            renderSys.update(reactiveWorld, dt, { width: canvasSize.width, height: canvasSize.height })
+          } catch (err) {
+            console.error('[Frame] Render error:', err)
+          }
+        },
+      })
+
       // ── Main game loop ───────────────────────────────────────────────────
       const frame = (now: number) => {
         performanceMonitor.startFrame()
@@ -309,54 +422,17 @@ const App = () => {
         last = now
         reactiveWorld.updateTime(dt)
 
-        let t = performance.now()
-        inputSystem.update(reactiveWorld, player, dt)
-        performanceMonitor.recordSystemTime('input', performance.now() - t)
-
-        t = performance.now()
-        movementUpdate(reactiveWorld, dt)
-        performanceMonitor.recordSystemTime('movement', performance.now() - t)
-
-        t = performance.now()
-        enemyAIUpdate(reactiveWorld)
-        performanceMonitor.recordSystemTime('ai', performance.now() - t)
-
-        handleWeaponAttack(reactiveWorld, player)
-
-        // Remove dead enemies from world
-        for (const e of reactiveWorld.query(COMPONENTS.HEALTH, COMPONENTS.METADATA)) {
-          const [hp, meta] = e.comps as [any, any]
-          if (meta?.isEnemy && hp?.current <= 0) {
-            reactiveWorld.removeEntity(e.entity)
-          }
-        }
-
-        // ── Player death detection ────────────────────────────────────────
-        const playerHp = reactiveWorld.getComponent(player, COMPONENTS.HEALTH) as any
-        if (playerHp && playerHp.current <= 0 && gamePhaseRef.current === 'playing') {
-          const elapsed = (performance.now() - gameStartTimeRef.current) / 1000
-          setElapsedTime(elapsed)
-          setPhase('dead')
-          running = false
-          return
-        }
-
-        t = performance.now()
-        try {
-          renderSys.update(reactiveWorld, dt, { width: canvasSize.width, height: canvasSize.height }, quad)
-        } catch (err) {
-          console.error('[Frame] Render error:', err)
-        }
-        performanceMonitor.recordSystemTime('render', performance.now() - t)
+        scheduler.tick(dt)
+        if (!running) return
 
         const entityCount = reactiveWorld.query(COMPONENTS.TRANSFORM).length
-        performanceMonitor.endFrame(entityCount, quad.getMetrics())
+        performanceMonitor.endFrame(entityCount, spatialIndex.getMetrics())
 
         if (performanceMonitor.getMetrics().totalFrames % 10 === 0) {
           setPerformanceMetrics(performanceMonitor.getMetrics())
         }
 
-        if (running) requestAnimationFrame(frame)
+        requestAnimationFrame(frame)
       }
 
       requestAnimationFrame(frame)
@@ -365,7 +441,11 @@ const App = () => {
         running = false
         inputSystem.detach()
         canvas.removeEventListener('click', handleCanvasClick)
-        unsubTransform()
+        spatialSync.dispose()
+        triggers.dispose()
+        projectiles.dispose()
+        offDialogStarted()
+        offHintShown()
       }
     } catch (error) {
       console.error('[App] Initialization error:', error)
@@ -440,7 +520,7 @@ const App = () => {
                       const nextNode = getDialogNode(state.treeId, state.currentNodeId)
                       if (nextNode) {
                         setCurrentDialogNode(nextNode)
-                        setQuestFlags((w.getComponent(p, COMPONENTS.QUEST_FLAGS) as Record<string, unknown>) ?? {})
+                        setQuestFlags({ ...w.getResource(QuestFlags) })
                       }
                     }
                   }
@@ -448,11 +528,22 @@ const App = () => {
                 onClose={closeDialog}
               />
             )}
+            <HintBanner
+              key={hint?.id}
+              text={hint?.text ?? null}
+              duration={hint?.duration}
+              onExpire={() => setHint(null)}
+            />
             {ui.controlsVisible && <ControlsOverlay onClose={ui.closeControls} />}
             <DebugOverlay
               metrics={performanceMetrics}
               isVisible={ui.debugOverlayVisible}
               onToggle={ui.toggleDebugOverlay}
+              inspectedEntity={ui.debugOverlayVisible && gameWorld && gamePlayerId != null
+                ? { entity: gamePlayerId, components: componentRegistry.inspect(gameWorld, gamePlayerId) }
+                : undefined}
+              listenerFailures={ui.debugOverlayVisible ? gameWorld?.getListenerFailures() : undefined}
+              seed={gameWorld?.getResource(Random).seed}
             />
           </>
         }
@@ -465,14 +556,17 @@ const App = () => {
                 onSave={(slot, name) => {
                   const w = worldRef.current; const p = playerRef.current; const lm = levelManagerRef.current
                   if (!w || p == null || !lm) return
-                  saveGame(w, p, lm.getCurrentLevel()?.id ?? 'unknown', slot, name)
+                  saveGame(w, p, lm.getCurrentLevel()?.id ?? 'unknown', slot, name, lm.getLevelEntities())
                 }}
                 onLoad={(slot) => {
                   const w = worldRef.current; const lm = levelManagerRef.current
                   if (!w || !lm) return
                   const saveData = loadGame(w, slot)
                   if (saveData) {
-                    lm.transitionToLevel(saveData.levelId, () => {})
+                    // The restored entities already hold the level's saved state; older saves
+                    // without a level entity list adopt every restored entity
+                    lm.setPlayer(saveData.playerData.entityId)
+                    lm.adoptLevel(saveData.levelId, saveData.levelEntities ?? saveData.worldState.entities.map(e => e.id))
                     if (saveData.playerData.entityId !== playerRef.current) {
                       playerRef.current = saveData.playerData.entityId
                       setGamePlayerId(saveData.playerData.entityId)
@@ -501,8 +595,12 @@ const App = () => {
               <button onClick={() => modifyHealth(10)}>Heal +10 (J)</button>
               <button onClick={() => {
                 const w = worldRef.current; const p = playerRef.current
-                if (w && p != null) pickupItem(w as any, p, createItemInstance('potion_health', 1))
+                if (w && p != null) pickupItem(w as any, p, createItemInstance('potion_health', 1, undefined, getRandomStream(w, 'loot').next))
               }}>Pick Up Potion</button>
+              <button onClick={() => {
+                const w = worldRef.current; const p = playerRef.current
+                if (w && p != null) pickupItem(w as any, p, createItemInstance('bow_short', 1, undefined, getRandomStream(w, 'loot').next))
+              }}>Pick Up Bow</button>
             </div>
           </div>
         }
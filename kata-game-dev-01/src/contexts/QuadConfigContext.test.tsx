@@ -143,6 +143,23 @@ describe('QuadConfigContext', () => {
       })
     })
 
+    it('should keep tuning values when selecting the spatial hash backend', async () => {
+      const { result } = renderHook(() => useQuadConfig(), {
+        wrapper: QuadConfigProvider
+      })
+
+      act(() => {
+        result.current.setConfig({ mergeThreshold: 4 })
+      })
+      act(() => {
+        result.current.setConfig({ backend: 'hash', cellSize: 32 })
+      })
+
+      await waitFor(() => {
+        expect(result.current.config).toEqual({ mergeThreshold: 4, backend: 'hash', cellSize: 32 })
+      })
+    })
+
     it('should allow clearing a value by setting to undefined', async () => {
       const { result } = renderHook(() => useQuadConfig(), {
         wrapper: QuadConfigProvider
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import type { SpatialBackend } from '@engine/spatial/SpatialIndex'
 
 /**
  * Persisted Quad Tree configuration
@@ -8,6 +9,8 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
  *
  * @property mergeThreshold - Number of entities below which a quad node merges with parent
  * @property rebalanceInterval - Time in milliseconds between quad tree rebalance operations
+ * @property backend - Spatial index implementation ('quadtree' when unset)
+ * @property cellSize - Cell edge length used by the 'hash' backend
  *
  * @example
  * ```ts
@@ -20,6 +23,8 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
 export type PersistedQuadConfig = {
   mergeThreshold?: number
   rebalanceInterval?: number
+  backend?: SpatialBackend
+  cellSize?: number
 }
 
 /**
@@ -318,6 +318,46 @@ describe('PerformanceMonitor', () => {
       const metrics = monitor.getMetrics()
       expect(metrics.quadTreeStats).toBeUndefined()
     })
+
+    it('should report spatial hash stats without a quad tree view', () => {
+      const monitor = createPerformanceMonitor()
+      const hashStats = { backend: 'hash' as const, cellSize: 64, nodes: 12, items: 30, avgItemsPerNode: 2.5, opCounter: 80 }
+
+      monitor.startFrame()
+      monitor.endFrame(30, hashStats)
+
+      const metrics = monitor.getMetrics()
+      expect(metrics.spatialIndexStats).toEqual(hashStats)
+      expect(metrics.quadTreeStats).toBeUndefined()
+    })
+
+    it('should expose quad tree metrics through both fields', () => {
+      const monitor = createPerformanceMonitor()
+      const quadMetrics = { backend: 'quadtree' as const, nodes: 1, items: 3, avgItemsPerNode: 3, opCounter: 3, splits: 0, merges: 0 }
+
+      monitor.startFrame()
+      monitor.endFrame(3, quadMetrics)
+
+      const metrics = monitor.getMetrics()
+      expect(metrics.spatialIndexStats).toEqual(quadMetrics)
+      expect(metrics.quadTreeStats).toEqual({ ...quadMetrics, avgChildOccupancy: 0 })
+
+      monitor.reset()
+      expect(monitor.getMetrics().spatialIndexStats).toBeUndefined()
+    })
+  })
+
+  describe('Listener Errors', () => {
+    it('should count listener errors until reset', () => {
+      const monitor = createPerformanceMonitor()
+
+      monitor.recordListenerError()
+      monitor.recordListenerError()
+      expect(monitor.getMetrics().listenerErrors).toBe(2)
+
+      monitor.reset()
+      expect(monitor.getMetrics().listenerErrors).toBe(0)
+    })
   })
 
   describe('Memory Usage', () => {
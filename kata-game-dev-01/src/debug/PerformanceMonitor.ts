@@ -2,7 +2,8 @@
  * Performance Monitor
  * 
  * Tracks and reports game performance metrics including FPS,
- * entity count, system timings, memory usage, and QuadTree stats.
+ * entity count, system timings, memory usage, and spatial index stats
+ * (quad tree or spatial hash).
  * 
  * @example
  * ```ts
@@ -12,7 +13,10 @@
  * monitor.startFrame()
  * monitor.recordSystemTime('movement', movementDuration)
  * monitor.recordSystemTime('render', renderDuration)
- * monitor.endFrame(entityCount, quadTreeStats)
+ * monitor.endFrame(entityCount, spatialIndex.getMetrics())
+ * 
+ * // From the world's listener error policy
+ * world.setListenerErrorPolicy(() => monitor.recordListenerError())
  * 
  * // Get metrics
  * const metrics = monitor.getMetrics()
@@ -29,19 +33,32 @@ export interface SystemTiming {
   percentage: number
 }
 
-export interface QuadTreeStats {
-  /** Number of nodes in the tree */
+export interface SpatialIndexStats {
+  /** Backend that produced the stats (quad tree when absent) */
+  backend?: 'quadtree' | 'hash'
+  /** Tree nodes, or occupied cells of a spatial hash */
   nodes: number
-  /** Number of items in the tree */
+  /** Number of items in the index */
   items: number
-  /** Average items per node */
+  /** Average items per node or cell */
   avgItemsPerNode: number
+  /** Insert/update/remove operations counter */
+  opCounter: number
+  /** Number of splits performed (quad tree only) */
+  splits?: number
+  /** Number of merges performed (quad tree only) */
+  merges?: number
+  /** Average child occupancy (quad tree only) */
+  avgChildOccupancy?: number
+  /** Cell edge length (spatial hash only) */
+  cellSize?: number
+}
+
+export interface QuadTreeStats extends SpatialIndexStats {
   /** Number of splits performed */
   splits: number
   /** Number of merges performed */
   merges: number
-  /** Total operations counter */
-  opCounter: number
   /** Average child occupancy */
   avgChildOccupancy: number
 }
@@ -65,10 +82,14 @@ export interface PerformanceMetrics {
   systemTimings: SystemTiming[]
   /** Memory usage in MB (if available) */
   memoryUsage?: number
-  /** QuadTree statistics */
+  /** Spatial index statistics, whichever backend is active */
+  spatialIndexStats?: SpatialIndexStats
+  /** QuadTree statistics (only while the quad tree backend is active) */
   quadTreeStats?: QuadTreeStats
   /** Total frames recorded */
   totalFrames: number
+  /** Component listener errors recorded since the last reset */
+  listenerErrors: number
 }
 
 export interface PerformanceMonitor {
@@ -76,11 +97,14 @@ export interface PerformanceMonitor {
   startFrame: () => void
   
   /** End frame tracking and update metrics */
-  endFrame: (entityCount: number, quadTreeStats?: QuadTreeStats) => void
+  endFrame: (entityCount: number, spatialIndexStats?: SpatialIndexStats) => void
   
   /** Record timing for a system */
   recordSystemTime: (systemName: string, duration: number) => void
   
+  /** Count one component listener error */
+  recordListenerError: () => void
+  
   /** Get current performance metrics */
   getMetrics: () => PerformanceMetrics
   
@@ -91,6 +115,14 @@ export interface PerformanceMonitor {
   getMemoryUsage: () => number | undefined
 }
 
+/**
+ * Quad tree view of spatial index stats; undefined for other backends
+ */
+const toQuadTreeStats = (stats?: SpatialIndexStats): QuadTreeStats | undefined => {
+  if (!stats || (stats.backend ?? 'quadtree') !== 'quadtree') return undefined
+  return { ...stats, splits: stats.splits ?? 0, merges: stats.merges ?? 0, avgChildOccupancy: stats.avgChildOccupancy ?? 0 }
+}
+
 /**
  * Create a performance monitor
  * 
@@ -118,7 +150,8 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
   
   // Current metrics
   let currentEntityCount = 0
-  let currentQuadTreeStats: QuadTreeStats | undefined
+  let currentSpatialStats: SpatialIndexStats | undefined
+  let listenerErrors = 0
   
   /**
    * Start tracking a new frame
@@ -131,7 +164,7 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
   /**
    * End frame tracking and update metrics
    */
-  const endFrame = (entityCount: number, quadTreeStats?: QuadTreeStats) => {
+  const endFrame = (entityCount: number, spatialIndexStats?: SpatialIndexStats) => {
     const frameEndTime = performance.now()
     const frameTime = frameEndTime - frameStartTime
     
@@ -148,7 +181,7 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
     
     // Update metrics
     currentEntityCount = entityCount
-    currentQuadTreeStats = quadTreeStats
+    currentSpatialStats = spatialIndexStats
     lastFrameTime = frameTime
     frameCount++
     totalFrames++
@@ -161,6 +194,13 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
     currentSystemTimings.set(systemName, duration)
   }
   
+  /**
+   * Count one component listener error
+   */
+  const recordListenerError = () => {
+    listenerErrors++
+  }
+  
   /**
    * Get memory usage if available (in MB)
    */
@@ -212,8 +252,10 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
       entityCount: currentEntityCount,
       systemTimings,
       memoryUsage: getMemoryUsage(),
-      quadTreeStats: currentQuadTreeStats,
-      totalFrames
+      spatialIndexStats: currentSpatialStats,
+      quadTreeStats: toQuadTreeStats(currentSpatialStats),
+      totalFrames,
+      listenerErrors
     }
   }
   
@@ -230,13 +272,15 @@ export const createPerformanceMonitor = (sampleSize: number = 60): PerformanceMo
     maxFps = 0
     currentSystemTimings.clear()
     currentEntityCount = 0
-    currentQuadTreeStats = undefined
+    currentSpatialStats = undefined
+    listenerErrors = 0
   }
   
   return {
     startFrame,
     endFrame,
     recordSystemTime,
+    recordListenerError,
     getMetrics,
     reset,
     getMemoryUsage
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World, type ComponentSchema } from './ECS'
+import { ChangeCursor } from './ChangeCursor'
+
+interface TestComponents extends ComponentSchema {
+  position: { x: number; y: number }
+}
+
+describe('ChangeCursor', () => {
+  let world: World<TestComponents>
+
+  beforeEach(() => {
+    world = new World<TestComponents>()
+  })
+
+  it('should not report state that existed before the cursor was created', () => {
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+
+    const cursor = world.createChangeCursor()
+
+    expect(cursor).toBeInstanceOf(ChangeCursor)
+    expect(cursor.changed('position')).toEqual([])
+    expect(cursor.added('position')).toEqual([])
+  })
+
+  it('should report changes since the last advance only', () => {
+    const cursor = world.createChangeCursor()
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+
+    expect(cursor.added('position').map(r => r.entity)).toEqual([entity])
+    expect(cursor.changed('position').map(r => r.entity)).toEqual([entity])
+
+    cursor.advance()
+    expect(cursor.changed('position')).toEqual([])
+
+    world.markChanged(entity, 'position')
+    expect(cursor.changed('position').map(r => r.entity)).toEqual([entity])
+    expect(cursor.added('position')).toEqual([])
+  })
+
+  it('should batch many writes to the same entity into one row', () => {
+    const cursor = world.createChangeCursor()
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+    for (let i = 0; i < 10; i++) world.markChanged(entity, 'position')
+
+    expect(cursor.changed('position')).toHaveLength(1)
+  })
+
+  it('should track cursors independently', () => {
+    const render = world.createChangeCursor()
+    const spatial = world.createChangeCursor()
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+
+    render.advance()
+
+    expect(render.changed('position')).toEqual([])
+    expect(spatial.changed('position')).toHaveLength(1)
+  })
+
+  it('should keep removals until every cursor has consumed them', () => {
+    const fast = world.createChangeCursor()
+    const slow = world.createChangeCursor()
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+    world.removeEntity(entity)
+
+    fast.advance()
+
+    expect(fast.removed('position')).toEqual([])
+    expect(slow.removed('position')).toEqual([entity])
+  })
+
+  it('should expose the tick it reads from', () => {
+    const cursor = world.createChangeCursor()
+    world.addComponent(world.createEntity(), 'position', { x: 0, y: 0 })
+
+    expect(cursor.since).toBeLessThan(world.getChangeTick())
+    cursor.advance()
+    expect(cursor.since).toBe(world.getChangeTick())
+    cursor.dispose()
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Change Cursor
+ *
+ * Remembers the world change tick at which a consumer last read changes,
+ * so a system can ask for "what changed since my last run" once per frame
+ * instead of reacting to every individual component event.
+ *
+ * @example
+ * ```ts
+ * const cursor = world.createChangeCursor()
+ *
+ * // Once per frame
+ * for (const { entity, comps: [t] } of cursor.added(COMPONENTS.TRANSFORM)) quad.insert({ x: t.x, y: t.y, entity })
+ * for (const { entity, comps: [t] } of cursor.changed(COMPONENTS.TRANSFORM)) quad.update(entity, t.x, t.y)
+ * for (const entity of cursor.removed(COMPONENTS.TRANSFORM)) quad.remove(entity)
+ * cursor.advance()
+ * ```
+ */
+
+import type { World, Entity, ComponentKey, ComponentSchema, QueryResult } from './ECS'
+
+/**
+ * Callbacks the owning world uses to maintain its removal log.
+ */
+export interface ChangeCursorHooks {
+  /** Called after the cursor moved to the current tick */
+  onAdvance?: () => void
+  /** Called when the cursor is disposed */
+  onDispose?: () => void
+}
+
+/**
+ * Change Cursor
+ *
+ * Per-consumer view over the world's change ticks.
+ */
+export class ChangeCursor<C extends ComponentSchema = ComponentSchema> {
+  private world: World<C>
+  private hooks: ChangeCursorHooks
+  private lastTick: number
+
+  /**
+   * Create a new change cursor.
+   *
+   * Usually obtained via `world.createChangeCursor()`, which starts at the
+   * current tick so existing state is not reported as changed.
+   *
+   * @param world - World to read changes from
+   * @param hooks - Optional world callbacks
+   */
+  constructor(world: World<C>, hooks: ChangeCursorHooks = {}) {
+    this.world = world
+    this.hooks = hooks
+    this.lastTick = world.getChangeTick()
+  }
+
+  /**
+   * Tick of the last `advance()`; changes after it are reported.
+   */
+  get since(): number {
+    return this.lastTick
+  }
+
+  /**
+   * Entities whose component was added or written since the last advance.
+   *
+   * @param name - Component name or key
+   * @returns Matching entities with the current component value
+   */
+  changed<K extends keyof C | ComponentKey>(name: K): QueryResult<C, [K]>[] {
+    return this.world.queryChanged(name, this.lastTick)
+  }
+
+  /**
+   * Entities that gained the component since the last advance.
+   *
+   * @param name - Component name or key
+   * @returns Matching entities with the current component value
+   */
+  added<K extends keyof C | ComponentKey>(name: K): QueryResult<C, [K]>[] {
+    return this.world.queryAdded(name, this.lastTick)
+  }
+
+  /**
+   * Entities that lost the component since the last advance.
+   *
+   * @param name - Component name or key
+   * @returns Unique entity handles
+   */
+  removed<K extends keyof C | ComponentKey>(name: K): Entity[] {
+    return this.world.queryRemoved(name, this.lastTick)
+  }
+
+  /**
+   * Mark everything up to the current tick as consumed.
+   */
+  advance(): void {
+    this.lastTick = this.world.getChangeTick()
+    this.hooks.onAdvance?.()
+  }
+
+  /**
+   * Stop tracking; the world no longer keeps removal records for this cursor.
+   */
+  dispose(): void {
+    this.hooks.onDispose?.()
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { World, type ComponentSchema, type ComponentEvent } from './ECS'
+import { CommandBuffer } from './CommandBuffer'
+import { EVENT_TYPES } from './constants'
+
+interface TestComponents extends ComponentSchema {
+  position: { x: number; y: number }
+  health: { hp: number }
+}
+
+describe('CommandBuffer', () => {
+  let world: World<TestComponents>
+
+  beforeEach(() => {
+    world = new World<TestComponents>()
+  })
+
+  it('should expose a buffer on every world', () => {
+    expect(world.commands).toBeInstanceOf(CommandBuffer)
+    expect(world.commands.isEmpty()).toBe(true)
+  })
+
+  it('should not touch the world until flushed', () => {
+    const entity = world.createEntity()
+    const callback = vi.fn()
+    world.onComponentEvent(callback)
+
+    world.commands.addComponent(entity, 'position', { x: 1, y: 2 })
+
+    expect(world.getComponent(entity, 'position')).toBeUndefined()
+    expect(callback).not.toHaveBeenCalled()
+    expect(world.commands.size).toBe(1)
+
+    expect(world.flushCommands()).toBe(1)
+    expect(world.getComponent(entity, 'position')).toEqual({ x: 1, y: 2 })
+    expect(callback).toHaveBeenCalledOnce()
+    expect(world.commands.isEmpty()).toBe(true)
+  })
+
+  it('should reserve spawned entities immediately and add components on flush', () => {
+    const entity = world.commands.spawn({ position: { x: 0, y: 0 }, health: { hp: 10 } })
+
+    expect(world.isAlive(entity)).toBe(true)
+    expect(world.query('position')).toHaveLength(0)
+
+    world.flushCommands()
+
+    expect(world.query('position', 'health')).toHaveLength(1)
+    expect(world.query('position', 'health')[0].entity).toBe(entity)
+  })
+
+  it('should allow despawning while iterating a query', () => {
+    for (let i = 0; i < 4; i++) {
+      const e = world.createEntity()
+      world.addComponent(e, 'health', { hp: i % 2 })
+    }
+
+    const seen: number[] = []
+    for (const { entity, comps: [health] } of world.query('health')) {
+      seen.push(entity)
+      if (health.hp === 0) world.commands.despawn(entity)
+    }
+    world.flushCommands()
+
+    expect(seen).toHaveLength(4)
+    expect(world.query('health')).toHaveLength(2)
+  })
+
+  it('should apply commands and emit events in recording order', () => {
+    const entity = world.createEntity()
+    const events: ComponentEvent<TestComponents>[] = []
+    world.onComponentEvent(e => events.push(e))
+
+    world.commands.addComponent(entity, 'position', { x: 0, y: 0 })
+    world.commands.addComponent(entity, 'health', { hp: 5 })
+    world.commands.removeComponent(entity, 'position')
+    world.flushCommands()
+
+    expect(events.map(e => [e.type, e.name])).toEqual([
+      [EVENT_TYPES.ADD, 'position'],
+      [EVENT_TYPES.ADD, 'health'],
+      [EVENT_TYPES.REMOVE, 'position']
+    ])
+  })
+
+  it('should ignore commands for entities despawned earlier in the buffer', () => {
+    const entity = world.createEntity()
+    world.addComponent(entity, 'health', { hp: 1 })
+
+    world.commands.despawn(entity)
+    world.commands.addComponent(entity, 'position', { x: 0, y: 0 })
+    world.flushCommands()
+
+    expect(world.isAlive(entity)).toBe(false)
+    expect(world.query('position')).toHaveLength(0)
+  })
+
+  it('should compose updates from the value at flush time', () => {
+    const entity = world.createEntity()
+    const gone = world.createEntity()
+    world.addComponent(entity, 'health', { hp: 10 })
+
+    world.commands.updateComponent(entity, 'health', h => ({ hp: h.hp - 3 }))
+    world.commands.updateComponent(entity, 'health', h => ({ hp: h.hp - 4 }))
+    world.commands.updateComponent(gone, 'health', h => ({ hp: h.hp - 1 }))
+    expect(world.getComponent(entity, 'health')).toEqual({ hp: 10 })
+
+    world.flushCommands()
+
+    expect(world.getComponent(entity, 'health')).toEqual({ hp: 3 })
+    expect(world.getComponent(gone, 'health')).toBeUndefined()
+  })
+
+  it('should apply commands recorded by listeners during the same flush', () => {
+    const entity = world.createEntity()
+    world.onComponentEventFor('health', (ev) => {
+      if (ev.type === EVENT_TYPES.ADD) world.commands.addComponent(ev.entity, 'position', { x: 9, y: 9 })
+    })
+
+    world.commands.addComponent(entity, 'health', { hp: 1 })
+    expect(world.flushCommands()).toBe(2)
+    expect(world.getComponent(entity, 'position')).toEqual({ x: 9, y: 9 })
+  })
+
+  it('should drop pending commands on clear', () => {
+    const entity = world.createEntity()
+    world.commands.addComponent(entity, 'health', { hp: 1 })
+
+    world.commands.clear()
+
+    expect(world.flushCommands()).toBe(0)
+    expect(world.getComponent(entity, 'health')).toBeUndefined()
+  })
+
+  it('should release entities spawned since the last flush on clear', () => {
+    const flushed = world.commands.spawn({ health: { hp: 1 } })
+    world.flushCommands()
+    const pending = world.commands.spawn({ health: { hp: 2 } })
+
+    world.commands.clear()
+
+    expect(world.isAlive(pending)).toBe(false)
+    expect(world.isAlive(flushed)).toBe(true)
+    expect(world.query('health').map(r => r.entity)).toEqual([flushed])
+  })
+
+  it('should keep pending state until the buffer is flushed or cleared', () => {
+    const key = Symbol('test')
+    world.commands.pending(key, () => new Map<number, number>()).set(1, 5)
+
+    expect(world.commands.pending(key, () => new Map<number, number>()).get(1)).toBe(5)
+
+    world.flushCommands()
+    expect(world.commands.pending(key, () => new Map<number, number>()).size).toBe(0)
+
+    world.commands.pending(key, () => new Map<number, number>()).set(1, 5)
+    world.commands.clear()
+    expect(world.commands.pending(key, () => new Map<number, number>()).size).toBe(0)
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Command Buffer
+ *
+ * Records structural world changes (spawn, add/remove component, despawn)
+ * and component updates computed from the value at flush time
+ * so systems can safely request them while iterating query results.
+ * Recorded commands are applied in recording order when the buffer is
+ * flushed, which the World does at well-defined sync points.
+ *
+ * @example
+ * ```ts
+ * for (const { entity, comps: [health] } of world.query(COMPONENTS.HEALTH)) {
+ *   if (health.current <= 0) world.commands.despawn(entity)
+ * }
+ *
+ * // Sync point: apply everything recorded this frame
+ * world.flushCommands()
+ * ```
+ */
+
+import type { World, Entity, ComponentKey, ComponentSchema, ResolvedKey } from './ECS'
+
+/**
+ * A single recorded structural change.
+ */
+export type Command =
+  | { op: 'add'; entity: Entity; name: string; component: unknown }
+  | { op: 'update'; entity: Entity; name: string; update: (component: never) => unknown }
+  | { op: 'remove'; entity: Entity; name: string }
+  | { op: 'despawn'; entity: Entity }
+
+/**
+ * Initial components for a spawned entity, keyed by component name.
+ */
+export type SpawnComponents<C extends ComponentSchema> = {
+  [K in keyof C]?: C[K]
+}
+
+/**
+ * Upper bound for flush passes; guards against commands that endlessly
+ * record new commands while being applied.
+ */
+const MAX_FLUSH_PASSES = 16
+
+/**
+ * Command Buffer
+ *
+ * Deferred structural changes for a World.
+ */
+export class CommandBuffer<C extends ComponentSchema = ComponentSchema> {
+  private world: World<C>
+  private commands: Command[] = []
+  // Entities reserved by spawn() whose commands have not been flushed yet
+  private reserved = new Set<Entity>()
+  // Bookkeeping derived from the pending commands, dropped with them
+  private pendingState = new Map<unknown, unknown>()
+
+  /**
+   * Create a new command buffer.
+   *
+   * @param world - World the commands are applied to
+   */
+  constructor(world: World<C>) {
+    this.world = world
+  }
+
+  /**
+   * Reserve a new entity and record its initial components.
+   *
+   * The entity handle is allocated immediately so later commands can
+   * reference it, but its components only appear on flush. Clearing the
+   * buffer before that releases the handle again.
+   *
+   * @param components - Optional initial components
+   * @returns Reserved entity handle
+   *
+   * @example
+   * ```ts
+   * const loot = world.commands.spawn({ [COMPONENTS.TRANSFORM]: { x, y } })
+   * world.commands.addComponent(loot, COMPONENTS.ITEM, item)
+   * ```
+   */
+  spawn(components?: SpawnComponents<C>): Entity {
+    const entity = this.world.createEntity()
+    this.reserved.add(entity)
+    if (components) {
+      for (const [name, component] of Object.entries(components)) {
+        this.commands.push({ op: 'add', entity, name, component })
+      }
+    }
+    return entity
+  }
+
+  /**
+   * Record adding (or replacing) a component.
+   *
+   * @param entity - Target entity
+   * @param name - Component name or key
+   * @param component - Component data
+   */
+  addComponent<K extends keyof C | ComponentKey>(entity: Entity, name: K, component: C[ResolvedKey<C, K>]): void {
+    this.commands.push({ op: 'add', entity, name: String(name), component })
+  }
+
+  /**
+   * Record an update computed from the component's value at flush time.
+   *
+   * Unlike `addComponent` with a precomputed value, several updates to the
+   * same component compose: each one sees the result of the previous.
+   * Skipped if the entity no longer has the component when flushed.
+   *
+   * @param entity - Target entity
+   * @param name - Component name or key
+   * @param update - Returns the new component from the current one
+   *
+   * @example
+   * ```ts
+   * world.commands.updateComponent(enemy, COMPONENTS.HEALTH, h => ({ ...h, current: h.current - 5 }))
+   * ```
+   */
+  updateComponent<K extends keyof C | ComponentKey>(
+    entity: Entity,
+    name: K,
+    update: (component: C[ResolvedKey<C, K>]) => C[ResolvedKey<C, K>]
+  ): void {
+    this.commands.push({ op: 'update', entity, name: String(name), update })
+  }
+
+  /**
+   * Record removing a component.
+   *
+   * @param entity - Target entity
+   * @param name - Component name or key
+   */
+  removeComponent<K extends keyof C | ComponentKey>(entity: Entity, name: K): void {
+    this.commands.push({ op: 'remove', entity, name: String(name) })
+  }
+
+  /**
+   * Record removing an entity and all its components.
+   *
+   * @param entity - Entity to remove
+   */
+  despawn(entity: Entity): void {
+    this.commands.push({ op: 'despawn', entity })
+  }
+
+  /**
+   * State kept alongside the pending commands, such as a running total of
+   * what they will change.
+   *
+   * The value is created on first access and dropped when the buffer is
+   * flushed or cleared, so it never outlives the commands it describes.
+   *
+   * @param key - Owner key, usually a module-private symbol
+   * @param create - Creates the initial value
+   * @returns The value stored under the key
+   *
+   * @example
+   * ```ts
+   * const pending = world.commands.pending(PENDING_DAMAGE, () => new Map<Entity, number>())
+   * pending.set(enemy, (pending.get(enemy) ?? 0) + damage)
+   * ```
+   */
+  pending<T>(key: unknown, create: () => T): T {
+    if (!this.pendingState.has(key)) this.pendingState.set(key, create())
+    // Each key is only ever created by its owner's factory
+    return this.pendingState.get(key) as T
+  }
+
+  /**
+   * Number of commands waiting to be applied.
+   */
+  get size(): number {
+    return this.commands.length
+  }
+
+  /**
+   * Check if no commands are pending.
+   */
+  isEmpty(): boolean {
+    return this.commands.length === 0
+  }
+
+  /**
+   * Apply all recorded commands in recording order.
+   *
+   * Commands recorded by listeners while flushing are applied in follow-up
+   * passes of the same flush. Commands targeting entities that were
+   * despawned earlier in the buffer are ignored by the World. State kept
+   * through `pending` is dropped afterwards.
+   *
+   * @returns Number of commands applied
+   */
+  flush(): number {
+    let applied = 0
+    for (let pass = 0; pass < MAX_FLUSH_PASSES && this.commands.length > 0; pass++) {
+      const batch = this.commands
+      this.commands = []
+      // Entities spawned so far get their components in this pass
+      this.reserved.clear()
+      for (const cmd of batch) {
+        this.apply(cmd)
+        applied++
+      }
+    }
+    if (this.commands.length > 0) {
+      console.warn(`[CommandBuffer] ${this.commands.length} commands left after ${MAX_FLUSH_PASSES} flush passes`)
+    }
+    this.pendingState.clear()
+    return applied
+  }
+
+  /**
+   * Drop all pending commands without applying them.
+   *
+   * Entities reserved by `spawn` since the last flush are removed, and
+   * state kept through `pending` is dropped.
+   */
+  clear(): void {
+    this.commands = []
+    this.pendingState.clear()
+    for (const entity of this.reserved) this.world.removeEntity(entity)
+    this.reserved.clear()
+  }
+
+  /**
+   * Apply a single command to the world.
+   */
+  private apply(cmd: Command): void {
+    const world = this.world as World<ComponentSchema>
+    switch (cmd.op) {
+      case 'add':
+        world.addComponent(cmd.entity, cmd.name, cmd.component)
+        break
+      case 'update': {
+        const current = world.getComponent(cmd.entity, cmd.name)
+        // The update was recorded for this component's type
+        if (current !== undefined) world.addComponent(cmd.entity, cmd.name, (cmd.update as (component: unknown) => unknown)(current))
+        break
+      }
+      case 'remove':
+        world.removeComponent(cmd.entity, cmd.name)
+        break
+      case 'despawn':
+        world.removeEntity(cmd.entity)
+        break
+    }
+  }
+}
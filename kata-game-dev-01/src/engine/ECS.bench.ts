@@ -0,0 +1,77 @@
+/**
+ * World query benchmarks
+ *
+ * Compares archetype queries (cached and rebuilt after a structural change)
+ * against the map-per-component probing the World used before archetypes.
+ * Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest'
+import { World, type ComponentSchema } from '@engine/ECS'
+
+interface BenchComponents extends ComponentSchema {
+  position: { x: number; y: number }
+  velocity: { dx: number; dy: number }
+  health: { hp: number; maxHp: number }
+}
+
+const ENTITY_COUNT = 10_000
+
+// Same population in the World and in one Map per component
+const world = new World<BenchComponents>()
+const maps = new Map<string, Map<number, unknown>>([
+  ['position', new Map()],
+  ['velocity', new Map()],
+  ['health', new Map()]
+])
+for (let i = 0; i < ENTITY_COUNT; i++) {
+  const entity = world.createEntity()
+  const position = { x: i, y: i }
+  world.addComponent(entity, 'position', position)
+  maps.get('position')!.set(entity, position)
+  if (i % 2 === 0) {
+    const velocity = { dx: 1, dy: 1 }
+    world.addComponent(entity, 'velocity', velocity)
+    maps.get('velocity')!.set(entity, velocity)
+  }
+  if (i % 3 === 0) {
+    const health = { hp: 10, maxHp: 10 }
+    world.addComponent(entity, 'health', health)
+    maps.get('health')!.set(entity, health)
+  }
+}
+
+// Baseline: walk the first component's map and probe every other map per entity
+const mapProbingQuery = (...names: string[]) => {
+  const result: { entity: number; comps: unknown[] }[] = []
+  for (const [entity] of maps.get(names[0])!) {
+    const comps: unknown[] = []
+    let ok = true
+    for (const n of names) {
+      const map = maps.get(n)!
+      if (!map.has(entity)) { ok = false; break }
+      comps.push(map.get(entity))
+    }
+    if (ok) result.push({ entity, comps })
+  }
+  return result
+}
+
+// Toggled on and off to invalidate the cached query before each rebuild
+const churn = world.createEntity()
+
+describe(`query('position', 'velocity', 'health') at ${ENTITY_COUNT} entities`, () => {
+  bench('archetype query (cached)', () => {
+    world.query('position', 'velocity', 'health')
+  })
+
+  bench('archetype query (rebuilt after a structural change)', () => {
+    world.addComponent(churn, 'health', { hp: 1, maxHp: 1 })
+    world.removeComponent(churn, 'health')
+    world.query('position', 'velocity', 'health')
+  })
+
+  bench('map-probing baseline', () => {
+    mapProbingQuery('position', 'velocity', 'health')
+  })
+})
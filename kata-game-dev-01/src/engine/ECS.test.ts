@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { World, type ComponentSchema, type ComponentEvent } from '@engine/ECS'
+import { World, ENTITY_INDEX_BITS, entityIndex, entityGeneration, makeEntity, type ComponentSchema, type ComponentEvent } from '@engine/ECS'
 import { EVENT_TYPES } from '@engine/constants'
+import { defineResource, Time } from '@engine/Resources'
+import { ListenerError } from '@engine/ListenerError'
 
 // Test component schema
 interface TestComponents extends ComponentSchema {
@@ -39,6 +41,94 @@ describe('World', () => {
     })
   })
 
+  describe('generational entity IDs', () => {
+    it('should report created entities as alive', () => {
+      const entity = world.createEntity()
+      expect(world.isAlive(entity)).toBe(true)
+    })
+
+    it('should report removed entities as dead', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+
+      world.removeEntity(entity)
+
+      expect(world.isAlive(entity)).toBe(false)
+    })
+
+    it('should recycle a released slot with a bumped generation', () => {
+      const first = world.createEntity()
+      world.removeEntity(first)
+
+      const second = world.createEntity()
+
+      expect(second).not.toBe(first)
+      expect(entityIndex(second)).toBe(entityIndex(first))
+      expect(entityGeneration(second)).toBe(entityGeneration(first) + 1)
+      expect(world.isAlive(first)).toBe(false)
+      expect(world.isAlive(second)).toBe(true)
+    })
+
+    it('should not let a stale handle touch the recycled entity', () => {
+      const stale = world.createEntity()
+      world.removeEntity(stale)
+      const current = world.createEntity()
+      world.addComponent(current, 'position', { x: 1, y: 1 })
+
+      world.addComponent(stale, 'position', { x: 99, y: 99 })
+      world.removeEntity(stale)
+
+      expect(world.getComponent(stale, 'position')).toBeUndefined()
+      expect(world.getComponent(current, 'position')).toEqual({ x: 1, y: 1 })
+      expect(world.isAlive(current)).toBe(true)
+    })
+
+    it('should throw instead of aliasing handles once the slot indices run out', () => {
+      // Jump the allocator to the last index rather than creating a million entities
+      const last = 2 ** ENTITY_INDEX_BITS - 1
+      world.applyPatch({ spawn: [], despawn: [], set: [], remove: [], allocator: { nextIndex: last, generations: [], free: [] } })
+
+      const final = world.createEntity()
+      expect(entityIndex(final)).toBe(last)
+      expect(entityGeneration(final)).toBe(0)
+      expect(() => world.createEntity()).toThrow(/Out of entity slots/)
+
+      // Released slots can still be recycled
+      world.removeEntity(final)
+      expect(entityIndex(world.createEntity())).toBe(last)
+    })
+
+    it('should only allocate fresh slots once the free list is empty', () => {
+      const a = world.createEntity()
+      world.createEntity()
+      world.removeEntity(a)
+
+      const reused = world.createEntity()
+      const fresh = world.createEntity()
+
+      expect(entityIndex(reused)).toBe(entityIndex(a))
+      expect(fresh).toBe(3)
+    })
+
+    it('should accept handles restored from elsewhere when adding components', () => {
+      const restored = makeEntity(10, 3)
+
+      world.addComponent(restored, 'position', { x: 5, y: 5 })
+
+      expect(world.isAlive(restored)).toBe(true)
+      expect(world.getComponent(restored, 'position')).toEqual({ x: 5, y: 5 })
+      const created = new Set(Array.from({ length: 12 }, () => world.createEntity()))
+      expect(created.has(restored)).toBe(false)
+    })
+
+    it('should round-trip index and generation through makeEntity', () => {
+      const entity = makeEntity(42, 7)
+      expect(entityIndex(entity)).toBe(42)
+      expect(entityGeneration(entity)).toBe(7)
+      expect(makeEntity(1, 0)).toBe(1)
+    })
+  })
+
   describe('getTime and updateTime', () => {
     it('should initialize with elapsed time 0', () => {
       expect(world.getTime()).toBe(0)
@@ -287,6 +377,443 @@ describe('World', () => {
     })
   })
 
+  describe('query caching', () => {
+    it('should return the cached result when nothing structural changed', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+
+      const first = world.query('position')
+      const second = world.query('position')
+
+      expect(second).toBe(first)
+    })
+
+    it('should rebuild into a new array after a component is added', () => {
+      const e1 = world.createEntity()
+      world.addComponent(e1, 'position', { x: 0, y: 0 })
+      const before = world.query('position')
+
+      const e2 = world.createEntity()
+      world.addComponent(e2, 'position', { x: 1, y: 1 })
+      const after = world.query('position')
+
+      expect(after).not.toBe(before)
+      expect(before).toHaveLength(1)
+      expect(after.map(r => r.entity)).toEqual([e1, e2])
+    })
+
+    it('should invalidate when a component is removed', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+      world.addComponent(entity, 'velocity', { dx: 1, dy: 1 })
+      expect(world.query('position', 'velocity')).toHaveLength(1)
+
+      world.removeComponent(entity, 'velocity')
+
+      expect(world.query('position', 'velocity')).toHaveLength(0)
+      expect(world.query('position')).toHaveLength(1)
+      expect(world.getComponent(entity, 'position')).toEqual({ x: 0, y: 0 })
+    })
+
+    it('should patch cached rows when a component value is replaced', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+      const cached = world.query('position')
+
+      world.addComponent(entity, 'position', { x: 5, y: 6 })
+      const result = world.query('position')
+
+      expect(result).toBe(cached)
+      expect(result[0].comps[0]).toEqual({ x: 5, y: 6 })
+    })
+
+    it('should pick up entities whose archetype was created after the query', () => {
+      const e1 = world.createEntity()
+      world.addComponent(e1, 'position', { x: 0, y: 0 })
+      expect(world.query('position')).toHaveLength(1)
+
+      const e2 = world.createEntity()
+      world.addComponent(e2, 'health', { hp: 1, maxHp: 1 })
+      world.addComponent(e2, 'position', { x: 1, y: 1 })
+
+      const entities = world.query('position').map(r => r.entity)
+      expect(entities).toHaveLength(2)
+      expect(entities).toContain(e2)
+    })
+
+    it('should allow removing entities while iterating a query result', () => {
+      for (let i = 0; i < 5; i++) {
+        world.addComponent(world.createEntity(), 'position', { x: i, y: i })
+      }
+
+      for (const { entity } of world.query('position')) {
+        world.removeEntity(entity)
+      }
+
+      expect(world.query('position')).toHaveLength(0)
+      expect(world.getAllEntities()).toHaveLength(0)
+    })
+
+    it('should keep other rows intact after a swap-remove', () => {
+      const entities = [world.createEntity(), world.createEntity(), world.createEntity()]
+      entities.forEach((e, i) => world.addComponent(e, 'position', { x: i, y: i }))
+
+      world.removeEntity(entities[0])
+
+      expect(world.getComponent(entities[1], 'position')).toEqual({ x: 1, y: 1 })
+      expect(world.getComponent(entities[2], 'position')).toEqual({ x: 2, y: 2 })
+      expect(world.getComponent(entities[0], 'position')).toBeUndefined()
+    })
+
+    it('should match map-probing queries at 10k entities, cached and after structural changes', () => {
+      const ENTITY_COUNT = 10_000
+
+      // Reference: one Map per component, probe every map per entity
+      const maps = new Map<string, Map<number, unknown>>([
+        ['position', new Map()],
+        ['velocity', new Map()],
+        ['health', new Map()]
+      ])
+      const naiveQuery = (...names: string[]) => {
+        const result: { entity: number; comps: unknown[] }[] = []
+        for (const [entity] of maps.get(names[0])!) {
+          const comps: unknown[] = []
+          let ok = true
+          for (const n of names) {
+            const map = maps.get(n)!
+            if (!map.has(entity)) { ok = false; break }
+            comps.push(map.get(entity))
+          }
+          if (ok) result.push({ entity, comps })
+        }
+        return result
+      }
+      const sorted = (rows: { entity: number; comps: unknown[] }[]) =>
+        rows.map(({ entity, comps }) => ({ entity, comps: [...comps] })).sort((a, b) => a.entity - b.entity)
+
+      const entities: number[] = []
+      for (let i = 0; i < ENTITY_COUNT; i++) {
+        const entity = world.createEntity()
+        entities.push(entity)
+        const position = { x: i, y: i }
+        world.addComponent(entity, 'position', position)
+        maps.get('position')!.set(entity, position)
+        if (i % 2 === 0) {
+          const velocity = { dx: 1, dy: 1 }
+          world.addComponent(entity, 'velocity', velocity)
+          maps.get('velocity')!.set(entity, velocity)
+        }
+        if (i % 3 === 0) {
+          const health = { hp: 10, maxHp: 10 }
+          world.addComponent(entity, 'health', health)
+          maps.get('health')!.set(entity, health)
+        }
+      }
+
+      expect(sorted(world.query('position', 'velocity'))).toEqual(sorted(naiveQuery('position', 'velocity')))
+      // Cached result
+      expect(sorted(world.query('position', 'velocity'))).toEqual(sorted(naiveQuery('position', 'velocity')))
+
+      // Structural changes invalidate the cache; the rebuilt result must follow them
+      for (let i = 0; i < 50; i++) {
+        const entity = entities[i * 7]
+        const velocity = maps.get('velocity')!
+        if (velocity.has(entity)) {
+          world.removeComponent(entity, 'velocity')
+          velocity.delete(entity)
+        } else {
+          const added = { dx: 2, dy: 2 }
+          world.addComponent(entity, 'velocity', added)
+          velocity.set(entity, added)
+        }
+        expect(world.query('position', 'velocity')).toHaveLength(naiveQuery('position', 'velocity').length)
+      }
+      expect(sorted(world.query('position', 'velocity', 'health'))).toEqual(sorted(naiveQuery('position', 'velocity', 'health')))
+      expect(sorted(world.query('position', 'velocity'))).toEqual(sorted(naiveQuery('position', 'velocity')))
+    })
+  })
+
+  describe('filtered queries', () => {
+    let tagged: World<TestComponents & { tag: Record<string, never> }>
+
+    beforeEach(() => {
+      tagged = new World()
+    })
+
+    it('should exclude entities with a without component', () => {
+      const a = tagged.createEntity()
+      const b = tagged.createEntity()
+      tagged.addComponent(a, 'position', { x: 0, y: 0 })
+      tagged.addComponent(b, 'position', { x: 1, y: 1 })
+      tagged.addComponent(b, 'tag', {})
+
+      const results = tagged.queryFiltered({ with: ['position'], without: ['tag'] })
+
+      expect(results.map(r => r.entity)).toEqual([a])
+    })
+
+    it('should return undefined for missing optional components', () => {
+      const a = tagged.createEntity()
+      const b = tagged.createEntity()
+      tagged.addComponent(a, 'position', { x: 0, y: 0 })
+      tagged.addComponent(b, 'position', { x: 1, y: 1 })
+      tagged.addComponent(b, 'health', { hp: 5, maxHp: 5 })
+
+      const results = tagged.queryFiltered({ with: ['position'], optional: ['health'] })
+      const byEntity = new Map(results.map(r => [r.entity, r.comps]))
+
+      expect(byEntity.get(a)).toEqual([{ x: 0, y: 0 }, undefined])
+      expect(byEntity.get(b)).toEqual([{ x: 1, y: 1 }, { hp: 5, maxHp: 5 }])
+    })
+
+    it('should re-evaluate exclusions when components change', () => {
+      const entity = tagged.createEntity()
+      tagged.addComponent(entity, 'position', { x: 0, y: 0 })
+      expect(tagged.queryFiltered({ with: ['position'], without: ['tag'] })).toHaveLength(1)
+
+      tagged.addComponent(entity, 'tag', {})
+      expect(tagged.queryFiltered({ with: ['position'], without: ['tag'] })).toHaveLength(0)
+
+      tagged.removeComponent(entity, 'tag')
+      expect(tagged.queryFiltered({ with: ['position'], without: ['tag'] })).toHaveLength(1)
+    })
+
+    it('should patch optional values in cached results', () => {
+      const entity = tagged.createEntity()
+      tagged.addComponent(entity, 'position', { x: 0, y: 0 })
+      tagged.addComponent(entity, 'health', { hp: 5, maxHp: 5 })
+      tagged.queryFiltered({ with: ['position'], optional: ['health'] })
+
+      tagged.addComponent(entity, 'health', { hp: 1, maxHp: 5 })
+
+      expect(tagged.queryFiltered({ with: ['position'], optional: ['health'] })[0].comps[1]).toEqual({ hp: 1, maxHp: 5 })
+    })
+
+    it('should return empty array without required components', () => {
+      tagged.addComponent(tagged.createEntity(), 'position', { x: 0, y: 0 })
+      expect(tagged.queryFiltered({ with: [], optional: ['position'] })).toEqual([])
+    })
+
+    it('should build the same query fluently', () => {
+      const a = tagged.createEntity()
+      const b = tagged.createEntity()
+      tagged.addComponent(a, 'position', { x: 0, y: 0 })
+      tagged.addComponent(a, 'velocity', { dx: 1, dy: 1 })
+      tagged.addComponent(b, 'position', { x: 1, y: 1 })
+      tagged.addComponent(b, 'tag', {})
+
+      const builder = tagged.queryBuilder().with('position').without('tag').optional('velocity')
+      const results = builder.run()
+
+      expect(results).toHaveLength(1)
+      const [position, velocity] = results[0].comps
+      expect(position.x).toBe(0)
+      expect(velocity?.dx).toBe(1)
+      expect(builder.toFilter()).toEqual({ with: ['position'], without: ['tag'], optional: ['velocity'] })
+      expect(results).toBe(tagged.queryFiltered(builder.toFilter()))
+    })
+
+    it('should not mutate the builder when adding clauses', () => {
+      const base = tagged.queryBuilder().with('position')
+      base.without('tag')
+
+      expect(base.toFilter().without).toEqual([])
+    })
+  })
+
+  describe('change detection', () => {
+    it('should report added components after a tick', () => {
+      const before = world.getChangeTick()
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 1, y: 2 })
+
+      expect(world.queryAdded('position', before)).toEqual([{ entity, comps: [{ x: 1, y: 2 }] }])
+      expect(world.queryAdded('position', world.getChangeTick())).toEqual([])
+    })
+
+    it('should report in-place writes marked with markChanged without emitting events', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+      const callback = vi.fn()
+      world.onComponentEvent(callback)
+      const since = world.getChangeTick()
+
+      const position = world.getComponent(entity, 'position')!
+      position.x = 10
+      expect(world.markChanged(entity, 'position')).toBe(true)
+
+      expect(callback).not.toHaveBeenCalled()
+      expect(world.queryChanged('position', since).map(r => r.entity)).toEqual([entity])
+      expect(world.queryAdded('position', since)).toEqual([])
+    })
+
+    it('should count replaced components and markComponentUpdated as changes', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      world.addComponent(b, 'position', { x: 0, y: 0 })
+      const since = world.getChangeTick()
+
+      world.addComponent(a, 'position', { x: 1, y: 1 })
+      world.markComponentUpdated(b, 'position')
+
+      expect(world.queryChanged('position', since).map(r => r.entity).sort()).toEqual([a, b])
+    })
+
+    it('should keep change ticks when an entity moves between archetypes', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+      const since = world.getChangeTick()
+
+      world.addComponent(entity, 'velocity', { dx: 1, dy: 1 })
+
+      expect(world.queryChanged('position', since)).toEqual([])
+      expect(world.queryChanged('velocity', since).map(r => r.entity)).toEqual([entity])
+    })
+
+    it('should report removed components and removed entities', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      world.addComponent(b, 'position', { x: 0, y: 0 })
+      world.addComponent(b, 'health', { hp: 1, maxHp: 1 })
+      const since = world.getChangeTick()
+
+      world.removeComponent(a, 'position')
+      world.removeEntity(b)
+
+      expect(world.queryRemoved('position', since)).toEqual([a, b])
+      expect(world.queryRemoved('health', since)).toEqual([b])
+      expect(world.queryRemoved('position', world.getChangeTick())).toEqual([])
+    })
+
+    it('should return false when marking a missing component', () => {
+      const entity = world.createEntity()
+      expect(world.markChanged(entity, 'position')).toBe(false)
+    })
+  })
+
+  describe('resources', () => {
+    const Score = defineResource('Score', () => ({ points: 0 }))
+    const Cursor = defineResource('Cursor', () => ({ x: 0, y: 0 }), { persistent: false })
+
+    it('should create the default value on first read', () => {
+      expect(world.hasResource(Score)).toBe(false)
+
+      world.getResource(Score).points += 5
+
+      expect(world.hasResource(Score)).toBe(true)
+      expect(world.getResource(Score)).toEqual({ points: 5 })
+    })
+
+    it('should replace values with setResource and reset on remove', () => {
+      world.setResource(Score, { points: 42 })
+      expect(world.getResource(Score).points).toBe(42)
+
+      expect(world.removeResource(Score)).toBe(true)
+      expect(world.getResource(Score).points).toBe(0)
+    })
+
+    it('should keep elapsed time in the Time resource', () => {
+      world.updateTime(0.5)
+      world.updateTime(0.25)
+
+      expect(world.getTime()).toBe(0.75)
+      expect(world.getResource(Time)).toEqual({ elapsed: 0.75, delta: 0.25, frame: 2 })
+    })
+
+    it('should serialize persistent resources only and restore them', () => {
+      world.setResource(Score, { points: 3 })
+      world.setResource(Cursor, { x: 1, y: 2 })
+
+      const data = JSON.parse(JSON.stringify(world.serializeResources()))
+      expect(data).toEqual({ Score: { points: 3 } })
+
+      const other = new World()
+      other.restoreResources(data)
+      expect(other.getResource(Score)).toEqual({ points: 3 })
+    })
+  })
+
+  describe('hierarchy', () => {
+    it('should link children to parents', () => {
+      const parent = world.createEntity()
+      const a = world.createEntity()
+      const b = world.createEntity()
+
+      expect(world.setParent(a, parent)).toBe(true)
+      expect(world.setParent(b, parent)).toBe(true)
+
+      expect(world.getChildren(parent)).toEqual([a, b])
+      expect(world.getParent(a)).toBe(parent)
+      expect(world.getParent(parent)).toBeUndefined()
+    })
+
+    it('should move a child between parents', () => {
+      const p1 = world.createEntity()
+      const p2 = world.createEntity()
+      const child = world.createEntity()
+      world.setParent(child, p1)
+
+      world.setParent(child, p2)
+
+      expect(world.getChildren(p1)).toEqual([])
+      expect(world.getChildren(p2)).toEqual([child])
+    })
+
+    it('should detach when parent is undefined', () => {
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      world.setParent(child, parent)
+
+      world.setParent(child, undefined)
+
+      expect(world.getChildren(parent)).toEqual([])
+      expect(world.getParent(child)).toBeUndefined()
+    })
+
+    it('should reject cycles and dead entities', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      world.setParent(b, a)
+
+      expect(world.setParent(a, b)).toBe(false)
+      expect(world.setParent(a, a)).toBe(false)
+
+      const dead = world.createEntity()
+      world.removeEntity(dead)
+      expect(world.setParent(a, dead)).toBe(false)
+    })
+
+    it('should remove children recursively with their parent', () => {
+      const root = world.createEntity()
+      world.addComponent(root, 'position', { x: 0, y: 0 })
+      const child = world.createEntity()
+      const grandchild = world.createEntity()
+      world.addComponent(grandchild, 'position', { x: 1, y: 1 })
+      world.setParent(child, root)
+      world.setParent(grandchild, child)
+
+      world.removeEntity(root)
+
+      expect(world.isAlive(root)).toBe(false)
+      expect(world.isAlive(child)).toBe(false)
+      expect(world.isAlive(grandchild)).toBe(false)
+      expect(world.query('position')).toHaveLength(0)
+    })
+
+    it('should unlink a removed child from its parent', () => {
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      world.setParent(child, parent)
+
+      world.removeEntity(child)
+
+      expect(world.getChildren(parent)).toEqual([])
+      expect(world.isAlive(parent)).toBe(true)
+    })
+  })
+
   describe('onComponentEvent', () => {
     it('should call callback on any component event', () => {
       const callback = vi.fn()
@@ -354,6 +881,136 @@ describe('World', () => {
     })
   })
 
+  describe('listener error policy', () => {
+    const failing = () => { throw new Error('boom') }
+
+    it('should log by default and count failures per listener', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      world.onComponentEvent(function syncMinimap() { throw new Error('boom') })
+      const entity = world.createEntity()
+
+      world.addComponent(entity, 'position', { x: 0, y: 0 })
+      world.addComponent(entity, 'velocity', { dx: 1, dy: 0 })
+
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(2)
+      expect(world.getListenerErrorCount()).toBe(2)
+      expect(world.getListenerFailures()).toEqual([
+        { listener: 'syncMinimap', count: 2, component: 'velocity', message: 'boom' },
+      ])
+      consoleErrorSpy.mockRestore()
+    })
+
+    it('should rethrow with the event, entity and component under the throw policy', () => {
+      world.setListenerErrorPolicy('throw')
+      const later = vi.fn()
+      world.onComponentEvent(failing)
+      world.onComponentEvent(later)
+      const entity = world.createEntity()
+
+      let caught: unknown
+      try {
+        world.addComponent(entity, 'position', { x: 1, y: 2 })
+      } catch (e) {
+        caught = e
+      }
+
+      expect(caught).toBeInstanceOf(ListenerError)
+      const error = caught as ListenerError
+      expect(error.entity).toBe(entity)
+      expect(error.component).toBe('position')
+      expect(error.listener).toBe('failing')
+      expect(error.event).toMatchObject({ type: 'add', entity, name: 'position' })
+      expect((error.cause as Error).message).toBe('boom')
+      expect(later).not.toHaveBeenCalled()
+    })
+
+    it('should pass errors to a custom handler and continue', () => {
+      const handler = vi.fn()
+      const later = vi.fn()
+      world.setListenerErrorPolicy(handler)
+      world.onComponentEvent(failing)
+      world.onComponentEvent(later)
+
+      world.addComponent(world.createEntity(), 'position', { x: 0, y: 0 })
+
+      expect(handler).toHaveBeenCalledWith(expect.any(ListenerError))
+      expect(later).toHaveBeenCalled()
+    })
+
+    it('should stay silent under the swallow policy but still count', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      world.setListenerErrorPolicy('swallow')
+      world.onComponentEvent(failing)
+
+      world.addComponent(world.createEntity(), 'position', { x: 0, y: 0 })
+
+      expect(consoleErrorSpy).not.toHaveBeenCalled()
+      expect(world.getListenerErrorCount()).toBe(1)
+      consoleErrorSpy.mockRestore()
+    })
+
+    it('should name the callback of a filtered listener, not its wrapper', () => {
+      world.setListenerErrorPolicy('swallow')
+      world.onComponentEventFor('position', function syncMinimap() { throw new Error('boom') })
+
+      world.addComponent(world.createEntity(), 'position', { x: 0, y: 0 })
+
+      expect(world.getListenerFailures()).toEqual([
+        { listener: 'syncMinimap', count: 1, component: 'position', message: 'boom' },
+      ])
+    })
+
+    it('should rethrow a filtered listener error once under the throw policy', () => {
+      world.setListenerErrorPolicy('throw')
+      world.onComponentEventFor('position', function syncMinimap() { throw new Error('boom') })
+
+      expect(() => world.addComponent(world.createEntity(), 'position', { x: 0, y: 0 }))
+        .toThrow(ListenerError)
+      expect(world.getListenerErrorCount()).toBe(1)
+    })
+
+    it('should apply the policy to gameplay event handlers', () => {
+      world.setListenerErrorPolicy('throw')
+      const later = vi.fn()
+      world.on('LevelUnloaded', function playOutro() { throw new Error('boom') })
+      world.on('LevelUnloaded', later)
+
+      let caught: unknown
+      try {
+        world.emit('LevelUnloaded', { levelId: 'forest' })
+      } catch (e) {
+        caught = e
+      }
+
+      expect(caught).toBeInstanceOf(ListenerError)
+      const error = caught as ListenerError
+      expect(error.listener).toBe('playOutro')
+      expect(error.component).toBe('LevelUnloaded')
+      expect(error.entity).toBeUndefined()
+      expect(error.event).toEqual({ type: 'LevelUnloaded', payload: { levelId: 'forest' } })
+      expect(later).not.toHaveBeenCalled()
+      expect(world.getListenerErrorCount()).toBe(1)
+    })
+
+    it('should count failing gameplay handlers, including once handlers, by name', () => {
+      world.setListenerErrorPolicy('swallow')
+      const later = vi.fn()
+      world.on('LevelUnloaded', function playOutro() { throw new Error('boom') })
+      world.events.once('LevelUnloaded', function fadeOut() { throw new Error('dark') })
+      world.on('LevelUnloaded', later)
+
+      world.emit('LevelUnloaded', { levelId: 'forest' })
+      world.emit('LevelUnloaded', { levelId: 'cave' })
+
+      expect(later).toHaveBeenCalledTimes(2)
+      expect(world.getListenerErrorCount()).toBe(3)
+      expect(world.getListenerFailures()).toEqual([
+        { listener: 'playOutro', count: 2, component: 'LevelUnloaded', message: 'boom' },
+        { listener: 'fadeOut', count: 1, component: 'LevelUnloaded', message: 'dark' },
+      ])
+    })
+  })
+
   describe('onComponentEventFor', () => {
     it('should call callback only for specific component', () => {
       const callback = vi.fn()
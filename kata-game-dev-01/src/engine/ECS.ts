@@ -1,5 +1,16 @@
 import type {ComponentKey, EventType} from '@engine/constants'
-import {EVENT_TYPES} from '@engine/constants'
+import {COMPONENTS, EVENT_TYPES} from '@engine/constants'
+import {CommandBuffer} from './CommandBuffer'
+import {QueryBuilder} from './QueryBuilder'
+import {ChangeCursor} from './ChangeCursor'
+import {QueryObserver, type QueryObserverHandlers} from './QueryObserver'
+import {EventBus, type EventHandler} from './EventBus'
+import type {GameEventMap} from './GameEvents'
+import {Time, type ResourceType, type SerializedResources} from './Resources'
+import type {ComponentRegistry} from './componentRegistry'
+import {deepFreeze, diff, type SnapshotEntity, type WorldPatch, type WorldSnapshot} from './WorldSnapshot'
+import {cloneValue} from './utils/serialization'
+import {ListenerError, listenerName, type GameEventDelivery, type ListenerErrorPolicy, type ListenerFailure} from './ListenerError'
 
 /**
  * Entity type
@@ -11,6 +22,44 @@ import {EVENT_TYPES} from '@engine/constants'
  */
 export type Entity = number
 
+/**
+ * Entity handles pack a slot index (low bits) and a generation (high bits)
+ * into a single number. The generation starts at 0, so the first handles are
+ * plain 1, 2, 3... and only recycled slots carry a non-zero generation.
+ */
+export const ENTITY_INDEX_BITS = 20
+const ENTITY_INDEX_RANGE = 2 ** ENTITY_INDEX_BITS
+
+/**
+ * Get the slot index of an entity handle
+ * @param entity Entity handle
+ * @returns Slot index
+ * @example
+ * ```ts
+ * entityIndex(makeEntity(5, 2)) // 5
+ * ```
+ */
+export const entityIndex = (entity: Entity): number => entity % ENTITY_INDEX_RANGE
+
+/**
+ * Get the generation of an entity handle
+ * @param entity Entity handle
+ * @returns Generation counter
+ * @example
+ * ```ts
+ * entityGeneration(makeEntity(5, 2)) // 2
+ * ```
+ */
+export const entityGeneration = (entity: Entity): number => Math.floor(entity / ENTITY_INDEX_RANGE)
+
+/**
+ * Pack a slot index and generation into an entity handle
+ * @param index Slot index
+ * @param generation Generation counter
+ * @returns Entity handle
+ */
+export const makeEntity = (index: number, generation: number): Entity => generation * ENTITY_INDEX_RANGE + index
+
 /**
  * Resolve component key type
  * @template C Component schema type
@@ -29,7 +78,7 @@ export type Entity = number
  *  type VelocityKey = ResolvedKey<MyComponents, ComponentKey.VELOCITY>; // 'velocity'
  *  ```
  */
-type ResolvedKey<C, K> = Extract<K, keyof C>
+export type ResolvedKey<C, K> = Extract<K, keyof C>
 
 /**
  * Component schema: maps component names/types to their data structures
@@ -90,10 +139,124 @@ export type ComponentEvent<C extends ComponentSchema = ComponentSchema> =
     | { [K in keyof C]: KnownComponentEvent<C, K> }[keyof C]
     | { type: EventType; entity: Entity; name: string; component?: unknown }
 
+/**
+ * Resolve the component type for a single component name/key
+ * @template C Component schema type
+ * @template K Component name/key
+ */
+export type ComponentOf<C extends ComponentSchema, K> =
+    K extends keyof C ? C[K] : K extends ComponentKey ? C[ResolvedKey<C, K>] : never
+
+/**
+ * Query result row: entity plus its components in query order
+ *
+ * Required components come first, followed by optional components typed
+ * `T | undefined`.
+ * @template C Component schema type
+ * @template K Tuple of required component names/keys
+ * @template O Tuple of optional component names/keys
+ */
+export type QueryResult<
+    C extends ComponentSchema,
+    K extends readonly (keyof C | ComponentKey)[],
+    O extends readonly (keyof C | ComponentKey)[] = []
+> = {
+    entity: Entity;
+    comps: [
+        ...{ [P in keyof K]: ComponentOf<C, K[P]> },
+        ...{ [P in keyof O]: ComponentOf<C, O[P]> | undefined }
+    ]
+}
+
+/**
+ * Query filter: which components an entity must have, must not have, and
+ * may have
+ * @template C Component schema type
+ * @example
+ * ```ts
+ * const filter: QueryFilter = {
+ *   with: ['Transform', 'Health'],
+ *   without: ['Player'],
+ *   optional: ['Metadata']
+ * }
+ * ```
+ */
+export type QueryFilter<
+    C extends ComponentSchema = ComponentSchema,
+    K extends readonly (keyof C | ComponentKey)[] = readonly (keyof C | ComponentKey)[],
+    W extends readonly (keyof C | ComponentKey)[] = readonly (keyof C | ComponentKey)[],
+    O extends readonly (keyof C | ComponentKey)[] = readonly (keyof C | ComponentKey)[]
+> = {
+    with: K
+    without?: W
+    optional?: O
+}
+
+/**
+ * Archetype: table of all entities sharing exactly the same component set
+ *
+ * Components are stored column-wise (one array per component name) and an
+ * entity occupies the same row index in every column. Adding or removing a
+ * component moves the entity to the neighbouring archetype; the transition is
+ * cached in `addEdges`/`removeEdges` so repeated moves are a map lookup.
+ */
+type Archetype = {
+    key: string
+    types: string[]
+    typeSet: Set<string>
+    entities: Entity[]
+    columns: Map<string, unknown[]>
+    /** Change tick at which each component was added, parallel to `columns` */
+    addedTicks: Map<string, number[]>
+    /** Change tick of the last write to each component, parallel to `columns` */
+    changedTicks: Map<string, number[]>
+    addEdges: Map<string, Archetype>
+    removeEdges: Map<string, Archetype>
+    /** Cached queries whose component set is a subset of this archetype */
+    queries: CachedQuery[]
+}
+
+/**
+ * Cached query: matching archetypes plus the last materialised result
+ *
+ * `result` is null while dirty and rebuilt lazily on the next `query` call.
+ * A rebuild always allocates a new array, so callers iterating an older
+ * result while mutating the world are never affected.
+ */
+type CachedQuery = {
+    /** Required components */
+    names: string[]
+    /** Excluded components */
+    without: string[]
+    /** Result columns: required components followed by optional ones */
+    columns: string[]
+    archetypes: Archetype[]
+    result: { entity: Entity; comps: unknown[] }[] | null
+    rows: Map<Entity, { entity: Entity; comps: unknown[] }>
+}
+
+/** Location of an entity inside archetype storage */
+type EntityRecord = { archetype: Archetype; row: number }
+
+/** A component value in transit between archetypes, with its change ticks */
+type RowCell = { value: unknown; added: number; changed: number }
+
+/** Record of a component leaving an entity, kept for `queryRemoved` */
+type RemovedRecord = { entity: Entity; name: string; tick: number }
+
+/** Upper bound for the removal log when no cursor prunes it earlier */
+const MAX_REMOVED_LOG = 16384
+
+const archetypeKey = (types: readonly string[]) => types.join('|')
+
 /**
  * World: manages entities and their components
  * @template C Component schema type
  *
+ * Storage is archetype-based: entities with the same component set share a
+ * table, and `query` results are cached per component list and invalidated
+ * incrementally on `addComponent`/`removeComponent`/`removeEntity`.
+ *
  * @example
  * ```ts
  * // Define component schema
@@ -125,16 +288,223 @@ export type ComponentEvent<C extends ComponentSchema = ComponentSchema> =
  * });
  */
 export class World<C extends ComponentSchema = ComponentSchema> {
-    private nextId = 1
-    // Internal map uses string keys (the runtime values of the enum or raw strings)
-    private components = new Map<string, Map<Entity, unknown>>()
+    // Next never-used slot index; slot 0 is reserved so handles start at 1
+    private nextIndex = 1
+    // Current generation per slot index and whether that slot is occupied
+    private generations: number[] = []
+    private aliveSlots: boolean[] = []
+    // Released slot indices waiting to be recycled (FIFO to delay reuse)
+    private freeIndices: number[] = []
+    private freeHead = 0
+    // Cached queries keyed by the ordered component list they were requested with
+    private queries = new Map<string, CachedQuery>()
+    // Archetype tables keyed by their sorted component list; '' is the empty archetype
+    private archetypes = new Map<string, Archetype>()
+    private rootArchetype: Archetype = this.getOrCreateArchetype([])
+    private records = new Map<Entity, EntityRecord>()
     private listeners = new Set<(e: ComponentEvent<C>) => void>()
-    private elapsedTime = 0
+    // What happens when a listener throws, and failure counts per listener function
+    private listenerErrorPolicy: ListenerErrorPolicy = 'log'
+    private listenerFailures = new Map<(...args: never[]) => unknown, ListenerFailure>()
+    private listenerErrorCount = 0
+    // While non-null, component events are collected here instead of delivered (ReactiveWorld transactions)
+    protected heldComponentEvents: ComponentEvent<C>[] | null = null
+    // Resource values keyed by resource name (see Resources.ts)
+    private resources = new Map<string, unknown>()
+    // Names of resources that must not be saved (persistent: false)
+    private transientResources = new Set<string>()
+    // Monotonic counter bumped on every add/write/remove; 0 means "never"
+    private changeTick = 0
+    private removedLog: RemovedRecord[] = []
+    private changeCursors = new Set<ChangeCursor<C>>()
+    // Registry used to check addComponent values (development only, see setComponentValidation)
+    private componentValidation: { registry: ComponentRegistry; onInvalid: 'warn' | 'throw' } | null = null
+    // Parent <-> children indices, kept in sync with the Parent component
+    private childIndex = new Map<Entity, Set<Entity>>()
+    private parentIndex = new Map<Entity, Entity>()
+
+    /**
+     * Deferred structural changes, applied at sync points via `flushCommands`
+     * @example
+     * ```ts
+     * for (const { entity } of world.query('health')) world.commands.despawn(entity)
+     * world.flushCommands()
+     * ```
+     */
+    readonly commands: CommandBuffer<C> = new CommandBuffer<C>(this)
+
+    /**
+     * Gameplay event bus, separate from component events; handler errors
+     * follow the listener error policy
+     * @example
+     * ```ts
+     * world.events.setMode('queued') // deliver once per frame via dispatchEvents
+     * ```
+     */
+    readonly events: EventBus<GameEventMap> = new EventBus<GameEventMap>('immediate', (error, type, payload, handler) =>
+        this.reportListenerError(error, {type: String(type), payload}, handler))
+
+    /**
+     * Create a new entity handle, recycling a released slot when available
+     * @returns Entity handle
+     * @throws Error when every slot index (2^ENTITY_INDEX_BITS - 1) is in use
+     * @example
+     * ```ts
+     * const entity = world.createEntity();
+     * ```
+     */
+    createEntity = (): Entity => {
+        let index: number | undefined
+        while (this.freeHead < this.freeIndices.length) {
+            const candidate = this.freeIndices[this.freeHead++]
+            // Slots revived by addComponent (e.g. save restore) stay in the queue; skip them
+            if (!this.aliveSlots[candidate]) {
+                index = candidate
+                break
+            }
+        }
+        if (this.freeHead === this.freeIndices.length) {
+            this.freeIndices.length = 0
+            this.freeHead = 0
+        }
+        if (index === undefined) {
+            // Handles only hold ENTITY_INDEX_BITS of index; a larger one would alias another entity's slot
+            if (this.nextIndex >= ENTITY_INDEX_RANGE) {
+                throw new Error(`[ECS] Out of entity slots: all ${ENTITY_INDEX_RANGE - 1} indices are in use`)
+            }
+            index = this.nextIndex++
+            this.generations[index] = 0
+        }
+        this.aliveSlots[index] = true
+        return makeEntity(index, this.generations[index])
+    }
 
-    createEntity = (): Entity => this.nextId++
-    getTime = (): number => this.elapsedTime
+    /**
+     * Check whether an entity handle still refers to a live entity
+     *
+     * Returns false once the entity was removed, even if its slot has been
+     * recycled for a newer entity, so stale references can be detected.
+     * @param entity Entity handle
+     * @returns True if the entity exists
+     * @example
+     * ```ts
+     * if (!world.isAlive(enemy.targetEntity)) enemy.targetEntity = undefined
+     * ```
+     */
+    isAlive = (entity: Entity): boolean => {
+        const index = entityIndex(entity)
+        return this.aliveSlots[index] === true && this.generations[index] === entityGeneration(entity)
+    }
+
+    /**
+     * Ensure a handle owns its slot before storing components for it
+     *
+     * Handles that were never issued by this world (e.g. IDs restored from a
+     * save) claim their slot. Stale handles whose slot was recycled are rejected.
+     * @returns True if components may be stored for the handle
+     * @private
+     */
+    private claimEntity(entity: Entity): boolean {
+        if (this.isAlive(entity)) return true
+        const index = entityIndex(entity)
+        const generation = entityGeneration(entity)
+        if (this.aliveSlots[index]) return false
+        if (index < this.nextIndex && generation < this.generations[index]) return false
+        for (let i = this.nextIndex; i < index; i++) {
+            this.generations[i] = 0
+            this.freeIndices.push(i)
+        }
+        this.nextIndex = Math.max(this.nextIndex, index + 1)
+        this.generations[index] = generation
+        this.aliveSlots[index] = true
+        return true
+    }
+
+    /**
+     * Total elapsed simulation time in seconds (the `Time` resource)
+     */
+    getTime = (): number => this.getResource(Time).elapsed
+
+    /**
+     * Sync point: apply all commands recorded in `world.commands`
+     * @returns Number of commands applied
+     */
+    flushCommands = (): number => this.commands.flush()
+    /**
+     * Advance the `Time` resource by one frame
+     * @param dt Frame delta in seconds
+     */
     updateTime = (dt: number): void => {
-        this.elapsedTime += dt
+        const time = this.getResource(Time)
+        time.elapsed += dt
+        time.delta = dt
+        time.frame++
+    }
+
+    /**
+     * Set a resource value, replacing any previous value
+     * @param type Resource type
+     * @param value New value
+     * @example
+     * ```ts
+     * world.setResource(ActivePlayer, { entity: player })
+     * ```
+     */
+    setResource = <T>(type: ResourceType<T>, value: T): void => {
+        if (!type.persistent) this.transientResources.add(type.name)
+        this.resources.set(type.name, value)
+    }
+
+    /**
+     * Get a resource value, creating it from its default factory on first read
+     * @param type Resource type
+     * @returns Current value (mutable in place)
+     * @example
+     * ```ts
+     * const { actions } = world.getResource(Input)
+     * if (actions.actionPrimary) attack()
+     * ```
+     */
+    getResource = <T>(type: ResourceType<T>): T => {
+        if (!this.resources.has(type.name)) this.setResource(type, type.create())
+        return this.resources.get(type.name) as T
+    }
+
+    /**
+     * Check whether a resource has been set or read
+     * @param type Resource type
+     */
+    hasResource = <T>(type: ResourceType<T>): boolean => this.resources.has(type.name)
+
+    /**
+     * Remove a resource; the next read recreates its default
+     * @param type Resource type
+     * @returns true if the resource existed
+     */
+    removeResource = <T>(type: ResourceType<T>): boolean => this.resources.delete(type.name)
+
+    /**
+     * Collect persistent resource values for saving, keyed by resource name
+     * @returns Plain map of resource values (not copied)
+     * @example
+     * ```ts
+     * const data = stringifyWithUndefined(world.serializeResources())
+     * ```
+     */
+    serializeResources = (): SerializedResources => {
+        const out: SerializedResources = {}
+        for (const [name, value] of this.resources) {
+            if (!this.transientResources.has(name)) out[name] = value
+        }
+        return out
+    }
+
+    /**
+     * Restore resource values produced by `serializeResources`
+     * @param data Resource values keyed by name
+     */
+    restoreResources = (data: SerializedResources): void => {
+        for (const [name, value] of Object.entries(data)) this.resources.set(name, value)
     }
     /**
      * Register a callback for all component events
@@ -170,24 +540,345 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      */
     onComponentEventFor = <K extends keyof C | ComponentKey>(name: K, cb: (ev: KnownComponentEvent<C, K>) => void) => {
         const wrapper = (e: ComponentEvent<C>) => {
-            if (e.name === (name as unknown as string)) cb(e as KnownComponentEvent<C, K>)
+            if (e.name !== (name as unknown as string)) return
+            // Report failures against the caller's callback, not this wrapper
+            try {
+                cb(e as KnownComponentEvent<C, K>)
+            } catch (error) {
+                this.reportListenerError(error, e, cb)
+            }
         }
         this.listeners.add(wrapper)
         return () => this.listeners.delete(wrapper)
     }
 
     /**
-     * Emit a component event to all listeners
+     * Observe entities entering and leaving a query
+     *
+     * `onEnter` fires when an entity starts matching (including, right away,
+     * every entity that already matches), `onExit` when it stops matching or
+     * is removed, and `onChange` when a query component of a matching entity
+     * is written.
+     * @param query Required components, or a with/without/optional filter
+     * @param handlers Membership callbacks
+     * @returns Observer; call `dispose()` to stop observing
+     * @example
+     * ```ts
+     * const enemies = world.observe({with: [COMPONENTS.ENEMY, COMPONENTS.TRANSFORM]}, {
+     *   onEnter: (entity) => playSound('enemy_spotted'),
+     *   onExit: (entity) => console.log(`enemy ${entity} gone`)
+     * })
+     * enemies.dispose()
+     * ```
+     */
+    observe = <
+        K extends readonly (keyof C | ComponentKey)[],
+        W extends readonly (keyof C | ComponentKey)[] = [],
+        O extends readonly (keyof C | ComponentKey)[] = []
+    >(query: K | QueryFilter<C, K, W, O>, handlers: QueryObserverHandlers<QueryResult<C, K, O>['comps']>): QueryObserver<C> => {
+        const filter = (Array.isArray(query) ? {with: query} : query) as QueryFilter<C, K, W, O>
+        const observer = new QueryObserver<C>(this, {
+            with: filter.with.map(n => String(n)),
+            without: (filter.without ?? []).map(n => String(n)),
+            optional: (filter.optional ?? []).map(n => String(n))
+        }, handlers)
+        observer.attach(cb => this.onComponentEvent(cb))
+        return observer
+    }
+
+    /**
+     * Publish a gameplay event on `world.events`
+     * @param type Event name
+     * @param payload Event payload
+     * @example
+     * ```ts
+     * world.emit<'DamageDealt'>('DamageDealt', { attacker, target, amount: 12, source: 'weapon' })
+     * ```
+     */
+    emit = <T extends keyof GameEventMap>(type: T, payload: GameEventMap[T]): void => {
+        this.events.emit(type, payload)
+    }
+
+    /**
+     * Subscribe to a gameplay event on `world.events`
+     * @param type Event name
+     * @param handler Called with the event payload
+     * @returns Unsubscribe function
+     * @example
+     * ```ts
+     * const off = world.on(GAME_EVENTS.ENEMY_KILLED, ({ entity }) => audio.play('enemy_death'))
+     * ```
+     */
+    on = <T extends keyof GameEventMap>(type: T, handler: EventHandler<GameEventMap[T]>): (() => void) => {
+        return this.events.on(type, handler)
+    }
+
+    /**
+     * Sync point: deliver gameplay events queued since the last dispatch
+     * @returns Number of events delivered
+     */
+    dispatchEvents = (): number => this.events.dispatch()
+
+    /**
+     * Emit a component event, or hold it back while events are being held
      * @param ev Component event to emit
      * @private
      */
-    private emit = (ev: ComponentEvent<C>) => {
+    private emitComponentEvent = (ev: ComponentEvent<C>) => {
+        if (this.heldComponentEvents) {
+            this.heldComponentEvents.push(ev)
+            return
+        }
+        this.deliverComponentEvent(ev)
+    }
+
+    /**
+     * Deliver a component event to all listeners
+     * @param ev Component event to deliver
+     */
+    protected deliverComponentEvent = (ev: ComponentEvent<C>) => {
         for (const l of Array.from(this.listeners)) {
             try {
                 l(ev)
-            } catch (e) { /* swallow listener errors */
+            } catch (e) {
+                this.reportListenerError(e, ev, l)
+            }
+        }
+    }
+
+    /**
+     * Choose what happens when a component listener or gameplay event handler throws
+     *
+     * Failures are counted per listener under every policy.
+     * @param policy 'swallow', 'log' (default), 'throw' or a handler receiving the `ListenerError`
+     * @example
+     * ```ts
+     * beforeEach(() => world.setListenerErrorPolicy('throw'))
+     * ```
+     */
+    setListenerErrorPolicy = (policy: ListenerErrorPolicy): void => {
+        this.listenerErrorPolicy = policy
+    }
+
+    /**
+     * Total number of listener errors since the world was created
+     * @returns Error count
+     */
+    getListenerErrorCount = (): number => this.listenerErrorCount
+
+    /**
+     * Listeners that have thrown, most failures first
+     * @returns Failure statistics per listener
+     * @example
+     * ```ts
+     * for (const f of world.getListenerFailures()) console.warn(`${f.listener}: ${f.count}x`)
+     * ```
+     */
+    getListenerFailures = (): ListenerFailure[] =>
+        Array.from(this.listenerFailures.values(), f => ({...f})).sort((a, b) => b.count - a.count)
+
+    /**
+     * Count a listener error and apply the error policy
+     * @param error Value thrown by the listener
+     * @param ev Component or gameplay event being delivered
+     * @param listener Failing listener
+     * @throws ListenerError when the policy is 'throw'
+     */
+    protected reportListenerError(error: unknown, ev: ComponentEvent<C> | GameEventDelivery, listener: (...args: never[]) => unknown): void {
+        // Already reported by a nested listener (ReactiveWorld change callbacks) under the 'throw' policy
+        if (error instanceof ListenerError) throw error
+        const failure = new ListenerError(error, ev as ComponentEvent | GameEventDelivery, listenerName(listener))
+        this.listenerErrorCount++
+        const stats = this.listenerFailures.get(listener)
+        const message = error instanceof Error ? error.message : String(error)
+        if (stats) {
+            stats.count++
+            stats.component = failure.component
+            stats.message = message
+        } else {
+            this.listenerFailures.set(listener, {listener: failure.listener, count: 1, component: failure.component, message})
+        }
+        const policy = this.listenerErrorPolicy
+        if (policy === 'throw') throw failure
+        if (policy === 'log') console.error(`[ECS] ${failure.message}`, error)
+        else if (typeof policy === 'function') policy(failure)
+    }
+
+    /**
+     * Get the archetype for a sorted component list, creating it on first use
+     * @param types Sorted component names
+     * @returns Archetype table
+     * @private
+     */
+    private getOrCreateArchetype(types: readonly string[]): Archetype {
+        const key = archetypeKey(types)
+        const existing = this.archetypes.get(key)
+        if (existing) return existing
+
+        const archetype: Archetype = {
+            key,
+            types: [...types],
+            typeSet: new Set(types),
+            entities: [],
+            columns: new Map(types.map(t => [t, [] as unknown[]])),
+            addedTicks: new Map(types.map(t => [t, [] as number[]])),
+            changedTicks: new Map(types.map(t => [t, [] as number[]])),
+            addEdges: new Map(),
+            removeEdges: new Map(),
+            queries: []
+        }
+        this.archetypes.set(key, archetype)
+
+        // Register the new table with every cached query it satisfies
+        for (const q of this.queries.values()) {
+            if (this.matches(q, archetype)) {
+                q.archetypes.push(archetype)
+                archetype.queries.push(q)
+                q.result = null
             }
         }
+        return archetype
+    }
+
+    /**
+     * Check whether an archetype satisfies a query's with/without clauses
+     * @private
+     */
+    private matches(q: CachedQuery, archetype: Archetype): boolean {
+        return q.names.every(n => archetype.typeSet.has(n)) && !q.without.some(n => archetype.typeSet.has(n))
+    }
+
+    /**
+     * Follow (or create) the archetype edge for adding a component
+     * @private
+     */
+    private archetypeWith(from: Archetype, name: string): Archetype {
+        let to = from.addEdges.get(name)
+        if (!to) {
+            to = this.getOrCreateArchetype([...from.types, name].sort())
+            from.addEdges.set(name, to)
+            to.removeEdges.set(name, from)
+        }
+        return to
+    }
+
+    /**
+     * Follow (or create) the archetype edge for removing a component
+     * @private
+     */
+    private archetypeWithout(from: Archetype, name: string): Archetype {
+        let to = from.removeEdges.get(name)
+        if (!to) {
+            to = this.getOrCreateArchetype(from.types.filter(t => t !== name))
+            from.removeEdges.set(name, to)
+            to.addEdges.set(name, from)
+        }
+        return to
+    }
+
+    /**
+     * Mark every cached query over this archetype as dirty
+     * @private
+     */
+    private invalidate(archetype: Archetype) {
+        for (const q of archetype.queries) q.result = null
+    }
+
+    /**
+     * Remove a row from an archetype using swap-remove
+     * @returns Component values and ticks of the removed row keyed by name
+     * @private
+     */
+    private detachRow(archetype: Archetype, row: number): Map<string, RowCell> {
+        const cells = new Map<string, RowCell>()
+        const last = archetype.entities.length - 1
+        for (const [name, column] of archetype.columns) {
+            const added = archetype.addedTicks.get(name)!
+            const changed = archetype.changedTicks.get(name)!
+            cells.set(name, {value: column[row], added: added[row], changed: changed[row]})
+            column[row] = column[last]
+            added[row] = added[last]
+            changed[row] = changed[last]
+            column.pop()
+            added.pop()
+            changed.pop()
+        }
+        const moved = archetype.entities[last]
+        archetype.entities[row] = moved
+        archetype.entities.pop()
+        if (row !== last) this.records.get(moved)!.row = row
+        this.invalidate(archetype)
+        return cells
+    }
+
+    /**
+     * Append a row to an archetype
+     * @private
+     */
+    private attachRow(archetype: Archetype, entity: Entity, cells: Map<string, RowCell>): void {
+        const row = archetype.entities.length
+        archetype.entities.push(entity)
+        for (const [name, column] of archetype.columns) {
+            const cell = cells.get(name)
+            column.push(cell?.value)
+            archetype.addedTicks.get(name)!.push(cell?.added ?? 0)
+            archetype.changedTicks.get(name)!.push(cell?.changed ?? 0)
+        }
+        this.records.set(entity, {archetype, row})
+        this.invalidate(archetype)
+    }
+
+    /**
+     * Move an entity between archetypes, carrying its component values along
+     * @private
+     */
+    private moveEntity(entity: Entity, to: Archetype, extra?: [string, unknown]): void {
+        const record = this.records.get(entity)
+        const cells = record ? this.detachRow(record.archetype, record.row) : new Map<string, RowCell>()
+        if (extra) {
+            const tick = ++this.changeTick
+            cells.set(extra[0], {value: extra[1], added: tick, changed: tick})
+        }
+        this.attachRow(to, entity, cells)
+    }
+
+    /**
+     * Append removal records and keep the log bounded
+     * @private
+     */
+    private logRemoved(entity: Entity, names: readonly string[]): void {
+        for (const name of names) this.removedLog.push({entity, name, tick: ++this.changeTick})
+        if (this.removedLog.length > MAX_REMOVED_LOG) {
+            this.removedLog.splice(0, this.removedLog.length - MAX_REMOVED_LOG)
+        }
+    }
+
+    /**
+     * Validate component values in `addComponent` against a registry
+     *
+     * Meant for development builds; values of unregistered components are
+     * not checked. Pass null to turn validation off again.
+     * @param registry Registry to validate against, or null
+     * @param onInvalid Log a warning (default) or throw on invalid values
+     * @example
+     * ```ts
+     * if (import.meta.env.DEV) world.setComponentValidation(componentRegistry)
+     * ```
+     */
+    setComponentValidation = (registry: ComponentRegistry | null, onInvalid: 'warn' | 'throw' = 'warn'): void => {
+        this.componentValidation = registry ? {registry, onInvalid} : null
+    }
+
+    /**
+     * Report a component value the validation registry rejects
+     * @private
+     */
+    private checkComponent(entity: Entity, key: string, comp: unknown): void {
+        const {registry, onInvalid} = this.componentValidation!
+        if (registry.validate(key, comp)) return
+        const message = `[ECS] Invalid '${key}' component on entity ${entity}`
+        if (onInvalid === 'throw') throw new Error(message)
+        console.warn(message, comp)
     }
 
     /**
@@ -202,21 +893,34 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      * @returns void
      */
     addComponent = <K extends keyof C | ComponentKey>(entity: Entity, name: K, comp: C[ResolvedKey<C, K>]): void => {
+        if (!this.claimEntity(entity)) return
         const key = String(name)
-        let map = this.components.get(key) as Map<Entity, C[ResolvedKey<C, K>]> | undefined
-        if (!map) {
-            map = new Map<Entity, C[ResolvedKey<C, K>]>()
-            this.components.set(key, map as Map<Entity, unknown>)
+        if (this.componentValidation) this.checkComponent(entity, key, comp)
+        const record = this.records.get(entity)
+        const existed = !!record && record.archetype.typeSet.has(key)
+        if (existed) {
+            // Same archetype: overwrite in place and patch cached rows instead of rebuilding
+            const {archetype, row} = record!
+            archetype.columns.get(key)![row] = comp
+            archetype.changedTicks.get(key)![row] = ++this.changeTick
+            for (const q of archetype.queries) {
+                if (!q.result) continue
+                const idx = q.columns.indexOf(key)
+                const hit = idx >= 0 ? q.rows.get(entity) : undefined
+                if (hit) hit.comps[idx] = comp
+            }
+        } else {
+            const from = record?.archetype ?? this.rootArchetype
+            this.moveEntity(entity, this.archetypeWith(from, key), [key, comp])
         }
-        const existed = map.has(entity)
-        map.set(entity, comp as unknown as C[ResolvedKey<C, K>])
+        if (key === COMPONENTS.PARENT) this.linkParent(entity, (comp as { entity?: Entity } | undefined)?.entity)
         const ev: KnownComponentEvent<C, K> = {
             type: existed ? EVENT_TYPES.UPDATE : EVENT_TYPES.ADD,
             entity,
             name,
             component: comp as unknown as C[ResolvedKey<C, K>]
         }
-        this.emit(ev)
+        this.emitComponentEvent(ev)
     }
 
     /**
@@ -230,9 +934,24 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      * ```
      */
     getComponent = <K extends keyof C | ComponentKey>(entity: Entity, name: K): C[ResolvedKey<C, K>] | undefined => {
-        const key = String(name)
-        const map = this.components.get(key) as Map<Entity, C[ResolvedKey<C, K>]> | undefined
-        return map?.get(entity)
+        const record = this.records.get(entity)
+        if (!record) return undefined
+        const column = record.archetype.columns.get(String(name))
+        return column?.[record.row] as C[ResolvedKey<C, K>] | undefined
+    }
+
+    /**
+     * Get the names of all components an entity has
+     * @param entity Entity identifier
+     * @returns Component names (sorted), empty for dead entities
+     * @example
+     * ```ts
+     * for (const name of world.getComponentNames(entity)) console.log(name)
+     * ```
+     */
+    getComponentNames = (entity: Entity): string[] => {
+        const record = this.records.get(entity)
+        return record ? [...record.archetype.types] : []
     }
 
     /**
@@ -247,20 +966,26 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      */
     removeComponent = <K extends keyof C | ComponentKey>(entity: Entity, name: K): void => {
         const key = String(name)
-        const map = this.components.get(key) as Map<Entity, C[ResolvedKey<C, K>]> | undefined
-        if (map && map.has(entity)) {
-            map.delete(entity)
+        const record = this.records.get(entity)
+        if (record && record.archetype.typeSet.has(key)) {
+            this.moveEntity(entity, this.archetypeWithout(record.archetype, key))
+            this.logRemoved(entity, [key])
+            if (key === COMPONENTS.PARENT) this.linkParent(entity, undefined)
             const ev: KnownComponentEvent<C, K> = {
                 type: EVENT_TYPES.REMOVE,
                 entity,
                 name
             } as KnownComponentEvent<C, K>
-            this.emit(ev)
+            this.emitComponentEvent(ev)
         }
     }
 
     /**
      * Remove an entity and all its components
+     *
+     * The entity's generation is bumped and its slot queued for reuse, so any
+     * handle still pointing at it fails `isAlive`. Stale handles are ignored.
+     * Children attached via `setParent` are removed recursively first.
      * @param entity Entity identifier to remove
      * @example
      * ```ts
@@ -269,19 +994,110 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      * @returns void
      */
     removeEntity = (entity: Entity): void => {
-        // Remove from all component maps
-        for (const [componentName, map] of this.components.entries()) {
-            if (map.has(entity)) {
-                map.delete(entity)
-                // Emit remove event for each component
-                const ev = {
-                    type: EVENT_TYPES.REMOVE,
-                    entity,
-                    name: componentName
-                }
-                this.emit(ev as ComponentEvent<C>)
+        if (!this.isAlive(entity)) return
+        const children = this.childIndex.get(entity)
+        if (children) {
+            for (const child of Array.from(children)) this.removeEntity(child)
+            this.childIndex.delete(entity)
+        }
+        this.linkParent(entity, undefined)
+        const index = entityIndex(entity)
+        this.aliveSlots[index] = false
+        this.generations[index]++
+        this.freeIndices.push(index)
+        const record = this.records.get(entity)
+        if (!record) return
+        const {archetype, row} = record
+        this.detachRow(archetype, row)
+        this.records.delete(entity)
+        this.logRemoved(entity, archetype.types)
+        // Emit remove event for each component
+        for (const componentName of archetype.types) {
+            const ev = {
+                type: EVENT_TYPES.REMOVE,
+                entity,
+                name: componentName
             }
+            this.emitComponentEvent(ev as ComponentEvent<C>)
+        }
+    }
+
+    /**
+     * Attach an entity to a parent, or detach it when `parent` is undefined
+     *
+     * Stores a Parent component on the child; the child's world Transform is
+     * derived from its LocalTransform by the hierarchy system. Removing the
+     * parent removes its children as well.
+     * @param child Entity to attach
+     * @param parent New parent, or undefined to detach
+     * @returns False if either entity is dead or the link would create a cycle
+     * @example
+     * ```ts
+     * const torch = world.createEntity()
+     * world.addComponent(torch, COMPONENTS.LOCAL_TRANSFORM, { x: 12, y: -4 })
+     * world.setParent(torch, player)
+     * ```
+     */
+    setParent = (child: Entity, parent?: Entity): boolean => {
+        if (!this.isAlive(child)) return false
+        const world = this as unknown as World<ComponentSchema>
+        if (parent === undefined) {
+            world.removeComponent(child, COMPONENTS.PARENT)
+            return true
+        }
+        if (!this.isAlive(parent)) return false
+        for (let p: Entity | undefined = parent; p !== undefined; p = this.getParent(p)) {
+            if (p === child) return false
+        }
+        if (this.getParent(child) !== parent) world.addComponent(child, COMPONENTS.PARENT, {entity: parent})
+        return true
+    }
+
+    /**
+     * Get the parent of an entity
+     * @param child Entity identifier
+     * @returns Parent entity, or undefined for root entities
+     */
+    getParent = (child: Entity): Entity | undefined => {
+        const link = this.getComponent(child, COMPONENTS.PARENT) as { entity: Entity } | undefined
+        return link?.entity
+    }
+
+    /**
+     * Get the direct children of an entity
+     * @param parent Entity identifier
+     * @returns Child entities in attach order
+     * @example
+     * ```ts
+     * for (const child of world.getChildren(player)) { ... }
+     * ```
+     */
+    getChildren = (parent: Entity): Entity[] => {
+        const children = this.childIndex.get(parent)
+        return children ? Array.from(children) : []
+    }
+
+    /**
+     * Update the parent -> children index for a child
+     * @private
+     */
+    private linkParent(child: Entity, parent: Entity | undefined): void {
+        const previous = this.parentIndex.get(child)
+        if (previous === parent) return
+        if (previous !== undefined) {
+            const siblings = this.childIndex.get(previous)
+            siblings?.delete(child)
+            if (siblings?.size === 0) this.childIndex.delete(previous)
+            this.parentIndex.delete(child)
+        }
+        if (parent === undefined) return
+        this.parentIndex.set(child, parent)
+        let set = this.childIndex.get(parent)
+        if (!set) {
+            set = new Set()
+            this.childIndex.set(parent, set)
         }
+        set.add(child)
     }
 
     /**
@@ -297,18 +1113,162 @@ export class World<C extends ComponentSchema = ComponentSchema> {
     markComponentUpdated = <K extends keyof C | ComponentKey>(entity: Entity, name: K) => {
         const comp = this.getComponent(entity, name)
         if (comp !== undefined) {
+            this.markChanged(entity, name)
             const ev: KnownComponentEvent<C, K> = {
                 type: EVENT_TYPES.UPDATE,
                 entity,
                 name,
                 component: comp as C[ResolvedKey<C, K>]
             }
-            this.emit(ev)
+            this.emitComponentEvent(ev)
+        }
+    }
+
+    /**
+     * Record an in-place write to a component without emitting an event
+     *
+     * Use this in per-frame systems that mutate components directly; consumers
+     * pick the writes up in batch via `queryChanged` or a change cursor
+     * instead of receiving one callback per entity.
+     * @param entity Entity identifier
+     * @param name Component name or key
+     * @returns True if the entity has the component
+     * @example
+     * ```ts
+     * transform.x += velocity.vx * dt
+     * world.markChanged(entity, COMPONENTS.TRANSFORM)
+     * ```
+     */
+    markChanged = <K extends keyof C | ComponentKey>(entity: Entity, name: K): boolean => {
+        const record = this.records.get(entity)
+        const ticks = record?.archetype.changedTicks.get(String(name))
+        if (!record || !ticks) return false
+        ticks[record.row] = ++this.changeTick
+        return true
+    }
+
+    /**
+     * Current change tick
+     *
+     * Every add, write and removal bumps the tick. Store it after a system
+     * runs and pass it as `since` to the change queries on the next run.
+     * @returns Current change tick
+     */
+    getChangeTick = (): number => this.changeTick
+
+    /**
+     * Query entities whose component was added or written after a tick
+     * @param name Component name or key
+     * @param since Tick of the consumer's last run (exclusive)
+     * @returns Matching entities with the current component value
+     * @example
+     * ```ts
+     * let lastRun = world.getChangeTick()
+     * // ... next frame
+     * for (const { entity, comps: [t] } of world.queryChanged(COMPONENTS.TRANSFORM, lastRun)) {
+     *   quad.update(entity, t.x, t.y)
+     * }
+     * lastRun = world.getChangeTick()
+     * ```
+     */
+    queryChanged = <K extends keyof C | ComponentKey>(name: K, since: number): QueryResult<C, [K]>[] => {
+        return this.queryTicks(String(name), since, 'changedTicks') as QueryResult<C, [K]>[]
+    }
+
+    /**
+     * Query entities that gained a component after a tick
+     * @param name Component name or key
+     * @param since Tick of the consumer's last run (exclusive)
+     * @returns Matching entities with the current component value
+     */
+    queryAdded = <K extends keyof C | ComponentKey>(name: K, since: number): QueryResult<C, [K]>[] => {
+        return this.queryTicks(String(name), since, 'addedTicks') as QueryResult<C, [K]>[]
+    }
+
+    /**
+     * Entities that lost a component (or were removed) after a tick
+     *
+     * An entity that lost and re-gained the component since then is still
+     * listed; combine with `queryAdded` if that matters.
+     * @param name Component name or key
+     * @param since Tick of the consumer's last run (exclusive)
+     * @returns Unique entity handles in removal order
+     */
+    queryRemoved = <K extends keyof C | ComponentKey>(name: K, since: number): Entity[] => {
+        const key = String(name)
+        const seen = new Set<Entity>()
+        for (let i = this.removedLog.length - 1; i >= 0 && this.removedLog[i].tick > since; i--) {
+            const rec = this.removedLog[i]
+            if (rec.name === key) seen.add(rec.entity)
+        }
+        return Array.from(seen).reverse()
+    }
+
+    /**
+     * Create a cursor that remembers its last read tick
+     *
+     * The cursor returns changes since its previous `advance()`, so each
+     * system gets "changed since my last run" without tracking ticks itself.
+     * @returns Change cursor bound to this world
+     * @example
+     * ```ts
+     * const cursor = world.createChangeCursor()
+     * // once per frame:
+     * for (const e of cursor.removed(COMPONENTS.TRANSFORM)) quad.remove(e)
+     * for (const { entity, comps: [t] } of cursor.changed(COMPONENTS.TRANSFORM)) quad.update(entity, t.x, t.y)
+     * cursor.advance()
+     * ```
+     */
+    createChangeCursor = (): ChangeCursor<C> => {
+        const cursor: ChangeCursor<C> = new ChangeCursor<C>(this, {
+            onAdvance: () => this.pruneRemovedLog(),
+            onDispose: () => {
+                this.changeCursors.delete(cursor)
+                this.pruneRemovedLog()
+            }
+        })
+        this.changeCursors.add(cursor)
+        return cursor
+    }
+
+    /**
+     * Drop removal records every live cursor has already consumed
+     * @private
+     */
+    private pruneRemovedLog(): void {
+        if (this.changeCursors.size === 0) return
+        let oldest = Infinity
+        for (const cursor of this.changeCursors) oldest = Math.min(oldest, cursor.since)
+        let drop = 0
+        while (drop < this.removedLog.length && this.removedLog[drop].tick <= oldest) drop++
+        if (drop > 0) this.removedLog.splice(0, drop)
+    }
+
+    /**
+     * Collect rows whose tick column for a component is newer than `since`
+     * @private
+     */
+    private queryTicks(key: string, since: number, column: 'addedTicks' | 'changedTicks'): { entity: Entity; comps: unknown[] }[] {
+        const result: { entity: Entity; comps: unknown[] }[] = []
+        if (since >= this.changeTick) return result
+        for (const archetype of this.getCachedQuery([key], [], []).archetypes) {
+            const ticks = archetype[column].get(key)!
+            const values = archetype.columns.get(key)!
+            for (let row = 0; row < ticks.length; row++) {
+                if (ticks[row] > since) result.push({entity: archetype.entities[row], comps: [values[row]]})
+            }
         }
+        return result
     }
 
     /**
      * Query entities with specific components
+     *
+     * Results are cached per component list and only rebuilt after a
+     * structural change touches one of the matching archetypes, so calling
+     * this every frame is cheap. The returned array must be treated as
+     * read-only; it may be shared between calls.
+     *
      * @param names Component names or keys to query for
      * @returns Array of entities with their components
      * @example
@@ -322,32 +1282,93 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      * }
      * ```
      */
-    query = <K extends readonly (keyof C | ComponentKey)[]>(...names: K): {
-        entity: Entity;
-        comps: { [P in keyof K]: K[P] extends keyof C ? C[K[P]] : K[P] extends ComponentKey ? C[ResolvedKey<C, K[P]>] : never }
-    }[] => {
-        if (names.length === 0) return []
-        const firstKey = String(names[0])
-        const first = this.components.get(firstKey)
-        if (!first) return []
-        const result: { entity: Entity; comps: any[] }[] = []
-        for (const [entity] of first) {
-            let ok = true
-            const comps: unknown[] = []
-            for (const n of names) {
-                const key = String(n)
-                const map = this.components.get(key) as Map<Entity, unknown> | undefined
-                if (!map || !map.has(entity)) {
-                    ok = false;
-                    break
+    query = <K extends readonly (keyof C | ComponentKey)[]>(...names: K): QueryResult<C, K>[] => {
+        return this.queryFiltered({with: names})
+    }
+
+    /**
+     * Query entities using with/without/optional clauses
+     *
+     * Shares the same per-filter cache as `query`. Optional components are
+     * appended after the required ones and are `undefined` when missing.
+     *
+     * @param filter Required, excluded and optional components
+     * @returns Array of entities with their components
+     * @example
+     * ```ts
+     * const targets = world.queryFiltered({
+     *   with: [COMPONENTS.TRANSFORM, COMPONENTS.HEALTH],
+     *   without: [COMPONENTS.PLAYER],
+     *   optional: [COMPONENTS.METADATA]
+     * })
+     * for (const { entity, comps: [transform, health, meta] } of targets) {
+     *   // meta is Metadata | undefined
+     * }
+     * ```
+     */
+    queryFiltered = <
+        K extends readonly (keyof C | ComponentKey)[],
+        W extends readonly (keyof C | ComponentKey)[] = [],
+        O extends readonly (keyof C | ComponentKey)[] = []
+    >(filter: QueryFilter<C, K, W, O>): QueryResult<C, K, O>[] => {
+        if (filter.with.length === 0) return []
+        const cached = this.getCachedQuery(
+            filter.with.map(n => String(n)),
+            (filter.without ?? []).map(n => String(n)),
+            (filter.optional ?? []).map(n => String(n))
+        )
+        if (!cached.result) {
+            const result: { entity: Entity; comps: unknown[] }[] = []
+            const rows = new Map<Entity, { entity: Entity; comps: unknown[] }>()
+            for (const archetype of cached.archetypes) {
+                const columns = cached.columns.map(k => archetype.columns.get(k))
+                for (let row = 0; row < archetype.entities.length; row++) {
+                    const entity = archetype.entities[row]
+                    const hit = {entity, comps: columns.map(col => col?.[row])}
+                    result.push(hit)
+                    rows.set(entity, hit)
                 }
-                comps.push(map.get(entity))
             }
-            if (ok) result.push({entity, comps})
+            cached.result = result
+            cached.rows = rows
         }
-        return result as any
+        return cached.result as QueryResult<C, K, O>[]
     }
 
+    /**
+     * Look up (or register) the cache entry for a filter
+     * @private
+     */
+    private getCachedQuery(names: string[], without: string[], optional: string[]): CachedQuery {
+        const cacheKey = `${names.join('|')}/${without.join('|')}/${optional.join('|')}`
+        let cached = this.queries.get(cacheKey)
+        if (!cached) {
+            cached = {names, without, columns: [...names, ...optional], archetypes: [], result: null, rows: new Map()}
+            for (const archetype of this.archetypes.values()) {
+                if (this.matches(cached, archetype)) {
+                    cached.archetypes.push(archetype)
+                    archetype.queries.push(cached)
+                }
+            }
+            this.queries.set(cacheKey, cached)
+        }
+        return cached
+    }
+
+    /**
+     * Start a query builder for with/without/optional clauses
+     * @returns Empty query builder bound to this world
+     * @example
+     * ```ts
+     * const enemies = world.queryBuilder()
+     *   .with(COMPONENTS.TRANSFORM, COMPONENTS.HEALTH)
+     *   .without(COMPONENTS.PLAYER)
+     *   .optional(COMPONENTS.METADATA)
+     *   .run()
+     * ```
+     */
+    queryBuilder = (): QueryBuilder<C> => new QueryBuilder<C>(this)
+
     /**
      * Get all entities in the world.
      * @returns Array of all entity IDs
@@ -358,13 +1379,123 @@ export class World<C extends ComponentSchema = ComponentSchema> {
      * ```
      */
     getAllEntities = (): Entity[] => {
-        const entities = new Set<Entity>()
-        for (const map of this.components.values()) {
-            for (const entity of map.keys()) {
-                entities.add(entity)
+        const entities: Entity[] = []
+        for (const archetype of this.archetypes.values()) {
+            if (archetype === this.rootArchetype) continue
+            entities.push(...archetype.entities)
+        }
+        return entities
+    }
+
+    /**
+     * Capture an immutable image of all entities, their components and the
+     * entity allocator
+     *
+     * Components are structurally cloned and deep-frozen, so later writes to
+     * the world never show up in the snapshot. Entities without components
+     * are included.
+     * @returns Snapshot for `restore` or `diff`
+     * @example
+     * ```ts
+     * const checkpoint = world.snapshot()
+     * // ... later
+     * world.restore(checkpoint)
+     * ```
+     */
+    snapshot = (): WorldSnapshot => {
+        const entities = this.liveEntities().map(({entity, components}) => {
+            const copy: Record<string, unknown> = {}
+            for (const [name, value] of Object.entries(components)) {
+                const cloned = cloneValue(value)
+                // Uncloneable values are kept by reference and must not be frozen in place
+                copy[name] = cloned === value ? value : deepFreeze(cloned)
+            }
+            return Object.freeze({entity, components: Object.freeze(copy)})
+        })
+        return Object.freeze({
+            entities: Object.freeze(entities),
+            allocator: deepFreeze({
+                nextIndex: this.nextIndex,
+                generations: [...this.generations],
+                free: this.freeIndices.slice(this.freeHead)
+            })
+        })
+    }
+
+    /**
+     * Replace the world's entities and components with a snapshot
+     *
+     * Only the differences are applied, so listeners see removes for entities
+     * and components missing from the snapshot and adds/updates for values
+     * that differ. Resources are not part of snapshots. Call it outside
+     * ReactiveWorld transactions, which defer entity removal.
+     * @param snapshot Snapshot from `snapshot()` (or rebuilt from save data)
+     * @example
+     * ```ts
+     * world.restore(undoStack.pop()!)
+     * ```
+     */
+    restore = (snapshot: WorldSnapshot): void => {
+        this.applyPatch(diff({entities: this.liveEntities()}, snapshot))
+    }
+
+    /**
+     * Apply a patch produced by `diff`
+     * @param patch Changes to apply; values are cloned before they are stored
+     * @example
+     * ```ts
+     * remote.applyPatch(diff(lastSent, world.snapshot()))
+     * ```
+     */
+    applyPatch = (patch: WorldPatch): void => {
+        const world = this as unknown as World<ComponentSchema>
+        const despawned = new Set(patch.despawn)
+        for (const entity of patch.despawn) {
+            // Keep surviving children: only their Parent link is dropped here, the patch sets the new one
+            for (const child of this.getChildren(entity)) {
+                if (!despawned.has(child)) this.linkParent(child, undefined)
             }
+            this.childIndex.delete(entity)
+            world.removeEntity(entity)
         }
-        return Array.from(entities)
+        if (patch.allocator) {
+            this.nextIndex = patch.allocator.nextIndex
+            this.generations = [...patch.allocator.generations]
+            this.freeIndices = [...patch.allocator.free]
+            this.freeHead = 0
+        }
+        for (const entity of patch.spawn) this.reviveEntity(entity)
+        for (const {entity, name} of patch.remove) world.removeComponent(entity, name)
+        for (const {entity, name, value} of patch.set) world.addComponent(entity, name, cloneValue(value))
+    }
+
+    /**
+     * Current entities and their live component values, ordered by slot index
+     * @private
+     */
+    private liveEntities(): SnapshotEntity[] {
+        const entities: SnapshotEntity[] = []
+        for (let index = 1; index < this.nextIndex; index++) {
+            if (!this.aliveSlots[index]) continue
+            const entity = makeEntity(index, this.generations[index])
+            const components: Record<string, unknown> = {}
+            for (const name of this.getComponentNames(entity)) components[name] = this.getComponent(entity, name)
+            entities.push({entity, components})
+        }
+        return entities
+    }
+
+    /**
+     * Make a handle alive again, even if its slot has moved past its generation
+     * (the entity was removed after the snapshot holding it was taken)
+     * @private
+     */
+    private reviveEntity(entity: Entity): void {
+        if (this.claimEntity(entity)) return
+        const index = entityIndex(entity)
+        if (this.aliveSlots[index]) return
+        this.generations[index] = entityGeneration(entity)
+        this.aliveSlots[index] = true
     }
 }
 
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { EventBus } from './EventBus'
+
+type TestEvents = {
+  Hit: { amount: number }
+  Died: { id: number }
+}
+
+describe('EventBus', () => {
+  describe('immediate mode', () => {
+    it('should deliver events to handlers of the same type', () => {
+      const bus = new EventBus<TestEvents>()
+      const onHit = vi.fn()
+      const onDied = vi.fn()
+      bus.on('Hit', onHit)
+      bus.on('Died', onDied)
+
+      bus.emit('Hit', { amount: 5 })
+
+      expect(onHit).toHaveBeenCalledWith({ amount: 5 })
+      expect(onDied).not.toHaveBeenCalled()
+    })
+
+    it('should stop delivering after unsubscribe', () => {
+      const bus = new EventBus<TestEvents>()
+      const onHit = vi.fn()
+      const off = bus.on('Hit', onHit)
+
+      off()
+      bus.emit('Hit', { amount: 1 })
+
+      expect(onHit).not.toHaveBeenCalled()
+    })
+
+    it('should deliver once handlers a single time', () => {
+      const bus = new EventBus<TestEvents>()
+      const onHit = vi.fn()
+      bus.once('Hit', onHit)
+
+      bus.emit('Hit', { amount: 1 })
+      bus.emit('Hit', { amount: 2 })
+
+      expect(onHit).toHaveBeenCalledTimes(1)
+      expect(onHit).toHaveBeenCalledWith({ amount: 1 })
+    })
+
+    it('should keep delivering when a handler throws', () => {
+      const bus = new EventBus<TestEvents>()
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const after = vi.fn()
+      bus.on('Hit', () => { throw new Error('boom') })
+      bus.on('Hit', after)
+
+      bus.emit('Hit', { amount: 1 })
+
+      expect(after).toHaveBeenCalled()
+      expect(errorSpy).toHaveBeenCalled()
+      errorSpy.mockRestore()
+    })
+
+    it('should pass handler errors to the error handler instead of logging', () => {
+      const onError = vi.fn()
+      const bus = new EventBus<TestEvents>('immediate', onError)
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const failing = () => { throw new Error('boom') }
+      bus.on('Hit', failing)
+
+      bus.emit('Hit', { amount: 1 })
+
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'Hit', { amount: 1 }, failing)
+      expect(errorSpy).not.toHaveBeenCalled()
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('queued mode', () => {
+    it('should hold events until dispatch', () => {
+      const bus = new EventBus<TestEvents>('queued')
+      const onHit = vi.fn()
+      bus.on('Hit', onHit)
+
+      bus.emit('Hit', { amount: 1 })
+      bus.emit('Hit', { amount: 2 })
+      expect(onHit).not.toHaveBeenCalled()
+      expect(bus.pending).toBe(2)
+
+      expect(bus.dispatch()).toBe(2)
+      expect(onHit.mock.calls.map(c => c[0].amount)).toEqual([1, 2])
+      expect(bus.pending).toBe(0)
+    })
+
+    it('should deliver events queued by handlers in the same dispatch', () => {
+      const bus = new EventBus<TestEvents>('queued')
+      const onDied = vi.fn()
+      bus.on('Hit', ({ amount }) => { if (amount >= 10) bus.emit('Died', { id: 7 }) })
+      bus.on('Died', onDied)
+
+      bus.emit('Hit', { amount: 10 })
+      bus.dispatch()
+
+      expect(onDied).toHaveBeenCalledWith({ id: 7 })
+    })
+
+    it('should bypass the queue with emitNow', () => {
+      const bus = new EventBus<TestEvents>('queued')
+      const onHit = vi.fn()
+      bus.on('Hit', onHit)
+
+      bus.emitNow('Hit', { amount: 3 })
+
+      expect(onHit).toHaveBeenCalledWith({ amount: 3 })
+      expect(bus.pending).toBe(0)
+    })
+
+    it('should flush pending events when switching to immediate', () => {
+      const bus = new EventBus<TestEvents>('queued')
+      const onHit = vi.fn()
+      bus.on('Hit', onHit)
+      bus.emit('Hit', { amount: 1 })
+
+      bus.setMode('immediate')
+
+      expect(onHit).toHaveBeenCalledTimes(1)
+      expect(bus.getMode()).toBe('immediate')
+    })
+
+    it('should drop queued events on clear', () => {
+      const bus = new EventBus<TestEvents>('queued')
+      const onHit = vi.fn()
+      bus.on('Hit', onHit)
+      bus.emit('Hit', { amount: 1 })
+
+      bus.clear()
+
+      expect(bus.dispatch()).toBe(0)
+      expect(onHit).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Event Bus
+ *
+ * Typed publish/subscribe channel for gameplay events ("damage dealt",
+ * "enemy killed", "level loaded"), separate from the World's component
+ * events. Events are either delivered immediately or, in queued mode,
+ * collected and delivered together at the next `dispatch()` (once per
+ * frame when driven by the Scheduler).
+ *
+ * @example
+ * ```ts
+ * const bus = new EventBus<GameEventMap>()
+ *
+ * const off = bus.on('EnemyKilled', ({ entity, killer }) => {
+ *   console.log(`${killer} killed ${entity}`)
+ * })
+ *
+ * bus.emit('EnemyKilled', { entity: goblin, killer: player })
+ * off()
+ * ```
+ */
+
+/**
+ * Map of event type to payload type; interfaces such as `GameEventMap` work too.
+ */
+export type EventMap = Record<string, unknown>
+
+/**
+ * Event handler for a single event type.
+ */
+export type EventHandler<P> = (payload: P) => void
+
+/**
+ * Receives a handler's error instead of the default `console.error`.
+ * Throwing from it stops the delivery of the current event.
+ */
+export type EventErrorHandler<E> = (error: unknown, type: keyof E, payload: unknown, handler: EventHandler<any>) => void
+
+/**
+ * Delivery mode for `emit`.
+ * - **immediate**: handlers run inside `emit`
+ * - **queued**: events wait for the next `dispatch()`
+ */
+export type EventDispatchMode = 'immediate' | 'queued'
+
+/**
+ * Upper bound for dispatch passes; guards against handlers that endlessly
+ * queue new events while being dispatched.
+ */
+const MAX_DISPATCH_PASSES = 16
+
+/**
+ * Event Bus
+ *
+ * Typed gameplay events with immediate or queued delivery.
+ */
+export class EventBus<E extends object = EventMap> {
+  private handlers = new Map<keyof E, Set<EventHandler<any>>>()
+  private queue: { type: keyof E; payload: unknown }[] = []
+  private mode: EventDispatchMode
+  private onError: EventErrorHandler<E> | null
+  // `once` wrappers mapped to the handler they were created for, so errors name the real handler
+  private onceHandlers = new WeakMap<EventHandler<any>, EventHandler<any>>()
+
+  /**
+   * Create a new event bus.
+   *
+   * @param mode - Delivery mode (default: 'immediate')
+   * @param onError - Receives handler errors (default: log them)
+   */
+  constructor(mode: EventDispatchMode = 'immediate', onError: EventErrorHandler<E> | null = null) {
+    this.mode = mode
+    this.onError = onError
+  }
+
+  /**
+   * Current delivery mode.
+   */
+  getMode(): EventDispatchMode {
+    return this.mode
+  }
+
+  /**
+   * Switch delivery mode.
+   *
+   * Switching to immediate mode delivers anything still queued.
+   *
+   * @param mode - New delivery mode
+   */
+  setMode(mode: EventDispatchMode): void {
+    this.mode = mode
+    if (mode === 'immediate') this.dispatch()
+  }
+
+  /**
+   * Subscribe to an event type.
+   *
+   * @param type - Event type
+   * @param handler - Called with the event payload
+   * @returns Unsubscribe function
+   */
+  on<T extends keyof E>(type: T, handler: EventHandler<E[T]>): () => void {
+    let set = this.handlers.get(type)
+    if (!set) {
+      set = new Set()
+      this.handlers.set(type, set)
+    }
+    set.add(handler)
+    return () => { this.off(type, handler) }
+  }
+
+  /**
+   * Subscribe to the next event of a type only.
+   *
+   * @param type - Event type
+   * @param handler - Called once with the event payload
+   * @returns Unsubscribe function
+   */
+  once<T extends keyof E>(type: T, handler: EventHandler<E[T]>): () => void {
+    const wrapper: EventHandler<E[T]> = payload => {
+      off()
+      handler(payload)
+    }
+    this.onceHandlers.set(wrapper, handler)
+    const off = this.on(type, wrapper)
+    return off
+  }
+
+  /**
+   * Remove a handler.
+   *
+   * @param type - Event type
+   * @param handler - Handler passed to `on`
+   */
+  off<T extends keyof E>(type: T, handler: EventHandler<E[T]>): void {
+    const set = this.handlers.get(type)
+    if (!set) return
+    set.delete(handler)
+    if (set.size === 0) this.handlers.delete(type)
+  }
+
+  /**
+   * Publish an event according to the delivery mode.
+   *
+   * @param type - Event type
+   * @param payload - Event payload
+   */
+  emit<T extends keyof E>(type: T, payload: E[T]): void {
+    if (this.mode === 'queued') this.queue.push({ type, payload })
+    else this.deliver(type, payload)
+  }
+
+  /**
+   * Publish an event to its handlers right away, regardless of mode.
+   *
+   * @param type - Event type
+   * @param payload - Event payload
+   */
+  emitNow<T extends keyof E>(type: T, payload: E[T]): void {
+    this.deliver(type, payload)
+  }
+
+  /**
+   * Number of events waiting for `dispatch()`.
+   */
+  get pending(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Deliver all queued events in emission order.
+   *
+   * Events queued by handlers during dispatch are delivered in follow-up
+   * passes of the same call.
+   *
+   * @returns Number of events delivered
+   */
+  dispatch(): number {
+    let delivered = 0
+    for (let pass = 0; pass < MAX_DISPATCH_PASSES && this.queue.length > 0; pass++) {
+      const batch = this.queue
+      this.queue = []
+      for (const { type, payload } of batch) {
+        this.deliver(type, payload as E[keyof E])
+        delivered++
+      }
+    }
+    if (this.queue.length > 0) {
+      console.warn(`[EventBus] ${this.queue.length} events left after ${MAX_DISPATCH_PASSES} dispatch passes`)
+    }
+    return delivered
+  }
+
+  /**
+   * Drop queued events and, optionally, all handlers.
+   *
+   * @param handlers - Also remove every subscription
+   */
+  clear(handlers = false): void {
+    this.queue = []
+    if (handlers) this.handlers.clear()
+  }
+
+  /**
+   * Run the handlers of one event; a throwing handler does not stop the
+   * others unless the error handler rethrows.
+   */
+  private deliver<T extends keyof E>(type: T, payload: E[T]): void {
+    const set = this.handlers.get(type)
+    if (!set) return
+    for (const handler of Array.from(set)) {
+      try {
+        handler(payload)
+      } catch (e) {
+        if (this.onError) this.onError(e, type, payload, this.onceHandlers.get(handler) ?? handler)
+        else console.error(`[EventBus] Handler for '${String(type)}' failed:`, e)
+      }
+    }
+  }
+}
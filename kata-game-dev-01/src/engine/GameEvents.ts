@@ -0,0 +1,132 @@
+/**
+ * Gameplay event payloads
+ *
+ * Maps every GAME_EVENTS name to the payload published with it on
+ * `world.events`. Systems publish, UI/audio/quests subscribe.
+ *
+ * @example
+ * ```ts
+ * world.emit<'DamageDealt'>('DamageDealt', { target: enemy, amount: 12, source: 'weapon' })
+ * ```
+ */
+
+import type { Entity } from './ECS'
+
+/**
+ * Where damage originated from.
+ */
+export type DamageSource = 'weapon' | 'combat' | 'projectile'
+
+export interface GameEventMap {
+  DamageDealt: {
+    /** Attacking entity, if any */
+    attacker?: Entity
+    /** Damaged entity */
+    target: Entity
+    /** Damage applied */
+    amount: number
+    /** Target health after the hit */
+    remaining?: number
+    /** Whether the hit was critical */
+    critical?: boolean
+    source: DamageSource
+  }
+  AttackMissed: {
+    attacker: Entity
+    target: Entity
+    source: DamageSource
+  }
+  EnemyKilled: {
+    /** Killed entity */
+    entity: Entity
+    /** Entity that dealt the final blow, if known */
+    killer?: Entity
+  }
+  CombatStarted: {
+    encounterId: string
+    attacker: Entity
+    defender: Entity
+  }
+  CombatEnded: {
+    encounterId: string
+    winner: Entity
+    loser: Entity
+    /** Number of rounds fought */
+    rounds: number
+  }
+  ItemPickedUp: {
+    entity: Entity
+    itemId: string
+    quantity: number
+  }
+  ItemDropped: {
+    entity: Entity
+    itemId: string
+    uid: string
+    quantity: number
+  }
+  ItemConsumed: {
+    entity: Entity
+    itemId: string
+    uid: string
+  }
+  ItemEquipped: {
+    entity: Entity
+    slot: string
+    itemId: string
+    uid: string
+  }
+  ItemUnequipped: {
+    entity: Entity
+    slot: string
+    uid: string
+  }
+  DialogStarted: {
+    entity: Entity
+    npc: Entity
+    treeId: string
+  }
+  DialogEnded: {
+    entity: Entity
+    treeId?: string
+  }
+  QuestFlagSet: {
+    entity: Entity
+    key: string
+    value: unknown
+  }
+  LevelLoaded: {
+    levelId: string
+    /** Entities spawned for the level */
+    entityCount: number
+  }
+  LevelUnloaded: {
+    levelId: string
+  }
+  CollisionEnter: {
+    /** Entity with the lower handle */
+    a: Entity
+    /** Entity with the higher handle */
+    b: Entity
+    /** Whether either collider is a trigger */
+    trigger: boolean
+  }
+  CollisionExit: {
+    a: Entity
+    b: Entity
+    trigger: boolean
+  }
+  TriggerFired: {
+    /** Entity that entered or left the zone */
+    entity: Entity
+    levelId: string
+    zoneId: string
+    edge: 'enter' | 'exit'
+  }
+  HintShown: {
+    text: string
+    /** Seconds to keep the hint on screen */
+    duration: number
+  }
+}
+
@@ -0,0 +1,97 @@
+/**
+ * Listener Errors
+ *
+ * What the World does when a component listener or a gameplay event
+ * handler (`world.on`) throws. By default the error is logged and the
+ * remaining listeners still run; tests can use
+ * `'throw'` to fail on the first broken listener, and the game can route
+ * failures into its own reporting with a handler. Every failure is counted
+ * per listener so debug tooling can list the broken ones.
+ *
+ * @example
+ * ```ts
+ * world.setListenerErrorPolicy('throw')
+ *
+ * world.setListenerErrorPolicy(error => {
+ *   monitor.recordListenerError()
+ *   console.error(error.message, error.cause)
+ * })
+ * ```
+ */
+
+import type { ComponentEvent, Entity } from './ECS'
+
+/**
+ * Gameplay event being delivered to a `world.on` handler.
+ */
+export interface GameEventDelivery {
+  /** Gameplay event type, e.g. 'EnemyKilled' */
+  type: string
+  /** Event payload */
+  payload: unknown
+}
+
+/**
+ * Error raised by a listener, with the event it was handling.
+ */
+export class ListenerError extends Error {
+  /** Event being delivered */
+  readonly event: ComponentEvent | GameEventDelivery
+  /** Entity of a component event (undefined for gameplay events) */
+  readonly entity: Entity | undefined
+  /** Component name of a component event, or the gameplay event type */
+  readonly component: string
+  /** Name of the failing listener ('anonymous' for unnamed functions) */
+  readonly listener: string
+  /** Value thrown by the listener */
+  readonly cause: unknown
+
+  constructor(cause: unknown, event: ComponentEvent | GameEventDelivery, listener: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    const isComponentEvent = 'name' in event
+    super(isComponentEvent
+      ? `Listener '${listener}' failed on ${event.type} of '${String(event.name)}' for entity ${event.entity}: ${reason}`
+      : `Handler '${listener}' failed on gameplay event '${event.type}': ${reason}`)
+    this.name = 'ListenerError'
+    this.event = event
+    this.entity = isComponentEvent ? event.entity : undefined
+    this.component = isComponentEvent ? String(event.name) : event.type
+    this.listener = listener
+    this.cause = cause
+  }
+}
+
+/**
+ * Receives every listener error when used as the policy.
+ */
+export type ListenerErrorHandler = (error: ListenerError) => void
+
+/**
+ * How listener errors are handled:
+ * - `'swallow'`: ignore (still counted)
+ * - `'log'`: `console.error` and continue with the next listener (default)
+ * - `'throw'`: rethrow as `ListenerError`, skipping the remaining listeners
+ * - handler: call it and continue
+ */
+export type ListenerErrorPolicy = 'swallow' | 'log' | 'throw' | ListenerErrorHandler
+
+/**
+ * Failure statistics of one listener.
+ */
+export interface ListenerFailure {
+  /** Listener name */
+  listener: string
+  /** Number of errors so far */
+  count: number
+  /** Component (or gameplay event type) of the latest failing event */
+  component: string
+  /** Message of the latest error */
+  message: string
+}
+
+/**
+ * Display name of a listener function.
+ *
+ * @param listener - Listener function
+ */
+export const listenerName = (listener: (...args: never[]) => unknown): string => listener.name || 'anonymous'
@@ -0,0 +1,113 @@
+/**
+ * Query Builder
+ *
+ * Fluent wrapper around `World.queryFiltered` for composing
+ * with/without/optional clauses while keeping result types precise.
+ * Each clause returns a new builder, so partially built queries can be
+ * shared and extended safely.
+ *
+ * @example
+ * ```ts
+ * const npcs = world.queryBuilder()
+ *   .with(COMPONENTS.TRANSFORM, COMPONENTS.NPC)
+ *   .optional(COMPONENTS.METADATA)
+ *
+ * for (const { entity, comps: [transform, , meta] } of npcs.run()) {
+ *   const treeId = meta?.dialogTreeId ?? 'merchant_dialog'
+ * }
+ * ```
+ */
+
+import type { World, ComponentSchema, ComponentKey, QueryFilter, QueryResult } from './ECS'
+
+type Keys<C extends ComponentSchema> = readonly (keyof C | ComponentKey)[]
+
+/**
+ * Query Builder
+ *
+ * Immutable description of a filtered query bound to a world.
+ */
+export class QueryBuilder<
+  C extends ComponentSchema = ComponentSchema,
+  K extends Keys<C> = [],
+  W extends Keys<C> = [],
+  O extends Keys<C> = []
+> {
+  private world: World<C>
+  private filter: QueryFilter<C, K, W, O>
+
+  /**
+   * Create a new query builder.
+   *
+   * Usually obtained via `world.queryBuilder()`.
+   *
+   * @param world - World to query
+   * @param filter - Clauses collected so far
+   */
+  constructor(world: World<C>, filter?: QueryFilter<C, K, W, O>) {
+    this.world = world
+    this.filter = filter ?? ({ with: [], without: [], optional: [] } as unknown as QueryFilter<C, K, W, O>)
+  }
+
+  /**
+   * Require components.
+   *
+   * @param names - Components every result must have
+   * @returns New builder including the clause
+   */
+  with<N extends Keys<C>>(...names: N): QueryBuilder<C, [...K, ...N], W, O> {
+    return new QueryBuilder<C, [...K, ...N], W, O>(this.world, {
+      ...this.filter,
+      with: [...this.filter.with, ...names] as unknown as [...K, ...N],
+    })
+  }
+
+  /**
+   * Exclude entities that have any of these components.
+   *
+   * @param names - Components no result may have
+   * @returns New builder including the clause
+   */
+  without<N extends Keys<C>>(...names: N): QueryBuilder<C, K, [...W, ...N], O> {
+    return new QueryBuilder<C, K, [...W, ...N], O>(this.world, {
+      ...this.filter,
+      without: [...(this.filter.without ?? []), ...names] as unknown as [...W, ...N],
+    })
+  }
+
+  /**
+   * Fetch components if present without requiring them.
+   *
+   * Optional components are appended after the required ones in `comps`
+   * and typed `T | undefined`.
+   *
+   * @param names - Components to fetch when present
+   * @returns New builder including the clause
+   */
+  optional<N extends Keys<C>>(...names: N): QueryBuilder<C, K, W, [...O, ...N]> {
+    return new QueryBuilder<C, K, W, [...O, ...N]>(this.world, {
+      ...this.filter,
+      optional: [...(this.filter.optional ?? []), ...names] as unknown as [...O, ...N],
+    })
+  }
+
+  /**
+   * Plain filter object, e.g. for `useWorldQuery`.
+   *
+   * @returns The collected clauses
+   */
+  toFilter(): QueryFilter<C, K, W, O> {
+    return this.filter
+  }
+
+  /**
+   * Execute the query.
+   *
+   * Results are cached by the world; treat the returned array as read-only.
+   *
+   * @returns Matching entities with required and optional components
+   */
+  run(): QueryResult<C, K, O>[] {
+    return this.world.queryFiltered<K, W, O>(this.filter)
+  }
+}
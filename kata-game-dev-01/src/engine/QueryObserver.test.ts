@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { World, type ComponentSchema } from './ECS'
+import { ReactiveWorld } from './ReactiveWorld'
+import { QueryObserver } from './QueryObserver'
+
+interface TestComponents extends ComponentSchema {
+  position: { x: number; y: number }
+  enemy: { kind: string }
+  dead: { at: number }
+  label: { text: string }
+}
+
+describe('QueryObserver', () => {
+  let world: World<TestComponents>
+
+  beforeEach(() => {
+    world = new World<TestComponents>()
+  })
+
+  it('should report entities that already match on observe', () => {
+    const entity = world.createEntity()
+    world.addComponent(entity, 'position', { x: 1, y: 2 })
+    world.addComponent(entity, 'enemy', { kind: 'goblin' })
+    const onEnter = vi.fn()
+
+    const observer = world.observe(['position', 'enemy'], { onEnter })
+
+    expect(observer).toBeInstanceOf(QueryObserver)
+    expect(onEnter).toHaveBeenCalledWith(entity, [{ x: 1, y: 2 }, { kind: 'goblin' }])
+    expect(observer.entities()).toEqual([entity])
+  })
+
+  it('should fire onEnter once the last required component arrives', () => {
+    const onEnter = vi.fn()
+    const observer = world.observe(['position', 'enemy'], { onEnter })
+    const entity = world.createEntity()
+
+    world.addComponent(entity, 'position', { x: 0, y: 0 })
+    expect(onEnter).not.toHaveBeenCalled()
+
+    world.addComponent(entity, 'enemy', { kind: 'orc' })
+    expect(onEnter).toHaveBeenCalledTimes(1)
+    expect(observer.has(entity)).toBe(true)
+  })
+
+  it('should fire onExit when a required component is removed or the entity is removed', () => {
+    const onExit = vi.fn()
+    const observer = world.observe(['position', 'enemy'], { onExit })
+    const a = world.createEntity()
+    const b = world.createEntity()
+    for (const e of [a, b]) {
+      world.addComponent(e, 'position', { x: 0, y: 0 })
+      world.addComponent(e, 'enemy', { kind: 'goblin' })
+    }
+
+    world.removeComponent(a, 'enemy')
+    world.removeEntity(b)
+
+    expect(onExit.mock.calls).toEqual([[a], [b]])
+    expect(observer.size).toBe(0)
+  })
+
+  it('should fire onChange for writes to matching entities only', () => {
+    const onChange = vi.fn()
+    world.observe(['position', 'enemy'], { onChange })
+    const matching = world.createEntity()
+    const other = world.createEntity()
+    world.addComponent(matching, 'position', { x: 0, y: 0 })
+    world.addComponent(matching, 'enemy', { kind: 'goblin' })
+    world.addComponent(other, 'position', { x: 0, y: 0 })
+
+    world.addComponent(matching, 'position', { x: 5, y: 0 })
+    world.addComponent(other, 'position', { x: 5, y: 0 })
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(onChange).toHaveBeenCalledWith(matching, [{ x: 5, y: 0 }, { kind: 'goblin' }], 'position')
+  })
+
+  it('should honour without and optional clauses', () => {
+    const onEnter = vi.fn()
+    const onExit = vi.fn()
+    const onChange = vi.fn()
+    world.observe({ with: ['enemy'], without: ['dead'], optional: ['label'] }, { onEnter, onExit, onChange })
+    const entity = world.createEntity()
+
+    world.addComponent(entity, 'enemy', { kind: 'goblin' })
+    expect(onEnter).toHaveBeenCalledWith(entity, [{ kind: 'goblin' }, undefined])
+
+    world.addComponent(entity, 'label', { text: 'Boss' })
+    expect(onChange).toHaveBeenCalledWith(entity, [{ kind: 'goblin' }, { text: 'Boss' }], 'label')
+
+    world.addComponent(entity, 'dead', { at: 1 })
+    expect(onExit).toHaveBeenCalledWith(entity)
+
+    world.removeComponent(entity, 'dead')
+    expect(onEnter).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stop reporting after dispose', () => {
+    const onEnter = vi.fn()
+    const observer = world.observe(['enemy'], { onEnter })
+    observer.dispose()
+
+    world.addComponent(world.createEntity(), 'enemy', { kind: 'goblin' })
+
+    expect(onEnter).not.toHaveBeenCalled()
+  })
+
+  it('should see one coalesced change per transaction on a ReactiveWorld', () => {
+    const reactive = new ReactiveWorld()
+    const onEnter = vi.fn()
+    const onExit = vi.fn()
+    reactive.observe(['position', 'enemy'], { onEnter, onExit })
+
+    reactive.batch(() => {
+      const temp = reactive.createEntity()
+      reactive.addComponent(temp, 'position', { x: 0, y: 0 })
+      reactive.addComponent(temp, 'enemy', { kind: 'goblin' })
+      reactive.removeEntity(temp)
+    })
+
+    expect(onEnter).not.toHaveBeenCalled()
+    expect(onExit).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Query Observer
+ *
+ * Tracks which entities match a multi-component query and reports when an
+ * entity starts matching (enter), stops matching (exit), or has one of the
+ * query's components written while it matches (change). Consumers react to
+ * "became an enemy with a transform" instead of filtering raw component
+ * events by hand.
+ *
+ * @example
+ * ```ts
+ * const observer = world.observe([COMPONENTS.TRANSFORM, COMPONENTS.RENDERABLE], {
+ *   onEnter: (entity, [t]) => quad.insert({ x: t.x, y: t.y, entity }),
+ *   onExit: entity => quad.remove(entity),
+ * })
+ *
+ * // Later
+ * observer.dispose()
+ * ```
+ */
+
+import type { World, Entity, ComponentSchema, ComponentEvent } from './ECS'
+import { EVENT_TYPES } from './constants'
+
+/**
+ * Membership callbacks; `comps` holds the required components in query
+ * order, followed by the optional ones (`undefined` when missing).
+ */
+export interface QueryObserverHandlers<Row extends readonly unknown[] = unknown[]> {
+  /** Entity started matching the query */
+  onEnter?: (entity: Entity, comps: Row) => void
+  /** Entity stopped matching the query (component removed, excluded component added, or entity removed) */
+  onExit?: (entity: Entity) => void
+  /** A required or optional component of a matching entity was written or removed */
+  onChange?: (entity: Entity, comps: Row, name: string) => void
+}
+
+/**
+ * Normalized query: required, excluded and optional component names.
+ */
+export interface ObservedQuery {
+  with: string[]
+  without: string[]
+  optional: string[]
+}
+
+/**
+ * Query Observer
+ *
+ * Created via `world.observe()`, which feeds it the world's component events.
+ */
+export class QueryObserver<C extends ComponentSchema = ComponentSchema> {
+  private world: World<C>
+  private query: ObservedQuery
+  private handlers: QueryObserverHandlers<any>
+  private members = new Set<Entity>()
+  private relevant: Set<string>
+  private unsubscribe: (() => void) | null = null
+
+  /**
+   * Create a new observer.
+   *
+   * Usually obtained via `world.observe()`, which also reports entities that
+   * already match through `onEnter`.
+   *
+   * @param world - World to observe
+   * @param query - Required, excluded and optional components
+   * @param handlers - Membership callbacks
+   */
+  constructor(world: World<C>, query: ObservedQuery, handlers: QueryObserverHandlers<any>) {
+    this.world = world
+    this.query = query
+    this.handlers = handlers
+    this.relevant = new Set([...query.with, ...query.without, ...query.optional])
+  }
+
+  /**
+   * Start listening and report current matches as entered.
+   *
+   * @param subscribe - Registers the event handler, returns its unsubscribe function
+   */
+  attach(subscribe: (handler: (ev: ComponentEvent<C>) => void) => () => void): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = subscribe(ev => this.handle(ev))
+    const current = this.world.queryFiltered({
+      with: this.query.with,
+      without: this.query.without,
+      optional: this.query.optional,
+    })
+    for (const { entity, comps } of current) {
+      this.members.add(entity)
+      this.handlers.onEnter?.(entity, comps)
+    }
+  }
+
+  /**
+   * Number of entities currently matching.
+   */
+  get size(): number {
+    return this.members.size
+  }
+
+  /**
+   * Whether an entity currently matches.
+   *
+   * @param entity - Entity to check
+   */
+  has(entity: Entity): boolean {
+    return this.members.has(entity)
+  }
+
+  /**
+   * Entities currently matching, in the order they entered.
+   */
+  entities(): Entity[] {
+    return Array.from(this.members)
+  }
+
+  /**
+   * Stop observing; no callbacks fire afterwards.
+   */
+  dispose(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.members.clear()
+  }
+
+  /**
+   * Update membership for one component event.
+   *
+   * @private
+   */
+  private handle(ev: ComponentEvent<C>): void {
+    const name = String(ev.name)
+    if (!this.relevant.has(name)) return
+
+    const { entity } = ev
+    const wasMember = this.members.has(entity)
+    const isMember = this.matches(entity)
+
+    if (!wasMember && isMember) {
+      this.members.add(entity)
+      this.handlers.onEnter?.(entity, this.row(entity))
+    } else if (wasMember && !isMember) {
+      this.members.delete(entity)
+      this.handlers.onExit?.(entity)
+    } else if (isMember && !this.query.without.includes(name)) {
+      // A required component can only be written here; optional ones may also come or go
+      if (ev.type !== EVENT_TYPES.ADD || this.query.optional.includes(name)) {
+        this.handlers.onChange?.(entity, this.row(entity), name)
+      }
+    }
+  }
+
+  /**
+   * Whether an entity has all required and none of the excluded components.
+   *
+   * @private
+   */
+  private matches(entity: Entity): boolean {
+    if (!this.world.isAlive(entity)) return false
+    const get = this.world.getComponent as (e: Entity, n: string) => unknown
+    return this.query.with.every(n => get(entity, n) !== undefined)
+      && !this.query.without.some(n => get(entity, n) !== undefined)
+  }
+
+  /**
+   * Current component values in query order.
+   *
+   * @private
+   */
+  private row(entity: Entity): unknown[] {
+    const get = this.world.getComponent as (e: Entity, n: string) => unknown
+    return [...this.query.with, ...this.query.optional].map(n => get(entity, n))
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { World } from './ECS'
+import {
+  mulberry32,
+  createRandomState,
+  createRandomStream,
+  nextRandom,
+  getRandomStream,
+  Random,
+} from './Random'
+
+const draw = (next: () => number, n: number) => Array.from({ length: n }, () => next())
+
+describe('Random', () => {
+  describe('mulberry32', () => {
+    it('should repeat the sequence for the same seed', () => {
+      expect(draw(mulberry32(42), 5)).toEqual(draw(mulberry32(42), 5))
+      expect(draw(mulberry32(42), 5)).not.toEqual(draw(mulberry32(43), 5))
+    })
+
+    it('should stay within [0, 1)', () => {
+      for (const value of draw(mulberry32(7), 1000)) {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      }
+    })
+  })
+
+  describe('streams', () => {
+    it('should keep named streams independent', () => {
+      const a = createRandomState(1)
+      const b = createRandomState(1)
+
+      // Drawing from another stream must not shift 'combat'
+      nextRandom(a, 'spawn')
+      nextRandom(a, 'spawn')
+
+      expect(nextRandom(a, 'combat')).toBe(nextRandom(b, 'combat'))
+      expect(nextRandom(a, 'spawn')).not.toBe(nextRandom(a, 'combat'))
+    })
+
+    it('should resume from a serialized state', () => {
+      const state = createRandomState(99)
+      nextRandom(state, 'loot')
+      const saved = JSON.parse(JSON.stringify(state))
+
+      expect(nextRandom(saved, 'loot')).toBe(nextRandom(state, 'loot'))
+    })
+
+    it('should provide range, int, pick and chance helpers', () => {
+      const stream = createRandomStream(mulberry32(5))
+      for (let i = 0; i < 100; i++) {
+        const r = stream.range(10, 20)
+        expect(r).toBeGreaterThanOrEqual(10)
+        expect(r).toBeLessThan(20)
+        const n = stream.int(1, 3)
+        expect([1, 2, 3]).toContain(n)
+        expect(['a', 'b']).toContain(stream.pick(['a', 'b']))
+      }
+      expect(stream.chance(0)).toBe(false)
+      expect(stream.chance(1)).toBe(true)
+    })
+  })
+
+  describe('world resource', () => {
+    it('should replay identically for the same seed', () => {
+      const a = new World()
+      const b = new World()
+      a.setResource(Random, createRandomState(1234))
+      b.setResource(Random, createRandomState(1234))
+
+      expect(draw(getRandomStream(a, 'combat').next, 10)).toEqual(draw(getRandomStream(b, 'combat').next, 10))
+    })
+
+    it('should continue after restoring saved resources', () => {
+      const world = new World()
+      world.setResource(Random, createRandomState(8))
+      const combat = getRandomStream(world, 'combat')
+      combat.next()
+      const saved = JSON.parse(JSON.stringify(world.serializeResources()))
+      const expected = draw(combat.next, 3)
+
+      const loaded = new World()
+      loaded.restoreResources(saved)
+
+      expect(draw(getRandomStream(loaded, 'combat').next, 3)).toEqual(expected)
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { ReactiveWorld } from './ReactiveWorld'
+import { ListenerError } from './ListenerError'
 import type { Entity } from './ECS'
 
 describe('ReactiveWorld', () => {
@@ -325,6 +326,15 @@ describe('ReactiveWorld', () => {
 
       consoleErrorSpy.mockRestore()
     })
+
+    it('should report change callback errors through the listener error policy', () => {
+      world.setListenerErrorPolicy('throw')
+      world.onComponentChange('Transform', function updateMinimap() { throw new Error('boom') })
+
+      expect(() => world.addComponent(entity, 'Transform', { x: 10, y: 20 })).toThrow(ListenerError)
+      expect(world.getListenerErrorCount()).toBe(1)
+      expect(world.getListenerFailures()[0]).toMatchObject({ listener: 'updateMinimap', component: 'Transform' })
+    })
   })
 
   describe('Integration Tests', () => {
@@ -431,5 +441,212 @@ describe('ReactiveWorld', () => {
       expect(callback).toHaveBeenCalledTimes(100)
     })
   })
-})
 
+  describe('transactions', () => {
+    it('should deliver one coalesced event per component on commit', () => {
+      const callback = vi.fn()
+      world.onComponentChange('Health', callback)
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+      callback.mockClear()
+
+      world.batch(() => {
+        world.addComponent(entity, 'Health', { current: 60, max: 100 })
+        world.addComponent(entity, 'Health', { current: 70, max: 100 })
+        expect(callback).not.toHaveBeenCalled()
+      })
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith(entity, { current: 70, max: 100 }, 'update')
+    })
+
+    it('should report a component added in the transaction as add', () => {
+      const callback = vi.fn()
+      world.onComponentChange('Transform', callback)
+
+      world.batch(() => {
+        world.addComponent(entity, 'Transform', { x: 1, y: 1 })
+        world.addComponent(entity, 'Transform', { x: 2, y: 2 })
+      })
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith(entity, { x: 2, y: 2 }, 'add')
+    })
+
+    it('should drop a component added and removed in the same transaction', () => {
+      const callback = vi.fn()
+      world.onComponentChange('Transform', callback)
+
+      world.batch(() => {
+        world.addComponent(entity, 'Transform', { x: 1, y: 1 })
+        world.removeComponent(entity, 'Transform')
+      })
+
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('should only deliver at the outermost commit', () => {
+      const callback = vi.fn()
+      world.onComponentChange('Transform', callback)
+
+      world.begin()
+      world.batch(() => world.addComponent(entity, 'Transform', { x: 1, y: 1 }))
+      expect(callback).not.toHaveBeenCalled()
+      world.commit()
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(world.inTransaction()).toBe(false)
+    })
+
+    it('should throw on commit without begin', () => {
+      expect(() => world.commit()).toThrow('commit() without begin()')
+    })
+
+    it('should restore values, including in-place edits, on rollback', () => {
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+      world.addComponent(entity, 'Velocity', { vx: 1, vy: 0 })
+      const callback = vi.fn()
+      world.onComponentChange('Health', callback)
+
+      world.begin()
+      const hp = world.getComponent(entity, 'Health') as { current: number }
+      hp.current = 10
+      world.removeComponent(entity, 'Velocity')
+      world.addComponent(entity, 'Transform', { x: 5, y: 5 })
+      world.rollback()
+
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 50, max: 100 })
+      expect(world.getComponent(entity, 'Velocity')).toEqual({ vx: 1, vy: 0 })
+      expect(world.getComponent(entity, 'Transform')).toBeUndefined()
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('should keep untouched component references on rollback', () => {
+      const transform = { x: 1, y: 2 }
+      world.addComponent(entity, 'Transform', transform)
+
+      world.begin()
+      world.getComponent(entity, 'Transform')
+      world.rollback()
+
+      expect(world.getComponent(entity, 'Transform')).toBe(transform)
+    })
+
+    it('should remove entities created in a rolled back transaction', () => {
+      let created!: Entity
+      expect(() => world.batch(() => {
+        created = world.createEntity()
+        world.addComponent(created, 'Transform', { x: 0, y: 0 })
+        throw new Error('boom')
+      })).toThrow('boom')
+
+      expect(world.isAlive(created)).toBe(false)
+      expect(world.query('Transform')).toHaveLength(0)
+    })
+
+    it('should defer entity removal until commit', () => {
+      world.addComponent(entity, 'Transform', { x: 0, y: 0 })
+      const callback = vi.fn()
+      world.onComponentChange('Transform', callback)
+
+      world.begin()
+      world.removeEntity(entity)
+      expect(world.isAlive(entity)).toBe(true)
+      world.commit()
+
+      expect(world.isAlive(entity)).toBe(false)
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith(entity, undefined, 'remove')
+    })
+
+    it('should hold gameplay events until commit and drop them on rollback', () => {
+      const handler = vi.fn()
+      world.on('LevelUnloaded', handler)
+
+      world.begin()
+      world.emit('LevelUnloaded', { levelId: 'a' })
+      expect(handler).not.toHaveBeenCalled()
+      world.rollback()
+      expect(handler).not.toHaveBeenCalled()
+
+      world.batch(() => world.emit('LevelUnloaded', { levelId: 'b' }))
+      expect(handler).toHaveBeenCalledWith({ levelId: 'b' })
+    })
+
+    it('should commit or roll back by result with transaction()', () => {
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+
+      expect(world.transaction(() => {
+        world.addComponent(entity, 'Health', { current: 0, max: 100 })
+        return false
+      })).toBe(false)
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 50, max: 100 })
+
+      expect(world.transaction(() => {
+        world.addComponent(entity, 'Health', { current: 80, max: 100 })
+        return true
+      })).toBe(true)
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 80, max: 100 })
+    })
+
+    it('should roll back only a failed inner transaction inside a batch', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      const callback = vi.fn()
+      world.onComponentChange('Transform', callback)
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+
+      world.batch(() => {
+        world.addComponent(a, 'Transform', { x: 1, y: 1 })
+        expect(world.transaction(() => {
+          world.addComponent(entity, 'Health', { current: 0, max: 100 })
+          world.addComponent(world.createEntity(), 'Transform', { x: 9, y: 9 })
+          world.emit('LevelUnloaded', { levelId: 'inner' })
+          return false
+        })).toBe(false)
+        expect(world.inTransaction()).toBe(true)
+        world.addComponent(b, 'Transform', { x: 2, y: 2 })
+      })
+
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 50, max: 100 })
+      expect(world.query('Transform').map(r => r.entity)).toEqual([a, b])
+      expect(callback).toHaveBeenCalledTimes(2)
+      expect(callback).toHaveBeenCalledWith(a, { x: 1, y: 1 }, 'add')
+      expect(callback).toHaveBeenCalledWith(b, { x: 2, y: 2 }, 'add')
+      expect(world.inTransaction()).toBe(false)
+    })
+
+    it('should undo a committed inner transaction when the outer one rolls back', () => {
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+
+      world.begin()
+      world.addComponent(entity, 'Health', { current: 40, max: 100 })
+      let created!: Entity
+      expect(world.transaction(() => {
+        world.addComponent(entity, 'Health', { current: 30, max: 100 })
+        created = world.createEntity()
+        return true
+      })).toBe(true)
+      world.rollback()
+
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 50, max: 100 })
+      expect(world.isAlive(created)).toBe(false)
+      expect(world.inTransaction()).toBe(false)
+    })
+
+    it('should restore values the outer level changed when an inner level rolls back', () => {
+      world.addComponent(entity, 'Health', { current: 50, max: 100 })
+
+      world.transaction(() => {
+        world.addComponent(entity, 'Health', { current: 40, max: 100 })
+        world.transaction(() => {
+          world.removeComponent(entity, 'Health')
+          return false
+        })
+        expect(world.getComponent(entity, 'Health')).toEqual({ current: 40, max: 100 })
+        return true
+      })
+
+      expect(world.getComponent(entity, 'Health')).toEqual({ current: 40, max: 100 })
+    })
+  })
+})
@@ -18,11 +18,20 @@
  *
  * // Unsubscribe when done
  * unsubscribe()
+ *
+ * // Group mutations: listeners see one coalesced event per entity/component
+ * world.batch(() => {
+ *   world.addComponent(player, 'Health', healed)
+ *   world.addComponent(player, 'Inventory', remaining)
+ * })
  * ```
  */
 
 import { World } from './ECS'
-import type { Entity, ComponentKey, ComponentSchema, KnownComponentEvent } from './ECS'
+import type { Entity, ComponentKey, ComponentSchema, ComponentEvent, KnownComponentEvent } from './ECS'
+import type { GameEventMap } from './GameEvents'
+import { EVENT_TYPES } from './constants'
+import { cloneValue, stringifyWithUndefined } from './utils/serialization'
 
 /**
  * Component change callback type.
@@ -42,6 +51,33 @@ export type ComponentChangeCallback<T = any> = (
  */
 export type UnsubscribeFunction = () => void
 
+/**
+ * Component value captured when a transaction first touched it.
+ */
+interface UndoRecord {
+  entity: Entity
+  name: string
+  had: boolean
+  /** Live value at capture time */
+  ref: unknown
+  /** Deep copy of the value at capture time */
+  value: unknown
+}
+
+/**
+ * Savepoint for one transaction nesting level.
+ */
+interface TxFrame {
+  /** First-touch values per entity/component, keyed `${entity}:${name}` */
+  undo: Map<string, UndoRecord>
+  /** Entities created at this level */
+  created: Set<Entity>
+  /** Lengths of the shared queues when the level began */
+  despawns: number
+  gameEvents: number
+  componentEvents: number
+}
+
 /**
  * Reactive World
  *
@@ -61,6 +97,288 @@ export class ReactiveWorld<C extends ComponentSchema = ComponentSchema> extends
    */
   private worldUnsubscribers = new Map<string, UnsubscribeFunction>()
 
+  /** Savepoints of the open transaction levels, innermost last (empty = none) */
+  private txFrames: TxFrame[] = []
+  /** Entity removals deferred until commit */
+  private txDespawns: Entity[] = []
+  /** Gameplay events held until commit */
+  private txGameEvents: [keyof GameEventMap, unknown][] = []
+
+  /** Untracked World operations, used to apply and undo transactions */
+  private readonly base: {
+    createEntity: World<C>['createEntity']
+    getComponent: World<ComponentSchema>['getComponent']
+    addComponent: World<ComponentSchema>['addComponent']
+    removeComponent: World<ComponentSchema>['removeComponent']
+    removeEntity: World<C>['removeEntity']
+    emit: World<C>['emit']
+  }
+
+  constructor() {
+    super()
+    const world = this as unknown as World<ComponentSchema>
+    this.base = {
+      createEntity: this.createEntity,
+      getComponent: world.getComponent,
+      addComponent: world.addComponent,
+      removeComponent: world.removeComponent,
+      removeEntity: this.removeEntity,
+      emit: this.emit,
+    }
+
+    // Route mutations through the transaction bookkeeping. Outside a
+    // transaction these behave exactly like the World methods.
+    this.createEntity = () => {
+      const entity = this.base.createEntity()
+      this.txFrames[this.txFrames.length - 1]?.created.add(entity)
+      return entity
+    }
+    world.getComponent = (entity, name) => {
+      this.captureUndo(entity, String(name))
+      return this.base.getComponent(entity, name)
+    }
+    world.addComponent = (entity, name, comp) => {
+      this.captureUndo(entity, String(name))
+      this.base.addComponent(entity, name, comp)
+    }
+    world.removeComponent = (entity, name) => {
+      this.captureUndo(entity, String(name))
+      this.base.removeComponent(entity, name)
+    }
+    this.removeEntity = (entity) => {
+      if (this.txFrames.length > 0) this.txDespawns.push(entity)
+      else this.base.removeEntity(entity)
+    }
+    this.emit = (type, payload) => {
+      if (this.txFrames.length > 0) this.txGameEvents.push([type, payload])
+      else this.base.emit(type, payload)
+    }
+  }
+
+  /**
+   * Open a transaction (transactions nest; only the outermost commit delivers).
+   *
+   * Until commit, component events are held back and gameplay events are
+   * queued; entity removals are deferred. Component values are captured the
+   * first time each level reads or writes them, so in-place edits of
+   * objects fetched via `getComponent` are undone by `rollback` as well.
+   * Each level is a savepoint: rolling it back leaves outer levels open.
+   *
+   * @example
+   * ```ts
+   * world.begin()
+   * const ok = equip(world, player, 'mainHand', sword)
+   * ok ? world.commit() : world.rollback()
+   * ```
+   */
+  begin(): void {
+    if (this.txFrames.length === 0) this.heldComponentEvents = []
+    this.txFrames.push({
+      undo: new Map(),
+      created: new Set(),
+      despawns: this.txDespawns.length,
+      gameEvents: this.txGameEvents.length,
+      componentEvents: this.heldComponentEvents!.length,
+    })
+  }
+
+  /**
+   * Close the current transaction level.
+   *
+   * An inner level hands its changes to the enclosing one. At the outermost
+   * level, deferred removals are applied and held events are delivered
+   * once, coalesced per entity and component.
+   */
+  commit(): void {
+    const frame = this.txFrames.pop()
+    if (!frame) throw new Error('[ReactiveWorld] commit() without begin()')
+    const parent = this.txFrames[this.txFrames.length - 1]
+    if (parent) {
+      // The enclosing level keeps its own (older) captures
+      for (const [key, record] of frame.undo) {
+        if (!parent.undo.has(key) && !parent.created.has(record.entity)) parent.undo.set(key, record)
+      }
+      for (const entity of frame.created) parent.created.add(entity)
+      return
+    }
+
+    for (const entity of this.txDespawns) this.base.removeEntity(entity)
+    const events = this.heldComponentEvents ?? []
+    const gameEvents = this.txGameEvents
+    this.resetTransaction()
+
+    for (const ev of this.coalesce(events)) this.deliverComponentEvent(ev)
+    for (const [type, payload] of gameEvents) this.base.emit(type, payload as never)
+  }
+
+  /**
+   * Abort the current transaction level.
+   *
+   * Restores the component values captured at this level, removes entities
+   * created in it and drops the events and deferred removals it queued.
+   * Enclosing levels stay open with their own changes.
+   * Does nothing when no transaction is open.
+   */
+  rollback(): void {
+    const frame = this.txFrames[this.txFrames.length - 1]
+    if (!frame) return
+    // Events are still held while restoring; the undo's own events are dropped below
+    const undo = Array.from(frame.undo.values()).reverse()
+    for (const record of undo) {
+      const { entity, name, had, value } = record
+      if (frame.created.has(entity) || this.isUnchanged(record)) continue
+      if (had) this.base.addComponent(entity, name, value)
+      else this.base.removeComponent(entity, name)
+    }
+    for (const entity of frame.created) this.base.removeEntity(entity)
+
+    this.txFrames.pop()
+    if (this.txFrames.length === 0) {
+      this.resetTransaction()
+      return
+    }
+    this.heldComponentEvents!.length = frame.componentEvents
+    this.txDespawns.length = frame.despawns
+    this.txGameEvents.length = frame.gameEvents
+  }
+
+  /**
+   * Whether a transaction is open.
+   */
+  inTransaction(): boolean {
+    return this.txFrames.length > 0
+  }
+
+  /**
+   * Run mutations as one transaction.
+   *
+   * Listeners are notified once after `fn` returns. If `fn` throws, the
+   * changes made by `fn` are rolled back and the error is rethrown.
+   *
+   * @param fn - Mutations to apply
+   * @returns The result of `fn`
+   *
+   * @example
+   * ```ts
+   * world.batch(() => {
+   *   world.addComponent(player, 'Health', { current: 80, max: 100 })
+   *   world.addComponent(player, 'Health', { current: 90, max: 100 }) // one 'update' event
+   * })
+   * ```
+   */
+  batch<T>(fn: () => T): T {
+    this.begin()
+    let result: T
+    try {
+      result = fn()
+    } catch (error) {
+      this.rollback()
+      throw error
+    }
+    this.commit()
+    return result
+  }
+
+  /**
+   * Run a multi-step operation atomically: commit if it returns true,
+   * roll back otherwise. Inside another transaction only this operation's
+   * changes are rolled back.
+   *
+   * @param fn - Operation reporting success
+   * @returns Whether the operation was committed
+   *
+   * @example
+   * ```ts
+   * const swapped = world.transaction(() => unequip(...) !== undefined && equip(...))
+   * ```
+   */
+  transaction(fn: () => boolean): boolean {
+    this.begin()
+    let ok = false
+    try {
+      ok = fn()
+    } finally {
+      if (ok) this.commit()
+      else this.rollback()
+    }
+    return ok
+  }
+
+  /**
+   * Remember a component's value the first time the current transaction
+   * level touches it.
+   *
+   * @private
+   */
+  private captureUndo(entity: Entity, name: string): void {
+    const frame = this.txFrames[this.txFrames.length - 1]
+    if (!frame || frame.created.has(entity)) return
+    const key = `${entity}:${name}`
+    if (frame.undo.has(key)) return
+    const current = this.base.getComponent(entity, name)
+    frame.undo.set(key, { entity, name, had: current !== undefined, ref: current, value: cloneValue(current) })
+  }
+
+  /**
+   * Whether a captured component is still the same object with the same
+   * content, so rollback can leave it (and references to it) alone.
+   *
+   * @private
+   */
+  private isUnchanged(record: UndoRecord): boolean {
+    const current = this.base.getComponent(record.entity, record.name)
+    if (current !== record.ref) return false
+    if (current === undefined) return true
+    try {
+      return stringifyWithUndefined(current) === stringifyWithUndefined(record.value)
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Clear all transaction state and stop holding events.
+   *
+   * @private
+   */
+  private resetTransaction(): void {
+    this.txFrames = []
+    this.txDespawns = []
+    this.txGameEvents = []
+    this.heldComponentEvents = null
+  }
+
+  /**
+   * Collapse held events to at most one per entity and component.
+   *
+   * The result compares the state before the first and after the last
+   * event: added → 'add', changed → 'update', removed → 'remove', and a
+   * component that was added and removed again produces nothing.
+   *
+   * @private
+   */
+  private coalesce(events: ComponentEvent<C>[]): ComponentEvent<C>[] {
+    const byKey = new Map<string, { existedBefore: boolean; last: ComponentEvent<C> }>()
+    for (const ev of events) {
+      const key = `${ev.entity}:${String(ev.name)}`
+      const entry = byKey.get(key)
+      if (entry) entry.last = ev
+      else byKey.set(key, { existedBefore: ev.type !== EVENT_TYPES.ADD, last: ev })
+    }
+
+    const out: ComponentEvent<C>[] = []
+    for (const { existedBefore, last } of byKey.values()) {
+      const existsAfter = last.type !== EVENT_TYPES.REMOVE
+      if (!existedBefore && !existsAfter) continue
+      if (!existsAfter) {
+        out.push({ type: EVENT_TYPES.REMOVE, entity: last.entity, name: last.name } as ComponentEvent<C>)
+      } else {
+        out.push({ ...last, type: existedBefore ? EVENT_TYPES.UPDATE : EVENT_TYPES.ADD } as ComponentEvent<C>)
+      }
+    }
+    return out
+  }
+
   /**
    * Listen to component changes.
    *
@@ -135,14 +453,15 @@ export class ReactiveWorld<C extends ComponentSchema = ComponentSchema> extends
     const listenerSet = this.changeListeners.get(componentKey)
     if (!listenerSet || listenerSet.size === 0) return
 
-    // Notify all listeners
-    listenerSet.forEach(callback => {
+    // Notify all listeners; failures go through the world's listener error policy
+    const event = { type, entity, name: componentKey, component } as ComponentEvent<C>
+    for (const callback of Array.from(listenerSet)) {
       try {
         callback(entity, component, type)
       } catch (error) {
-        console.error(`Error in component listener for ${componentKey}:`, error)
+        this.reportListenerError(error, event, callback)
       }
-    })
+    }
   }
 
   /**
@@ -0,0 +1,112 @@
+/**
+ * World Resources
+ *
+ * Typed singletons stored on the World for global state that does not
+ * belong to any entity: elapsed time, the active player, the level theme,
+ * input state, quest flags. Systems read them from the world instead of
+ * React refs or closure captures.
+ *
+ * A resource type is a named token with a default factory. Persistent
+ * resources are included in `world.serializeResources()` so SaveSystem can
+ * store them; their values must therefore be plain JSON-like data.
+ *
+ * @example
+ * ```ts
+ * const Score = defineResource('Score', () => ({ points: 0 }))
+ *
+ * world.setResource(Score, { points: 10 })
+ * world.getResource(Score).points += 5
+ * ```
+ */
+
+import type { Entity } from './ECS'
+import type { SpatialIndex } from './spatial/SpatialIndex'
+import type { StaticGeometry } from './spatial/StaticGeometry'
+
+/**
+ * Resource type token.
+ */
+export interface ResourceType<T> {
+  /** Unique name, also the key in serialized data */
+  readonly name: string
+  /** Default value used when the resource is read before it was set */
+  readonly create: () => T
+  /** Whether the resource is saved with the world (default: true) */
+  readonly persistent: boolean
+}
+
+/**
+ * Serialized resources keyed by resource name.
+ */
+export type SerializedResources = Record<string, unknown>
+
+/**
+ * Define a resource type
+ *
+ * @param name - Unique resource name
+ * @param create - Default value factory
+ * @param options - `persistent: false` keeps the resource out of saves
+ * @returns Resource type token
+ *
+ * @example
+ * ```ts
+ * export const Weather = defineResource('Weather', () => ({ raining: false }))
+ * ```
+ */
+export const defineResource = <T>(
+  name: string,
+  create: () => T,
+  options: { persistent?: boolean } = {}
+): ResourceType<T> => ({
+  name,
+  create,
+  persistent: options.persistent ?? true,
+})
+
+/**
+ * Simulation clock: total elapsed seconds, last frame delta and frame count.
+ */
+export const Time = defineResource('Time', () => ({ elapsed: 0, delta: 0, frame: 0 }))
+
+/**
+ * Snapshot of the player's input for the current frame.
+ * Written by the input system; not saved.
+ */
+export const Input = defineResource(
+  'Input',
+  () => ({ pressedKeys: [] as string[], actions: {} as Record<string, boolean> }),
+  { persistent: false }
+)
+
+/**
+ * Entity controlled by the player.
+ */
+export const ActivePlayer = defineResource('ActivePlayer', () => ({ entity: null as Entity | null }))
+
+/**
+ * Background theme of the current level ('forest' | 'cave' | 'fortress').
+ */
+export const Theme = defineResource('Theme', () => ({ type: 'forest' }))
+
+/**
+ * Spatial index of positioned entities, kept in sync by the spatial sync
+ * system; null until one is created. Not saved.
+ */
+export const Spatial = defineResource('Spatial', () => ({ index: null as SpatialIndex | null }), { persistent: false })
+
+/**
+ * Static collision geometry (walls, solid tiles) of the loaded level; null
+ * when the level has none. Rebuilt from the level definition, so not saved.
+ */
+export const LevelGeometry = defineResource('LevelGeometry', () => ({ geometry: null as StaticGeometry | null }), { persistent: false })
+
+/**
+ * Quest progress flags set by dialogs and triggers.
+ */
+export const QuestFlags = defineResource('QuestFlags', () => ({} as Record<string, unknown>))
+
+/**
+ * How often each level trigger zone fired, keyed 'levelId:zoneId:enter|exit';
+ * saved so one-shot zones stay spent after loading.
+ */
+export const TriggerState = defineResource('TriggerState', () => ({ fired: {} as Record<string, number> }))
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createScheduler } from './Scheduler'
+import { World } from './ECS'
+
+describe('Scheduler', () => {
+  describe('ordering', () => {
+    it('should run stages in pre-update, fixed-update, update, render order', () => {
+      const calls: string[] = []
+      const scheduler = createScheduler({ fixedTimestep: 0.01 })
+      scheduler.add({ name: 'render', stage: 'render', run: () => calls.push('render') })
+      scheduler.add({ name: 'logic', stage: 'update', run: () => calls.push('logic') })
+      scheduler.add({ name: 'physics', stage: 'fixed-update', run: () => calls.push('physics') })
+      scheduler.add({ name: 'input', stage: 'pre-update', run: () => calls.push('input') })
+
+      scheduler.tick(0.01)
+
+      expect(calls).toEqual(['input', 'physics', 'logic', 'render'])
+    })
+
+    it('should keep registration order without constraints', () => {
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'a', stage: 'update', run: () => {} })
+      scheduler.add({ name: 'b', stage: 'update', run: () => {} })
+      scheduler.add({ name: 'c', stage: 'update', run: () => {} })
+
+      expect(scheduler.getOrder('update')).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should honour before and after constraints', () => {
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'death', stage: 'update', after: ['weapon'], run: () => {} })
+      scheduler.add({ name: 'weapon', stage: 'update', run: () => {} })
+      scheduler.add({ name: 'input', stage: 'update', before: ['weapon'], run: () => {} })
+
+      expect(scheduler.getOrder('update')).toEqual(['input', 'weapon', 'death'])
+    })
+
+    it('should ignore constraints on systems in other stages', () => {
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'render', stage: 'render', after: ['logic', 'missing'], run: () => {} })
+      scheduler.add({ name: 'logic', stage: 'update', run: () => {} })
+
+      expect(scheduler.getOrder('render')).toEqual(['render'])
+    })
+
+    it('should throw on cyclic constraints', () => {
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'a', stage: 'update', after: ['b'], run: () => {} })
+      scheduler.add({ name: 'b', stage: 'update', after: ['a'], run: () => {} })
+
+      expect(() => scheduler.tick(0.016)).toThrow(/Cyclic/)
+    })
+
+    it('should reject duplicate names', () => {
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'a', stage: 'update', run: () => {} })
+
+      expect(() => scheduler.add({ name: 'a', stage: 'render', run: () => {} })).toThrow()
+    })
+  })
+
+  describe('fixed timestep', () => {
+    it('should run fixed-update once per elapsed step and carry the remainder', () => {
+      const fixed = vi.fn()
+      const scheduler = createScheduler({ fixedTimestep: 0.25 })
+      scheduler.add({ name: 'physics', stage: 'fixed-update', run: fixed })
+
+      scheduler.tick(0.625)
+      expect(fixed).toHaveBeenCalledTimes(2)
+      expect(fixed).toHaveBeenCalledWith(0.25)
+      expect(scheduler.getAlpha()).toBeCloseTo(0.5)
+
+      scheduler.tick(0.125)
+      expect(fixed).toHaveBeenCalledTimes(3)
+    })
+
+    it('should cap steps per tick and drop the backlog', () => {
+      const fixed = vi.fn()
+      const scheduler = createScheduler({ fixedTimestep: 0.1, maxFixedSteps: 3 })
+      scheduler.add({ name: 'physics', stage: 'fixed-update', run: fixed })
+
+      scheduler.tick(1)
+      expect(fixed).toHaveBeenCalledTimes(3)
+
+      scheduler.tick(0)
+      expect(fixed).toHaveBeenCalledTimes(3)
+    })
+
+    it('should pass the frame delta to variable stages', () => {
+      const update = vi.fn()
+      const scheduler = createScheduler({ fixedTimestep: 0.1 })
+      scheduler.add({ name: 'logic', stage: 'update', run: update })
+
+      scheduler.tick(0.033)
+
+      expect(update).toHaveBeenCalledWith(0.033)
+    })
+  })
+
+  describe('enabled flag', () => {
+    it('should skip disabled systems', () => {
+      const run = vi.fn()
+      const scheduler = createScheduler()
+      scheduler.add({ name: 'debug', stage: 'render', enabled: false, run })
+
+      scheduler.tick(0.016)
+      expect(run).not.toHaveBeenCalled()
+      expect(scheduler.isEnabled('debug')).toBe(false)
+
+      scheduler.setEnabled('debug', true)
+      scheduler.tick(0.016)
+      expect(run).toHaveBeenCalledOnce()
+    })
+
+    it('should stop running removed systems', () => {
+      const run = vi.fn()
+      const scheduler = createScheduler()
+      const remove = scheduler.add({ name: 'temp', stage: 'update', run })
+
+      remove()
+      scheduler.tick(0.016)
+
+      expect(run).not.toHaveBeenCalled()
+      expect(scheduler.getSystems()).toEqual([])
+    })
+  })
+
+  describe('integration', () => {
+    it('should report summed per-system timings to the monitor', () => {
+      let clock = 0
+      const monitor = { recordSystemTime: vi.fn() }
+      const scheduler = createScheduler({ fixedTimestep: 0.1, monitor, now: () => clock })
+      scheduler.add({ name: 'physics', stage: 'fixed-update', run: () => { clock += 2 } })
+      scheduler.add({ name: 'render', stage: 'render', run: () => { clock += 5 } })
+
+      scheduler.tick(0.2)
+
+      expect(monitor.recordSystemTime).toHaveBeenCalledWith('physics', 4)
+      expect(monitor.recordSystemTime).toHaveBeenCalledWith('render', 5)
+    })
+
+    it('should flush the world command buffer after each stage', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      let seenInRender: unknown
+      const scheduler = createScheduler({ world })
+      scheduler.add({ name: 'spawn', stage: 'update', run: () => world.commands.addComponent(entity, 'Health', { current: 1, max: 1 }) })
+      scheduler.add({ name: 'render', stage: 'render', run: () => { seenInRender = world.getComponent(entity, 'Health') } })
+
+      scheduler.tick(0.016)
+
+      expect(seenInRender).toEqual({ current: 1, max: 1 })
+    })
+
+    it('should dispatch queued gameplay events after the update stage', () => {
+      const world = new World()
+      world.events.setMode('queued')
+      const delivered: string[] = []
+      world.on('LevelLoaded', ({ levelId }) => delivered.push(levelId))
+      const scheduler = createScheduler({ world })
+      scheduler.add({ name: 'load', stage: 'update', run: () => world.emit('LevelLoaded', { levelId: 'cave', entityCount: 0 }) })
+      scheduler.add({ name: 'check', stage: 'update', after: ['load'], run: () => delivered.push('update-end') })
+      scheduler.add({ name: 'render', stage: 'render', run: () => delivered.push('render') })
+
+      scheduler.tick(0.016)
+
+      expect(delivered).toEqual(['update-end', 'cave', 'render'])
+    })
+  })
+})
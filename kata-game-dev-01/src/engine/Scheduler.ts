@@ -0,0 +1,243 @@
+/**
+ * System Scheduler
+ *
+ * Runs registered systems once per frame, grouped into stages and ordered
+ * by `before`/`after` constraints. The fixed-update stage is driven by a
+ * fixed-timestep accumulator, and every system's run time is reported to
+ * an optional timing sink (e.g. PerformanceMonitor).
+ *
+ * Stages run in this order each tick:
+ * - **pre-update**: input and other per-frame preparation (variable dt)
+ * - **fixed-update**: simulation, 0..N times with the fixed step
+ * - **update**: gameplay logic (variable dt)
+ * - **render**: drawing and presentation (variable dt)
+ *
+ * When a world is given, its command buffer is flushed after every stage
+ * (and after every fixed step), so deferred changes land at stable points.
+ * Queued gameplay events are dispatched once per tick, after the update stage.
+ *
+ * @example
+ * ```ts
+ * const scheduler = createScheduler({ world, monitor: performanceMonitor })
+ *
+ * scheduler.add({ name: 'input', stage: 'pre-update', run: dt => inputSystem.update(world, player, dt) })
+ * scheduler.add({ name: 'movement', stage: 'fixed-update', run: dt => movement.update(world, dt) })
+ * scheduler.add({ name: 'ai', stage: 'fixed-update', after: ['movement'], run: () => ai.update(world) })
+ * scheduler.add({ name: 'render', stage: 'render', run: dt => renderSys.update(world, dt) })
+ *
+ * // In requestAnimationFrame
+ * scheduler.tick(dt)
+ * ```
+ */
+
+/**
+ * Scheduler stages in execution order.
+ */
+export const SYSTEM_STAGES = ['pre-update', 'fixed-update', 'update', 'render'] as const
+
+/**
+ * Scheduler stage name.
+ */
+export type SystemStage = typeof SYSTEM_STAGES[number]
+
+/**
+ * System registration.
+ */
+export interface SystemDescriptor {
+  /** Unique system name, also used for timing reports */
+  name: string
+  /** Stage the system runs in */
+  stage: SystemStage
+  /** System body; receives the stage's delta time in seconds */
+  run: (dt: number) => void
+  /** Systems (same stage) this one must run before */
+  before?: string[]
+  /** Systems (same stage) this one must run after */
+  after?: string[]
+  /** Whether the system runs (default: true) */
+  enabled?: boolean
+}
+
+/**
+ * Receiver for per-system timings, e.g. PerformanceMonitor.
+ */
+export interface SystemTimingSink {
+  recordSystemTime: (systemName: string, duration: number) => void
+}
+
+/**
+ * Scheduler configuration.
+ */
+export interface SchedulerOptions {
+  /** Fixed-update step in seconds (default: 1/60) */
+  fixedTimestep?: number
+  /** Maximum fixed steps per tick before dropping time (default: 5) */
+  maxFixedSteps?: number
+  /** Timing sink for per-system durations */
+  monitor?: SystemTimingSink
+  /** World whose command buffer is flushed after each stage */
+  world?: { flushCommands: () => number; dispatchEvents?: () => number }
+  /** Clock in milliseconds (default: performance.now) */
+  now?: () => number
+}
+
+export interface Scheduler {
+  /** Register a system; returns a function that removes it */
+  add: (system: SystemDescriptor) => () => void
+  /** Remove a system by name */
+  remove: (name: string) => boolean
+  /** Enable or disable a system by name */
+  setEnabled: (name: string, enabled: boolean) => void
+  /** Check whether a system is registered and enabled */
+  isEnabled: (name: string) => boolean
+  /** Resolved execution order of a stage */
+  getOrder: (stage: SystemStage) => string[]
+  /** Run one frame with the elapsed time in seconds */
+  tick: (dt: number) => void
+  /** Interpolation factor between the last and next fixed step (0..1) */
+  getAlpha: () => number
+  /** Registered system names */
+  getSystems: () => string[]
+}
+
+/**
+ * Create a system scheduler
+ *
+ * @param options - Scheduler configuration
+ * @returns Scheduler instance
+ *
+ * @example
+ * ```ts
+ * const scheduler = createScheduler({ fixedTimestep: 1 / 30, monitor })
+ * ```
+ */
+export const createScheduler = (options: SchedulerOptions = {}): Scheduler => {
+  const fixedTimestep = options.fixedTimestep ?? 1 / 60
+  const maxFixedSteps = options.maxFixedSteps ?? 5
+  const now = options.now ?? (() => performance.now())
+
+  // Registration order doubles as the tie-breaker when sorting
+  const systems = new Map<string, SystemDescriptor & { enabled: boolean }>()
+  const orderCache = new Map<SystemStage, SystemDescriptor[]>()
+  let accumulator = 0
+
+  /**
+   * Topologically sort one stage (Kahn's algorithm, stable by registration)
+   */
+  const resolveStage = (stage: SystemStage): SystemDescriptor[] => {
+    const cached = orderCache.get(stage)
+    if (cached) return cached
+
+    const members = Array.from(systems.values()).filter(s => s.stage === stage)
+    const names = new Set(members.map(s => s.name))
+    const edges = new Map<string, Set<string>>(members.map(s => [s.name, new Set<string>()]))
+    const inDegree = new Map<string, number>(members.map(s => [s.name, 0]))
+
+    const link = (from: string, to: string) => {
+      // Constraints on systems in other stages (or not registered) are ignored
+      if (!names.has(from) || !names.has(to) || edges.get(from)!.has(to)) return
+      edges.get(from)!.add(to)
+      inDegree.set(to, inDegree.get(to)! + 1)
+    }
+    for (const s of members) {
+      for (const other of s.before ?? []) link(s.name, other)
+      for (const other of s.after ?? []) link(other, s.name)
+    }
+
+    const ordered: SystemDescriptor[] = []
+    const remaining = [...members]
+    while (remaining.length > 0) {
+      const idx = remaining.findIndex(s => inDegree.get(s.name) === 0)
+      if (idx === -1) {
+        throw new Error(`[Scheduler] Cyclic ordering constraints in stage '${stage}': ${remaining.map(s => s.name).join(', ')}`)
+      }
+      const [next] = remaining.splice(idx, 1)
+      ordered.push(next)
+      for (const to of edges.get(next.name)!) inDegree.set(to, inDegree.get(to)! - 1)
+    }
+
+    orderCache.set(stage, ordered)
+    return ordered
+  }
+
+  const add = (system: SystemDescriptor) => {
+    if (!SYSTEM_STAGES.includes(system.stage)) {
+      throw new Error(`[Scheduler] Unknown stage '${system.stage}' for system '${system.name}'`)
+    }
+    if (systems.has(system.name)) {
+      throw new Error(`[Scheduler] System '${system.name}' is already registered`)
+    }
+    systems.set(system.name, { ...system, enabled: system.enabled ?? true })
+    orderCache.clear()
+    return () => { remove(system.name) }
+  }
+
+  const remove = (name: string) => {
+    const removed = systems.delete(name)
+    if (removed) orderCache.clear()
+    return removed
+  }
+
+  const setEnabled = (name: string, enabled: boolean) => {
+    const system = systems.get(name)
+    if (system) system.enabled = enabled
+  }
+
+  const isEnabled = (name: string) => systems.get(name)?.enabled ?? false
+
+  const getOrder = (stage: SystemStage) => resolveStage(stage).map(s => s.name)
+
+  /**
+   * Run every enabled system of a stage, accumulating durations
+   */
+  const runStage = (stage: SystemStage, dt: number, timings: Map<string, number>) => {
+    for (const system of resolveStage(stage)) {
+      if (!systems.get(system.name)?.enabled) continue
+      const start = now()
+      system.run(dt)
+      timings.set(system.name, (timings.get(system.name) ?? 0) + (now() - start))
+    }
+    options.world?.flushCommands()
+  }
+
+  const tick = (dt: number) => {
+    const timings = new Map<string, number>()
+
+    runStage('pre-update', dt, timings)
+
+    accumulator += dt
+    let steps = 0
+    while (accumulator >= fixedTimestep && steps < maxFixedSteps) {
+      runStage('fixed-update', fixedTimestep, timings)
+      accumulator -= fixedTimestep
+      steps++
+    }
+    // Drop backlog we could not catch up on instead of spiralling
+    if (steps === maxFixedSteps && accumulator >= fixedTimestep) {
+      accumulator = accumulator % fixedTimestep
+    }
+
+    runStage('update', dt, timings)
+    options.world?.dispatchEvents?.()
+    runStage('render', dt, timings)
+
+    if (options.monitor) {
+      for (const [name, duration] of timings) options.monitor.recordSystemTime(name, duration)
+    }
+  }
+
+  const getAlpha = () => accumulator / fixedTimestep
+
+  const getSystems = () => Array.from(systems.keys())
+
+  return {
+    add,
+    remove,
+    setEnabled,
+    isEnabled,
+    getOrder,
+    tick,
+    getAlpha,
+    getSystems
+  }
+}
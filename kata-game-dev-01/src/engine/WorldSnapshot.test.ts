@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { World, entityIndex, type ComponentSchema } from './ECS'
+import { ReactiveWorld } from './ReactiveWorld'
+import { COMPONENTS } from './constants'
+import { diff, isEmptyPatch } from './WorldSnapshot'
+
+interface TestComponents extends ComponentSchema {
+  position: { x: number; y: number }
+  health: { current: number; max: number }
+  Collider: { radius: number; layer: string }
+  tags: string[]
+}
+
+describe('WorldSnapshot', () => {
+  let world: World<TestComponents>
+
+  beforeEach(() => {
+    world = new World<TestComponents>()
+  })
+
+  describe('snapshot', () => {
+    it('should capture all entities and components, including empty entities', () => {
+      const a = world.createEntity()
+      const empty = world.createEntity()
+      world.addComponent(a, 'position', { x: 1, y: 2 })
+      world.addComponent(a, 'Collider', { radius: 8, layer: 'enemy' })
+
+      const snapshot = world.snapshot()
+
+      expect(snapshot.entities).toEqual([
+        { entity: a, components: { position: { x: 1, y: 2 }, Collider: { radius: 8, layer: 'enemy' } } },
+        { entity: empty, components: {} },
+      ])
+    })
+
+    it('should be detached from and immune to later writes', () => {
+      const entity = world.createEntity()
+      const position = { x: 1, y: 2 }
+      world.addComponent(entity, 'position', position)
+      const snapshot = world.snapshot()
+
+      position.x = 99
+      world.addComponent(entity, 'health', { current: 5, max: 10 })
+
+      expect(snapshot.entities[0].components).toEqual({ position: { x: 1, y: 2 } })
+      expect(Object.isFrozen(snapshot.entities[0].components.position)).toBe(true)
+      expect(() => { (snapshot.entities as any[]).push({}) }).toThrow()
+      expect(Object.isFrozen(position)).toBe(false)
+    })
+  })
+
+  describe('restore', () => {
+    it('should replace the world state exactly', () => {
+      const kept = world.createEntity()
+      const removed = world.createEntity()
+      world.addComponent(kept, 'position', { x: 0, y: 0 })
+      world.addComponent(kept, 'tags', ['a'])
+      world.addComponent(removed, 'health', { current: 3, max: 3 })
+      const snapshot = world.snapshot()
+
+      world.addComponent(kept, 'position', { x: 50, y: 50 })
+      world.removeComponent(kept, 'tags')
+      world.addComponent(kept, 'Collider', { radius: 4, layer: 'player' })
+      world.removeEntity(removed)
+      const extra = world.createEntity()
+      world.addComponent(extra, 'position', { x: 7, y: 7 })
+
+      world.restore(snapshot)
+
+      expect(world.snapshot().entities).toEqual(snapshot.entities)
+      expect(world.isAlive(removed)).toBe(true)
+      expect(world.isAlive(extra)).toBe(false)
+      expect(world.getComponent(removed, 'health')).toEqual({ current: 3, max: 3 })
+    })
+
+    it('should not share component objects with the snapshot', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'position', { x: 1, y: 1 })
+      const snapshot = world.snapshot()
+
+      world.restore(snapshot)
+      world.getComponent(entity, 'position')!.x = 5
+
+      expect(snapshot.entities[0].components.position).toEqual({ x: 1, y: 1 })
+    })
+
+    it('should hand out the same handles after restoring as after the snapshot', () => {
+      const first = world.createEntity()
+      world.removeEntity(first)
+      const snapshot = world.snapshot()
+      const original = [world.createEntity(), world.createEntity()]
+
+      world.restore(snapshot)
+
+      expect([world.createEntity(), world.createEntity()]).toEqual(original)
+    })
+
+    it('should only emit events for differences', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      world.addComponent(b, 'position', { x: 0, y: 0 })
+      const snapshot = world.snapshot()
+      world.addComponent(b, 'position', { x: 1, y: 0 })
+      const listener = vi.fn()
+      world.onComponentEvent(listener)
+
+      world.restore(snapshot)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ entity: b, name: 'position' }))
+    })
+
+    it('should keep children that are in the snapshot when their parent is not', () => {
+      const child = world.createEntity()
+      world.addComponent(child, 'position', { x: 0, y: 0 })
+      const snapshot = world.snapshot()
+      const parent = world.createEntity()
+      world.setParent(child, parent)
+
+      world.restore(snapshot)
+
+      expect(world.isAlive(parent)).toBe(false)
+      expect(world.isAlive(child)).toBe(true)
+      expect(world.getParent(child)).toBeUndefined()
+      expect(world.getComponent(child, 'position')).toEqual({ x: 0, y: 0 })
+    })
+
+    it('should restore parent links', () => {
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      world.addComponent(parent, 'position', { x: 0, y: 0 })
+      world.setParent(child, parent)
+      const snapshot = world.snapshot()
+
+      world.removeEntity(parent)
+      expect(world.isAlive(child)).toBe(false)
+      world.restore(snapshot)
+
+      expect(world.getParent(child)).toBe(parent)
+      expect(world.getChildren(parent)).toEqual([child])
+    })
+
+    it('should notify ReactiveWorld listeners', () => {
+      const reactive = new ReactiveWorld()
+      const entity = reactive.createEntity()
+      reactive.addComponent(entity, COMPONENTS.TRANSFORM, { x: 0, y: 0 })
+      const snapshot = reactive.snapshot()
+      reactive.removeEntity(entity)
+      const listener = vi.fn()
+      reactive.onComponentEvent(listener)
+
+      reactive.restore(snapshot)
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'add', entity }))
+    })
+  })
+
+  describe('diff', () => {
+    it('should produce an empty patch for identical snapshots', () => {
+      world.addComponent(world.createEntity(), 'position', { x: 1, y: 1 })
+
+      expect(isEmptyPatch(diff(world.snapshot(), world.snapshot()))).toBe(true)
+    })
+
+    it('should list only the changes', () => {
+      const a = world.createEntity()
+      const b = world.createEntity()
+      const c = world.createEntity()
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      world.addComponent(a, 'health', { current: 10, max: 10 })
+      world.addComponent(b, 'tags', ['x'])
+      world.addComponent(c, 'position', { x: 0, y: 0 })
+      const before = world.snapshot()
+
+      world.addComponent(a, 'health', { current: 4, max: 10 })
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      world.removeComponent(b, 'tags')
+      world.removeEntity(c)
+      const d = world.createEntity()
+      world.addComponent(d, 'Collider', { radius: 2, layer: 'pickup' })
+
+      const patch = diff(before, world.snapshot())
+
+      expect(patch.spawn).toEqual([d])
+      expect(patch.despawn).toEqual([c])
+      expect(patch.set).toEqual([
+        { entity: a, name: 'health', value: { current: 4, max: 10 } },
+        { entity: d, name: 'Collider', value: { radius: 2, layer: 'pickup' } },
+      ])
+      expect(patch.remove).toEqual([{ entity: b, name: 'tags' }])
+      expect(patch.allocator).toBeDefined()
+    })
+
+    it('should turn the source world into the target when applied', () => {
+      const a = world.createEntity()
+      world.addComponent(a, 'position', { x: 0, y: 0 })
+      const before = world.snapshot()
+      const replica = new World<TestComponents>()
+      replica.restore(before)
+
+      world.addComponent(a, 'position', { x: 3, y: 4 })
+      const b = world.createEntity()
+      world.addComponent(b, 'tags', ['new'])
+      const after = world.snapshot()
+      replica.applyPatch(diff(before, after))
+
+      expect(replica.snapshot()).toEqual(after)
+      expect(entityIndex(replica.createEntity())).toBe(entityIndex(world.createEntity()))
+    })
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * World Snapshots
+ *
+ * Immutable images of every entity and component in a World, plus the
+ * entity allocator state so handles created after a restore match the ones
+ * created after the original. `diff` turns two images into a minimal patch.
+ * Together with `world.snapshot()`, `world.restore()` and
+ * `world.applyPatch()` they back saves, editor undo and rollback.
+ *
+ * @example
+ * ```ts
+ * const before = world.snapshot()
+ * runFrame()
+ * const patch = diff(before, world.snapshot())
+ *
+ * // Undo the frame
+ * world.restore(before)
+ * ```
+ */
+
+import type { Entity } from './ECS'
+import { deepEqual } from './utils/serialization'
+
+/**
+ * One entity and its components, keyed by component name.
+ */
+export interface SnapshotEntity {
+  readonly entity: Entity
+  readonly components: Readonly<Record<string, unknown>>
+}
+
+/**
+ * Entity handle allocator state (slot generations and the free list).
+ */
+export interface EntityAllocatorState {
+  /** Next never-used slot index */
+  readonly nextIndex: number
+  /** Current generation per slot index */
+  readonly generations: readonly number[]
+  /** Released slot indices in reuse order */
+  readonly free: readonly number[]
+}
+
+/**
+ * Image of a world's entities, ordered by slot index.
+ */
+export interface WorldSnapshot {
+  readonly entities: readonly SnapshotEntity[]
+  /** Allocator state; absent for images built from older save data */
+  readonly allocator?: EntityAllocatorState
+}
+
+/**
+ * Changes turning one snapshot into another.
+ */
+export interface WorldPatch {
+  /** Entities that only exist in the target */
+  spawn: Entity[]
+  /** Entities that only exist in the source */
+  despawn: Entity[]
+  /** Components added or changed, including all components of spawned entities */
+  set: { entity: Entity; name: string; value: unknown }[]
+  /** Components removed from entities present in both */
+  remove: { entity: Entity; name: string }[]
+  /** Target allocator state, when it differs */
+  allocator?: EntityAllocatorState
+}
+
+/**
+ * Freeze a value and everything reachable from it.
+ *
+ * @param value - Value to freeze (plain data)
+ * @returns The same value
+ */
+export const deepFreeze = <T>(value: T): T => {
+  if (typeof value !== 'object' || value === null || Object.isFrozen(value)) return value
+  Object.freeze(value)
+  for (const key of Object.keys(value)) deepFreeze((value as Record<string, unknown>)[key])
+  return value
+}
+
+/**
+ * Compute the minimal patch turning snapshot `a` into snapshot `b`.
+ *
+ * Components are compared structurally, so unchanged values produce no entry.
+ *
+ * @param a - Source snapshot
+ * @param b - Target snapshot
+ * @returns Patch for `world.applyPatch()`
+ */
+export const diff = (a: WorldSnapshot, b: WorldSnapshot): WorldPatch => {
+  const patch: WorldPatch = { spawn: [], despawn: [], set: [], remove: [] }
+  const before = new Map(a.entities.map(e => [e.entity, e.components]))
+  const after = new Map(b.entities.map(e => [e.entity, e.components]))
+
+  for (const entity of before.keys()) {
+    if (!after.has(entity)) patch.despawn.push(entity)
+  }
+  for (const [entity, components] of after) {
+    const previous = before.get(entity)
+    if (!previous) patch.spawn.push(entity)
+    for (const [name, value] of Object.entries(components)) {
+      if (!previous || !(name in previous) || !deepEqual(previous[name], value)) {
+        patch.set.push({ entity, name, value })
+      }
+    }
+    if (!previous) continue
+    for (const name of Object.keys(previous)) {
+      if (!(name in components)) patch.remove.push({ entity, name })
+    }
+  }
+  if (b.allocator && !deepEqual(a.allocator, b.allocator)) patch.allocator = b.allocator
+  return patch
+}
+
+/**
+ * Whether a patch changes nothing.
+ *
+ * @param patch - Patch from `diff`
+ */
+export const isEmptyPatch = (patch: WorldPatch): boolean =>
+  patch.spawn.length === 0 && patch.despawn.length === 0
+  && patch.set.length === 0 && patch.remove.length === 0 && !patch.allocator
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { World } from './ECS'
+import { COMPONENTS } from './constants'
+import { ComponentCategory } from './componentCategories'
+import {
+  ComponentRegistry,
+  componentRegistry,
+  createComponentRegistry,
+  defineComponent,
+} from './componentRegistry'
+
+describe('componentRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should register every COMPONENTS key', () => {
+    expect(componentRegistry.keys().sort()).toEqual(Object.values(COMPONENTS).sort())
+  })
+
+  it('should resolve blueprint keys case-insensitively', () => {
+    expect(componentRegistry.resolveKey('transform')).toBe(COMPONENTS.TRANSFORM)
+    expect(componentRegistry.resolveKey('characterStats')).toBe(COMPONENTS.CHARACTER_STATS)
+    expect(componentRegistry.resolveKey('NPC')).toBe(COMPONENTS.NPC)
+    expect(componentRegistry.resolveKey('collider')).toBe(COMPONENTS.COLLIDER)
+    expect(componentRegistry.resolveKey('sprite')).toBeUndefined()
+  })
+
+  it('should create valid defaults for every built-in component', () => {
+    for (const key of componentRegistry.keys()) {
+      expect(componentRegistry.validate(key, componentRegistry.create(key))).toBe(true)
+    }
+  })
+
+  it('should reject malformed values and accept unknown components', () => {
+    expect(componentRegistry.validate(COMPONENTS.TRANSFORM, { x: 1 })).toBe(false)
+    expect(componentRegistry.validate(COMPONENTS.HEALTH, { current: '10', max: 10 })).toBe(false)
+    expect(componentRegistry.validate(COMPONENTS.INVENTORY, { items: [] })).toBe(false)
+    expect(componentRegistry.validate('SomethingElse', 42)).toBe(true)
+  })
+
+  it('should list components by category', () => {
+    expect(componentRegistry.inCategory(ComponentCategory.SPATIAL)).toEqual([
+      COMPONENTS.TRANSFORM,
+      COMPONENTS.PARENT,
+      COMPONENTS.LOCAL_TRANSFORM,
+    ])
+  })
+
+  it('should reject duplicate keys and aliases', () => {
+    const registry = createComponentRegistry()
+    const base = { category: ComponentCategory.METADATA, create: () => ({}) }
+
+    expect(() => registry.register({ key: COMPONENTS.TRANSFORM, ...base })).toThrow('already registered')
+    expect(() => registry.register({ key: 'Position', aliases: ['transform'], ...base })).toThrow("already used by 'Transform'")
+  })
+
+  it('should serialize with the definition version and migrate on deserialize', () => {
+    const registry = new ComponentRegistry().register(defineComponent({
+      key: 'Mana',
+      category: ComponentCategory.COMBAT,
+      version: 2,
+      create: () => ({ current: 50, max: 50 }),
+      // Version 1 stored a single number
+      deserialize: (data, version) => version < 2
+        ? { current: data as number, max: data as number }
+        : data as { current: number; max: number },
+    }))
+
+    expect(registry.serialize('Mana', { current: 10, max: 50 })).toEqual({ data: { current: 10, max: 50 }, version: 2 })
+    expect(registry.deserialize('mana', 30, 1)).toEqual({ current: 30, max: 30 })
+    expect(registry.deserialize('Mana', { current: 5, max: 50 }, 2)).toEqual({ current: 5, max: 50 })
+  })
+
+  it('should copy values by default when serializing', () => {
+    const health = { current: 10, max: 20 }
+    const { data } = componentRegistry.serialize(COMPONENTS.HEALTH, health)
+
+    expect(data).toEqual(health)
+    expect(data).not.toBe(health)
+  })
+
+  it('should describe an entity for the inspector', () => {
+    const world = new World()
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.HEALTH, { current: 5, max: 10 })
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x: 'bad' } as any)
+    world.addComponent(entity, 'sprite' as any, { radius: 4 })
+
+    expect(componentRegistry.inspect(world, entity)).toEqual([
+      { key: COMPONENTS.HEALTH, category: ComponentCategory.COMBAT, value: { current: 5, max: 10 }, valid: true },
+      { key: COMPONENTS.TRANSFORM, category: ComponentCategory.SPATIAL, value: { x: 'bad' }, valid: false },
+      { key: 'sprite', category: undefined, value: { radius: 4 }, valid: true },
+    ])
+  })
+
+  describe('World validation', () => {
+    it('should not validate unless enabled', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const world = new World()
+
+      world.addComponent(world.createEntity(), COMPONENTS.VELOCITY, { speed: 1 } as any)
+
+      expect(warn).not.toHaveBeenCalled()
+    })
+
+    it('should warn about invalid values and still store them', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const world = new World()
+      world.setComponentValidation(componentRegistry)
+      const entity = world.createEntity()
+
+      world.addComponent(entity, COMPONENTS.VELOCITY, { speed: 1 } as any)
+      world.addComponent(entity, COMPONENTS.HEALTH, { current: 1, max: 1 })
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn.mock.calls[0][0]).toContain("Invalid 'Velocity' component")
+      expect(world.getComponent(entity, COMPONENTS.VELOCITY)).toEqual({ speed: 1 })
+    })
+
+    it('should throw in throw mode and stop when disabled', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      world.setComponentValidation(componentRegistry, 'throw')
+
+      expect(() => world.addComponent(entity, COMPONENTS.TRANSFORM, {} as any)).toThrow("Invalid 'Transform' component")
+      expect(world.getComponent(entity, COMPONENTS.TRANSFORM)).toBeUndefined()
+
+      world.setComponentValidation(null)
+      expect(() => world.addComponent(entity, COMPONENTS.TRANSFORM, {} as any)).not.toThrow()
+    })
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * Component Registry
+ *
+ * Runtime description of every component the ECS knows about: its canonical
+ * key (a `COMPONENTS` value), category, default factory, validator,
+ * serializer and data version. Blueprints, saves and debug tooling resolve
+ * component names through the registry instead of guessing, and the World
+ * can validate `addComponent` calls against it in development builds.
+ *
+ * @example
+ * ```ts
+ * componentRegistry.resolveKey('transform') // 'Transform'
+ * componentRegistry.create(COMPONENTS.HEALTH) // { current: 100, max: 100 }
+ * componentRegistry.validate(COMPONENTS.VELOCITY, { vx: 1 }) // false
+ *
+ * // Register a game-specific component
+ * componentRegistry.register(defineComponent({
+ *   key: 'Poisoned',
+ *   category: ComponentCategory.COMBAT,
+ *   create: () => ({ damagePerSecond: 1, remaining: 5 }),
+ * }))
+ * ```
+ */
+
+import { COMPONENTS } from './constants'
+import { ComponentCategory } from './componentCategories'
+import { isTransform, isVelocity, isHealth, isEquipment, isCollider } from './componentTypes'
+import { cloneValue } from './utils/serialization'
+import { createHealth } from './components/Health'
+import { createDefaultStats } from './components/CharacterStats'
+import { createCollider } from './components/Collider'
+import { createProjectile } from './components/Projectile'
+import { createPhysicsBody } from './components/PhysicsBody'
+import { createWeapon } from './components/Weapon'
+import type { EnemyComponent } from './components/Enemy'
+import type { World, Entity } from './ECS'
+
+/**
+ * Registry entry for one component type.
+ */
+export interface ComponentDefinition<T = any> {
+  /** Canonical key used in the ECS (e.g. 'Transform') */
+  key: string
+  /** Functional category */
+  category: ComponentCategory
+  /** Create a default value */
+  create: () => T
+  /** Check a value's shape; missing means any value is accepted */
+  validate?: (value: unknown) => boolean
+  /** Convert a value to plain save data (default: deep copy) */
+  serialize?: (value: T) => unknown
+  /** Rebuild a value from save data written at `version` (default: deep copy) */
+  deserialize?: (data: unknown, version: number) => T
+  /** Current data version, stored with saves (default: 1) */
+  version?: number
+  /** Additional names accepted by `resolveKey`, e.g. blueprint keys */
+  aliases?: string[]
+}
+
+/**
+ * Serialized component value plus the version it was written with.
+ */
+export interface SerializedComponent {
+  data: unknown
+  version: number
+}
+
+/**
+ * One component of an entity as shown by debug tooling.
+ */
+export interface InspectedComponent {
+  /** Component key as stored on the entity */
+  key: string
+  /** Category, if the component is registered */
+  category?: ComponentCategory
+  /** Current value */
+  value: unknown
+  /** Whether the value passes the registered validator */
+  valid: boolean
+}
+
+/**
+ * Define a component with type inference for its value.
+ *
+ * @param definition - Component definition
+ * @returns The same definition
+ */
+export const defineComponent = <T>(definition: ComponentDefinition<T>): ComponentDefinition<T> => definition
+
+/**
+ * Component Registry
+ *
+ * Lookup of component definitions by key or alias (case-insensitive).
+ */
+export class ComponentRegistry {
+  private definitions = new Map<string, ComponentDefinition>()
+  private lookup = new Map<string, string>()
+
+  /**
+   * Register a component definition.
+   *
+   * @param definition - Component definition
+   * @returns this, for chaining
+   * @throws Error if the key or an alias is already taken by another component
+   */
+  register<T>(definition: ComponentDefinition<T>): this {
+    if (this.definitions.has(definition.key)) {
+      throw new Error(`[ComponentRegistry] Component '${definition.key}' is already registered`)
+    }
+    const names = [definition.key, ...(definition.aliases ?? [])].map(n => n.toLowerCase())
+    for (const name of names) {
+      const owner = this.lookup.get(name)
+      if (owner && owner !== definition.key) {
+        throw new Error(`[ComponentRegistry] Name '${name}' of '${definition.key}' is already used by '${owner}'`)
+      }
+    }
+    this.definitions.set(definition.key, definition)
+    for (const name of names) this.lookup.set(name, definition.key)
+    return this
+  }
+
+  /**
+   * Resolve a key or alias (any casing) to the canonical key.
+   *
+   * @param name - Component key, alias or blueprint name
+   * @returns Canonical key, or undefined if unknown
+   */
+  resolveKey(name: string): string | undefined {
+    return this.lookup.get(name.toLowerCase())
+  }
+
+  /**
+   * Get the definition for a key or alias.
+   *
+   * @param name - Component key or alias
+   */
+  get(name: string): ComponentDefinition | undefined {
+    const key = this.resolveKey(name)
+    return key ? this.definitions.get(key) : undefined
+  }
+
+  /**
+   * Whether a key or alias is registered.
+   *
+   * @param name - Component key or alias
+   */
+  has(name: string): boolean {
+    return this.resolveKey(name) !== undefined
+  }
+
+  /**
+   * Canonical keys of all registered components, in registration order.
+   */
+  keys(): string[] {
+    return Array.from(this.definitions.keys())
+  }
+
+  /**
+   * Canonical keys of the components in a category.
+   *
+   * @param category - Category to list
+   */
+  inCategory(category: ComponentCategory): string[] {
+    return this.keys().filter(key => this.definitions.get(key)!.category === category)
+  }
+
+  /**
+   * Create the default value of a component.
+   *
+   * @param name - Component key or alias
+   * @returns Default value, or undefined if unknown
+   */
+  create(name: string): unknown {
+    return this.get(name)?.create()
+  }
+
+  /**
+   * Validate a value; unknown components and components without a
+   * validator always pass.
+   *
+   * @param name - Component key or alias
+   * @param value - Value to check
+   */
+  validate(name: string, value: unknown): boolean {
+    const validate = this.get(name)?.validate
+    return validate ? validate(value) : true
+  }
+
+  /**
+   * Describe all components of an entity for debug tooling.
+   *
+   * @param world - World holding the entity
+   * @param entity - Entity to inspect
+   * @returns Components ordered by category, then key; unregistered ones last
+   */
+  inspect(world: Pick<World, 'getComponentNames' | 'getComponent'>, entity: Entity): InspectedComponent[] {
+    return world.getComponentNames(entity)
+      .map(key => {
+        const value = world.getComponent(entity, key as any)
+        return { key, category: this.get(key)?.category, value, valid: this.validate(key, value) }
+      })
+      .sort((a, b) => Number(!a.category) - Number(!b.category)
+        || (a.category ?? '').localeCompare(b.category ?? '')
+        || a.key.localeCompare(b.key))
+  }
+
+  /**
+   * Convert a value to save data.
+   *
+   * @param name - Component key or alias
+   * @param value - Component value
+   * @returns Save data tagged with the definition's version (1 if unknown)
+   */
+  serialize(name: string, value: unknown): SerializedComponent {
+    const definition = this.get(name)
+    const data = definition?.serialize ? definition.serialize(value) : cloneValue(value)
+    return { data, version: definition?.version ?? 1 }
+  }
+
+  /**
+   * Rebuild a value from save data.
+   *
+   * @param name - Component key or alias
+   * @param data - Save data
+   * @param version - Version the data was written with (default: 1)
+   */
+  deserialize(name: string, data: unknown, version = 1): unknown {
+    const definition = this.get(name)
+    return definition?.deserialize ? definition.deserialize(data, version) : cloneValue(data)
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const hasNumbers = (value: unknown, ...fields: string[]): boolean =>
+  isObject(value) && fields.every(f => typeof value[f] === 'number')
+
+/**
+ * Definitions of the components in `COMPONENTS`.
+ *
+ * Validators describe the shapes the game actually stores (e.g. the
+ * inventory is a plain item array).
+ */
+export const BUILTIN_COMPONENTS: ComponentDefinition[] = [
+  defineComponent({
+    key: COMPONENTS.TRANSFORM,
+    category: ComponentCategory.SPATIAL,
+    create: () => ({ x: 0, y: 0, rotation: 0 }),
+    validate: value => isTransform(value) && hasNumbers(value, 'x', 'y'),
+  }),
+  defineComponent({
+    key: COMPONENTS.VELOCITY,
+    category: ComponentCategory.MOVEMENT,
+    create: () => ({ vx: 0, vy: 0 }),
+    validate: value => isVelocity(value) && hasNumbers(value, 'vx', 'vy'),
+  }),
+  defineComponent({
+    key: COMPONENTS.RENDERABLE,
+    category: ComponentCategory.RENDERING,
+    create: () => ({ color: '#ffffff', size: 10 }),
+    validate: value => isObject(value) && typeof value.color === 'string',
+  }),
+  defineComponent<EnemyComponent>({
+    key: COMPONENTS.ENEMY,
+    category: ComponentCategory.AI,
+    create: () => ({
+      attackRange: 30,
+      attackDamage: 5,
+      attackCooldown: 1,
+      lastAttackTime: 0,
+      speed: 80,
+      detectionRange: 200,
+      spawnX: 0,
+      spawnY: 0,
+      isReturning: false,
+      patrolRadius: 50,
+      patrolAngle: 0,
+      patrolSpeed: 30,
+    }),
+    validate: isObject,
+  }),
+  defineComponent({
+    key: COMPONENTS.HEALTH,
+    category: ComponentCategory.COMBAT,
+    create: () => createHealth(100),
+    validate: value => isHealth(value) && hasNumbers(value, 'current', 'max'),
+  }),
+  defineComponent({
+    key: COMPONENTS.INVENTORY,
+    category: ComponentCategory.INVENTORY,
+    create: () => [],
+    validate: Array.isArray,
+  }),
+  defineComponent({
+    key: COMPONENTS.EQUIPMENT,
+    category: ComponentCategory.EQUIPMENT,
+    create: () => ({ slots: {} }),
+    validate: isEquipment,
+  }),
+  defineComponent({
+    key: COMPONENTS.CHARACTER_STATS,
+    category: ComponentCategory.COMBAT,
+    create: createDefaultStats,
+    validate: isObject,
+  }),
+  defineComponent({ key: COMPONENTS.NPC, category: ComponentCategory.METADATA, create: () => ({}), validate: isObject }),
+  defineComponent({ key: COMPONENTS.ITEM, category: ComponentCategory.INVENTORY, create: () => ({}), validate: isObject }),
+  defineComponent({ key: COMPONENTS.METADATA, category: ComponentCategory.METADATA, create: () => ({}), validate: isObject }),
+  defineComponent({
+    key: COMPONENTS.DIALOG_STATE,
+    category: ComponentCategory.METADATA,
+    create: () => ({ active: false }),
+    validate: value => isObject(value) && typeof value.active === 'boolean',
+  }),
+  defineComponent({ key: COMPONENTS.QUEST_FLAGS, category: ComponentCategory.METADATA, create: () => ({}), validate: isObject }),
+  defineComponent({
+    key: COMPONENTS.PARENT,
+    category: ComponentCategory.SPATIAL,
+    // Entity 0 is never a live handle
+    create: () => ({ entity: 0 }),
+    validate: value => hasNumbers(value, 'entity'),
+  }),
+  defineComponent({
+    key: COMPONENTS.LOCAL_TRANSFORM,
+    category: ComponentCategory.SPATIAL,
+    create: () => ({ x: 0, y: 0, rotation: 0 }),
+    validate: value => hasNumbers(value, 'x', 'y'),
+  }),
+  defineComponent({ key: COMPONENTS.PLAYER, category: ComponentCategory.METADATA, create: () => ({}), validate: isObject }),
+  defineComponent({ key: COMPONENTS.HOSTILE, category: ComponentCategory.METADATA, create: () => ({}), validate: isObject }),
+  defineComponent({
+    key: COMPONENTS.COLLIDER,
+    category: ComponentCategory.COLLISION,
+    create: () => createCollider(8),
+    validate: value => isCollider(value) && hasNumbers(value, 'radius', 'layer'),
+  }),
+  defineComponent({
+    key: COMPONENTS.TRIGGER_ZONE,
+    category: ComponentCategory.COLLISION,
+    create: () => ({ levelId: '', zoneId: '' }),
+    validate: value => isObject(value) && typeof value.levelId === 'string' && typeof value.zoneId === 'string',
+  }),
+  defineComponent({
+    key: COMPONENTS.PROJECTILE,
+    category: ComponentCategory.COMBAT,
+    create: () => createProjectile(0, createWeapon('projectile', 'Projectile', 'bow', 1),
+      { speed: 300, lifetime: 1, range: 300, pierce: 0, falloffStart: 1, minDamageScale: 1 }, 0, 0),
+    validate: value => isObject(value) && hasNumbers(value, 'speed', 'lifetime', 'range', 'pierce', 'originX', 'originY', 'age')
+      && isObject(value.weapon) && Array.isArray(value.hits),
+  }),
+  defineComponent({
+    key: COMPONENTS.PHYSICS_BODY,
+    category: ComponentCategory.MOVEMENT,
+    create: () => createPhysicsBody(),
+    validate: value => hasNumbers(value, 'vx', 'vy', 'fx', 'fy', 'drag', 'friction', 'maxSpeed'),
+  }),
+]
+
+/**
+ * Create a registry pre-filled with the built-in components.
+ *
+ * @returns New registry
+ */
+export const createComponentRegistry = (): ComponentRegistry => {
+  const registry = new ComponentRegistry()
+  for (const definition of BUILTIN_COMPONENTS) registry.register(definition)
+  return registry
+}
+
+/**
+ * Shared registry used by blueprints, saves and the debug overlay.
+ */
+export const componentRegistry = createComponentRegistry()
@@ -4,6 +4,9 @@ export interface Collider {
   layer: number // bitfield for collision layers (1, 2, 4, 8, etc.)
   isTrigger: boolean // if true, no physics response, only events
   solid: boolean // if false, can pass through
+  mask?: number // layers this collider hits; overrides the collision matrix when set
+  mass?: number // share of the push-out it resists (default 1)
+  immovable?: boolean // if true, never pushed by collision response (NPCs, walls)
 }
 
 // Collision layers as const object with bitfield values
@@ -14,8 +17,54 @@ export const COLLISION_LAYERS = {
   PROJECTILE: 1 << 2,
   WALL: 1 << 3,
   TRIGGER: 1 << 4,
+  NPC: 1 << 5,
   ALL: 0xFFFFFFFF
 } as const satisfies Record<string, number>
 
 export type CollisionLayer = typeof COLLISION_LAYERS[keyof typeof COLLISION_LAYERS]
 
+// Layers each single layer collides with; keep it symmetric, a pair only collides when both sides accept each other
+export type CollisionMatrix = Record<number, number>
+
+const { PLAYER, ENEMY, PROJECTILE, WALL, TRIGGER, NPC } = COLLISION_LAYERS
+
+// Default layer/mask matrix: projectiles skip triggers, triggers only react to the player
+export const COLLISION_MATRIX: CollisionMatrix = {
+  [PLAYER]: ENEMY | PROJECTILE | WALL | TRIGGER | NPC,
+  [ENEMY]: PLAYER | ENEMY | PROJECTILE | WALL | NPC,
+  [PROJECTILE]: PLAYER | ENEMY | WALL,
+  [WALL]: PLAYER | ENEMY | PROJECTILE,
+  [TRIGGER]: PLAYER,
+  [NPC]: PLAYER | ENEMY
+}
+
+// Layers a collider hits: its own mask, or the matrix rows of every layer bit it has
+export const collisionMask = (collider: Collider, matrix: CollisionMatrix = COLLISION_MATRIX): number => {
+  if (collider.mask !== undefined) return collider.mask
+  let mask = 0
+  for (let bit = 1; bit !== 0 && bit <= collider.layer; bit <<= 1) {
+    if (collider.layer & bit) mask |= matrix[bit] ?? 0
+  }
+  return mask
+}
+
+// Whether two colliders' layers accept each other
+export const canCollide = (a: Collider, b: Collider, matrix: CollisionMatrix = COLLISION_MATRIX): boolean =>
+  (collisionMask(a, matrix) & b.layer) !== 0 && (collisionMask(b, matrix) & a.layer) !== 0
+
+// Inverse mass used to split the push-out; 0 for immovable (or massless) colliders
+export const inverseMass = (collider: Collider): number => {
+  const mass = collider.mass ?? 1
+  return collider.immovable || !(mass > 0) ? 0 : 1 / mass
+}
+
+// Helper: create a solid, non-trigger collider on a layer
+export const createCollider = (radius: number, layer: number = COLLISION_LAYERS.NONE, options: Partial<Pick<Collider, 'isTrigger' | 'solid' | 'mask' | 'mass' | 'immovable'>> = {}): Collider => ({
+  radius,
+  layer,
+  isTrigger: options.isTrigger ?? false,
+  solid: options.solid ?? true,
+  ...(options.mask !== undefined ? { mask: options.mask } : {}),
+  ...(options.mass !== undefined ? { mass: options.mass } : {}),
+  ...(options.immovable !== undefined ? { immovable: options.immovable } : {})
+})
@@ -1,5 +1,6 @@
 // Enemy component type moved to engine to allow global component-type mapping
 import type { Entity } from '@engine/ECS'
+import type { ProjectileKind } from './Projectile'
 
 export type EnemyComponent = {
   targetEntity?: Entity  // Entity this enemy is targeting
@@ -16,4 +17,5 @@ export type EnemyComponent = {
   patrolRadius: number   // How far to wander from spawn
   patrolAngle: number    // Current patrol angle (radians)
   patrolSpeed: number    // How fast to patrol (units/sec)
+  projectile?: ProjectileKind // Ranged enemies shoot this instead of striking
 }
@@ -0,0 +1,7 @@
+import type { Entity } from '@engine/ECS'
+import type { Transform } from './Transform'
+
+// Parent component: links a child entity to its parent (managed via world.setParent)
+export type Parent = { entity: Entity }
+// LocalTransform component: offset/rotation relative to the parent's world Transform
+export type LocalTransform = Transform
@@ -18,6 +18,7 @@ import {
   findItemInInventory,
   type Item,
 } from '@components/Item'
+import { mulberry32 } from '@engine/Random'
 
 describe('Item Component', () => {
   describe('isItem Type Guard', () => {
@@ -256,6 +257,13 @@ describe('Item Component', () => {
       const entry2 = createInventoryEntry(item)
       expect(entry1.instanceId).not.toBe(entry2.instanceId)
     })
+
+    it('should derive instance IDs only from the random source', () => {
+      const item = createItem('sword', 'Sword', 'weapon', 100)
+      const first = createInventoryEntry(item, 1, mulberry32(42))
+      const second = createInventoryEntry(item, 1, mulberry32(42))
+      expect(first.instanceId).toBe(second.instanceId)
+    })
   })
 
   describe('calculateInventoryWeight', () => {
@@ -24,6 +24,8 @@
  * ```
  */
 
+import { defaultRandom, type RandomFn } from '@engine/Random'
+
 /**
  * Item stat bonus.
  * Temporary or permanent stat modifications.
@@ -348,6 +350,7 @@ export function getActiveEffects(item: Item): ItemEffect[] {
  *
  * @param item - The item
  * @param quantity - Starting quantity
+ * @param random - Source for the instance id suffix; pass a world stream for ids that follow the seed (default: unseeded fallback stream)
  * @returns Inventory entry
  *
  * @example
@@ -355,11 +358,15 @@ export function getActiveEffects(item: Item): ItemEffect[] {
  * const entry = createInventoryEntry(potion, 5)
  * ```
  */
-export function createInventoryEntry(item: Item, quantity: number = 1): InventoryEntry {
+export function createInventoryEntry(
+  item: Item,
+  quantity: number = 1,
+  random: RandomFn = defaultRandom.next
+): InventoryEntry {
   return {
     item,
     quantity,
-    instanceId: `${item.id}_${Date.now()}_${Math.random()}`,
+    instanceId: `${item.id}_#${random().toString(36).slice(2, 9)}`,
   }
 }
 
@@ -0,0 +1,21 @@
+// PhysicsBody component: external motion (knockback, pushes, forces) on top of the intent Velocity that input and AI rewrite every frame
+export type PhysicsBody = {
+  vx: number       // external velocity from impulses and forces
+  vy: number
+  fx: number       // forces accumulated for the next movement step, cleared once applied
+  fy: number
+  drag: number     // linear drag: share of the external velocity lost per second
+  friction: number // constant deceleration of the external velocity (units/s²)
+  maxSpeed: number // cap on the combined intent and external speed (0 = no cap)
+}
+
+// Helper: create a body at rest; knockback fades within about half a second by default
+export const createPhysicsBody = (options: Partial<Pick<PhysicsBody, 'drag' | 'friction' | 'maxSpeed'>> = {}): PhysicsBody => ({
+  vx: 0,
+  vy: 0,
+  fx: 0,
+  fy: 0,
+  drag: options.drag ?? 6,
+  friction: options.friction ?? 100,
+  maxSpeed: options.maxSpeed ?? 0
+})
@@ -0,0 +1,53 @@
+import type { Entity } from '@engine/ECS'
+import type { Weapon } from './Weapon'
+
+// Flight and damage settings shared by all projectiles of a kind
+export type ProjectileStats = {
+  speed: number          // units per second
+  lifetime: number       // seconds before it expires
+  range: number          // distance from the launch point before it expires
+  pierce: number         // further targets it passes through after a hit
+  falloffStart: number   // fraction of the range flown at full damage (0-1)
+  minDamageScale: number // damage multiplier at the end of the range
+}
+
+// A kind of projectile (arrow, bolt, ...): stats plus collider size and sprite
+export type ProjectileKind = ProjectileStats & {
+  radius: number
+  sprite: string // drawSprite type
+  color: string
+}
+
+// Projectile component: a projectile in flight; its pierce counts down as it passes through targets
+export type Projectile = ProjectileStats & {
+  owner: Entity          // shooter; never hit by its own projectile
+  weapon: Weapon         // damage source for hits, resolved through WeaponSystem
+  originX: number        // launch point, for range and falloff
+  originY: number
+  age: number            // seconds in flight
+  hits: Entity[]         // entities already reached, each is struck only once
+}
+
+// Damage multiplier after flying a distance: full damage up to the falloff start, then linear down to the minimum
+export const projectileDamageScale = (stats: ProjectileStats, distance: number): number => {
+  const start = stats.range * stats.falloffStart
+  if (distance <= start || stats.range <= start) return 1
+  const t = Math.min(1, (distance - start) / (stats.range - start))
+  return 1 + (stats.minDamageScale - 1) * t
+}
+
+// Helper: create a projectile launched from (x, y)
+export const createProjectile = (owner: Entity, weapon: Weapon, stats: ProjectileStats, x: number, y: number): Projectile => ({
+  speed: stats.speed,
+  lifetime: stats.lifetime,
+  range: stats.range,
+  pierce: stats.pierce,
+  falloffStart: stats.falloffStart,
+  minDamageScale: stats.minDamageScale,
+  owner,
+  weapon,
+  originX: x,
+  originY: y,
+  age: 0,
+  hits: []
+})
@@ -27,6 +27,8 @@
  * ```
  */
 
+import { defaultRandom, type RandomFn } from '@engine/Random'
+
 /**
  * Skill cost definition.
  * Specifies resource cost to cast a skill.
@@ -240,6 +242,7 @@ export function createSkillAdvanced(config: Skill): Skill {
  *
  * @param skill - The skill
  * @param statsModifier - Optional stat modifier (0-2, where 1.0 = no change)
+ * @param random - Roll source (default: unseeded fallback stream)
  * @returns Actual damage value
  *
  * @example
@@ -248,10 +251,14 @@ export function createSkillAdvanced(config: Skill): Skill {
  * const boostedDamage = calculateSkillDamage(fireball, 1.5) // 50% more damage
  * ```
  */
-export function calculateSkillDamage(skill: Skill, statsModifier: number = 1.0): number {
+export function calculateSkillDamage(
+  skill: Skill,
+  statsModifier: number = 1.0,
+  random: RandomFn = defaultRandom.next
+): number {
   if (!skill.damage) return 0
   const { baseValue, variance } = skill.damage
-  const variance_amount = Math.floor(Math.random() * (variance * 2 + 1)) - variance
+  const variance_amount = Math.floor(random() * (variance * 2 + 1)) - variance
   const baseDamage = baseValue * statsModifier
   return Math.max(1, baseDamage + variance_amount)
 }
@@ -10,6 +10,7 @@ import {
   repairWeapon,
   getWeaponRange,
   getAttackCooldown,
+  getWeaponKnockback,
   type Weapon,
   type WeaponDamage,
 } from './Weapon'
@@ -317,6 +318,23 @@ describe('Weapon Component', () => {
     })
   })
 
+  describe('getWeaponKnockback', () => {
+    it('should be 0 for weapons without knockback', () => {
+      expect(getWeaponKnockback(createWeapon('sword_1', 'Sword', 'sword', 15))).toBe(0)
+    })
+
+    it('should add effect knockback to the damage knockback', () => {
+      const hammer = createWeapon('hammer_1', 'Hammer', 'hammer', 25)
+      hammer.damage.knockback = 200
+      hammer.effects.push(
+        { id: 'fx_quake', name: 'Quake', type: 'utility', duration: 0, potency: 50, knockback: 50 },
+        { id: 'fx_burn', name: 'Burn', type: 'damage', duration: 3000, potency: 20 }
+      )
+
+      expect(getWeaponKnockback(hammer)).toBe(250)
+    })
+  })
+
   describe('Weapon Integration', () => {
     it('should create, use, damage, and repair weapon', () => {
       const sword = createWeapon('sword_1', 'Sword', 'sword', 15)
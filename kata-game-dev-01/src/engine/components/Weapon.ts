@@ -20,6 +20,8 @@
  * ```
  */
 
+import { defaultRandom, type RandomFn } from '@engine/Random'
+
 /**
  * Weapon damage configuration.
  * Defines how much damage a weapon deals.
@@ -31,6 +33,8 @@ export interface WeaponDamage {
   variance: number
   /** Damage type (physical, fire, cold, etc.) */
   type?: 'physical' | 'fire' | 'cold' | 'lightning' | 'magic'
+  /** Knockback impulse applied to the target on hit */
+  knockback?: number
 }
 
 /**
@@ -59,6 +63,8 @@ export interface WeaponEffect {
   duration: number
   /** Effect potency (0-100) */
   potency: number
+  /** Extra knockback impulse applied to the target on hit */
+  knockback?: number
 }
 
 /**
@@ -232,17 +238,18 @@ export function createWeaponAdvanced(config: Weapon): Weapon {
  * Takes into account base value, variance, and random factor.
  *
  * @param weapon - The weapon
+ * @param random - Roll source (default: unseeded fallback stream)
  * @returns Actual damage value
  *
  * @example
  * ```ts
- * const damage = calculateWeaponDamage(sword)
+ * const damage = calculateWeaponDamage(sword, getRandomStream(world, 'combat').next)
  * // Returns value between baseValue - variance and baseValue + variance
  * ```
  */
-export function calculateWeaponDamage(weapon: Weapon): number {
+export function calculateWeaponDamage(weapon: Weapon, random: RandomFn = defaultRandom.next): number {
   const { baseValue, variance } = weapon.damage
-  const variance_amount = Math.floor(Math.random() * (variance * 2 + 1)) - variance
+  const variance_amount = Math.floor(random() * (variance * 2 + 1)) - variance
   return Math.max(1, baseValue + variance_amount)
 }
 
@@ -306,6 +313,25 @@ export function repairWeapon(weapon: Weapon, amount?: number): void {
   }
 }
 
+/**
+ * Get the knockback impulse a hit applies to its target.
+ *
+ * Sums the weapon damage's knockback and that of its effects.
+ *
+ * @param weapon - The weapon
+ * @returns Knockback impulse (0 = none)
+ *
+ * @example
+ * ```ts
+ * const hammer = createWeapon('hammer_war', 'War Hammer', 'hammer', 20)
+ * hammer.damage.knockback = 250
+ * getWeaponKnockback(hammer) // 250
+ * ```
+ */
+export function getWeaponKnockback(weapon: Weapon): number {
+  return weapon.effects.reduce((sum, effect) => sum + (effect.knockback ?? 0), weapon.damage.knockback ?? 0)
+}
+
 /**
  * Get actual attack range considering all modifiers.
  *
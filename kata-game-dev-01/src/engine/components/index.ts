@@ -4,6 +4,9 @@ export * from './Velocity'
 export * from './Renderable'
 export * from './Enemy'
 export * from './Health'
+export * from './Hierarchy'
+export * from './Projectile'
+export * from './PhysicsBody'
 
 // Prepared components (not yet integrated into ECS)
 export * from './Collider'
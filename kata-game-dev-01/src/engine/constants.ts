@@ -29,7 +29,22 @@ export const COMPONENTS = {
     ITEM: 'Item',
     METADATA: 'Metadata',
     DIALOG_STATE: 'DialogState',
-    QUEST_FLAGS: 'QuestFlags'
+    // Legacy: per-player quest flags from older saves, migrated into the QuestFlags resource on load
+    QUEST_FLAGS: 'QuestFlags',
+    // Hierarchy: parent link and transform relative to the parent
+    PARENT: 'Parent',
+    LOCAL_TRANSFORM: 'LocalTransform',
+    // Marker components (empty objects) so queries can filter by entity role
+    PLAYER: 'Player',
+    HOSTILE: 'Hostile',
+    // Collision circle, layer and trigger/solid flags
+    COLLIDER: 'Collider',
+    // Level trigger zone a trigger collider stands for
+    TRIGGER_ZONE: 'TriggerZone',
+    // Projectile in flight: owner, weapon, range and pierce state
+    PROJECTILE: 'Projectile',
+    // External velocity, forces and damping layered on top of Velocity
+    PHYSICS_BODY: 'PhysicsBody'
 } as const satisfies Record<string, string>
 
 /**
@@ -109,3 +124,64 @@ export const EVENT_TYPES = {
  * ```
  */
 export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES]
+
+/**
+ * Gameplay events: const object for events published on `world.events`
+ *
+ * Unlike EVENT_TYPES, these describe what happened in the game rather than
+ * what happened to a component. Payloads are declared in `GameEventMap`.
+ *
+ * @example
+ * ```ts
+ * world.on(GAME_EVENTS.ENEMY_KILLED, ({ entity, killer }) => {
+ *   questLog.recordKill(entity, killer)
+ * })
+ * ```
+ */
+export const GAME_EVENTS = {
+    /** Damage was applied to an entity */
+    DAMAGE_DEALT: 'DamageDealt',
+    /** An attack did not hit */
+    ATTACK_MISSED: 'AttackMissed',
+    /** A hostile entity was brought to zero health */
+    ENEMY_KILLED: 'EnemyKilled',
+    /** A combat encounter started */
+    COMBAT_STARTED: 'CombatStarted',
+    /** A combat encounter finished with a winner */
+    COMBAT_ENDED: 'CombatEnded',
+    /** An item was added to an inventory */
+    ITEM_PICKED_UP: 'ItemPickedUp',
+    /** An item was removed from an inventory */
+    ITEM_DROPPED: 'ItemDropped',
+    /** A consumable was used */
+    ITEM_CONSUMED: 'ItemConsumed',
+    /** An item was equipped into a slot */
+    ITEM_EQUIPPED: 'ItemEquipped',
+    /** An item was removed from a slot */
+    ITEM_UNEQUIPPED: 'ItemUnequipped',
+    /** A dialog was opened */
+    DIALOG_STARTED: 'DialogStarted',
+    /** A dialog was closed */
+    DIALOG_ENDED: 'DialogEnded',
+    /** A quest flag was set */
+    QUEST_FLAG_SET: 'QuestFlagSet',
+    /** A level finished loading */
+    LEVEL_LOADED: 'LevelLoaded',
+    /** A level was unloaded */
+    LEVEL_UNLOADED: 'LevelUnloaded',
+    /** Two colliders started touching */
+    COLLISION_ENTER: 'CollisionEnter',
+    /** Two colliders stopped touching (or one of them is gone) */
+    COLLISION_EXIT: 'CollisionExit',
+    /** The player entered or left a level trigger zone and its actions ran */
+    TRIGGER_FIRED: 'TriggerFired',
+    /** A hint should be shown to the player */
+    HINT_SHOWN: 'HintShown'
+} as const satisfies Record<string, string>
+
+/**
+ * GameEventType type: union of all gameplay event names
+ *
+ * Auto-generated from GAME_EVENTS object values.
+ */
+export type GameEventType = typeof GAME_EVENTS[keyof typeof GAME_EVENTS]
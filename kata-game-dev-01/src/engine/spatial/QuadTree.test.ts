@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { createQuadTree, type Rect, type PointItem, type QuadOptions } from './QuadTree'
+import { createQuadTree, itemBounds, type BoxItem, type Rect, type PointItem, type QuadOptions } from './QuadTree'
+import { mulberry32 } from '@engine/Random'
 
 describe('QuadTree', () => {
   describe('createQuadTree', () => {
@@ -431,5 +432,192 @@ describe('QuadTree', () => {
       expect(results.find(r => r.entity === 2)).toBeUndefined()
     })
   })
-})
 
+  describe('sized items', () => {
+    const bounds = { x: 0, y: 0, w: 100, h: 100 }
+
+    it('should keep a box straddling quadrants in the smallest enclosing node', () => {
+      const quadTree = createQuadTree<BoxItem>(bounds, 1)
+      quadTree.insert({ x: 10, y: 10, entity: 1 })
+      quadTree.insert({ x: 90, y: 90, entity: 2 })
+      quadTree.insert({ x: 50, y: 20, entity: 3, hw: 5, hh: 5 })
+      quadTree.insert({ x: 20, y: 20, entity: 4, hw: 2, hh: 2 })
+
+      const root = quadTree.getRoot()
+      expect(root.divided).toBe(true)
+      expect(root.items.map(i => i.entity)).toEqual([3])
+      // Small boxes still sink into the quadrant that encloses them
+      type Node = ReturnType<typeof quadTree.getRoot>
+      const collect = (node: Node): number[] =>
+        [...node.items.map(i => i.entity), ...(node.children ?? []).flatMap(collect)]
+      expect(collect(root.children![0]).sort()).toEqual([1, 4])
+    })
+
+    it('should return boxes that overlap the range even if their centre is outside', () => {
+      const quadTree = createQuadTree<BoxItem>(bounds)
+      quadTree.insert({ x: 60, y: 60, entity: 1, hw: 15, hh: 15 })
+      quadTree.insert({ x: 60, y: 60, entity: 2 })
+
+      const results = quadTree.query({ x: 0, y: 0, w: 50, h: 50 })
+
+      expect(results.map(r => r.entity)).toEqual([1])
+    })
+
+    it('should keep boxes sticking out of the world at the root', () => {
+      const quadTree = createQuadTree<BoxItem>(bounds)
+
+      expect(quadTree.insert({ x: 98, y: 50, entity: 1, hw: 10, hh: 10 })).toBe(true)
+      expect(quadTree.query({ x: 100, y: 45, w: 20, h: 10 }).map(r => r.entity)).toEqual([1])
+    })
+
+    it('should move and resize boxes on update', () => {
+      const quadTree = createQuadTree<BoxItem>(bounds, 1)
+      quadTree.insert({ x: 10, y: 10, entity: 1, hw: 2, hh: 2 })
+      quadTree.insert({ x: 90, y: 90, entity: 2, hw: 2, hh: 2 })
+
+      quadTree.update(1, 80, 80, 20, 20)
+
+      expect(quadTree.query({ x: 62, y: 62, w: 2, h: 2 }).map(r => r.entity)).toEqual([1])
+      expect(quadTree.query({ x: 0, y: 0, w: 20, h: 20 })).toEqual([])
+    })
+
+    it('should match a brute-force overlap test for random boxes', () => {
+      const rand = mulberry32(7)
+      const quadTree = createQuadTree<BoxItem>({ x: 0, y: 0, w: 1000, h: 1000 }, 4, 6)
+      const items: BoxItem[] = []
+      for (let i = 1; i <= 300; i++) {
+        const item = { x: rand() * 1000, y: rand() * 1000, entity: i, hw: rand() * 40, hh: rand() * 40 }
+        items.push(item)
+        quadTree.insert({ ...item })
+      }
+
+      for (let q = 0; q < 50; q++) {
+        const range = { x: rand() * 900, y: rand() * 900, w: rand() * 200, h: rand() * 200 }
+        const expected = items
+          .filter(i => i.x + i.hw! >= range.x && i.x - i.hw! <= range.x + range.w
+            && i.y + i.hh! >= range.y && i.y - i.hh! <= range.y + range.h)
+          .map(i => i.entity)
+        const actual = quadTree.query(range).map(r => r.entity)
+        expect(actual.sort((a, b) => a - b)).toEqual(expected)
+      }
+    })
+
+    it('should report zero-sized bounds for points', () => {
+      expect(itemBounds({ x: 3, y: 4, entity: 1 })).toEqual({ x: 3, y: 4, w: 0, h: 0 })
+      expect(itemBounds({ x: 3, y: 4, entity: 1, hw: 1, hh: 2 })).toEqual({ x: 2, y: 2, w: 2, h: 4 })
+    })
+  })
+
+  describe('distance queries', () => {
+    const distanceTo = (x: number, y: number, i: BoxItem) => {
+      const b = itemBounds(i)
+      return Math.hypot(Math.max(b.x - x, 0, x - (b.x + b.w)), Math.max(b.y - y, 0, y - (b.y + b.h)))
+    }
+
+    // Random mix of points and boxes, mirrored in a plain array for the brute-force oracle
+    const build = (seed: number) => {
+      const rand = mulberry32(seed)
+      const quadTree = createQuadTree<BoxItem>({ x: 0, y: 0, w: 1000, h: 1000 }, 4, 6)
+      const items: BoxItem[] = []
+      for (let i = 1; i <= 400; i++) {
+        const sized = rand() < 0.5
+        const item: BoxItem = sized
+          ? { x: rand() * 1000, y: rand() * 1000, entity: i, hw: rand() * 30, hh: rand() * 30 }
+          : { x: rand() * 1000, y: rand() * 1000, entity: i }
+        items.push(item)
+        quadTree.insert({ ...item })
+      }
+      return { quadTree, items, rand }
+    }
+
+    it('queryCircle should match the brute-force result, closest first', () => {
+      const { quadTree, items, rand } = build(11)
+      for (let q = 0; q < 40; q++) {
+        const x = rand() * 1000
+        const y = rand() * 1000
+        const r = rand() * 150
+        const expected = items
+          .filter(i => distanceTo(x, y, i) <= r)
+          .sort((a, b) => distanceTo(x, y, a) - distanceTo(x, y, b))
+          .map(i => distanceTo(x, y, i))
+
+        const actual = quadTree.queryCircle(x, y, r).map(i => distanceTo(x, y, i))
+
+        expect(actual).toEqual(expected)
+      }
+    })
+
+    it('nearest should return the k closest items like a full sort', () => {
+      const { quadTree, items, rand } = build(12)
+      for (let q = 0; q < 40; q++) {
+        const x = rand() * 1000
+        const y = rand() * 1000
+        const k = 1 + Math.floor(rand() * 10)
+        const expected = items.map(i => distanceTo(x, y, i)).sort((a, b) => a - b).slice(0, k)
+
+        const actual = quadTree.nearest(x, y, k).map(i => distanceTo(x, y, i))
+
+        expect(actual).toEqual(expected)
+      }
+    })
+
+    it('nearest should skip items rejected by the filter', () => {
+      const { quadTree, items } = build(13)
+      const even = (i: BoxItem) => i.entity % 2 === 0
+      const expected = items.filter(even)
+        .sort((a, b) => distanceTo(500, 500, a) - distanceTo(500, 500, b))
+        .slice(0, 5).map(i => i.entity)
+
+      expect(quadTree.nearest(500, 500, 5, even).map(i => i.entity)).toEqual(expected)
+    })
+
+    it('nearest should return fewer items when the tree is small', () => {
+      const quadTree = createQuadTree<BoxItem>({ x: 0, y: 0, w: 100, h: 100 })
+      quadTree.insert({ x: 10, y: 10, entity: 1 })
+
+      expect(quadTree.nearest(50, 50, 3).map(i => i.entity)).toEqual([1])
+      expect(quadTree.nearest(50, 50, 0)).toEqual([])
+    })
+
+    it('raycast should hit the same boxes as a brute-force slab test, in order', () => {
+      const { quadTree, items, rand } = build(14)
+      const boxes = items.filter(i => i.hw !== undefined)
+      for (let q = 0; q < 30; q++) {
+        const from = { x: rand() * 1000, y: rand() * 1000 }
+        const to = { x: rand() * 1000, y: rand() * 1000 }
+        const expected = boxes
+          .map(i => {
+            const b = itemBounds(i)
+            let t0 = 0
+            let t1 = 1
+            for (const [o, d, min, max] of [[from.x, to.x - from.x, b.x, b.x + b.w], [from.y, to.y - from.y, b.y, b.y + b.h]]) {
+              const a = (min - o) / d
+              const c = (max - o) / d
+              t0 = Math.max(t0, Math.min(a, c))
+              t1 = Math.min(t1, Math.max(a, c))
+            }
+            return { entity: i.entity, t: t0 <= t1 ? t0 : null }
+          })
+          .filter(h => h.t !== null)
+          .sort((a, b) => a.t! - b.t!)
+          .map(h => h.entity)
+
+        const actual = quadTree.raycast(from, to).map(h => h.item.entity)
+
+        expect(actual).toEqual(expected)
+      }
+    })
+
+    it('raycast should report the entry point and distance', () => {
+      const quadTree = createQuadTree<BoxItem>({ x: 0, y: 0, w: 100, h: 100 })
+      quadTree.insert({ x: 50, y: 20, entity: 1, hw: 5, hh: 5 })
+      quadTree.insert({ x: 80, y: 20, entity: 2, hw: 5, hh: 5 })
+      quadTree.insert({ x: 50, y: 80, entity: 3, hw: 5, hh: 5 })
+
+      const hits = quadTree.raycast({ x: 0, y: 20 }, { x: 100, y: 20 })
+
+      expect(hits.map(h => h.item.entity)).toEqual([1, 2])
+      expect(hits[0]).toMatchObject({ distance: 45, x: 45, y: 20 })
+    })
+  })
+})
@@ -1,4 +1,5 @@
 import type {Point} from '@components'
+import {containsPoint, distanceToRect, intersects, segmentEntry} from './geometry'
 
 /**
  * Rectangle boundary definition for spatial partitioning
@@ -29,6 +30,87 @@ export type Rect = { x: number; y: number; w: number; h: number }
  */
 export type PointItem = Point & { entity: number }
 
+/**
+ * Sized item: an axis-aligned box centred on (x, y)
+ * Points are boxes with zero extents; the fields are optional so point
+ * items stay valid everywhere a box is accepted.
+ * @property hw - Half width (default 0)
+ * @property hh - Half height (default 0)
+ *
+ * @example
+ * ```ts
+ * // A goblin sprite 24px wide, 32px tall
+ * const goblin: BoxItem = { x: 50, y: 75, entity: 7, hw: 12, hh: 16 }
+ * ```
+ */
+export type BoxItem = PointItem & { hw?: number; hh?: number }
+
+/**
+ * Bounding rectangle of an item
+ * @param item - Point or box item
+ * @returns Rectangle covering the item (zero-sized for points)
+ */
+export const itemBounds = (item: BoxItem): Rect => {
+    const hw = item.hw ?? 0
+    const hh = item.hh ?? 0
+    return {x: item.x - hw, y: item.y - hh, w: hw * 2, h: hh * 2}
+}
+
+/**
+ * Raycast hit
+ * @property item - Item whose box the ray enters
+ * @property distance - Distance from the ray origin to the entry point
+ * @property x - Entry point x-coordinate
+ * @property y - Entry point y-coordinate
+ */
+export type RayHit<T> = { item: T; distance: number; x: number; y: number }
+
+/**
+ * Binary min-heap keyed by distance, used for best-first nearest search
+ */
+const createMinHeap = <V>() => {
+    const keys: number[] = []
+    const values: V[] = []
+    const swap = (i: number, j: number) => {
+        [keys[i], keys[j]] = [keys[j], keys[i]];
+        [values[i], values[j]] = [values[j], values[i]]
+    }
+    const push = (key: number, value: V) => {
+        keys.push(key)
+        values.push(value)
+        let i = keys.length - 1
+        while (i > 0) {
+            const parent = (i - 1) >> 1
+            if (keys[parent] <= keys[i]) break
+            swap(i, parent)
+            i = parent
+        }
+    }
+    const pop = (): [number, V] | undefined => {
+        if (keys.length === 0) return undefined
+        const top: [number, V] = [keys[0], values[0]]
+        const lastKey = keys.pop()!
+        const lastValue = values.pop()!
+        if (keys.length > 0) {
+            keys[0] = lastKey
+            values[0] = lastValue
+            let i = 0
+            for (;;) {
+                const l = i * 2 + 1
+                const r = l + 1
+                let smallest = i
+                if (l < keys.length && keys[l] < keys[smallest]) smallest = l
+                if (r < keys.length && keys[r] < keys[smallest]) smallest = r
+                if (smallest === i) break
+                swap(i, smallest)
+                i = smallest
+            }
+        }
+        return top
+    }
+    return {push, pop, get size() { return keys.length }}
+}
+
 /**
  * Quad tree configuration and tuning options
  *
@@ -105,6 +187,7 @@ export type QuadOptions = {
  * ```
  * Example metrics:
  * {
+ *   backend: 'quadtree',      ← Backend tag shared with the spatial hash
  *   opCounter: 512,           ← Operations since last reset
  *   splits: 8,                ← Nodes subdivided (growth)
  *   merges: 2,                ← Nodes merged back (shrinking)
@@ -121,6 +204,7 @@ export type QuadOptions = {
  * - splits > merges: Tree growing (expanding world or entities spreading)
  * - merges > splits: Tree shrinking (consolidating clusters)
  *
+ * @property backend - Always 'quadtree' (lets debug tooling tell backends apart)
  * @property opCounter - Current operation counter (insert/update/remove count)
  * @property splits - Total number of node splits performed
  * @property merges - Total number of node merges performed
@@ -130,6 +214,7 @@ export type QuadOptions = {
  * @property avgChildOccupancy - Average item count per child node when parent is divided
  */
 export type QuadMetrics = {
+    backend: 'quadtree'
     opCounter: number
     splits: number
     merges: number
@@ -180,6 +265,11 @@ export type QuadMetrics = {
  * - ⏱️ Batch rebalancing to maintain structure
  * - 🔍 O(1) entity lookups via internal map
  *
+ * **Sized items:** Items may carry half extents (`hw`, `hh`). A box that
+ * straddles a quadrant boundary stays in the smallest node that fully
+ * encloses it, and `query` returns every item whose box overlaps the range,
+ * so a large sprite is found even when its centre is outside the range.
+ *
  * **How it works in gameplay:**
  * ```
  * Insert: Enemy spawns at (45, 60)
@@ -197,7 +287,7 @@ export type QuadMetrics = {
  *   → If moved to different quadrant: remove & re-insert O(log n)
  * ```
  *
- * @template T - Item type, must extend Point with entity property
+ * @template T - Item type, must extend Point with entity property (optionally sized, see BoxItem)
  *
  * @param boundary - Root boundary rectangle defining the game world
  * @param capacity - Max items per node before splitting (default 8, higher = fewer nodes, slower queries)
@@ -220,6 +310,10 @@ export type QuadMetrics = {
  * const inRange = quadTree.query({ x: 0, y: 0, w: 50, h: 50 })
  * console.log(inRange)  // [{ x: 25, y: 25, entity: 1 }, { x: 50, y: 50, entity: 2 }]
  *
+ * // Sized items are found wherever their box overlaps the range
+ * quadTree.insert({ x: 55, y: 10, entity: 4, hw: 10, hh: 10 })
+ * quadTree.query({ x: 0, y: 0, w: 50, h: 50 })  // includes entity 4
+ *
  * // Update entity position
  * quadTree.update(2, 60, 60)  // Enemy 1 moves to (60, 60)
  * quadTree.remove(3)           // Enemy 2 removed
@@ -230,7 +324,7 @@ export type QuadMetrics = {
  * console.log(`Avg items per node: ${metrics.avgItemsPerNode.toFixed(2)}`)
  * ```
  */
-export const createQuadTree = <T extends Point & { entity: number } = PointItem>(
+export const createQuadTree = <T extends BoxItem = BoxItem>(
     boundary: Rect,
     capacity = 8,
     maxDepth = 8,
@@ -270,12 +364,11 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
     let splits = 0
     let merges = 0
 
-    const contains = (r: Rect, p: Point) => {
-        return p.x >= r.x && p.x <= r.x + r.w && p.y >= r.y && p.y <= r.y + r.h
-    }
-
-    const intersects = (a: Rect, b: Rect) => {
-        return !(b.x > a.x + a.w || b.x + b.w < a.x || b.y > a.y + a.h || b.y + b.h < a.y)
+    // Whether the item's whole box lies inside r (for points: the point does)
+    const contains = (r: Rect, item: BoxItem) => {
+        const hw = item.hw ?? 0
+        const hh = item.hh ?? 0
+        return item.x - hw >= r.x && item.x + hw <= r.x + r.w && item.y - hh >= r.y && item.y + hh <= r.y + r.h
     }
 
     const subdivide = (node: Node) => {
@@ -304,7 +397,7 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
                 }
             }
             if (!inserted) {
-                // If none of the children contain the item (edge case), keep it at parent
+                // Boxes straddling a child boundary (or points on an edge case) stay at the parent
                 node.items.push(item)
                 entityMap.set(item.entity, node)
             }
@@ -341,35 +434,35 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
         }
     }
 
+    const storeAt = (node: Node, item: T): true => {
+        node.items.push(item)
+        entityMap.set(item.entity, node)
+        opCounter++
+        maybeAutoTune()
+        maybeRebalance()
+        return true
+    }
+
     const insertNode = (node: Node, item: T): boolean => {
         if (!contains(node.boundary, item)) return false
 
-        if (node.items.length < capacity || node.depth >= maxDepth) {
-            node.items.push(item)
-            entityMap.set(item.entity, node)
-            opCounter++
-            maybeAutoTune()
-            maybeRebalance()
-            return true
+        if (!node.divided) {
+            if (node.items.length < capacity || node.depth >= maxDepth) return storeAt(node, item)
+            subdivide(node)
         }
 
-        if (!node.divided) subdivide(node)
-
-        // try children
+        // Descend into the child that fully encloses the item
         for (const child of node.children!) {
             if (insertNode(child, item)) return true
         }
 
-        // fallback (shouldn't usually happen)
-        node.items.push(item)
-        entityMap.set(item.entity, node)
-        opCounter++
-        maybeAutoTune()
-        maybeRebalance()
-        return true
+        // Straddles a child boundary: this is the smallest enclosing node
+        return storeAt(node, item)
     }
 
-    const insert = (item: T) => insertNode(root, item)
+    // Boxes sticking out of the world are kept at the root as long as their centre is inside
+    const insert = (item: T) =>
+        insertNode(root, item) || (containsPoint(root.boundary, item) && storeAt(root, item))
 
     const remove = (entity: number) => {
         const node = entityMap.get(entity)
@@ -408,11 +501,11 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
         return false
     }
 
-    const update = (entity: number, x: number, y: number) => {
+    const update = (entity: number, x: number, y: number, hw?: number, hh?: number) => {
         const node = entityMap.get(entity)
         if (!node) {
             // Not present, insert fresh
-            insert({x, y, entity} as T)
+            insert({x, y, entity, hw, hh} as T)
             return true
         }
 
@@ -420,10 +513,13 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
         const idx = node.items.findIndex(i => i.entity === entity)
         if (idx >= 0) {
             const item = node.items[idx]
-            // If still in node boundary, update coordinates
-            if (x >= node.boundary.x && x <= node.boundary.x + node.boundary.w && y >= node.boundary.y && y <= node.boundary.y + node.boundary.h) {
+            const moved = {x, y, entity, hw: hw ?? item.hw, hh: hh ?? item.hh}
+            // If still enclosed by the node (or centred in the root it overflows), update in place
+            if (contains(node.boundary, moved) || (node === root && containsPoint(root.boundary, moved))) {
                 item.x = x
                 item.y = y
+                if (hw !== undefined) item.hw = hw
+                if (hh !== undefined) item.hh = hh
                 opCounter++
                 maybeAutoTune()
                 maybeRebalance()
@@ -432,7 +528,7 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
             // Otherwise remove and re-insert from root
             node.items.splice(idx, 1)
             entityMap.delete(entity)
-            insert({x, y, entity} as T)
+            insert({...item, ...moved})
             // attempt merges up the old parent
             let p = node.parent
             while (p) {
@@ -445,7 +541,7 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
         }
 
         // Not found in node.items (shouldn't happen) — fallback to insert
-        insert({x, y, entity} as T)
+        insert({x, y, entity, hw, hh} as T)
         return true
     }
 
@@ -467,10 +563,11 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
     }
 
     const queryNode = (node: Node, range: Rect, found: T[]) => {
-        if (!intersects(node.boundary, range)) return found
+        // The root may hold boxes sticking out of its boundary, so it is always scanned
+        if (node !== root && !intersects(node.boundary, range)) return found
 
         for (const it of node.items) {
-            if (it.x >= range.x && it.x <= range.x + range.w && it.y >= range.y && it.y <= range.y + range.h) {
+            if (it.hw || it.hh ? intersects(itemBounds(it), range) : containsPoint(range, it)) {
                 found.push(it)
             }
         }
@@ -483,6 +580,66 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
 
     const query = (range: Rect) => queryNode(root, range, [])
 
+    // Lower bound for the distance from (x, y) to any item in a node; root items may stick out
+    const nodeDistance = (node: Node, x: number, y: number) =>
+        node === root ? 0 : distanceToRect(x, y, node.boundary)
+
+    const queryCircle = (x: number, y: number, r: number): T[] => {
+        const hits: { item: T; distance: number }[] = []
+        const walk = (node: Node) => {
+            if (nodeDistance(node, x, y) > r) return
+            for (const item of node.items) {
+                const distance = distanceToRect(x, y, itemBounds(item))
+                if (distance <= r) hits.push({item, distance})
+            }
+            if (node.divided && node.children) for (const c of node.children) walk(c)
+        }
+        walk(root)
+        return hits.sort((a, b) => a.distance - b.distance).map(h => h.item)
+    }
+
+    const nearest = (x: number, y: number, k = 1, filter?: (item: T) => boolean): T[] => {
+        const found: T[] = []
+        if (k <= 0) return found
+        // Nodes and items share one queue; an item popped before any closer node cannot be beaten
+        const heap = createMinHeap<{ node?: Node; item?: T }>()
+        heap.push(0, {node: root})
+        while (heap.size > 0 && found.length < k) {
+            const [, entry] = heap.pop()!
+            if (entry.item) {
+                found.push(entry.item)
+                continue
+            }
+            const node = entry.node!
+            for (const item of node.items) {
+                if (filter && !filter(item)) continue
+                heap.push(distanceToRect(x, y, itemBounds(item)), {item})
+            }
+            if (node.divided && node.children) {
+                for (const c of node.children) heap.push(nodeDistance(c, x, y), {node: c})
+            }
+        }
+        return found
+    }
+
+    const raycast = (from: Point, to: Point): RayHit<T>[] => {
+        const length = Math.hypot(to.x - from.x, to.y - from.y)
+        const hits: RayHit<T>[] = []
+        const walk = (node: Node) => {
+            if (node !== root && segmentEntry(from, to, node.boundary) === null) return
+            for (const item of node.items) {
+                const t = segmentEntry(from, to, itemBounds(item))
+                if (t === null) continue
+                const hx = from.x + (to.x - from.x) * t
+                const hy = from.y + (to.y - from.y) * t
+                hits.push({item, distance: t * length, x: hx, y: hy})
+            }
+            if (node.divided && node.children) for (const c of node.children) walk(c)
+        }
+        walk(root)
+        return hits.sort((a, b) => a.distance - b.distance)
+    }
+
     const getRoot = () => root
 
     const has = (entity: number) => entityMap.has(entity)
@@ -512,6 +669,7 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
         const avgChildOccupancy = childCounted ? childOccupancySum / childCounted : undefined
 
         return {
+            backend: 'quadtree',
             opCounter,
             splits,
             merges,
@@ -628,8 +786,8 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
          *   → Redistribute items into children
          * ```
          *
-         * @param item - Item to insert with x, y, entity properties
-         * @returns true if insertion succeeded, false if outside boundary
+         * @param item - Item to insert with x, y, entity properties (and optional hw, hh extents)
+         * @returns true if insertion succeeded, false if its centre is outside boundary
          */
         insert,
 
@@ -671,6 +829,8 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
          * @param entity - Entity ID to update
          * @param x - New x coordinate
          * @param y - New y coordinate
+         * @param hw - New half width (optional, keeps the current one)
+         * @param hh - New half height (optional, keeps the current one)
          * @returns true if update succeeded
          */
         update,
@@ -703,10 +863,57 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
          * ```
          *
          * @param range - Query rectangle {x, y, w, h}
-         * @returns Array of items found in the range
+         * @returns Array of items whose point or box overlaps the range
          */
         query,
 
+        /**
+         * Query all items within a circle
+         *
+         * **Complexity:** O(k log k + log n); nodes farther than r are skipped
+         *
+         * Distances are measured to the closest point of each item's box, so a
+         * large sprite counts as soon as its edge is in range.
+         *
+         * @param x - Circle centre x-coordinate
+         * @param y - Circle centre y-coordinate
+         * @param r - Radius
+         * @returns Items in range, closest first
+         */
+        queryCircle,
+
+        /**
+         * Find the k items closest to a point
+         *
+         * **Complexity:** Best-first search; only nodes closer than the k-th
+         * result are opened
+         *
+         * ```
+         * const [target] = quadTree.nearest(px, py, 1, it => it.entity !== player)
+         * ```
+         *
+         * @param x - Query x-coordinate
+         * @param y - Query y-coordinate
+         * @param k - Number of items (default 1)
+         * @param filter - Optional predicate; rejected items are skipped
+         * @returns Up to k items, closest first
+         */
+        nearest,
+
+        /**
+         * Find all items whose box a line segment passes through
+         *
+         * **Complexity:** Visits only nodes the segment crosses
+         *
+         * Point items are only hit when the segment passes exactly through them;
+         * give items extents to make them targetable.
+         *
+         * @param from - Segment start
+         * @param to - Segment end
+         * @returns Hits with entry point and distance from `from`, closest first
+         */
+        raycast,
+
         /**
          * Check if an entity exists in the tree
          *
@@ -754,3 +961,7 @@ export const createQuadTree = <T extends Point & { entity: number } = PointItem>
     }
 }
 
+/**
+ * Quad tree API returned by `createQuadTree`
+ */
+export type QuadTree<T extends BoxItem = BoxItem> = ReturnType<typeof createQuadTree<T>>
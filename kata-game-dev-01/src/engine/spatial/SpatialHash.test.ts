@@ -0,0 +1,283 @@
+import { describe, it, expect } from 'vitest'
+import { createSpatialHash } from './SpatialHash'
+import { itemBounds, type BoxItem } from './QuadTree'
+import { mulberry32 } from '@engine/Random'
+
+describe('SpatialHash', () => {
+  const distanceTo = (x: number, y: number, i: BoxItem) => {
+    const b = itemBounds(i)
+    return Math.hypot(Math.max(b.x - x, 0, x - (b.x + b.w)), Math.max(b.y - y, 0, y - (b.y + b.h)))
+  }
+
+  // Random mix of points and boxes (some outside any fixed world), mirrored for the brute-force oracle
+  const build = (seed: number, cellSize = 50) => {
+    const rand = mulberry32(seed)
+    const hash = createSpatialHash<BoxItem>(cellSize)
+    const items: BoxItem[] = []
+    for (let i = 1; i <= 400; i++) {
+      const x = rand() * 1200 - 100
+      const y = rand() * 1200 - 100
+      const item: BoxItem = rand() < 0.5
+        ? { x, y, entity: i, hw: rand() * 40, hh: rand() * 40 }
+        : { x, y, entity: i }
+      items.push(item)
+      hash.insert({ ...item })
+    }
+    return { hash, items, rand }
+  }
+
+  const overlapping = (items: BoxItem[], range: { x: number; y: number; w: number; h: number }) =>
+    items
+      .filter(i => {
+        const b = itemBounds(i)
+        return b.x + b.w >= range.x && b.x <= range.x + range.w && b.y + b.h >= range.y && b.y <= range.y + range.h
+      })
+      .map(i => i.entity)
+
+  describe('createSpatialHash', () => {
+    it('should start empty', () => {
+      const hash = createSpatialHash()
+
+      expect(hash.getMetrics()).toEqual({ backend: 'hash', cellSize: 64, opCounter: 0, nodes: 0, items: 0, avgItemsPerNode: 0 })
+    })
+
+    it('should reject non-positive cell sizes', () => {
+      expect(() => createSpatialHash(0)).toThrow('[SpatialHash]')
+      expect(() => createSpatialHash(-8)).toThrow('[SpatialHash]')
+    })
+  })
+
+  describe('insert', () => {
+    it('should store items anywhere, including negative coordinates', () => {
+      const hash = createSpatialHash(10)
+
+      expect(hash.insert({ x: -55, y: 1e6, entity: 1 })).toBe(true)
+      expect(hash.has(1)).toBe(true)
+      expect(hash.query({ x: -60, y: 1e6 - 1, w: 10, h: 2 }).map(i => i.entity)).toEqual([1])
+    })
+
+    it('should register a box in every cell it covers', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 10, y: 10, entity: 1, hw: 6, hh: 1 })
+
+      // x 4..16, y 9..11 → cells 0..1 × 0..1
+      expect(hash.getMetrics().nodes).toBe(4)
+      expect(hash.getMetrics().items).toBe(1)
+    })
+
+    it('should replace an item inserted again for the same entity', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 5, y: 5, entity: 1 })
+      hash.insert({ x: 95, y: 95, entity: 1 })
+
+      expect(hash.query({ x: 0, y: 0, w: 10, h: 10 })).toEqual([])
+      expect(hash.query({ x: 90, y: 90, w: 10, h: 10 }).map(i => i.entity)).toEqual([1])
+      expect(hash.getMetrics()).toMatchObject({ nodes: 1, items: 1 })
+    })
+  })
+
+  describe('query', () => {
+    it('should include items on the range edges', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 20, y: 20, entity: 1 })
+      hash.insert({ x: 30, y: 25, entity: 2, hw: 5, hh: 5 })
+
+      expect(hash.query({ x: 10, y: 10, w: 10, h: 10 }).map(i => i.entity)).toEqual([1])
+      expect(hash.query({ x: 0, y: 0, w: 25, h: 25 }).map(i => i.entity).sort()).toEqual([1, 2])
+    })
+
+    it('should return each box once even when it spans many cells', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 50, y: 50, entity: 1, hw: 45, hh: 45 })
+
+      expect(hash.query({ x: 0, y: 0, w: 100, h: 100 })).toHaveLength(1)
+    })
+
+    it('should match a brute-force overlap test for small and huge ranges', () => {
+      const { hash, items, rand } = build(21)
+      for (let q = 0; q < 60; q++) {
+        // Every third range is larger than the occupied area, exercising the cell scan
+        const size = q % 3 === 0 ? 5000 : rand() * 200
+        const range = { x: rand() * 1000 - size / 2, y: rand() * 1000 - size / 2, w: size, h: size * rand() }
+
+        const actual = hash.query(range).map(i => i.entity).sort((a, b) => a - b)
+
+        expect(actual).toEqual(overlapping(items, range))
+      }
+    })
+  })
+
+  describe('update', () => {
+    it('should move items between cells', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 5, y: 5, entity: 1 })
+
+      expect(hash.update(1, 55, 55)).toBe(true)
+
+      expect(hash.query({ x: 0, y: 0, w: 10, h: 10 })).toEqual([])
+      expect(hash.query({ x: 50, y: 50, w: 10, h: 10 })).toEqual([{ x: 55, y: 55, entity: 1 }])
+      expect(hash.getMetrics().nodes).toBe(1)
+    })
+
+    it('should keep extents unless new ones are given', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 5, y: 5, entity: 1, hw: 2, hh: 2 })
+
+      hash.update(1, 50, 50)
+      expect(hash.query({ x: 0, y: 0, w: 100, h: 100 })[0]).toMatchObject({ hw: 2, hh: 2 })
+
+      hash.update(1, 50, 50, 20, 20)
+      expect(hash.query({ x: 31, y: 31, w: 1, h: 1 }).map(i => i.entity)).toEqual([1])
+    })
+
+    it('should insert missing entities', () => {
+      const hash = createSpatialHash(10)
+
+      hash.update(7, 1, 2)
+
+      expect(hash.has(7)).toBe(true)
+    })
+
+    it('should stay consistent with a brute-force oracle under random moves', () => {
+      const { hash, items, rand } = build(22, 32)
+      for (let step = 0; step < 500; step++) {
+        const item = items[Math.floor(rand() * items.length)]
+        item.x += rand() * 200 - 100
+        item.y += rand() * 200 - 100
+        hash.update(item.entity, item.x, item.y)
+      }
+
+      for (let q = 0; q < 30; q++) {
+        const range = { x: rand() * 1000, y: rand() * 1000, w: rand() * 300, h: rand() * 300 }
+        expect(hash.query(range).map(i => i.entity).sort((a, b) => a - b)).toEqual(overlapping(items, range))
+      }
+    })
+  })
+
+  describe('remove', () => {
+    it('should remove items and drop empty cells', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 10, y: 10, entity: 1, hw: 6, hh: 6 })
+      hash.insert({ x: 3, y: 3, entity: 2 })
+
+      expect(hash.remove(1)).toBe(true)
+
+      expect(hash.has(1)).toBe(false)
+      expect(hash.getMetrics()).toMatchObject({ nodes: 1, items: 1 })
+      expect(hash.remove(1)).toBe(false)
+    })
+  })
+
+  describe('clear', () => {
+    it('should remove everything and reset the operation counter', () => {
+      const { hash } = build(23)
+
+      hash.clear()
+
+      expect(hash.getMetrics()).toMatchObject({ nodes: 0, items: 0, opCounter: 0 })
+      expect(hash.has(1)).toBe(false)
+    })
+  })
+
+  describe('getMetrics', () => {
+    it('should count operations and average items per occupied cell', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 1, y: 1, entity: 1 })
+      hash.insert({ x: 2, y: 2, entity: 2 })
+      hash.insert({ x: 15, y: 5, entity: 3 })
+      hash.update(3, 16, 5)
+      hash.remove(2)
+
+      expect(hash.getMetrics()).toEqual({ backend: 'hash', cellSize: 10, opCounter: 5, nodes: 2, items: 2, avgItemsPerNode: 1 })
+    })
+  })
+
+  describe('distance queries', () => {
+    it('queryCircle should match the brute-force result, closest first', () => {
+      const { hash, items, rand } = build(24)
+      for (let q = 0; q < 40; q++) {
+        const x = rand() * 1000
+        const y = rand() * 1000
+        const r = rand() * 150
+        const expected = items
+          .filter(i => distanceTo(x, y, i) <= r)
+          .map(i => distanceTo(x, y, i))
+          .sort((a, b) => a - b)
+
+        expect(hash.queryCircle(x, y, r).map(i => distanceTo(x, y, i))).toEqual(expected)
+      }
+    })
+
+    it('nearest should return the k closest items like a full sort', () => {
+      const { hash, items, rand } = build(25)
+      for (let q = 0; q < 40; q++) {
+        // Includes query points far outside the occupied area
+        const x = q % 4 === 0 ? rand() * 20000 - 10000 : rand() * 1000
+        const y = rand() * 1000
+        const k = 1 + Math.floor(rand() * 10)
+        const expected = items.map(i => distanceTo(x, y, i)).sort((a, b) => a - b).slice(0, k)
+
+        expect(hash.nearest(x, y, k).map(i => distanceTo(x, y, i))).toEqual(expected)
+      }
+    })
+
+    it('nearest should skip items rejected by the filter', () => {
+      const { hash, items } = build(26)
+      const even = (i: BoxItem) => i.entity % 2 === 0
+      const expected = items.filter(even)
+        .sort((a, b) => distanceTo(500, 500, a) - distanceTo(500, 500, b))
+        .slice(0, 5).map(i => i.entity)
+
+      expect(hash.nearest(500, 500, 5, even).map(i => i.entity)).toEqual(expected)
+    })
+
+    it('nearest should return fewer items when the hash is small', () => {
+      const hash = createSpatialHash(10)
+      hash.insert({ x: 10, y: 10, entity: 1 })
+
+      expect(hash.nearest(500, 500, 3).map(i => i.entity)).toEqual([1])
+      expect(hash.nearest(50, 50, 0)).toEqual([])
+      expect(createSpatialHash().nearest(0, 0)).toEqual([])
+    })
+
+    it('raycast should hit the same items as a brute-force slab test, in order', () => {
+      const { hash, items, rand } = build(27)
+      for (let q = 0; q < 30; q++) {
+        const from = { x: rand() * 1000, y: rand() * 1000 }
+        const to = { x: rand() * 1000, y: rand() * 1000 }
+        const expected = items
+          .filter(i => i.hw !== undefined)
+          .map(i => {
+            const b = itemBounds(i)
+            let t0 = 0
+            let t1 = 1
+            for (const [o, d, min, max] of [[from.x, to.x - from.x, b.x, b.x + b.w], [from.y, to.y - from.y, b.y, b.y + b.h]]) {
+              const a = (min - o) / d
+              const c = (max - o) / d
+              t0 = Math.max(t0, Math.min(a, c))
+              t1 = Math.min(t1, Math.max(a, c))
+            }
+            return { entity: i.entity, t: t0 <= t1 ? t0 : null }
+          })
+          .filter(h => h.t !== null)
+          .sort((a, b) => a.t! - b.t!)
+          .map(h => h.entity)
+
+        const actual = hash.raycast(from, to)
+          .filter(h => h.item.hw !== undefined)
+          .map(h => h.item.entity)
+
+        expect(actual).toEqual(expected)
+      }
+    })
+
+    it('raycast should hit a point the segment passes through at a cell corner', () => {
+      const hash = createSpatialHash(64)
+      hash.insert({ x: 64, y: 64, entity: 1 })
+
+      const hits = hash.raycast({ x: 128, y: 0 }, { x: 0, y: 128 })
+
+      expect(hits).toEqual([{ item: { x: 64, y: 64, entity: 1 }, distance: Math.hypot(64, 64), x: 64, y: 64 }])
+    })
+  })
+})
@@ -0,0 +1,386 @@
+import type {Point} from '@components'
+import {itemBounds, type BoxItem, type Rect, type RayHit} from './QuadTree'
+import {containsPoint, distanceToRect, intersects, segmentEntry} from './geometry'
+
+/**
+ * Structure metrics for the spatial hash, comparable to `QuadMetrics`
+ *
+ * ```
+ * Example metrics:
+ * {
+ *   backend: 'hash',
+ *   cellSize: 64,
+ *   opCounter: 512,           ← Operations since creation or clear
+ *   nodes: 30,                ← Occupied cells
+ *   items: 47,                ← Items stored
+ *   avgItemsPerNode: 1.8      ← Items per occupied cell (boxes count once per cell)
+ * }
+ * ```
+ *
+ * @property backend - Always 'hash'
+ * @property cellSize - Cell edge length in world units
+ * @property opCounter - Insert/update/remove operations since creation or the last clear
+ * @property nodes - Occupied cells (empty cells are dropped)
+ * @property items - Items stored
+ * @property avgItemsPerNode - Average items per occupied cell
+ */
+export type SpatialHashMetrics = {
+    backend: 'hash'
+    cellSize: number
+    opCounter: number
+    nodes: number
+    items: number
+    avgItemsPerNode: number
+}
+
+/**
+ * Factory function to create a uniform-grid spatial hash
+ *
+ * **What is a spatial hash?** The plane is cut into square cells of
+ * `cellSize` and each item is stored in every cell its box covers. Only
+ * occupied cells exist, so the world has no boundary.
+ *
+ * ```
+ * cellSize = 64
+ *
+ *   (0,0)    (1,0)    (2,0)
+ * ┌────────┬────────┬────────┐
+ * │  •A    │        │        │   A: point → cell (0,0)
+ * ├────────┼──┬──┬──┼────────┤
+ * │        │  │B │  │        │   B: box straddling (1,1) and (2,1)
+ * └────────┴──┴──┴──┴────────┘
+ * ```
+ *
+ * **When to prefer it over the quad tree:** many similarly sized, fast
+ * moving entities. Updates that stay in the same cells are O(1) and nothing
+ * ever splits or merges; the trade-off is that queries touch every cell
+ * they overlap, so pick a cell size around the typical query radius.
+ *
+ * The API mirrors `createQuadTree`, so either can back a `SpatialIndex`.
+ *
+ * @template T - Item type (point or box, see BoxItem)
+ *
+ * @param cellSize - Cell edge length in world units (default 64)
+ *
+ * @returns Spatial hash API object
+ *
+ * @example
+ * ```ts
+ * const hash = createSpatialHash(64)
+ *
+ * hash.insert({ x: 25, y: 25, entity: 1 })
+ * hash.insert({ x: 100, y: 40, entity: 2, hw: 16, hh: 16 })
+ *
+ * hash.query({ x: 0, y: 0, w: 90, h: 90 })  // both (entity 2's box reaches x = 84)
+ * hash.update(1, 300, 300)
+ * hash.queryCircle(100, 40, 50)               // [entity 2]
+ * ```
+ */
+export const createSpatialHash = <T extends BoxItem = BoxItem>(cellSize = 64) => {
+    if (!(cellSize > 0)) throw new Error(`[SpatialHash] Cell size must be positive, got ${cellSize}`)
+
+    // Cell coordinates covered by an item's box (inclusive)
+    type CellSpan = { minX: number; minY: number; maxX: number; maxY: number }
+    type Entry = { item: T; span: CellSpan }
+
+    const cells = new Map<string, Set<T>>()
+    const entries = new Map<number, Entry>()
+    let opCounter = 0
+
+    const cellOf = (v: number) => Math.floor(v / cellSize)
+    const key = (cx: number, cy: number) => `${cx},${cy}`
+    const cellRect = (cx: number, cy: number): Rect => ({x: cx * cellSize, y: cy * cellSize, w: cellSize, h: cellSize})
+    const parseKey = (k: string): [number, number] => {
+        const comma = k.indexOf(',')
+        return [Number(k.slice(0, comma)), Number(k.slice(comma + 1))]
+    }
+
+    const spanOf = (r: Rect): CellSpan => ({
+        minX: cellOf(r.x),
+        minY: cellOf(r.y),
+        maxX: cellOf(r.x + r.w),
+        maxY: cellOf(r.y + r.h)
+    })
+
+    const sameSpan = (a: CellSpan, b: CellSpan) =>
+        a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY
+
+    const spanSize = (s: CellSpan) => (s.maxX - s.minX + 1) * (s.maxY - s.minY + 1)
+
+    const link = (item: T, span: CellSpan) => {
+        for (let cx = span.minX; cx <= span.maxX; cx++) {
+            for (let cy = span.minY; cy <= span.maxY; cy++) {
+                const k = key(cx, cy)
+                let cell = cells.get(k)
+                if (!cell) {
+                    cell = new Set()
+                    cells.set(k, cell)
+                }
+                cell.add(item)
+            }
+        }
+    }
+
+    const unlink = (item: T, span: CellSpan) => {
+        for (let cx = span.minX; cx <= span.maxX; cx++) {
+            for (let cy = span.minY; cy <= span.maxY; cy++) {
+                const k = key(cx, cy)
+                const cell = cells.get(k)
+                if (!cell) continue
+                cell.delete(item)
+                if (cell.size === 0) cells.delete(k)
+            }
+        }
+    }
+
+    /**
+     * Visit every occupied cell accepted by `test` within a span, walking
+     * whichever is smaller: the span or the occupied cells
+     */
+    const forEachCell = (span: CellSpan, test: (cx: number, cy: number) => boolean, visit: (cell: Set<T>) => void) => {
+        if (spanSize(span) <= cells.size) {
+            for (let cx = span.minX; cx <= span.maxX; cx++) {
+                for (let cy = span.minY; cy <= span.maxY; cy++) {
+                    const cell = cells.get(key(cx, cy))
+                    if (cell && test(cx, cy)) visit(cell)
+                }
+            }
+            return
+        }
+        for (const [k, cell] of cells) {
+            const [cx, cy] = parseKey(k)
+            if (cx >= span.minX && cx <= span.maxX && cy >= span.minY && cy <= span.maxY && test(cx, cy)) visit(cell)
+        }
+    }
+
+    const insert = (item: T): boolean => {
+        const existing = entries.get(item.entity)
+        if (existing) unlink(existing.item, existing.span)
+        const span = spanOf(itemBounds(item))
+        link(item, span)
+        entries.set(item.entity, {item, span})
+        opCounter++
+        return true
+    }
+
+    const remove = (entity: number): boolean => {
+        const entry = entries.get(entity)
+        if (!entry) return false
+        unlink(entry.item, entry.span)
+        entries.delete(entity)
+        opCounter++
+        return true
+    }
+
+    const update = (entity: number, x: number, y: number, hw?: number, hh?: number): boolean => {
+        const entry = entries.get(entity)
+        if (!entry) return insert({x, y, entity, hw, hh} as T)
+
+        const {item} = entry
+        item.x = x
+        item.y = y
+        if (hw !== undefined) item.hw = hw
+        if (hh !== undefined) item.hh = hh
+        const span = spanOf(itemBounds(item))
+        // Moves within the same cells only touch the item itself
+        if (!sameSpan(span, entry.span)) {
+            unlink(item, entry.span)
+            link(item, span)
+            entry.span = span
+        }
+        opCounter++
+        return true
+    }
+
+    const query = (range: Rect): T[] => {
+        const seen = new Set<T>()
+        forEachCell(spanOf(range), () => true, cell => {
+            for (const it of cell) seen.add(it)
+        })
+        const found: T[] = []
+        for (const it of seen) {
+            if (it.hw || it.hh ? intersects(itemBounds(it), range) : containsPoint(range, it)) found.push(it)
+        }
+        return found
+    }
+
+    const queryCircle = (x: number, y: number, r: number): T[] => {
+        const hits: { item: T; distance: number }[] = []
+        for (const item of query({x: x - r, y: y - r, w: r * 2, h: r * 2})) {
+            const distance = distanceToRect(x, y, itemBounds(item))
+            if (distance <= r) hits.push({item, distance})
+        }
+        return hits.sort((a, b) => a.distance - b.distance).map(h => h.item)
+    }
+
+    const nearest = (x: number, y: number, k = 1, filter?: (item: T) => boolean): T[] => {
+        if (k <= 0 || entries.size === 0) return []
+        const seen = new Set<T>()
+        const candidates: { item: T; distance: number }[] = []
+        const consider = (item: T) => {
+            if (seen.has(item)) return
+            seen.add(item)
+            if (filter && !filter(item)) return
+            candidates.push({item, distance: distanceToRect(x, y, itemBounds(item))})
+        }
+        const result = () => candidates.sort((a, b) => a.distance - b.distance).slice(0, k).map(c => c.item)
+
+        // Search square rings of cells around the query cell. Anything not yet seen after
+        // ring d is more than d cells away, so the search ends once k candidates are that close.
+        const cx = cellOf(x)
+        const cy = cellOf(y)
+        for (let d = 0; ; d++) {
+            // Rings larger than the occupied area are cheaper to replace by a full scan
+            if ((2 * d + 1) ** 2 > cells.size * 4) {
+                for (const {item} of entries.values()) consider(item)
+                return result()
+            }
+            for (let ix = cx - d; ix <= cx + d; ix++) {
+                const edge = ix === cx - d || ix === cx + d
+                for (let iy = cy - d; iy <= cy + d; iy += edge ? 1 : 2 * d) {
+                    const cell = cells.get(key(ix, iy))
+                    if (cell) for (const item of cell) consider(item)
+                }
+            }
+            if (seen.size === entries.size) return result()
+            if (candidates.length >= k) {
+                candidates.sort((a, b) => a.distance - b.distance)
+                if (candidates[k - 1].distance <= d * cellSize) return result()
+            }
+        }
+    }
+
+    const raycast = (from: Point, to: Point): RayHit<T>[] => {
+        const length = Math.hypot(to.x - from.x, to.y - from.y)
+        const bounds: Rect = {
+            x: Math.min(from.x, to.x),
+            y: Math.min(from.y, to.y),
+            w: Math.abs(to.x - from.x),
+            h: Math.abs(to.y - from.y)
+        }
+        const seen = new Set<T>()
+        forEachCell(spanOf(bounds), (cx, cy) => segmentEntry(from, to, cellRect(cx, cy)) !== null, cell => {
+            for (const it of cell) seen.add(it)
+        })
+        const hits: RayHit<T>[] = []
+        for (const item of seen) {
+            const t = segmentEntry(from, to, itemBounds(item))
+            if (t === null) continue
+            hits.push({item, distance: t * length, x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t})
+        }
+        return hits.sort((a, b) => a.distance - b.distance)
+    }
+
+    const has = (entity: number) => entries.has(entity)
+
+    const clear = () => {
+        cells.clear()
+        entries.clear()
+        opCounter = 0
+    }
+
+    const getMetrics = (): SpatialHashMetrics => {
+        let stored = 0
+        for (const cell of cells.values()) stored += cell.size
+        return {
+            backend: 'hash',
+            cellSize,
+            opCounter,
+            nodes: cells.size,
+            items: entries.size,
+            avgItemsPerNode: cells.size ? stored / cells.size : 0
+        }
+    }
+
+    return {
+        /**
+         * Insert an item; an item already stored for the same entity is replaced
+         *
+         * @param item - Item with x, y, entity (and optional hw, hh extents)
+         * @returns Always true (the hash is unbounded)
+         */
+        insert,
+
+        /**
+         * Remove an entity's item
+         *
+         * @param entity - Entity ID to remove
+         * @returns true if the entity was stored
+         */
+        remove,
+
+        /**
+         * Move (and optionally resize) an entity's item, inserting it if missing
+         *
+         * @param entity - Entity ID to update
+         * @param x - New x coordinate
+         * @param y - New y coordinate
+         * @param hw - New half width (optional, keeps the current one)
+         * @param hh - New half height (optional, keeps the current one)
+         * @returns Always true
+         */
+        update,
+
+        /**
+         * Query all items whose point or box overlaps a rectangle
+         *
+         * @param range - Query rectangle {x, y, w, h}
+         * @returns Matching items, in no particular order
+         */
+        query,
+
+        /**
+         * Query all items within a circle (measured to each item's box)
+         *
+         * @param x - Circle centre x-coordinate
+         * @param y - Circle centre y-coordinate
+         * @param r - Radius
+         * @returns Items in range, closest first
+         */
+        queryCircle,
+
+        /**
+         * Find the k items closest to a point
+         *
+         * @param x - Query x-coordinate
+         * @param y - Query y-coordinate
+         * @param k - Number of items (default 1)
+         * @param filter - Optional predicate; rejected items are skipped
+         * @returns Up to k items, closest first
+         */
+        nearest,
+
+        /**
+         * Find all items whose box a line segment passes through
+         *
+         * @param from - Segment start
+         * @param to - Segment end
+         * @returns Hits with entry point and distance from `from`, closest first
+         */
+        raycast,
+
+        /**
+         * Check if an entity is stored
+         *
+         * @param entity - Entity ID to check
+         */
+        has,
+
+        /**
+         * Remove all items and reset the operation counter
+         */
+        clear,
+
+        /**
+         * Get structure metrics
+         *
+         * @returns SpatialHashMetrics (nodes are occupied cells)
+         */
+        getMetrics
+    }
+}
+
+/**
+ * Spatial hash API returned by `createSpatialHash`
+ */
+export type SpatialHash<T extends BoxItem = BoxItem> = ReturnType<typeof createSpatialHash<T>>
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { createSpatialIndex } from './SpatialIndex'
+
+describe('createSpatialIndex', () => {
+  const boundary = { x: 0, y: 0, w: 100, h: 100 }
+
+  it('should create a quad tree by default', () => {
+    const index = createSpatialIndex({ boundary })
+
+    expect(index.getMetrics().backend).toBe('quadtree')
+    // The quad tree is bounded by the world rectangle
+    expect(index.insert({ x: 500, y: 500, entity: 1 })).toBe(false)
+  })
+
+  it('should create a spatial hash with the configured cell size', () => {
+    const index = createSpatialIndex({ backend: 'hash', boundary, cellSize: 16 })
+
+    expect(index.getMetrics()).toMatchObject({ backend: 'hash', cellSize: 16 })
+    expect(index.insert({ x: 500, y: 500, entity: 1 })).toBe(true)
+  })
+
+  it('should answer the same queries with either backend', () => {
+    const quad = createSpatialIndex({ boundary, capacity: 2 })
+    const hash = createSpatialIndex({ backend: 'hash', boundary, cellSize: 10 })
+    for (const index of [quad, hash]) {
+      index.insert({ x: 10, y: 10, entity: 1 })
+      index.insert({ x: 40, y: 40, entity: 2, hw: 5, hh: 5 })
+      index.insert({ x: 90, y: 20, entity: 3 })
+      index.update(3, 80, 80)
+    }
+
+    for (const index of [quad, hash]) {
+      expect(index.query({ x: 30, y: 30, w: 50, h: 50 }).map(i => i.entity).sort()).toEqual([2, 3])
+      expect(index.queryCircle(0, 0, 60).map(i => i.entity)).toEqual([1, 2])
+      expect(index.nearest(75, 75, 2).map(i => i.entity)).toEqual([3, 2])
+      expect(index.raycast({ x: 0, y: 40 }, { x: 100, y: 40 }).map(h => h.item.entity)).toEqual([2])
+      expect(index.getMetrics()).toMatchObject({ items: 3 })
+    }
+  })
+})
@@ -0,0 +1,89 @@
+import type {Point} from '@components'
+import {createQuadTree, type BoxItem, type QuadMetrics, type QuadOptions, type RayHit, type Rect} from './QuadTree'
+import {createSpatialHash, type SpatialHashMetrics} from './SpatialHash'
+
+/**
+ * Available spatial index implementations
+ * - `'quadtree'`: adaptive tree bounded by the world rectangle (default)
+ * - `'hash'`: unbounded uniform grid, cheap updates for many moving entities
+ */
+export type SpatialBackend = 'quadtree' | 'hash'
+
+/**
+ * Metrics of either backend
+ *
+ * Both report `nodes` (tree nodes or occupied cells), `items`,
+ * `avgItemsPerNode` and `opCounter`; `backend` tells them apart.
+ */
+export type SpatialIndexMetrics = QuadMetrics | SpatialHashMetrics
+
+/**
+ * Operations shared by the quad tree and the spatial hash
+ *
+ * Game code depends on this interface so the backend can be swapped
+ * without touching systems.
+ *
+ * @template T - Item type (point or box, see BoxItem)
+ */
+export interface SpatialIndex<T extends BoxItem = BoxItem> {
+    /** Insert an item; false if the backend cannot hold it */
+    insert: (item: T) => boolean
+    /** Remove an entity's item; false if it was not stored */
+    remove: (entity: number) => boolean
+    /** Move (and optionally resize) an entity's item, inserting it if missing */
+    update: (entity: number, x: number, y: number, hw?: number, hh?: number) => boolean
+    /** Items whose point or box overlaps a rectangle */
+    query: (range: Rect) => T[]
+    /** Items within a circle, closest first (by distance to the item's point or box) */
+    queryCircle: (x: number, y: number, r: number) => T[]
+    /** Up to k items closest to a point, closest first */
+    nearest: (x: number, y: number, k?: number, filter?: (item: T) => boolean) => T[]
+    /** Items a segment passes through, closest first */
+    raycast: (from: Point, to: Point) => RayHit<T>[]
+    /** Whether an entity is stored */
+    has: (entity: number) => boolean
+    /** Remove all items */
+    clear: () => void
+    /** Structure metrics */
+    getMetrics: () => SpatialIndexMetrics
+}
+
+/**
+ * Spatial index configuration
+ *
+ * @property backend - Implementation to use (default 'quadtree')
+ * @property boundary - World rectangle (quad tree only)
+ * @property capacity - Items per node before splitting (quad tree only)
+ * @property maxDepth - Maximum tree depth (quad tree only)
+ * @property options - Tuning options (quad tree only)
+ * @property cellSize - Cell edge length (hash only, default 64)
+ */
+export type SpatialIndexConfig = {
+    backend?: SpatialBackend
+    boundary: Rect
+    capacity?: number
+    maxDepth?: number
+    options?: QuadOptions
+    cellSize?: number
+}
+
+/**
+ * Create a spatial index with the configured backend
+ *
+ * @param config - Backend selection and its settings
+ * @returns Quad tree or spatial hash behind the common interface
+ *
+ * @example
+ * ```ts
+ * const { config } = useQuadConfig()
+ * const index = createSpatialIndex({
+ *   backend: config.backend,
+ *   boundary: { x: -5000, y: -5000, w: 10000, h: 10000 },
+ *   cellSize: config.cellSize,
+ * })
+ * ```
+ */
+export const createSpatialIndex = <T extends BoxItem = BoxItem>(config: SpatialIndexConfig): SpatialIndex<T> => {
+    if (config.backend === 'hash') return createSpatialHash<T>(config.cellSize)
+    return createQuadTree<T>(config.boundary, config.capacity, config.maxDepth, config.options)
+}
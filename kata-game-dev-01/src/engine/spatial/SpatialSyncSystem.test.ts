@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { Spatial } from '@engine/Resources'
+import type { Collider, Renderable } from '@components'
+import { createSpatialHash } from './SpatialHash'
+import { createQuadTree } from './QuadTree'
+import { createSpatialSyncSystem } from './SpatialSyncSystem'
+
+describe('SpatialSyncSystem', () => {
+  let world: World
+
+  const spawn = (x: number, y: number) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    return entity
+  }
+
+  beforeEach(() => {
+    world = new World()
+  })
+
+  it('should index matching entities right away and publish the index as a resource', () => {
+    const existing = spawn(10, 10)
+    const index = createSpatialHash(16)
+
+    createSpatialSyncSystem(world, index)
+
+    expect(index.has(existing)).toBe(true)
+    expect(world.getResource(Spatial).index).toBe(index)
+  })
+
+  it('should batch additions, moves and removals until update', () => {
+    const index = createSpatialHash(16)
+    const sync = createSpatialSyncSystem(world, index)
+    const moved = spawn(0, 0)
+    const removed = spawn(5, 5)
+    sync.update()
+
+    const added = spawn(100, 100)
+    const t = world.getComponent(moved, COMPONENTS.TRANSFORM)!
+    t.x = 200
+    world.markChanged(moved, COMPONENTS.TRANSFORM)
+    world.removeEntity(removed)
+
+    expect(index.has(added)).toBe(false)
+    expect(index.has(removed)).toBe(true)
+    expect(index.query({ x: 190, y: -10, w: 20, h: 20 })).toEqual([])
+
+    sync.update()
+
+    expect(index.has(added)).toBe(true)
+    expect(index.has(removed)).toBe(false)
+    expect(index.query({ x: 190, y: -10, w: 20, h: 20 }).map(i => i.entity)).toEqual([moved])
+  })
+
+  it('should follow entities that gain and lose Transform', () => {
+    const index = createQuadTree({ x: 0, y: 0, w: 100, h: 100 })
+    const sync = createSpatialSyncSystem(world, index)
+    const entity = world.createEntity()
+
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x: 50, y: 50, rotation: 0 })
+    sync.update()
+    expect(index.has(entity)).toBe(true)
+
+    world.removeComponent(entity, COMPONENTS.TRANSFORM)
+    sync.update()
+    expect(index.has(entity)).toBe(false)
+  })
+
+  it('should skip an entity that enters and leaves between updates', () => {
+    const index = createSpatialHash(16)
+    const sync = createSpatialSyncSystem(world, index)
+
+    world.removeEntity(spawn(1, 1))
+    sync.update()
+
+    expect(index.getMetrics().items).toBe(0)
+  })
+
+  it('should apply the filter and size boxes with its extent', () => {
+    const index = createSpatialHash(16)
+    const sync = createSpatialSyncSystem(world, index, {
+      with: [COMPONENTS.RENDERABLE],
+      without: [COMPONENTS.NPC],
+      optional: [COMPONENTS.COLLIDER],
+      extent: ([, rend, collider]) =>
+        Math.max((rend as Renderable).size, (collider as Collider | undefined)?.radius ?? 0),
+    })
+    const sprite = spawn(0, 0)
+    world.addComponent(sprite, COMPONENTS.RENDERABLE, { color: '#fff', size: 4 })
+    const npc = spawn(0, 0)
+    world.addComponent(npc, COMPONENTS.RENDERABLE, { color: '#fff', size: 4 })
+    world.addComponent(npc, COMPONENTS.NPC, {})
+    spawn(0, 0)
+    sync.update()
+
+    expect(index.query({ x: -100, y: -100, w: 200, h: 200 }).map(i => i.entity)).toEqual([sprite])
+    expect(index.query({ x: 3, y: 3, w: 1, h: 1 })).toHaveLength(1)
+
+    world.addComponent(sprite, 'Collider' as any, { radius: 20 } as any)
+    sync.update()
+
+    expect(index.query({ x: 19, y: 19, w: 1, h: 1 }).map(i => i.entity)).toEqual([sprite])
+  })
+
+  it('should stop tracking and clear the resource when disposed', () => {
+    const index = createSpatialHash(16)
+    const sync = createSpatialSyncSystem(world, index)
+
+    sync.dispose()
+    spawn(0, 0)
+    sync.update()
+
+    expect(index.getMetrics().items).toBe(0)
+    expect(world.getResource(Spatial).index).toBeNull()
+  })
+})
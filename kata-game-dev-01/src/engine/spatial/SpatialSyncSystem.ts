@@ -0,0 +1,137 @@
+import type {World, Entity} from '@engine/ECS'
+import {COMPONENTS, type ComponentKey} from '@engine/constants'
+import {Spatial} from '@engine/Resources'
+import type {SpatialIndex} from './SpatialIndex'
+
+/**
+ * Which entities a spatial sync system indexes, and how large they are
+ *
+ * `Transform` is always required; entities enter the index when they match
+ * and leave it when they lose `Transform` (or another required component),
+ * gain an excluded one, or are removed.
+ *
+ * @property with - Components required besides Transform
+ * @property without - Components that keep an entity out of the index
+ * @property optional - Components passed to `extent` when present
+ * @property extent - Half extents from `[transform, ...with, ...optional]`;
+ *   a number is used for both axes (default: points)
+ *
+ * @example
+ * ```ts
+ * const filter: SpatialSyncFilter = {
+ *   with: [COMPONENTS.RENDERABLE],
+ *   optional: [COMPONENTS.COLLIDER],
+ *   extent: ([, rend, collider]) =>
+ *       Math.max((rend as Renderable).size, (collider as Collider | undefined)?.radius ?? 0),
+ * }
+ * ```
+ */
+export type SpatialSyncFilter = {
+    with?: ComponentKey[]
+    without?: ComponentKey[]
+    optional?: ComponentKey[]
+    extent?: (comps: readonly unknown[]) => number | { hw: number; hh: number }
+}
+
+/**
+ * Factory function to create the system that keeps a spatial index in step
+ * with the world
+ *
+ * Membership and extent changes are tracked through a query observer and
+ * position writes (including in-place edits flagged with `markChanged`)
+ * through a change cursor. Nothing touches the index until `update`, which
+ * applies everything that happened since the previous call in one batch;
+ * entities that already match are indexed right away.
+ *
+ * The index is published as the `Spatial` world resource so AI, combat and
+ * rendering can look it up instead of receiving it by hand.
+ *
+ * @param world - World to mirror
+ * @param index - Index to fill (quad tree or spatial hash)
+ * @param filter - Entities to index and their extents (default: every entity with a Transform, as points)
+ *
+ * @returns System with `update` (run once per frame) and `dispose`
+ *
+ * @example
+ * ```ts
+ * const sync = createSpatialSyncSystem(world, createSpatialIndex(config), { with: [COMPONENTS.RENDERABLE] })
+ * scheduler.add({ name: 'spatial-sync', stage: 'render', before: ['render'], run: sync.update })
+ *
+ * // Anywhere with the world
+ * const nearby = world.getResource(Spatial).index?.queryCircle(x, y, 100)
+ * ```
+ */
+export const createSpatialSyncSystem = (world: World, index: SpatialIndex, filter: SpatialSyncFilter = {}) => {
+    const members = new Set<Entity>()
+    // Entities to (re)index and their extents, and entities to drop, since the last update
+    const dirty = new Map<Entity, { hw: number; hh: number }>()
+    const gone = new Set<Entity>()
+
+    const extentOf = (comps: readonly unknown[]) => {
+        const e = filter.extent?.(comps) ?? 0
+        return typeof e === 'number' ? {hw: e, hh: e} : e
+    }
+
+    const flush = () => {
+        for (const entity of gone) index.remove(entity)
+        gone.clear()
+        for (const [entity, {hw, hh}] of dirty) {
+            const t = world.getComponent(entity, COMPONENTS.TRANSFORM)
+            if (t) index.update(entity, t.x, t.y, hw, hh)
+        }
+        dirty.clear()
+    }
+
+    const cursor = world.createChangeCursor()
+    const observer = world.observe({
+        with: [COMPONENTS.TRANSFORM, ...(filter.with ?? [])],
+        without: filter.without ?? [],
+        optional: filter.optional ?? []
+    }, {
+        onEnter: (entity, comps) => {
+            members.add(entity)
+            gone.delete(entity)
+            dirty.set(entity, extentOf(comps))
+        },
+        onChange: (entity, comps) => {
+            dirty.set(entity, extentOf(comps))
+        },
+        onExit: entity => {
+            members.delete(entity)
+            dirty.delete(entity)
+            if (index.has(entity)) gone.add(entity)
+        }
+    })
+
+    flush()
+    world.setResource(Spatial, {index})
+
+    /**
+     * Apply all membership, extent and position changes since the last call
+     */
+    const update = () => {
+        for (const {entity, comps: [t]} of cursor.changed(COMPONENTS.TRANSFORM)) {
+            // Position-only change; dirty entities are re-indexed with their extents by flush
+            if (members.has(entity) && !dirty.has(entity)) index.update(entity, t.x, t.y)
+        }
+        cursor.advance()
+        flush()
+    }
+
+    /**
+     * Stop tracking the world; the index keeps its contents and the resource
+     * is cleared if it still points at this index
+     */
+    const dispose = () => {
+        observer.dispose()
+        cursor.dispose()
+        if (world.getResource(Spatial).index === index) world.setResource(Spatial, {index: null})
+    }
+
+    return {index, update, dispose}
+}
+
+/**
+ * Spatial sync system API returned by `createSpatialSyncSystem`
+ */
+export type SpatialSyncSystem = ReturnType<typeof createSpatialSyncSystem>
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { createStaticGeometry } from './StaticGeometry'
+
+describe('StaticGeometry', () => {
+  // 10px tiles: a solid row at the top and a single block at (20..30, 20..30)
+  const tiles = createStaticGeometry({
+    tiles: { tileSize: 10, rows: ['#####', '.....', '..#..'] },
+  })
+  // Square wall 100..140 and a triangle
+  const walls = createStaticGeometry({
+    walls: [
+      [{ x: 100, y: 100 }, { x: 140, y: 100 }, { x: 140, y: 140 }, { x: 100, y: 140 }],
+      [{ x: 200, y: 0 }, { x: 240, y: 40 }, { x: 200, y: 80 }],
+    ],
+  })
+
+  it('should reject invalid definitions', () => {
+    expect(() => createStaticGeometry({ tiles: { tileSize: 0, rows: [] } })).toThrow('[StaticGeometry] Tile size must be positive')
+    expect(() => createStaticGeometry({ walls: [[{ x: 0, y: 0 }, { x: 1, y: 0 }]] })).toThrow('needs at least 3 points')
+  })
+
+  it('should report solid points', () => {
+    expect(tiles.isSolidAt(5, 5)).toBe(true)
+    expect(tiles.isSolidAt(25, 25)).toBe(true)
+    expect(tiles.isSolidAt(15, 25)).toBe(false)
+    expect(tiles.isSolidAt(-5, 5)).toBe(false)
+    expect(walls.isSolidAt(120, 120)).toBe(true)
+    expect(walls.isSolidAt(210, 40)).toBe(true)
+    expect(walls.isSolidAt(235, 10)).toBe(false)
+  })
+
+  it('should push circles out of tiles by their penetration', () => {
+    expect(tiles.resolveCircle(25, 18, 3)).toMatchObject({ x: 25, y: 17, hit: true, nx: 0, ny: -1 })
+    expect(tiles.resolveCircle(25, 12, 3)).toMatchObject({ x: 25, y: 13, hit: true, nx: 0, ny: 1 })
+    expect(tiles.resolveCircle(25, 16, 3)).toMatchObject({ x: 25, y: 16, hit: false, nx: 0, ny: 0 })
+
+    // Near a block corner the push points away from the corner
+    const corner = tiles.resolveCircle(32, 32, 4)
+    expect(Math.hypot(corner.x - 30, corner.y - 30)).toBeCloseTo(4)
+    expect(corner.nx).toBeCloseTo(Math.SQRT1_2)
+  })
+
+  it('should move circles whose centre is inside a wall out through the closest edge', () => {
+    expect(tiles.resolveCircle(22, 25, 2)).toMatchObject({ x: 18, y: 25 })
+    expect(walls.resolveCircle(137, 120, 5)).toMatchObject({ x: 145, y: 120 })
+  })
+
+  it('should push circles out of polygon walls', () => {
+    const out = walls.resolveCircle(120, 97, 5)
+    expect(out.x).toBeCloseTo(120)
+    expect(out.y).toBeCloseTo(95)
+
+    // The slanted edge of the triangle pushes along its normal
+    const slanted = walls.resolveCircle(222, 20, 5)
+    const distToEdge = Math.abs(slanted.x - slanted.y - 200) / Math.SQRT2
+    expect(distToEdge).toBeCloseTo(5)
+    expect(slanted.nx).toBeCloseTo(Math.SQRT1_2)
+    expect(slanted.ny).toBeCloseTo(-Math.SQRT1_2)
+  })
+
+  it('should settle circles wedged between walls', () => {
+    const wedged = createStaticGeometry({ tiles: { tileSize: 10, rows: ['#.#'] } })
+    const out = wedged.resolveCircle(15, 5, 4)
+
+    expect(out.x).toBeCloseTo(15)
+    expect(out.hit).toBe(false)
+    expect(wedged.resolveCircle(13, 5, 4).x).toBeCloseTo(14)
+  })
+
+  it('should answer line of sight queries', () => {
+    expect(tiles.lineOfSight({ x: 5, y: 15 }, { x: 45, y: 15 })).toBe(true)
+    expect(tiles.lineOfSight({ x: 5, y: 25 }, { x: 45, y: 25 })).toBe(false)
+    expect(walls.lineOfSight({ x: 90, y: 90 }, { x: 150, y: 90 })).toBe(true)
+    expect(walls.lineOfSight({ x: 90, y: 120 }, { x: 150, y: 120 })).toBe(false)
+    expect(walls.lineOfSight({ x: 90, y: 90 }, { x: 150, y: 150 })).toBe(false)
+    expect(walls.lineOfSight({ x: 190, y: 10 }, { x: 250, y: 60 })).toBe(false)
+  })
+
+  it('should list the tiles and walls overlapping an area', () => {
+    expect(tiles.solidTiles({ x: 15, y: 15, w: 20, h: 20 })).toEqual([{ x: 20, y: 20, w: 10, h: 10 }])
+    expect(tiles.solidTiles({ x: -100, y: -100, w: 50, h: 50 })).toEqual([])
+    expect(walls.wallsIn({ x: 0, y: 0, w: 150, h: 150 })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,271 @@
+import type {Point} from '@components'
+import type {Rect} from './QuadTree'
+import {intersects, segmentEntry} from './geometry'
+
+/**
+ * Solid-tile grid; each row is a string where `#` marks a solid tile
+ *
+ * @property tileSize - Tile edge length in world units
+ * @property x - World x of the grid's left edge (default 0)
+ * @property y - World y of the grid's top edge (default 0)
+ * @property rows - Grid rows, top to bottom
+ */
+export type TileGrid = {
+    tileSize: number
+    x?: number
+    y?: number
+    rows: string[]
+}
+
+/**
+ * Static collision geometry of a level: a solid-tile grid and/or polygon
+ * walls (solid inside, any winding)
+ *
+ * @example
+ * ```ts
+ * const def: StaticGeometryDefinition = {
+ *   tiles: { tileSize: 50, rows: ['####', '#..#', '####'] },
+ *   walls: [[{ x: 300, y: 0 }, { x: 340, y: 0 }, { x: 340, y: 200 }, { x: 300, y: 200 }]],
+ * }
+ * ```
+ */
+export type StaticGeometryDefinition = {
+    tiles?: TileGrid
+    walls?: Point[][]
+}
+
+/**
+ * Result of pushing a circle out of the geometry
+ *
+ * @property x - Resolved centre x
+ * @property y - Resolved centre y
+ * @property hit - Whether the circle overlapped any wall
+ * @property nx - Unit push direction (0 when nothing was hit)
+ * @property ny - Unit push direction (0 when nothing was hit)
+ */
+export type CircleResolution = { x: number; y: number; hit: boolean; nx: number; ny: number }
+
+const SOLID_TILE = '#'
+// Passes used to settle circles wedged between several walls
+const RESOLVE_PASSES = 4
+
+type Polygon = { points: Point[]; bounds: Rect }
+
+const polygonBounds = (points: Point[]): Rect => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+    for (const p of points) {
+        minX = Math.min(minX, p.x)
+        minY = Math.min(minY, p.y)
+        maxX = Math.max(maxX, p.x)
+        maxY = Math.max(maxY, p.y)
+    }
+    return {x: minX, y: minY, w: maxX - minX, h: maxY - minY}
+}
+
+// Even-odd rule
+const insidePolygon = (points: Point[], x: number, y: number): boolean => {
+    let inside = false
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i], b = points[j]
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside
+    }
+    return inside
+}
+
+const closestOnSegment = (x: number, y: number, a: Point, b: Point): Point => {
+    const dx = b.x - a.x, dy = b.y - a.y
+    const lenSq = dx * dx + dy * dy
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lenSq))
+    return {x: a.x + dx * t, y: a.y + dy * t}
+}
+
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx
+
+// Whether segments p1-p2 and q1-q2 cross or touch
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point): boolean => {
+    const rx = p2.x - p1.x, ry = p2.y - p1.y
+    const sx = q2.x - q1.x, sy = q2.y - q1.y
+    const denom = cross(rx, ry, sx, sy)
+    const qpx = q1.x - p1.x, qpy = q1.y - p1.y
+    if (denom === 0) {
+        // Parallel: only collinear overlaps count
+        if (cross(qpx, qpy, rx, ry) !== 0) return false
+        const lenSq = rx * rx + ry * ry
+        if (lenSq === 0) return qpx === 0 && qpy === 0
+        const t0 = (qpx * rx + qpy * ry) / lenSq
+        const t1 = t0 + (sx * rx + sy * ry) / lenSq
+        return Math.max(t0, t1) >= 0 && Math.min(t0, t1) <= 1
+    }
+    const t = cross(qpx, qpy, sx, sy) / denom
+    const u = cross(qpx, qpy, rx, ry) / denom
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1
+}
+
+/**
+ * Factory function to create queryable static geometry from its definition
+ *
+ * Circles are pushed out of solid tiles and polygons by their penetration;
+ * a circle whose centre ended up inside a wall leaves through the closest
+ * edge. Movement, collision response, AI line of sight and the background
+ * renderer all read the same geometry so what is drawn is what blocks.
+ *
+ * @param def - Tile grid and polygon walls
+ * @throws Error if the tile size is not positive or a wall has fewer than 3 points
+ *
+ * @example
+ * ```ts
+ * const geometry = createStaticGeometry(level.geometry)
+ * const {x, y, hit} = geometry.resolveCircle(t.x, t.y, collider.radius)
+ * if (geometry.lineOfSight(enemy, player)) chase()
+ * ```
+ */
+export const createStaticGeometry = (def: StaticGeometryDefinition) => {
+    const grid = def.tiles
+    if (grid && !(grid.tileSize > 0)) {
+        throw new Error(`[StaticGeometry] Tile size must be positive, got ${grid.tileSize}`)
+    }
+    const polygons: Polygon[] = (def.walls ?? []).map((points, i) => {
+        if (points.length < 3) throw new Error(`[StaticGeometry] Wall ${i} needs at least 3 points`)
+        return {points: points.map(p => ({x: p.x, y: p.y})), bounds: polygonBounds(points)}
+    })
+
+    const tileSize = grid?.tileSize ?? 1
+    const gridX = grid?.x ?? 0
+    const gridY = grid?.y ?? 0
+    const rows = grid?.rows ?? []
+    const columns = rows.reduce((max, row) => Math.max(max, row.length), 0)
+
+    const isSolidTile = (col: number, row: number) => rows[row]?.[col] === SOLID_TILE
+
+    const tileRect = (col: number, row: number): Rect =>
+        ({x: gridX + col * tileSize, y: gridY + row * tileSize, w: tileSize, h: tileSize})
+
+    // Solid tiles overlapping a rectangle
+    const solidTiles = (area: Rect): Rect[] => {
+        if (!grid) return []
+        const c0 = Math.max(0, Math.floor((area.x - gridX) / tileSize))
+        const r0 = Math.max(0, Math.floor((area.y - gridY) / tileSize))
+        const c1 = Math.min(columns - 1, Math.floor((area.x + area.w - gridX) / tileSize))
+        const r1 = Math.min(rows.length - 1, Math.floor((area.y + area.h - gridY) / tileSize))
+        const found: Rect[] = []
+        for (let row = r0; row <= r1; row++) {
+            for (let col = c0; col <= c1; col++) if (isSolidTile(col, row)) found.push(tileRect(col, row))
+        }
+        return found
+    }
+
+    // Polygon walls whose bounds overlap a rectangle
+    const wallsIn = (area: Rect): Point[][] =>
+        polygons.filter(p => intersects(p.bounds, area)).map(p => p.points)
+
+    /**
+     * Whether a point lies inside a solid tile or a wall
+     */
+    const isSolidAt = (x: number, y: number): boolean => {
+        if (grid && isSolidTile(Math.floor((x - gridX) / tileSize), Math.floor((y - gridY) / tileSize))) return true
+        return polygons.some(p => insidePolygon(p.points, x, y))
+    }
+
+    // Position that moves a circle at (x, y) clear of a rectangle, or null if it does not overlap
+    const pushOutOfRect = (x: number, y: number, radius: number, r: Rect): Point | null => {
+        const cx = Math.max(r.x, Math.min(x, r.x + r.w))
+        const cy = Math.max(r.y, Math.min(y, r.y + r.h))
+        const dx = x - cx, dy = y - cy
+        const distSq = dx * dx + dy * dy
+        if (distSq >= radius * radius) return null
+        if (distSq > 0) {
+            const dist = Math.sqrt(distSq)
+            return {x: cx + dx / dist * radius, y: cy + dy / dist * radius}
+        }
+        // Centre inside: leave through the closest side
+        const exits: [number, Point][] = [
+            [x - r.x, {x: r.x - radius, y}],
+            [r.x + r.w - x, {x: r.x + r.w + radius, y}],
+            [y - r.y, {x, y: r.y - radius}],
+            [r.y + r.h - y, {x, y: r.y + r.h + radius}]
+        ]
+        return exits.reduce((best, exit) => exit[0] < best[0] ? exit : best)[1]
+    }
+
+    const pushOutOfPolygon = (x: number, y: number, radius: number, points: Point[]): Point | null => {
+        let nearest: Point = points[0]
+        let nearestSq = Infinity
+        for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+            const c = closestOnSegment(x, y, points[j], points[i])
+            const dSq = (c.x - x) ** 2 + (c.y - y) ** 2
+            if (dSq < nearestSq) {
+                nearest = c
+                nearestSq = dSq
+            }
+        }
+        const inside = insidePolygon(points, x, y)
+        if (!inside && nearestSq >= radius * radius) return null
+        const dist = Math.sqrt(nearestSq)
+        if (dist === 0) return null
+        // Outward direction: away from the edge when outside, through it when inside
+        const sign = inside ? -1 : 1
+        return {x: nearest.x + (x - nearest.x) / dist * sign * radius, y: nearest.y + (y - nearest.y) / dist * sign * radius}
+    }
+
+    /**
+     * Push a circle out of every wall it overlaps
+     *
+     * @param x - Centre x
+     * @param y - Centre y
+     * @param radius - Circle radius (0 for points)
+     */
+    const resolveCircle = (x: number, y: number, radius: number): CircleResolution => {
+        const startX = x, startY = y
+        let hit = false
+        for (let pass = 0; pass < RESOLVE_PASSES; pass++) {
+            let moved = false
+            const area = {x: x - radius, y: y - radius, w: radius * 2, h: radius * 2}
+            const exits = [
+                ...solidTiles(area).map(r => (p: Point) => pushOutOfRect(p.x, p.y, radius, r)),
+                ...wallsIn(area).map(points => (p: Point) => pushOutOfPolygon(p.x, p.y, radius, points))
+            ]
+            for (const exit of exits) {
+                const out = exit({x, y})
+                if (!out) continue
+                x = out.x
+                y = out.y
+                moved = true
+            }
+            if (!moved) break
+            hit = true
+        }
+        const len = Math.hypot(x - startX, y - startY)
+        return {x, y, hit, nx: len > 0 ? (x - startX) / len : 0, ny: len > 0 ? (y - startY) / len : 0}
+    }
+
+    /**
+     * Whether the straight line between two points is clear of walls
+     */
+    const lineOfSight = (from: Point, to: Point): boolean => {
+        const area = {
+            x: Math.min(from.x, to.x), y: Math.min(from.y, to.y),
+            w: Math.abs(to.x - from.x), h: Math.abs(to.y - from.y)
+        }
+        if (solidTiles(area).some(r => segmentEntry(from, to, r) !== null)) return false
+        for (const points of wallsIn(area)) {
+            if (insidePolygon(points, from.x, from.y) || insidePolygon(points, to.x, to.y)) return false
+            for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+                if (segmentsIntersect(from, to, points[j], points[i])) return false
+            }
+        }
+        return true
+    }
+
+    return {
+        isSolidAt,
+        resolveCircle,
+        lineOfSight,
+        solidTiles,
+        wallsIn
+    }
+}
+
+/**
+ * Static geometry API returned by `createStaticGeometry`
+ */
+export type StaticGeometry = ReturnType<typeof createStaticGeometry>
@@ -0,0 +1,53 @@
+/**
+ * Geometry helpers shared by the spatial index backends
+ */
+
+import type {Point} from '@components'
+import type {Rect} from './QuadTree'
+
+/**
+ * Distance from a point to the closest point of a rectangle (0 inside)
+ */
+export const distanceToRect = (x: number, y: number, r: Rect): number => {
+    const dx = Math.max(r.x - x, 0, x - (r.x + r.w))
+    const dy = Math.max(r.y - y, 0, y - (r.y + r.h))
+    return Math.hypot(dx, dy)
+}
+
+/**
+ * Slab test: fraction t ∈ [0, 1] along the segment where it enters the
+ * rectangle (0 if it starts inside), or null if it misses
+ */
+export const segmentEntry = (from: Point, to: Point, r: Rect): number | null => {
+    let tMin = 0
+    let tMax = 1
+    const axes: [number, number, number, number][] = [
+        [from.x, to.x - from.x, r.x, r.x + r.w],
+        [from.y, to.y - from.y, r.y, r.y + r.h]
+    ]
+    for (const [origin, delta, min, max] of axes) {
+        if (delta === 0) {
+            if (origin < min || origin > max) return null
+            continue
+        }
+        let t1 = (min - origin) / delta
+        let t2 = (max - origin) / delta
+        if (t1 > t2) [t1, t2] = [t2, t1]
+        tMin = Math.max(tMin, t1)
+        tMax = Math.min(tMax, t2)
+        if (tMin > tMax) return null
+    }
+    return tMin
+}
+
+/**
+ * Whether two rectangles overlap (touching edges count)
+ */
+export const intersects = (a: Rect, b: Rect): boolean =>
+    !(b.x > a.x + a.w || b.x + b.w < a.x || b.y > a.y + a.h || b.y + b.h < a.y)
+
+/**
+ * Whether a point lies inside a rectangle (edges included)
+ */
+export const containsPoint = (r: Rect, p: Point): boolean =>
+    p.x >= r.x && p.x <= r.x + r.w && p.y >= r.y && p.y <= r.y + r.h
@@ -7,8 +7,13 @@
  *
  * All positions are in world-space; the renderer converts them to
  * screen-space using the camera's (camX, camY) offset.
+ *
+ * Walls come from the level's static geometry, the same data movement and
+ * AI collide with, so what is drawn is what blocks.
  */
 
+import type { StaticGeometry } from '@engine/spatial/StaticGeometry'
+
 /** Seeded pseudo-random in [0, 1) derived from tile coordinates */
 function rand(x: number, y: number, seed = 0): number {
   const n = Math.sin(x * 127.1 + y * 311.7 + seed * 74.3) * 43758.5453
@@ -25,6 +30,7 @@ function rand(x: number, y: number, seed = 0): number {
  * @param viewW    Viewport width  (logical pixels)
  * @param viewH    Viewport height (logical pixels)
  * @param time     Total elapsed seconds (for animations)
+ * @param geometry Level collision geometry whose walls are drawn (optional)
  */
 export function drawBackground(
   ctx: CanvasRenderingContext2D,
@@ -33,7 +39,8 @@ export function drawBackground(
   camY: number,
   viewW: number,
   viewH: number,
-  time: number
+  time: number,
+  geometry: StaticGeometry | null = null
 ): void {
   switch (theme) {
     case 'cave':     drawCave(ctx, camX, camY, viewW, viewH, time); break
@@ -41,6 +48,8 @@ export function drawBackground(
     default:         drawForest(ctx, camX, camY, viewW, viewH, time)
   }
 
+  if (geometry) drawWalls(ctx, geometry, theme, camX, camY, viewW, viewH)
+
   // Atmospheric vignette (dark edges on every theme)
   drawVignette(ctx, viewW, viewH)
 }
@@ -54,6 +63,77 @@ function drawVignette(ctx: CanvasRenderingContext2D, vw: number, vh: number): vo
   ctx.fillRect(0, 0, vw, vh)
 }
 
+// ─── Walls ───────────────────────────────────────────────────────────────────
+const WALL_STYLES: Record<string, { fill: string; edge: string; highlight: string; mortar?: string }> = {
+  forest:   { fill: '#2f3a22', edge: '#161d0f', highlight: 'rgba(140,190,90,0.22)' },
+  cave:     { fill: '#34343f', edge: '#121218', highlight: 'rgba(190,190,225,0.2)' },
+  fortress: { fill: '#5c4833', edge: '#21170d', highlight: 'rgba(235,200,150,0.22)', mortar: 'rgba(25,18,10,0.55)' },
+}
+
+function drawWalls(
+  ctx: CanvasRenderingContext2D,
+  geometry: StaticGeometry,
+  theme: string,
+  camX: number, camY: number,
+  vw: number, vh: number
+): void {
+  const ox = camX - vw / 2
+  const oy = camY - vh / 2
+  const view = { x: ox, y: oy, w: vw, h: vh }
+  const style = WALL_STYLES[theme] ?? WALL_STYLES.forest
+
+  // Solid tiles: rock blocks with a lit top edge and seeded dark speckles
+  for (const tile of geometry.solidTiles(view)) {
+    const sx = tile.x - ox
+    const sy = tile.y - oy
+    ctx.fillStyle = style.fill
+    ctx.fillRect(sx, sy, tile.w + 0.5, tile.h + 0.5)
+    ctx.fillStyle = style.highlight
+    ctx.fillRect(sx, sy, tile.w + 0.5, Math.max(2, tile.h * 0.1))
+    if (rand(tile.x, tile.y, 70) > 0.45) {
+      ctx.fillStyle = 'rgba(0,0,0,0.25)'
+      ctx.beginPath()
+      ctx.arc(
+        sx + (0.2 + rand(tile.x, tile.y, 71) * 0.6) * tile.w,
+        sy + (0.3 + rand(tile.x, tile.y, 72) * 0.5) * tile.h,
+        tile.w * (0.06 + rand(tile.x, tile.y, 73) * 0.08),
+        0, Math.PI * 2
+      )
+      ctx.fill()
+    }
+  }
+
+  // Polygon walls: filled, brick-coursed when the theme has mortar, outlined
+  for (const points of geometry.wallsIn(view)) {
+    ctx.beginPath()
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x - ox, p.y - oy) : ctx.lineTo(p.x - ox, p.y - oy))
+    ctx.closePath()
+    ctx.fillStyle = style.fill
+    ctx.fill()
+
+    if (style.mortar) {
+      ctx.save()
+      ctx.clip()
+      ctx.strokeStyle = style.mortar
+      ctx.lineWidth = 1.2
+      const BH = 14
+      const top = Math.min(...points.map(p => p.y))
+      const bottom = Math.max(...points.map(p => p.y))
+      ctx.beginPath()
+      for (let y = top + BH; y < bottom; y += BH) {
+        ctx.moveTo(Math.min(...points.map(p => p.x)) - ox, y - oy)
+        ctx.lineTo(Math.max(...points.map(p => p.x)) - ox, y - oy)
+      }
+      ctx.stroke()
+      ctx.restore()
+    }
+
+    ctx.strokeStyle = style.edge
+    ctx.lineWidth = 2
+    ctx.stroke()
+  }
+}
+
 // ─── Forest ───────────────────────────────────────────────────────────────────
 function drawForest(
   ctx: CanvasRenderingContext2D,
@@ -199,24 +279,7 @@ function drawCave(
     }
   }
 
-  // Rock formations
-  const RG = 100
-  const rtx0 = Math.floor((ox - 60) / RG) - 1
-  const rty0 = Math.floor((oy - 60) / RG) - 1
-  const rtx1 = Math.ceil((ox + vw + 60) / RG) + 1
-  const rty1 = Math.ceil((oy + vh + 60) / RG) + 1
-
-  for (let tx = rtx0; tx <= rtx1; tx++) {
-    for (let ty = rty0; ty <= rty1; ty++) {
-      if (rand(tx, ty, 20) < 0.58) continue
-      const wx = tx * RG + (rand(tx, ty, 21) - 0.5) * RG * 0.6
-      const wy = ty * RG + (rand(tx, ty, 22) - 0.5) * RG * 0.6
-      const sx = wx - ox
-      const sy = wy - oy
-      if (sx < -60 || sx > vw + 60 || sy < -60 || sy > vh + 60) continue
-      drawCaveRock(ctx, sx, sy, 10 + rand(tx, ty, 23) * 14, rand(tx, ty, 24))
-    }
-  }
+  // Rock is drawn by drawWalls from the level geometry, so only crystals decorate the floor
 
   // Crystal formations
   const CG = 180
@@ -239,33 +302,6 @@ function drawCave(
   }
 }
 
-function drawCaveRock(
-  ctx: CanvasRenderingContext2D, x: number, y: number, size: number, seed: number
-): void {
-  ctx.fillStyle = 'rgba(0,0,0,0.28)'
-  ctx.beginPath()
-  ctx.ellipse(x, y + size * 0.5, size * 0.82, size * 0.26, 0, 0, Math.PI * 2)
-  ctx.fill()
-
-  const pts = 6
-  ctx.fillStyle = `rgb(${Math.round(45 + seed * 20)},${Math.round(45 + seed * 20)},${Math.round(55 + seed * 18)})`
-  ctx.beginPath()
-  for (let i = 0; i < pts; i++) {
-    const a = (i / pts) * Math.PI * 2 - Math.PI / 2
-    const r = size * (0.7 + rand(i, seed * 100, 40) * 0.3)
-    const px = x + Math.cos(a) * r
-    const py = y + Math.sin(a) * r * 0.65
-    i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)
-  }
-  ctx.closePath()
-  ctx.fill()
-
-  ctx.fillStyle = 'rgba(180,180,200,0.18)'
-  ctx.beginPath()
-  ctx.ellipse(x - size * 0.2, y - size * 0.14, size * 0.3, size * 0.22, -0.5, 0, Math.PI * 2)
-  ctx.fill()
-}
-
 function drawCrystal(
   ctx: CanvasRenderingContext2D,
   x: number, y: number,
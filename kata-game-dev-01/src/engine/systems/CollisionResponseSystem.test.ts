@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World, type Entity } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { COLLISION_LAYERS, createCollider, type Collider } from '@components'
+import { createSpatialHash } from '@engine/spatial/SpatialHash'
+import { createSpatialSyncSystem } from '@engine/spatial/SpatialSyncSystem'
+import { applyImpulse, createMovementSystem } from './MovementSystem'
+import { createCollisionResponseSystem } from './CollisionResponseSystem'
+
+const { PLAYER, ENEMY, NPC, TRIGGER } = COLLISION_LAYERS
+const DT = 1 / 60
+
+describe('CollisionResponseSystem', () => {
+  let world: World
+  let response: ReturnType<typeof createCollisionResponseSystem>
+  const movement = createMovementSystem()
+
+  const spawn = (x: number, y: number, collider: Collider, vx = 0, vy = 0) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    world.addComponent(entity, COMPONENTS.VELOCITY, { vx, vy })
+    world.addComponent(entity, COMPONENTS.COLLIDER, collider)
+    return entity
+  }
+
+  const position = (entity: Entity) => world.getComponent(entity, COMPONENTS.TRANSFORM)!
+
+  const gap = (a: Entity, b: Entity) => {
+    const ta = position(a)
+    const tb = position(b)
+    const ra = world.getComponent(a, COMPONENTS.COLLIDER)!.radius
+    const rb = world.getComponent(b, COMPONENTS.COLLIDER)!.radius
+    return Math.hypot(tb.x - ta.x, tb.y - ta.y) - ra - rb
+  }
+
+  // Keep steering every body at its target velocity, like input and AI do each frame
+  const run = (steps: number, steer: Array<[Entity, number, number]>, afterStep: () => void = () => {}) => {
+    for (let i = 0; i < steps; i++) {
+      for (const [entity, vx, vy] of steer) Object.assign(world.getComponent(entity, COMPONENTS.VELOCITY)!, { vx, vy })
+      movement.update(world, DT)
+      response.update(world)
+      afterStep()
+    }
+  }
+
+  beforeEach(() => {
+    world = new World()
+    response = createCollisionResponseSystem()
+  })
+
+  it('should keep bodies pushed into each other from overlapping', () => {
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const goblin = spawn(60, 0, createCollider(8, ENEMY))
+
+    run(120, [[player, 150, 0], [goblin, -150, 0]])
+
+    expect(gap(player, goblin)).toBeGreaterThanOrEqual(-1e-6)
+  })
+
+  it('should split the push-out by mass', () => {
+    const light = spawn(0, 0, createCollider(10, ENEMY, { mass: 1 }))
+    const heavy = spawn(15, 0, createCollider(10, ENEMY, { mass: 3 }))
+
+    response.update(world)
+
+    expect(position(light).x).toBeCloseTo(-3.75)
+    expect(position(heavy).x).toBeCloseTo(16.25)
+    expect(gap(light, heavy)).toBeCloseTo(0)
+  })
+
+  it('should not let immovable bodies be shoved', () => {
+    const merchant = spawn(50, 0, createCollider(10, NPC, { immovable: true }))
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+
+    run(120, [[player, 200, 0]])
+
+    expect(position(merchant)).toMatchObject({ x: 50, y: 0 })
+    expect(gap(player, merchant)).toBeGreaterThanOrEqual(-1e-6)
+    expect(world.getComponent(player, COMPONENTS.VELOCITY)!.vx).toBeCloseTo(0)
+  })
+
+  it('should slide along a contact instead of stopping dead', () => {
+    const merchant = spawn(30, 0, createCollider(10, NPC, { immovable: true }))
+    // Walking diagonally into the merchant, slightly below its centre line
+    const player = spawn(0, 2, createCollider(10, PLAYER))
+
+    run(60, [[player, 100, 100]])
+
+    expect(gap(player, merchant)).toBeGreaterThanOrEqual(-1e-6)
+    expect(position(player).x).toBeGreaterThan(30)
+    expect(position(player).y).toBeGreaterThan(40)
+  })
+
+  it('should stop knockback from driving a body into an immovable collider', () => {
+    const merchant = spawn(30, 0, createCollider(10, NPC, { immovable: true }))
+    const player = spawn(0, 2, createCollider(10, PLAYER))
+    // Knocked towards the merchant and a little downwards, with no input of its own
+    applyImpulse(world, player, 400, 100)
+
+    // Check right after each response: the knockback left must not head into the merchant
+    let contacts = 0
+    run(10, [[player, 0, 0]], () => {
+      if (gap(player, merchant) > 1e-6) return
+      contacts++
+      const body = world.getComponent(player, COMPONENTS.PHYSICS_BODY)!
+      const m = position(merchant)
+      const p = position(player)
+      const d = Math.hypot(m.x - p.x, m.y - p.y)
+      expect(body.vx * (m.x - p.x) / d + body.vy * (m.y - p.y) / d).toBeLessThanOrEqual(1e-6)
+      expect(body.vy).toBeGreaterThan(0)
+    })
+
+    expect(contacts).toBeGreaterThan(0)
+    expect(gap(player, merchant)).toBeGreaterThanOrEqual(-1e-6)
+    expect(position(merchant)).toMatchObject({ x: 30, y: 0 })
+  })
+
+  it('should settle a crowd without overlaps', () => {
+    const goblins = Array.from({ length: 8 }, (_, i) => spawn(Math.cos(i) * 40, Math.sin(i) * 40, createCollider(8, ENEMY)))
+    const center = spawn(0, 0, createCollider(12, NPC, { immovable: true }))
+
+    run(180, goblins.map(g => {
+      const t = position(g)
+      return [g, -t.x * 3, -t.y * 3] as [Entity, number, number]
+    }))
+
+    for (const a of [...goblins, center]) {
+      for (const b of goblins) if (a !== b) expect(gap(a, b)).toBeGreaterThan(-0.5)
+    }
+  })
+
+  it('should leave triggers, non-solid colliders and unmatched layers alone', () => {
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const potion = spawn(5, 0, createCollider(4, TRIGGER, { isTrigger: true, solid: false }))
+    const ghost = spawn(0, 5, createCollider(10, ENEMY, { solid: false }))
+    // NPCs don't block each other
+    const npc = spawn(100, 0, createCollider(10, NPC))
+    const other = spawn(100, 1, createCollider(10, NPC))
+
+    response.update(world)
+
+    expect(position(player)).toMatchObject({ x: 0, y: 0 })
+    expect(position(potion)).toMatchObject({ x: 5, y: 0 })
+    expect(position(ghost)).toMatchObject({ x: 0, y: 5 })
+    expect(position(npc)).toMatchObject({ x: 100, y: 0 })
+    expect(position(other)).toMatchObject({ x: 100, y: 1 })
+  })
+
+  it('should use the spatial index and mark moved transforms', () => {
+    const index = createSpatialHash(32)
+    const sync = createSpatialSyncSystem(world, index, { extent: () => 10 })
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const goblin = spawn(100, 0, createCollider(10, ENEMY))
+    spawn(400, 400, createCollider(10, ENEMY))
+    sync.update()
+
+    // Synced after each step as in the game, so the broadphase sees positions from before movement
+    run(60, [[player, 150, 0], [goblin, -150, 0]], sync.update)
+
+    expect(gap(player, goblin)).toBeGreaterThanOrEqual(-1e-6)
+    expect(index.queryCircle(position(goblin).x, 0, 1).map(i => i.entity)).toContain(goblin)
+  })
+})
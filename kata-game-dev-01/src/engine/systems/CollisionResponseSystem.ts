@@ -0,0 +1,105 @@
+import type { Entity, World } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry, Spatial } from '@engine/Resources'
+import { COLLISION_MATRIX, inverseMass, type Collider, type CollisionMatrix, type PhysicsBody, type Velocity } from '@components'
+import { findCandidatePairs, type ColliderEntry, type CollisionIndex } from './CollisionSystem'
+
+export type CollisionResponseOptions = {
+  // Index for the broadphase (default: the world's Spatial resource)
+  index?: CollisionIndex
+  matrix?: CollisionMatrix
+  // Relaxation passes per update; more passes settle crowds better
+  iterations?: number
+  // Extra broadphase reach, covering movement since the index was last synced
+  margin?: number
+}
+
+// Only solid, non-trigger colliders push each other apart
+const blocks = (collider: Collider) => collider.solid && !collider.isTrigger
+
+// Drop the part of a velocity heading into a contact, keeping the part along it
+const slide = (velocity: Velocity | PhysicsBody | undefined, nx: number, ny: number) => {
+  if (!velocity) return
+  const into = velocity.vx * nx + velocity.vy * ny
+  if (into <= 0) return
+  velocity.vx -= into * nx
+  velocity.vy -= into * ny
+}
+
+// Slide both the intent velocity and the external (knockback) velocity, so neither keeps pushing into the contact
+const slideEntity = (world: World, entity: Entity, nx: number, ny: number) => {
+  slide(world.getComponent(entity, COMPONENTS.VELOCITY) as Velocity | undefined, nx, ny)
+  slide(world.getComponent(entity, COMPONENTS.PHYSICS_BODY) as PhysicsBody | undefined, nx, ny)
+}
+
+/**
+ * Collision response system factory.
+ *
+ * Separates overlapping solid colliders after movement. Each overlapping
+ * pair is pushed apart along the line between the centres by the
+ * penetration depth, split by inverse mass so heavy bodies give way less and
+ * immovable ones (NPCs, walls) not at all. The velocity heading into a
+ * contact is removed from both Velocity and PhysicsBody, so bodies slide
+ * along each other instead of stopping dead, and knockback doesn't keep
+ * driving them into what they hit. Pairs are relaxed for a few passes so chains of contacts settle.
+ *
+ * Triggers, non-solid colliders and layers the matrix keeps apart are left
+ * alone. Bodies pushed into the level's static geometry are moved back out.
+ * Run it after movement and before the spatial sync.
+ */
+export const createCollisionResponseSystem = (options: CollisionResponseOptions = {}) => {
+  const { matrix = COLLISION_MATRIX, iterations = 4, margin = 8 } = options
+
+  const update = (world: World) => {
+    const pairs = findCandidatePairs(world, options.index ?? world.getResource(Spatial).index, matrix, margin)
+      .filter(([a, b]) => blocks(a.collider) && blocks(b.collider) && inverseMass(a.collider) + inverseMass(b.collider) > 0)
+    const moved = new Map<Entity, ColliderEntry>()
+
+    for (let pass = 0; pass < iterations; pass++) {
+      let separated = false
+      for (const [a, b] of pairs) {
+        const reach = a.collider.radius + b.collider.radius
+        const dx = b.transform.x - a.transform.x
+        const dy = b.transform.y - a.transform.y
+        const distSq = dx * dx + dy * dy
+        if (distSq >= reach * reach) continue
+
+        // Normal from a to b; coincident centres are split along x
+        const dist = Math.sqrt(distSq)
+        const nx = dist > 0 ? dx / dist : 1
+        const ny = dist > 0 ? dy / dist : 0
+        const invA = inverseMass(a.collider)
+        const invB = inverseMass(b.collider)
+        const push = (reach - dist) / (invA + invB)
+
+        if (invA > 0) {
+          a.transform.x -= nx * push * invA
+          a.transform.y -= ny * push * invA
+          slideEntity(world, a.entity, nx, ny)
+          moved.set(a.entity, a)
+        }
+        if (invB > 0) {
+          b.transform.x += nx * push * invB
+          b.transform.y += ny * push * invB
+          slideEntity(world, b.entity, -nx, -ny)
+          moved.set(b.entity, b)
+        }
+        separated = true
+      }
+      if (!separated) break
+    }
+
+    // Bodies shoved into level walls are pushed back out; then record the in-place writes for change queries
+    const geometry = world.getResource(LevelGeometry).geometry
+    for (const [entity, { transform, collider }] of moved) {
+      if (geometry) {
+        const { x, y } = geometry.resolveCircle(transform.x, transform.y, collider.radius)
+        transform.x = x
+        transform.y = y
+      }
+      world.markChanged(entity, COMPONENTS.TRANSFORM)
+    }
+  }
+
+  return { update }
+}
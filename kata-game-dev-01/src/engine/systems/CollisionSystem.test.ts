@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { World, type Entity } from '@engine/ECS'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { COLLISION_LAYERS, createCollider, canCollide, type Collider } from '@components'
+import { createSpatialHash } from '@engine/spatial/SpatialHash'
+import { createSpatialSyncSystem } from '@engine/spatial/SpatialSyncSystem'
+import { createCollisionSystem } from './CollisionSystem'
+
+const { PLAYER, ENEMY, PROJECTILE, TRIGGER } = COLLISION_LAYERS
+
+describe('CollisionSystem', () => {
+  let world: World
+  let collision: ReturnType<typeof createCollisionSystem>
+
+  const spawn = (x: number, y: number, collider: Collider) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    world.addComponent(entity, COMPONENTS.COLLIDER, collider)
+    return entity
+  }
+
+  const moveTo = (entity: Entity, x: number, y: number) => {
+    const t = world.getComponent(entity, COMPONENTS.TRANSFORM)!
+    t.x = x
+    t.y = y
+    world.markChanged(entity, COMPONENTS.TRANSFORM)
+  }
+
+  beforeEach(() => {
+    world = new World()
+    collision = createCollisionSystem()
+  })
+
+  it('should call enter, stay and exit handlers on both entities', () => {
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const enemy = spawn(100, 0, createCollider(10, ENEMY))
+    const calls: string[] = []
+    collision.registerCollisionCallback(player, {
+      onCollisionEnter: (self, other) => calls.push(`enter ${self}->${other}`),
+      onCollisionStay: (self, other) => calls.push(`stay ${self}->${other}`),
+      onCollisionExit: (self, other) => calls.push(`exit ${self}->${other}`)
+    })
+    collision.registerCollisionCallback(enemy, {
+      onCollisionEnter: (self, other) => calls.push(`enter ${self}->${other}`)
+    })
+
+    collision.update(world)
+    expect(calls).toEqual([])
+
+    moveTo(enemy, 20, 0)
+    collision.update(world)
+    collision.update(world)
+    moveTo(enemy, 21, 0)
+    collision.update(world)
+
+    expect(calls).toEqual([
+      `enter ${player}->${enemy}`,
+      `enter ${enemy}->${player}`,
+      `stay ${player}->${enemy}`,
+      `exit ${player}->${enemy}`
+    ])
+  })
+
+  it('should publish enter and exit events and track active collisions', () => {
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const potion = spawn(5, 0, createCollider(4, TRIGGER, { isTrigger: true, solid: false }))
+    const entered = vi.fn()
+    const exited = vi.fn()
+    world.on(GAME_EVENTS.COLLISION_ENTER, entered)
+    world.on(GAME_EVENTS.COLLISION_EXIT, exited)
+
+    collision.update(world)
+
+    expect(entered).toHaveBeenCalledWith({ a: player, b: potion, trigger: true })
+    expect([...collision.getActiveCollisions(player)]).toEqual([potion])
+    expect([...collision.getActiveCollisions(potion)]).toEqual([player])
+
+    world.removeEntity(potion)
+    collision.update(world)
+
+    expect(exited).toHaveBeenCalledWith({ a: player, b: potion, trigger: true })
+    expect(collision.getActiveCollisions(player).size).toBe(0)
+  })
+
+  it('should only pair layers that accept each other', () => {
+    const enemy = spawn(0, 0, createCollider(10, ENEMY))
+    const other = spawn(5, 0, createCollider(10, ENEMY))
+    const trigger = spawn(0, 5, createCollider(10, TRIGGER, { isTrigger: true }))
+    const ghost = spawn(5, 5, createCollider(10, PROJECTILE, { mask: 0 }))
+
+    collision.update(world)
+
+    expect([...collision.getActiveCollisions(enemy)]).toEqual([other])
+    expect(collision.getActiveCollisions(trigger).size).toBe(0)
+    expect(collision.getActiveCollisions(ghost).size).toBe(0)
+  })
+
+  it('should use the mask of a collider instead of the matrix', () => {
+    const a = createCollider(5, TRIGGER, { mask: ENEMY })
+    const b = createCollider(5, ENEMY, { mask: TRIGGER })
+
+    expect(canCollide(a, b)).toBe(true)
+    expect(canCollide(a, createCollider(5, ENEMY))).toBe(false)
+  })
+
+  it('should find the same contacts through the spatial index', () => {
+    const index = createSpatialHash(16)
+    const sync = createSpatialSyncSystem(world, index, { with: [COMPONENTS.COLLIDER] })
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    const near = spawn(18, 0, createCollider(10, ENEMY))
+    spawn(200, 0, createCollider(10, ENEMY))
+    sync.update()
+    // Spawned after the sync, so only reachable through the unindexed fallback
+    const late = spawn(0, 15, createCollider(10, ENEMY))
+
+    const queryCircle = vi.spyOn(index, 'queryCircle')
+    collision.update(world)
+
+    expect(queryCircle).toHaveBeenCalled()
+    expect([...collision.getActiveCollisions(player)].sort()).toEqual([near, late].sort())
+  })
+
+  it('should stop calling handlers once unregistered', () => {
+    const player = spawn(0, 0, createCollider(10, PLAYER))
+    spawn(5, 0, createCollider(10, ENEMY))
+    const onCollisionEnter = vi.fn()
+    const unregister = collision.registerCollisionCallback(player, { onCollisionEnter })
+
+    unregister()
+    collision.update(world)
+
+    expect(onCollisionEnter).not.toHaveBeenCalled()
+  })
+})
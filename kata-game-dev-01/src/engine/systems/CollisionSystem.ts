@@ -1,38 +1,163 @@
-import type { TypedWorld } from '@engine/componentTypes'
-import type { createQuadTree } from '@engine/spatial/QuadTree'
+import type { Entity, World } from '@engine/ECS'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { Spatial } from '@engine/Resources'
+import { canCollide, COLLISION_MATRIX, type Collider, type CollisionMatrix, type Transform } from '@components'
+import type { SpatialIndex } from '@engine/spatial/SpatialIndex'
+
+export type CollisionCallback = (self: Entity, other: Entity) => void
+
+// Per-entity contact callbacks; `self` is the registered entity
+export type CollisionHandlers = {
+  onCollisionEnter?: CollisionCallback
+  onCollisionStay?: CollisionCallback
+  onCollisionExit?: CollisionCallback
+}
+
+// Index used for the broadphase
+export type CollisionIndex = Pick<SpatialIndex, 'queryCircle' | 'has'>
+
+// A collider with its entity and position
+export type ColliderEntry = { entity: Entity; transform: Transform; collider: Collider }
+
+type Pair = { a: Entity; b: Entity; trigger: boolean }
+
+const pairKey = (a: Entity, b: Entity) => `${a}:${b}`
+
+/**
+ * Broadphase shared by the collision systems: pairs of colliders whose layers
+ * accept each other and that may be within `margin` of touching, each pair
+ * once with the lower handle first.
+ *
+ * Indexed colliders query the index for neighbours; colliders missing from
+ * the index are paired with every collider, and without an index all pairs
+ * are returned.
+ */
+export const findCandidatePairs = (
+  world: World,
+  index: CollisionIndex | null | undefined,
+  matrix: CollisionMatrix = COLLISION_MATRIX,
+  margin = 0
+): Array<[ColliderEntry, ColliderEntry]> => {
+  const colliders = new Map<Entity, ColliderEntry>()
+  let maxRadius = 0
+  for (const { entity, comps: [t, c] } of world.query(COMPONENTS.TRANSFORM, COMPONENTS.COLLIDER)) {
+    colliders.set(entity, { entity, transform: t as Transform, collider: c as Collider })
+    maxRadius = Math.max(maxRadius, (c as Collider).radius)
+  }
+
+  const unindexed: Entity[] = []
+  for (const entity of colliders.keys()) if (!index?.has(entity)) unindexed.push(entity)
+
+  const found: Array<[ColliderEntry, ColliderEntry]> = []
+  for (const [a, entry] of colliders) {
+    const { transform: t, collider: c } = entry
+    const candidates = index?.has(a)
+      ? [...index.queryCircle(t.x, t.y, c.radius + maxRadius + margin).map(item => item.entity), ...unindexed]
+      : colliders.keys()
+    for (const b of candidates) {
+      if (b <= a) continue
+      const other = colliders.get(b)
+      if (other && canCollide(c, other.collider, matrix)) found.push([entry, other])
+    }
+  }
+  return found
+}
 
 /**
- * Collision system (prepared, not yet integrated)
- * Detects collisions between entities with Collider components using spatial indexing.
- * Supports trigger volumes and layer-based collision filtering.
+ * Collision system factory.
+ *
+ * Finds touching pairs of entities with a Transform and a Collider:
+ * - broadphase: circle queries on the spatial index (the given one, or the
+ *   world's Spatial resource); colliders missing from the index are tested
+ *   against every collider, and without any index all pairs are tested
+ * - layers: both colliders must accept each other in the collision matrix
+ *   (or their own `mask`)
+ * - narrowphase: circles touch when the centre distance is at most the sum of the radii
+ *
+ * Each update compares the contacts with the previous ones, calls the
+ * registered enter/stay/exit handlers of both entities and publishes
+ * `CollisionEnter`/`CollisionExit` on `world.events`. Trigger contacts are
+ * reported the same way, flagged with `trigger`. Run it after the spatial
+ * sync so the index holds current positions.
  */
-export const createCollisionSystem = (quadTree: ReturnType<typeof createQuadTree>) => {
-  // Collision event callbacks (prepared for future event system)
-  const onCollisionEnter = new Map<number, (self: number, other: number) => void>()
-  const onCollisionExit = new Map<number, (self: number, other: number) => void>()
+export const createCollisionSystem = (index?: CollisionIndex, matrix: CollisionMatrix = COLLISION_MATRIX) => {
+  const handlers = new Map<Entity, CollisionHandlers>()
 
-  // Track active collisions for enter/exit events
-  const activeCollisions = new Map<number, Set<number>>()
+  // Current contacts, per pair (lower handle first) and per entity
+  let pairs = new Map<string, Pair>()
+  const activeCollisions = new Map<Entity, Set<Entity>>()
+
+  const link = (a: Entity, b: Entity) => {
+    let set = activeCollisions.get(a)
+    if (!set) activeCollisions.set(a, set = new Set())
+    set.add(b)
+  }
 
-  const update = (world: TypedWorld, dt: number) => {
-    // TODO: Implementation when Collider component is added to COMPONENTS enum
-    // const entities = world.query(COMPONENTS.TRANSFORM, COMPONENTS.COLLIDER)
-    // ... collision detection logic
+  const unlink = (a: Entity, b: Entity) => {
+    const set = activeCollisions.get(a)
+    if (!set) return
+    set.delete(b)
+    if (set.size === 0) activeCollisions.delete(a)
   }
 
-  const registerCollisionCallback = (
-    entity: number,
-    onEnter?: (self: number, other: number) => void,
-    onExit?: (self: number, other: number) => void
-  ) => {
-    if (onEnter) onCollisionEnter.set(entity, onEnter)
-    if (onExit) onCollisionExit.set(entity, onExit)
+  const notify = (pair: Pair, kind: keyof CollisionHandlers) => {
+    handlers.get(pair.a)?.[kind]?.(pair.a, pair.b)
+    handlers.get(pair.b)?.[kind]?.(pair.b, pair.a)
+  }
+
+  // Touching pairs this frame
+  const detect = (world: World): Map<string, Pair> => {
+    const found = new Map<string, Pair>()
+    for (const [a, b] of findCandidatePairs(world, index ?? world.getResource(Spatial).index, matrix)) {
+      const reach = a.collider.radius + b.collider.radius
+      const dx = b.transform.x - a.transform.x
+      const dy = b.transform.y - a.transform.y
+      if (dx * dx + dy * dy > reach * reach) continue
+      found.set(pairKey(a.entity, b.entity), { a: a.entity, b: b.entity, trigger: a.collider.isTrigger || b.collider.isTrigger })
+    }
+    return found
+  }
+
+  const update = (world: World) => {
+    const previous = pairs
+    pairs = detect(world)
+
+    for (const [key, pair] of previous) {
+      if (pairs.has(key)) continue
+      unlink(pair.a, pair.b)
+      unlink(pair.b, pair.a)
+      notify(pair, 'onCollisionExit')
+      world.emit(GAME_EVENTS.COLLISION_EXIT, { a: pair.a, b: pair.b, trigger: pair.trigger })
+    }
+    for (const [key, pair] of pairs) {
+      if (previous.has(key)) {
+        notify(pair, 'onCollisionStay')
+        continue
+      }
+      link(pair.a, pair.b)
+      link(pair.b, pair.a)
+      notify(pair, 'onCollisionEnter')
+      world.emit(GAME_EVENTS.COLLISION_ENTER, { a: pair.a, b: pair.b, trigger: pair.trigger })
+    }
+
+    // Handlers of removed entities are dropped once their exits were delivered
+    for (const entity of handlers.keys()) {
+      if (!world.isAlive(entity)) handlers.delete(entity)
+    }
+  }
+
+  // Register contact handlers for an entity (replacing earlier ones); returns an unregister function
+  const registerCollisionCallback = (entity: Entity, entityHandlers: CollisionHandlers) => {
+    handlers.set(entity, entityHandlers)
+    return () => {
+      if (handlers.get(entity) === entityHandlers) handlers.delete(entity)
+    }
   }
 
   return {
     update,
     registerCollisionCallback,
-    getActiveCollisions: (entity: number) => activeCollisions.get(entity) || new Set()
+    // Entities currently touching the given one
+    getActiveCollisions: (entity: Entity): ReadonlySet<Entity> => activeCollisions.get(entity) ?? new Set<Entity>()
   }
 }
-
@@ -6,7 +6,7 @@
  *
  * @example
  * ```ts
- * const calculator = new CombatCalculator()
+ * const calculator = new CombatCalculator(getRandomStream(world, 'combat').next)
  *
  * // Calculate attack damage
  * const damage = calculator.calculateDamage(
@@ -27,6 +27,7 @@ import type { Weapon } from '@components/Weapon'
 import type { CharacterStatsSystem } from '@engine/systems/CharacterStatsSystem'
 import type { EquipmentSystem } from '@engine/systems/EquipmentSystem'
 import type { CharacterStats, DerivedStats, BaseStats } from '@components/CharacterStats'
+import { defaultRandom, type RandomFn } from '@engine/Random'
 
 /**
  * Damage calculation result.
@@ -106,6 +107,13 @@ export interface CombatRound {
  * Handles all combat calculations for turn-based combat.
  */
 export class CombatCalculator {
+  /**
+   * Create a new Combat Calculator.
+   *
+   * @param random - Roll source, usually the world's 'combat' stream
+   */
+  constructor(private random: RandomFn = defaultRandom.next) {}
+
   /**
    * Calculate physical damage from attack.
    *
@@ -145,8 +153,8 @@ export class CombatCalculator {
 
     // Critical hit calculation
     const criticalChance = statsSystem.getDerivedStat(attacker, 'criticalChance')
-    const isCritical = Math.random() < criticalChance
-    const criticalMultiplier = isCritical ? (1.5 + Math.random() * 1.5) : 1.0
+    const isCritical = this.random() < criticalChance
+    const criticalMultiplier = isCritical ? (1.5 + this.random() * 1.5) : 1.0
 
     // Armor reduction (Defender)
     const armor = statsSystem.getDerivedStat(defender, 'armor')
@@ -221,8 +229,8 @@ export class CombatCalculator {
     // Critical hit for spells (lower chance)
     const wisdom = statsSystem.getStatValue(attacker, 'wisdom')
     const criticalChance = (wisdom - 10) / 500
-    const isCritical = Math.random() < Math.max(0, criticalChance)
-    const criticalMultiplier = isCritical ? (1.3 + Math.random() * 1.0) : 1.0
+    const isCritical = this.random() < Math.max(0, criticalChance)
+    const criticalMultiplier = isCritical ? (1.3 + this.random() * 1.0) : 1.0
 
     // Magic resistance reduction
     const magicResistance = statsSystem.getDerivedStat(defender, 'magicResistance')
@@ -297,7 +305,7 @@ export class CombatCalculator {
     finalChance = Math.max(0.1, Math.min(0.95, finalChance)) // Clamp 10% - 95%
 
     // Roll
-    const roll = Math.random()
+    const roll = this.random()
     const didHit = roll < finalChance
 
     let reason = ''
@@ -343,9 +351,9 @@ export class CombatCalculator {
     const wisdom = statsSystem.getStatValue(attacker, 'wisdom')
 
     const baseChance = Math.min(0.9, (dexterity + wisdom - 20) / 500)
-    const multiplier = 1.5 + Math.random() * 1.5 // 1.5x - 3.0x damage
+    const multiplier = 1.5 + this.random() * 1.5 // 1.5x - 3.0x damage
 
-    const roll = Math.random()
+    const roll = this.random()
     const didCrit = roll < baseChance
 
     return {
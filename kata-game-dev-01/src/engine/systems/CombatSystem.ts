@@ -3,6 +3,8 @@
  *
  * Integrates combat calculations with ECS.
  * Manages turn-based combat, damage application, and combat events.
+ * Combat events are published on the world's event bus (CombatStarted,
+ * DamageDealt, AttackMissed, EnemyKilled, CombatEnded).
  *
  * @example
  * ```ts
@@ -22,6 +24,8 @@
  */
 
 import type { Entity, World } from '@engine/ECS'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { getRandomStream } from '@engine/Random'
 import type { Weapon } from '@components/Weapon'
 import { CombatCalculator, type CombatRound, type DamageResult } from './CombatCalculator'
 import type { CharacterStatsSystem } from './CharacterStatsSystem'
@@ -61,7 +65,7 @@ export interface CombatEncounter {
  * Manages turn-based combat with damage application and event tracking.
  */
 export class CombatSystem {
-  private calculator = new CombatCalculator()
+  private calculator: CombatCalculator
   private encounters = new Map<string, CombatEncounter>()
   private combatLog: string[] = []
   private encounterCounter = 0
@@ -70,7 +74,10 @@ export class CombatSystem {
     private world: World,
     private statsSystem: CharacterStatsSystem,
     private equipmentSystem: EquipmentSystem
-  ) {}
+  ) {
+    // Rolls come from the world's seeded 'combat' stream
+    this.calculator = new CombatCalculator(getRandomStream(world, 'combat').next)
+  }
 
   /**
    * Start a new combat encounter.
@@ -99,6 +106,7 @@ export class CombatSystem {
 
     this.encounters.set(encounterId, encounter)
     this.log(`Combat started: ${attacker} vs ${defender}`)
+    this.world.emit(GAME_EVENTS.COMBAT_STARTED, { encounterId, attacker, defender })
 
     return encounterId
   }
@@ -135,6 +143,23 @@ export class CombatSystem {
       this.equipmentSystem
     )
 
+    if (round.wasSuccessful) {
+      this.world.emit(GAME_EVENTS.DAMAGE_DEALT, {
+        attacker,
+        target: defender,
+        amount: round.damageResult?.totalDamage ?? 0,
+        remaining: round.defenderHealthAfter,
+        critical: round.damageResult?.isCritical ?? false,
+        source: 'combat',
+      })
+      const killed = round.defenderHealthBefore > 0 && round.defenderHealthAfter <= 0
+      if (killed && this.world.getComponent(defender, COMPONENTS.HOSTILE)) {
+        this.world.emit(GAME_EVENTS.ENEMY_KILLED, { entity: defender, killer: attacker })
+      }
+    } else {
+      this.world.emit(GAME_EVENTS.ATTACK_MISSED, { attacker, target: defender, source: 'combat' })
+    }
+
     // Update encounter if provided
     if (encounterId) {
       const encounter = this.encounters.get(encounterId)
@@ -153,12 +178,21 @@ export class CombatSystem {
           this.log(`${attacker} misses ${defender}`)
         }
 
-        // Check for victory
+        // Check for victory (announced once per encounter)
         if (round.defenderHealthAfter <= 0) {
+          const wasActive = encounter.state === CombatState.ACTIVE
           encounter.state = CombatState.FINISHED
           encounter.winner = attacker
           encounter.endTime = Date.now()
           this.log(`${attacker} wins! ${defender} is defeated.`)
+          if (wasActive) {
+            this.world.emit(GAME_EVENTS.COMBAT_ENDED, {
+              encounterId,
+              winner: attacker,
+              loser: defender,
+              rounds: encounter.rounds.length,
+            })
+          }
         }
       }
     }
@@ -2,9 +2,16 @@
 
 import type { TypedWorld } from '@engine/componentTypes'
 import { COMPONENTS } from '@engine/constants'
-import type { EnemyComponent } from '@components'
+import { LevelGeometry, Spatial } from '@engine/Resources'
+import { COLLISION_LAYERS, type EnemyComponent } from '@components'
+import { createWeapon } from '@components/Weapon'
 import { calculateDirection, applyVelocity, stopMovement } from '@engine/systems/EnemyAIUtilities'
 import type { Transform, Velocity } from '@components'
+import type { SpatialIndex } from '@engine/spatial/SpatialIndex'
+import { spawnProjectile } from '@engine/systems/ProjectileSystem'
+
+// Spatial index used to spot players near idle enemies
+export type TargetIndex = Pick<SpatialIndex, 'queryCircle'>
 
 // Enemy behavior state enum
 export enum EnemyState {
@@ -32,6 +39,11 @@ export const createChaseBehavior = (): EnemyBehavior => ({
   execute: (world, entity, enemy, transform, velocity) => {
     const targetId = enemy.targetEntity
     if (targetId === undefined) return EnemyState.IDLE
+    // Drop references to despawned targets (stale generational handle)
+    if (!world.isAlive(targetId)) {
+      enemy.targetEntity = undefined
+      return EnemyState.IDLE
+    }
 
     const targetTransform = world.getComponent(
       targetId,
@@ -71,6 +83,11 @@ export const createAttackBehavior = (): EnemyBehavior => ({
   execute: (world, entity, enemy, transform, velocity) => {
     const targetId = enemy.targetEntity
     if (targetId === undefined) return EnemyState.IDLE
+    // Drop references to despawned targets (stale generational handle)
+    if (!world.isAlive(targetId)) {
+      enemy.targetEntity = undefined
+      return EnemyState.IDLE
+    }
 
     const targetTransform = world.getComponent(
       targetId,
@@ -80,7 +97,7 @@ export const createAttackBehavior = (): EnemyBehavior => ({
     if (!targetTransform) return EnemyState.IDLE
 
     // Calculate distance
-    const { distance } = calculateDirection(
+    const { nx, ny, distance } = calculateDirection(
       transform.x,
       transform.y,
       targetTransform.x,
@@ -108,6 +125,19 @@ export const createAttackBehavior = (): EnemyBehavior => ({
       )
       enemy.lastAttackTime = world.getTime()
       world.markComponentUpdated(entity, COMPONENTS.ENEMY)
+      // Ranged enemies shoot at the player; the projectile system resolves the hit
+      if (enemy.projectile) {
+        spawnProjectile(world, {
+          owner: entity,
+          weapon: createWeapon('enemy_shot', 'Enemy Shot', 'bow', enemy.attackDamage),
+          kind: enemy.projectile,
+          x: transform.x,
+          y: transform.y,
+          dirX: nx,
+          dirY: ny,
+          mask: COLLISION_LAYERS.PLAYER
+        })
+      }
     }
 
     return null // Stay in attack state
@@ -149,9 +179,27 @@ export const createReturnBehavior = (): EnemyBehavior => ({
   }
 })
 
-// Idle behavior - patrol around spawn (check if target re-enters detection range)
-export const createIdleBehavior = (): EnemyBehavior => ({
+// Closest player within detection range, found through the spatial index
+const findTarget = (world: TypedWorld, index: TargetIndex, enemy: EnemyComponent, transform: Transform) =>
+  index.queryCircle(transform.x, transform.y, enemy.detectionRange)
+    .find(item => world.getComponent(item.entity, COMPONENTS.PLAYER) !== undefined)?.entity
+
+// Whether the level's walls leave a clear line between two positions
+const inSight = (world: TypedWorld, from: Transform, to: Transform): boolean =>
+  world.getResource(LevelGeometry).geometry?.lineOfSight(from, to) ?? true
+
+// Idle behavior - patrol around spawn (check if target re-enters detection range,
+// or pick up a nearby player through the given index or the world's Spatial resource);
+// targets behind level walls are not spotted
+export const createIdleBehavior = (index?: TargetIndex): EnemyBehavior => ({
   execute: (world, entity, enemy, transform, velocity) => {
+    if (enemy.targetEntity !== undefined && !world.isAlive(enemy.targetEntity)) {
+      enemy.targetEntity = undefined
+    }
+    const targets = index ?? world.getResource(Spatial).index
+    if (enemy.targetEntity === undefined && targets) {
+      enemy.targetEntity = findTarget(world, targets, enemy, transform)
+    }
     const targetId = enemy.targetEntity
     if (targetId === undefined) return null
 
@@ -170,8 +218,8 @@ export const createIdleBehavior = (): EnemyBehavior => ({
       targetTransform.y
     )
 
-    // If target enters detection range, start chasing
-    if (distance <= enemy.detectionRange) {
+    // If target enters detection range in plain sight, start chasing
+    if (distance <= enemy.detectionRange && inSight(world, transform, targetTransform)) {
       return EnemyState.CHASING
     }
 
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { componentRegistry } from '@engine/componentRegistry'
+import { LevelGeometry, Spatial } from '@engine/Resources'
+import { createQuadTree, type QuadTree } from '@engine/spatial/QuadTree'
+import { createStaticGeometry } from '@engine/spatial/StaticGeometry'
+import { COLLISION_LAYERS, type EnemyComponent, type Projectile } from '@components'
+import { createEnemyAISystem } from './EnemyAISystem'
+
+describe('EnemyAISystem', () => {
+  let world: World
+  let quad: QuadTree
+  let enemy: number
+  let enemyData: EnemyComponent
+
+  const spawn = (x: number, y: number, ...extra: string[]) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    for (const key of extra) world.addComponent(entity, key as any, componentRegistry.create(key) as any)
+    quad.insert({ x, y, entity })
+    return entity
+  }
+
+  beforeEach(() => {
+    world = new World()
+    quad = createQuadTree({ x: 0, y: 0, w: 1000, h: 1000 })
+    enemy = spawn(100, 100, COMPONENTS.VELOCITY)
+    enemyData = { ...(componentRegistry.create(COMPONENTS.ENEMY) as EnemyComponent), spawnX: 100, spawnY: 100 }
+    world.addComponent(enemy, COMPONENTS.ENEMY, enemyData)
+  })
+
+  it('should target the closest player within detection range', () => {
+    spawn(250, 100, COMPONENTS.PLAYER)
+    const near = spawn(150, 100, COMPONENTS.PLAYER)
+    spawn(120, 100, COMPONENTS.NPC)
+    const ai = createEnemyAISystem(quad)
+
+    ai.update(world as any)
+    ai.update(world as any)
+
+    expect(enemyData.targetEntity).toBe(near)
+    expect(world.getComponent(enemy, COMPONENTS.VELOCITY)!.vx).toBeGreaterThan(0)
+  })
+
+  it('should ignore players outside detection range', () => {
+    spawn(100 + enemyData.detectionRange + 50, 100, COMPONENTS.PLAYER)
+    const ai = createEnemyAISystem(quad)
+
+    ai.update(world as any)
+
+    expect(enemyData.targetEntity).toBeUndefined()
+  })
+
+  it('should fall back to the Spatial resource', () => {
+    const player = spawn(150, 100, COMPONENTS.PLAYER)
+    world.setResource(Spatial, { index: quad })
+    const ai = createEnemyAISystem()
+
+    ai.update(world as any)
+
+    expect(enemyData.targetEntity).toBe(player)
+  })
+
+  it('should not start chasing players hidden behind level walls', () => {
+    spawn(150, 100, COMPONENTS.PLAYER)
+    const wall = [{ x: 120, y: 50 }, { x: 130, y: 50 }, { x: 130, y: 150 }, { x: 120, y: 150 }]
+    world.setResource(LevelGeometry, { geometry: createStaticGeometry({ walls: [wall] }) })
+    const ai = createEnemyAISystem(quad)
+    const speed = () => Math.hypot(world.getComponent(enemy, COMPONENTS.VELOCITY)!.vx, world.getComponent(enemy, COMPONENTS.VELOCITY)!.vy)
+
+    ai.update(world as any)
+    ai.update(world as any)
+    // Still patrolling
+    expect(speed()).toBeCloseTo(enemyData.patrolSpeed)
+
+    world.setResource(LevelGeometry, { geometry: null })
+    ai.update(world as any)
+    ai.update(world as any)
+    expect(speed()).toBeCloseTo(enemyData.speed)
+  })
+
+  it('should shoot projectiles at the player when ranged', () => {
+    const player = spawn(200, 100, COMPONENTS.PLAYER)
+    enemyData.attackRange = 150
+    enemyData.lastAttackTime = -enemyData.attackCooldown
+    enemyData.projectile = {
+      speed: 200, lifetime: 1, range: 200, pierce: 0, falloffStart: 1, minDamageScale: 1,
+      radius: 3, sprite: 'arrow', color: '#8a6a3a',
+    }
+    const ai = createEnemyAISystem(quad)
+
+    for (let i = 0; i < 3; i++) ai.update(world as any)
+
+    const shots = world.query(COMPONENTS.PROJECTILE)
+    expect(shots).toHaveLength(1)
+    const shot = shots[0].entity
+    expect((shots[0].comps[0] as Projectile).owner).toBe(enemy)
+    expect(world.getComponent(shot, COMPONENTS.VELOCITY)).toEqual({ vx: 200, vy: 0 })
+    expect(world.getComponent(shot, COMPONENTS.COLLIDER)?.mask).toBe(COLLISION_LAYERS.PLAYER)
+    expect(enemyData.targetEntity).toBe(player)
+  })
+
+  it('should not look for targets without a spatial index', () => {
+    spawn(150, 100, COMPONENTS.PLAYER)
+    const ai = createEnemyAISystem()
+
+    ai.update(world as any)
+
+    expect(enemyData.targetEntity).toBeUndefined()
+  })
+})
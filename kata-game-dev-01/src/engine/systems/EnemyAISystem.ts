@@ -10,20 +10,22 @@ import {
     createIdleBehavior,
     createReturnBehavior,
     type EnemyBehavior,
-    EnemyState
+    EnemyState,
+    type TargetIndex
 } from './EnemyAIBehaviors'
 
 // Behavior map for state-based AI
-const createBehaviorMap = (): Record<EnemyState, EnemyBehavior> => ({
-    [EnemyState.IDLE]: createIdleBehavior(),
+const createBehaviorMap = (index?: TargetIndex): Record<EnemyState, EnemyBehavior> => ({
+    [EnemyState.IDLE]: createIdleBehavior(index),
     [EnemyState.CHASING]: createChaseBehavior(),
     [EnemyState.ATTACKING]: createAttackBehavior(),
     [EnemyState.RETURNING]: createReturnBehavior()
 })
 
-// Enemy AI system factory
-export const createEnemyAISystem = () => {
-    const behaviorMap = createBehaviorMap()
+// Enemy AI system factory; idle enemies acquire nearby players as targets through the given
+// spatial index, or the world's Spatial resource when none is given
+export const createEnemyAISystem = (index?: TargetIndex) => {
+    const behaviorMap = createBehaviorMap(index)
 
     // Track current state per enemy (entity -> state)
     const enemyStates = new Map<number, EnemyState>()
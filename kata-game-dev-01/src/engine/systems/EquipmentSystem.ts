@@ -54,6 +54,24 @@ export class EquipmentSystem {
     return EQUIPMENT_SLOTS.includes(slot as EquipmentSlot)
   }
 
+  /**
+   * Check whether an item may go into a slot: weapons in mainHand/offHand,
+   * armor in armor slots.
+   *
+   * @example
+   * ```ts
+   * if (equipmentSystem.canEquip('chest', item)) equipmentSystem.equip(playerId, 'chest', item)
+   * ```
+   */
+  canEquip = (slot: string, item: InventoryItem): boolean => {
+    if (!this.isValidSlot(slot)) return false
+    const def = getItemDefinition(item.id)
+    if (!def) return false
+    if (def.type === 'weapon' && !['mainHand', 'offHand'].includes(slot)) return false
+    if (def.type === 'armor' && ['mainHand', 'offHand'].includes(slot)) return false
+    return true
+  }
+
   /**
    * Equip an item instance (from inventory) into a given slot.
    * Returns true if successful.
@@ -65,13 +83,8 @@ export class EquipmentSystem {
    * ```
    */
   equip = (entity: number, slot: string, item: InventoryItem): boolean => {
-    if (!this.isValidSlot(slot)) return false
+    if (!this.canEquip(slot, item)) return false
     const def = getItemDefinition(item.id)
-    if (!def) return false
-
-    // Only allow weapons in mainHand/offHand, armor in armor slots
-    if (def.type === 'weapon' && !['mainHand', 'offHand'].includes(slot)) return false
-    if (def.type === 'armor' && ['mainHand', 'offHand'].includes(slot)) return false
 
     // read current equipment
     const equipment = this.world.getComponent(entity, COMPONENTS.EQUIPMENT) || { slots: {} }
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { createHierarchySystem } from './HierarchySystem'
+
+describe('HierarchySystem', () => {
+  let world: World
+  let hierarchy: ReturnType<typeof createHierarchySystem>
+
+  beforeEach(() => {
+    world = new World()
+    hierarchy = createHierarchySystem()
+  })
+
+  it('should place children relative to their parent', () => {
+    const parent = world.createEntity()
+    world.addComponent(parent, COMPONENTS.TRANSFORM, { x: 100, y: 50 })
+    const child = world.createEntity()
+    world.addComponent(child, COMPONENTS.LOCAL_TRANSFORM, { x: 10, y: -5 })
+    world.setParent(child, parent)
+
+    hierarchy.update(world)
+
+    expect(world.getComponent(child, COMPONENTS.TRANSFORM)).toMatchObject({ x: 110, y: 45 })
+  })
+
+  it('should follow the parent when it moves', () => {
+    const parent = world.createEntity()
+    world.addComponent(parent, COMPONENTS.TRANSFORM, { x: 0, y: 0 })
+    const child = world.createEntity()
+    world.addComponent(child, COMPONENTS.LOCAL_TRANSFORM, { x: 10, y: 0 })
+    world.setParent(child, parent)
+    hierarchy.update(world)
+
+    const parentTransform = world.getComponent(parent, COMPONENTS.TRANSFORM)!
+    parentTransform.x = 30
+    const since = world.getChangeTick()
+    hierarchy.update(world)
+
+    expect(world.getComponent(child, COMPONENTS.TRANSFORM)).toMatchObject({ x: 40, y: 0 })
+    expect(world.queryChanged(COMPONENTS.TRANSFORM, since).map(r => r.entity)).toEqual([child])
+  })
+
+  it('should apply parent rotation to the local offset', () => {
+    const parent = world.createEntity()
+    world.addComponent(parent, COMPONENTS.TRANSFORM, { x: 0, y: 0, rotation: Math.PI / 2 })
+    const child = world.createEntity()
+    world.addComponent(child, COMPONENTS.LOCAL_TRANSFORM, { x: 10, y: 0, rotation: 0.5 })
+    world.setParent(child, parent)
+
+    hierarchy.update(world)
+
+    const t = world.getComponent(child, COMPONENTS.TRANSFORM)!
+    expect(t.x).toBeCloseTo(0)
+    expect(t.y).toBeCloseTo(10)
+    expect(t.rotation).toBeCloseTo(Math.PI / 2 + 0.5)
+  })
+
+  it('should resolve multi-level chains in one update', () => {
+    const root = world.createEntity()
+    world.addComponent(root, COMPONENTS.TRANSFORM, { x: 1, y: 1 })
+    const mid = world.createEntity()
+    world.addComponent(mid, COMPONENTS.LOCAL_TRANSFORM, { x: 1, y: 0 })
+    const leaf = world.createEntity()
+    world.addComponent(leaf, COMPONENTS.LOCAL_TRANSFORM, { x: 0, y: 1 })
+    // Attach leaf before mid is attached to make sure order does not matter
+    world.setParent(leaf, mid)
+    world.setParent(mid, root)
+
+    hierarchy.update(world)
+
+    expect(world.getComponent(leaf, COMPONENTS.TRANSFORM)).toMatchObject({ x: 2, y: 2 })
+  })
+
+  it('should not mark unchanged children', () => {
+    const parent = world.createEntity()
+    world.addComponent(parent, COMPONENTS.TRANSFORM, { x: 0, y: 0 })
+    const child = world.createEntity()
+    world.addComponent(child, COMPONENTS.LOCAL_TRANSFORM, { x: 5, y: 5 })
+    world.setParent(child, parent)
+    hierarchy.update(world)
+
+    const since = world.getChangeTick()
+    hierarchy.update(world)
+
+    expect(world.queryChanged(COMPONENTS.TRANSFORM, since)).toEqual([])
+  })
+})
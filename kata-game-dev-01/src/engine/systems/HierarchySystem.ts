@@ -0,0 +1,59 @@
+import type { World, Entity } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import type { LocalTransform, Parent, Transform } from '@components'
+
+// Hierarchy system: resolves world Transforms of child entities from their
+// parent's world Transform and their own LocalTransform. Parents are always
+// resolved before their children, so chains of any depth settle in one pass.
+// Render and spatial sync keep reading Transform, which is world space.
+export const createHierarchySystem = () => {
+  // Compose a parent's world transform with a child's local offset
+  const compose = (parent: Transform, local: LocalTransform): Transform => {
+    const rot = parent.rotation ?? 0
+    const cos = Math.cos(rot)
+    const sin = Math.sin(rot)
+    return {
+      x: parent.x + local.x * cos - local.y * sin,
+      y: parent.y + local.x * sin + local.y * cos,
+      rotation: rot + (local.rotation ?? 0)
+    }
+  }
+
+  const propagate = (world: World, entity: Entity, worldTransform: Transform) => {
+    for (const child of world.getChildren(entity)) {
+      const local = world.getComponent(child, COMPONENTS.LOCAL_TRANSFORM) as LocalTransform | undefined
+      let resolved = world.getComponent(child, COMPONENTS.TRANSFORM) as Transform | undefined
+      if (local) {
+        const next = compose(worldTransform, local)
+        if (!resolved) {
+          world.addComponent(child, COMPONENTS.TRANSFORM, next)
+          resolved = next
+        } else if (resolved.x !== next.x || resolved.y !== next.y || resolved.rotation !== next.rotation) {
+          // Write in place and record the change for batched consumers
+          resolved.x = next.x
+          resolved.y = next.y
+          resolved.rotation = next.rotation
+          world.markChanged(child, COMPONENTS.TRANSFORM)
+        }
+      }
+      if (resolved) propagate(world, child, resolved)
+    }
+  }
+
+  const update = (world: World) => {
+    // Find hierarchy roots: parents that are not children themselves
+    const roots = new Set<Entity>()
+    for (const { comps } of world.query(COMPONENTS.PARENT)) {
+      let root = (comps[0] as Parent).entity
+      for (let up = world.getParent(root); up !== undefined; up = world.getParent(up)) root = up
+      roots.add(root)
+    }
+
+    for (const root of roots) {
+      const rootTransform = world.getComponent(root, COMPONENTS.TRANSFORM) as Transform | undefined
+      if (rootTransform) propagate(world, root, rootTransform)
+    }
+  }
+
+  return { update }
+}
@@ -1,4 +1,5 @@
 import { COMPONENTS } from '@engine/constants'
+import { Input } from '@engine/Resources'
 
 // Input action types as const object for type safety
 export const INPUT_ACTIONS = {
@@ -47,6 +48,7 @@ export interface InputSystemConfig {
 /**
  * Input system: handles keyboard input and translates to game actions.
  * Supports configurable key bindings for future HUD-based configuration.
+ * Each update publishes the current input state as the world's Input resource.
  */
 export const createInputSystem = (config: Partial<InputSystemConfig> = {}) => {
   const mapping: InputMapping = config.mapping || DEFAULT_INPUT_MAPPING
@@ -112,8 +114,17 @@ export const createInputSystem = (config: Partial<InputSystemConfig> = {}) => {
     })
   }
 
+  // Publish this frame's input as the world's Input resource
+  const publishInput = (world: any) => {
+    world.setResource(Input, {
+      pressedKeys: Array.from(pressedKeys),
+      actions: Object.fromEntries(actionStates)
+    })
+  }
+
   // Update function called each frame
   const update = (world: any, playerEntity: number, dt: number) => {
+    publishInput(world)
     updateMovement(world, playerEntity, dt)
   }
 
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { InventorySystem } from '@engine/systems/InventorySystem'
 import { createItem } from '@components/Item'
+import { World } from '@engine/ECS'
+import { Random, createRandomState, getRandomStream } from '@engine/Random'
 
 describe('InventorySystem', () => {
   let inventory: InventorySystem
@@ -21,6 +23,18 @@ describe('InventorySystem', () => {
       expect(inventory.getItemQuantity('sword')).toBe(1)
     })
 
+    it('should draw instance IDs from the given world stream', () => {
+      const ids = () => {
+        const world = new World()
+        world.setResource(Random, createRandomState(7))
+        const seeded = new InventorySystem(20, 100, getRandomStream(world, 'loot').next)
+        seeded.addItem(sword)
+        seeded.addItem(armor)
+        return seeded.getAllItems().map(e => e.instanceId)
+      }
+      expect(ids()).toEqual(ids())
+    })
+
     it('should stack consumables', () => {
       inventory.addItem(potion, 5)
       inventory.addItem(potion, 3)
@@ -6,7 +6,7 @@
  *
  * @example
  * ```ts
- * const inventory = new InventorySystem(maxSlots, maxWeight)
+ * const inventory = new InventorySystem(maxSlots, maxWeight, getRandomStream(world, 'loot').next)
  *
  * // Add item
  * inventory.addItem(potion, 5)
@@ -29,6 +29,7 @@ import {
   type Item,
   type InventoryEntry,
 } from '@components/Item'
+import { defaultRandom, type RandomFn } from '@engine/Random'
 
 /**
  * Inventory System
@@ -39,21 +40,26 @@ export class InventorySystem {
   private items: InventoryEntry[] = []
   private maxSlots: number
   private maxWeight: number
+  // Source of entry instance ids
+  private random: RandomFn
 
   /**
    * Create new inventory.
    *
    * @param maxSlots - Maximum inventory slots
    * @param maxWeight - Maximum weight capacity in kg
+   * @param random - Source for entry instance ids; pass a world stream so they follow the saved seed (default: unseeded fallback stream)
    *
    * @example
    * ```ts
    * const inventory = new InventorySystem(20, 50) // 20 slots, 50kg max
+   * const seeded = new InventorySystem(20, 50, getRandomStream(world, 'loot').next)
    * ```
    */
-  constructor(maxSlots: number = 20, maxWeight: number = 100) {
+  constructor(maxSlots: number = 20, maxWeight: number = 100, random: RandomFn = defaultRandom.next) {
     this.maxSlots = maxSlots
     this.maxWeight = maxWeight
+    this.random = random
   }
 
   /**
@@ -93,7 +99,7 @@ export class InventorySystem {
     if (this.items.length >= this.maxSlots) return false
 
     // Add new entry
-    this.items.push(createInventoryEntry(item, quantity))
+    this.items.push(createInventoryEntry(item, quantity, this.random))
     return true
   }
 
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry } from '@engine/Resources'
+import { createCollider, createPhysicsBody, COLLISION_LAYERS } from '@components'
+import { createStaticGeometry } from '@engine/spatial/StaticGeometry'
+import { applyForce, applyImpulse, createMovementSystem } from './MovementSystem'
+
+describe('MovementSystem', () => {
+  let world: World
+  const movement = createMovementSystem()
+
+  const spawn = (x: number, y: number, vx: number, vy: number, radius?: number) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    world.addComponent(entity, COMPONENTS.VELOCITY, { vx, vy })
+    if (radius !== undefined) world.addComponent(entity, COMPONENTS.COLLIDER, createCollider(radius, COLLISION_LAYERS.PLAYER))
+    return entity
+  }
+
+  beforeEach(() => {
+    world = new World()
+    // Solid column of tiles at x 100..120
+    world.setResource(LevelGeometry, {
+      geometry: createStaticGeometry({ tiles: { tileSize: 20, rows: Array.from({ length: 10 }, () => '.....#') } }),
+    })
+  })
+
+  it('should move entities by their velocity and record the change', () => {
+    const entity = spawn(0, 0, 10, -20)
+    const cursor = world.createChangeCursor()
+
+    movement.update(world, 0.5)
+
+    expect(world.getComponent(entity, COMPONENTS.TRANSFORM)).toMatchObject({ x: 5, y: -10 })
+    expect([...cursor.changed(COMPONENTS.TRANSFORM)].map(h => h.entity)).toEqual([entity])
+  })
+
+  it('should stop solid colliders at walls', () => {
+    const entity = spawn(80, 100, 100, 0, 10)
+
+    for (let i = 0; i < 30; i++) movement.update(world, 1 / 60)
+
+    expect(world.getComponent(entity, COMPONENTS.TRANSFORM)!.x).toBeCloseTo(90)
+    expect(world.getComponent(entity, COMPONENTS.VELOCITY)!.vx).toBeCloseTo(0)
+  })
+
+  it('should not let fast bodies tunnel through thin walls', () => {
+    const entity = spawn(80, 100, 3000, 0, 5)
+
+    movement.update(world, 1 / 30)
+
+    expect(world.getComponent(entity, COMPONENTS.TRANSFORM)!.x).toBeLessThanOrEqual(95)
+  })
+
+  it('should slide along walls', () => {
+    const entity = spawn(85, 100, 100, 100, 10)
+
+    movement.update(world, 0.5)
+
+    const t = world.getComponent(entity, COMPONENTS.TRANSFORM)!
+    expect(t.x).toBeCloseTo(90)
+    expect(t.y).toBeCloseTo(150)
+    expect(world.getComponent(entity, COMPONENTS.VELOCITY)).toMatchObject({ vx: 0, vy: 100 })
+  })
+
+  it('should let entities without a solid collider pass', () => {
+    const point = spawn(80, 100, 100, 0)
+    const ghost = spawn(80, 120, 100, 0, 10)
+    world.getComponent(ghost, COMPONENTS.COLLIDER)!.solid = false
+
+    movement.update(world, 0.5)
+
+    expect(world.getComponent(point, COMPONENTS.TRANSFORM)!.x).toBe(130)
+    expect(world.getComponent(ghost, COMPONENTS.TRANSFORM)!.x).toBe(130)
+  })
+
+  describe('physics bodies', () => {
+    // Open field, no walls
+    beforeEach(() => world.setResource(LevelGeometry, { geometry: null }))
+
+    const body = (entity: number) => world.getComponent(entity, COMPONENTS.PHYSICS_BODY)!
+
+    it('should move by impulses on top of the intent velocity', () => {
+      const entity = spawn(0, 0, 10, 0)
+      world.addComponent(entity, COMPONENTS.PHYSICS_BODY, createPhysicsBody({ drag: 0, friction: 0 }))
+
+      applyImpulse(world, entity, 0, 100)
+      movement.update(world, 0.5)
+      // Input rewrites the intent velocity every frame; the knockback survives it
+      world.addComponent(entity, COMPONENTS.VELOCITY, { vx: 10, vy: 0 })
+      movement.update(world, 0.5)
+
+      expect(world.getComponent(entity, COMPONENTS.TRANSFORM)).toMatchObject({ x: 10, y: 100 })
+    })
+
+    it('should damp the external velocity with drag and friction until it rests', () => {
+      const entity = spawn(0, 0, 0, 0)
+      world.addComponent(entity, COMPONENTS.PHYSICS_BODY, createPhysicsBody({ drag: 2, friction: 0 }))
+      applyImpulse(world, entity, 100, 0)
+
+      movement.update(world, 0.5)
+      expect(body(entity).vx).toBeCloseTo(100 * Math.exp(-1))
+
+      body(entity).friction = 1000
+      movement.update(world, 0.5)
+      expect(body(entity)).toMatchObject({ vx: 0, vy: 0 })
+      const x = world.getComponent(entity, COMPONENTS.TRANSFORM)!.x
+
+      movement.update(world, 0.5)
+      expect(world.getComponent(entity, COMPONENTS.TRANSFORM)!.x).toBe(x)
+    })
+
+    it('should apply accumulated forces once per step and clear them', () => {
+      const entity = spawn(0, 0, 0, 0)
+      world.addComponent(entity, COMPONENTS.PHYSICS_BODY, createPhysicsBody({ drag: 0, friction: 0 }))
+
+      applyForce(world, entity, 30, 0)
+      applyForce(world, entity, 10, -20)
+      movement.update(world, 0.5)
+
+      expect(body(entity)).toMatchObject({ vx: 20, vy: -10, fx: 0, fy: 0 })
+      movement.update(world, 0.5)
+      expect(body(entity)).toMatchObject({ vx: 20, vy: -10 })
+    })
+
+    it('should scale impulses by the collider mass and ignore immovable entities', () => {
+      const heavy = spawn(0, 0, 0, 0)
+      world.addComponent(heavy, COMPONENTS.COLLIDER, createCollider(10, COLLISION_LAYERS.ENEMY, { mass: 4 }))
+      const wall = spawn(50, 0, 0, 0)
+      world.addComponent(wall, COMPONENTS.COLLIDER, createCollider(10, COLLISION_LAYERS.NPC, { immovable: true }))
+
+      applyImpulse(world, heavy, 200, 0)
+      applyImpulse(world, wall, 200, 0)
+
+      expect(body(heavy)).toMatchObject({ vx: 50, vy: 0 })
+      expect(world.getComponent(wall, COMPONENTS.PHYSICS_BODY)).toBeUndefined()
+    })
+
+    it('should cap the combined speed at the max speed', () => {
+      const entity = spawn(0, 0, 100, 0)
+      world.addComponent(entity, COMPONENTS.PHYSICS_BODY, createPhysicsBody({ drag: 0, friction: 0, maxSpeed: 150 }))
+      applyImpulse(world, entity, 200, 0)
+
+      movement.update(world, 1)
+
+      expect(world.getComponent(entity, COMPONENTS.TRANSFORM)!.x).toBeCloseTo(150)
+      expect(body(entity).vx).toBeCloseTo(100)
+    })
+
+    it('should stop knockback at walls', () => {
+      world.setResource(LevelGeometry, {
+        geometry: createStaticGeometry({ tiles: { tileSize: 20, rows: Array.from({ length: 10 }, () => '.....#') } }),
+      })
+      const entity = spawn(80, 100, 0, 0, 10)
+      applyImpulse(world, entity, 400, 100)
+
+      movement.update(world, 0.25)
+
+      expect(world.getComponent(entity, COMPONENTS.TRANSFORM)!.x).toBeCloseTo(90)
+      expect(body(entity).vx).toBe(0)
+      expect(body(entity).vy).toBeGreaterThan(0)
+    })
+  })
+})
@@ -1,18 +1,154 @@
+import type { Entity, World } from '@engine/ECS'
+import type { CommandBuffer } from '@engine/CommandBuffer'
 import type { TypedWorld } from '@engine/componentTypes'
 import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry } from '@engine/Resources'
+import { createPhysicsBody, inverseMass, type Collider, type PhysicsBody, type Transform, type Velocity } from '@components'
+import type { StaticGeometry } from '@engine/spatial/StaticGeometry'
 
-// Movement system: updates Transform by Velocity each frame
+// External speeds below this count as at rest
+const REST_SPEED = 0.01
+
+// Move a solid circle by the sum of its velocities, stopping at walls and sliding along them.
+// The move is split into steps no longer than the radius so fast bodies can't tunnel through thin walls.
+const moveAgainstWalls = (geometry: StaticGeometry, t: Transform, velocities: Velocity[], radius: number, dt: number) => {
+  const total = () => velocities.reduce((sum, v) => ({ vx: sum.vx + v.vx, vy: sum.vy + v.vy }), { vx: 0, vy: 0 })
+  const start = total()
+  const steps = Math.max(1, Math.ceil(Math.hypot(start.vx, start.vy) * dt / radius))
+  for (let i = 0; i < steps; i++) {
+    const { vx, vy } = total()
+    t.x += vx * dt / steps
+    t.y += vy * dt / steps
+    const { x, y, hit, nx, ny } = geometry.resolveCircle(t.x, t.y, radius)
+    if (!hit) continue
+    t.x = x
+    t.y = y
+    // Keep only the velocity along the wall; knockback into a wall stops there too
+    for (const v of velocities) {
+      const into = v.vx * nx + v.vy * ny
+      if (into < 0) {
+        v.vx -= into * nx
+        v.vy -= into * ny
+      }
+    }
+  }
+}
+
+// Inverse mass for impulses and forces: the collider's (0 when immovable), 1 without a collider
+const bodyInverseMass = (world: World, entity: Entity): number => {
+  const collider = world.getComponent(entity, COMPONENTS.COLLIDER) as Collider | undefined
+  return collider ? inverseMass(collider) : 1
+}
+
+// Fold accumulated forces into the external velocity, then clear them
+const integrateForces = (body: PhysicsBody, invMass: number, dt: number) => {
+  body.vx += body.fx * invMass * dt
+  body.vy += body.fy * invMass * dt
+  body.fx = 0
+  body.fy = 0
+}
+
+// Scale intent and external velocity down so their sum stays under the body's max speed
+const clampSpeed = (v: Velocity, body: PhysicsBody) => {
+  if (body.maxSpeed <= 0) return
+  const speed = Math.hypot(v.vx + body.vx, v.vy + body.vy)
+  if (speed <= body.maxSpeed) return
+  const k = body.maxSpeed / speed
+  v.vx *= k
+  v.vy *= k
+  body.vx *= k
+  body.vy *= k
+}
+
+// Slow the external velocity: exponential drag, then constant friction until it comes to rest
+const dampen = (body: PhysicsBody, dt: number) => {
+  const speed = Math.hypot(body.vx, body.vy)
+  if (speed === 0) return
+  const next = speed * Math.exp(-body.drag * dt) - body.friction * dt
+  const k = next > REST_SPEED ? next / speed : 0
+  body.vx *= k
+  body.vy *= k
+}
+
+// Body to push, created (through the command buffer when given) for entities that don't have one yet
+const pushableBody = (world: World, entity: Entity, commands?: CommandBuffer): PhysicsBody | undefined => {
+  if (bodyInverseMass(world, entity) === 0) return undefined
+  const body = world.getComponent(entity, COMPONENTS.PHYSICS_BODY) as PhysicsBody | undefined
+  if (body) return body
+  const created = createPhysicsBody()
+  if (commands) commands.addComponent(entity, COMPONENTS.PHYSICS_BODY, created)
+  else world.addComponent(entity, COMPONENTS.PHYSICS_BODY, created)
+  return created
+}
+
+/**
+ * Push an entity: its external velocity changes by impulse / mass.
+ *
+ * Mass comes from the collider; immovable entities ignore impulses.
+ * Entities without a PhysicsBody get one with default damping, recorded
+ * into `commands` when given so it lands at the next sync point.
+ *
+ * @example
+ * ```ts
+ * applyImpulse(world, enemy, nx * 200, ny * 200) // knock back along (nx, ny)
+ * ```
+ */
+export const applyImpulse = (world: World, entity: Entity, ix: number, iy: number, commands?: CommandBuffer): void => {
+  const body = pushableBody(world, entity, commands)
+  if (!body) return
+  const invMass = bodyInverseMass(world, entity)
+  body.vx += ix * invMass
+  body.vy += iy * invMass
+}
+
+/**
+ * Add a force for the next movement step (wind, currents, pulls).
+ *
+ * Forces accumulate until the movement system applies them as
+ * force / mass * dt and clears them; apply them again every frame for a
+ * continuous push.
+ *
+ * @example
+ * ```ts
+ * applyForce(world, player, 0, 300) // river current
+ * ```
+ */
+export const applyForce = (world: World, entity: Entity, fx: number, fy: number, commands?: CommandBuffer): void => {
+  const body = pushableBody(world, entity, commands)
+  if (!body) return
+  body.fx += fx
+  body.fy += fy
+}
+
+// Movement system: updates Transform by Velocity each frame; solid colliders are blocked by the level's static geometry.
+// Entities with a PhysicsBody also move by its external velocity (forces applied first), capped at its max speed and damped afterwards.
 export const createMovementSystem = () => {
   const update = (world: TypedWorld, dt: number) => {
+    const geometry = world.getResource(LevelGeometry).geometry
     const hits = world.query(COMPONENTS.TRANSFORM, COMPONENTS.VELOCITY)
     for (const h of hits) {
       const entity = h.entity
       const t = h.comps[0]
       const v = h.comps[1]
-      t.x += v.vx * dt
-      t.y += v.vy * dt
-      // Notify world that Transform was updated in-place
-      world.markComponentUpdated(entity, COMPONENTS.TRANSFORM)
+      const body: PhysicsBody | undefined = world.getComponent(entity, COMPONENTS.PHYSICS_BODY)
+      if (body) {
+        integrateForces(body, bodyInverseMass(world, entity), dt)
+        clampSpeed(v, body)
+      }
+      const velocities = body ? [v, body] : [v]
+      if (velocities.every(u => u.vx === 0 && u.vy === 0)) continue
+      const collider: Collider | undefined = geometry ? world.getComponent(entity, COMPONENTS.COLLIDER) : undefined
+      if (geometry && collider?.solid && !collider.isTrigger && collider.radius > 0) {
+        moveAgainstWalls(geometry, t, velocities, collider.radius, dt)
+      } else {
+        for (const u of velocities) {
+          t.x += u.vx * dt
+          t.y += u.vy * dt
+        }
+      }
+      if (body) dampen(body, dt)
+      // Record the in-place write; consumers read it in batch via change queries
+      world.markChanged(entity, COMPONENTS.TRANSFORM)
     }
   }
 
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { World, type Entity } from '@engine/ECS'
+import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry } from '@engine/Resources'
+import { createRandomStream } from '@engine/Random'
+import { COLLISION_LAYERS, createCollider, projectileDamageScale, type ProjectileKind } from '@components'
+import { createWeapon, type Weapon } from '@components/Weapon'
+import type { Skill } from '@components/Skill'
+import { createStaticGeometry } from '@engine/spatial/StaticGeometry'
+import { createCollisionSystem } from './CollisionSystem'
+import { createMovementSystem } from './MovementSystem'
+import { createProjectileSystem, skillWeapon, spawnProjectile, type ProjectileLaunch } from './ProjectileSystem'
+
+const { PLAYER, ENEMY, PROJECTILE } = COLLISION_LAYERS
+
+describe('ProjectileSystem', () => {
+  const arrow: ProjectileKind = {
+    speed: 100, lifetime: 2, range: 150, pierce: 0, falloffStart: 0.5, minDamageScale: 0.5,
+    radius: 3, sprite: 'arrow', color: '#8a6a3a',
+  }
+
+  let world: World
+  let roll: number
+  let projectiles: ReturnType<typeof createProjectileSystem>
+  let collision: ReturnType<typeof createCollisionSystem>
+  let movement: ReturnType<typeof createMovementSystem>
+  let shooter: Entity
+  let bow: Weapon
+
+  const spawnEnemy = (x: number, y = 0) => {
+    const entity = world.createEntity()
+    world.addComponent(entity, COMPONENTS.TRANSFORM, { x, y, rotation: 0 })
+    world.addComponent(entity, COMPONENTS.HEALTH, { current: 50, max: 50 })
+    world.addComponent(entity, COMPONENTS.COLLIDER, createCollider(10, ENEMY))
+    world.addComponent(entity, COMPONENTS.HOSTILE, {})
+    return entity
+  }
+
+  const launch = (overrides: Partial<ProjectileLaunch> = {}): ProjectileLaunch =>
+    ({ owner: shooter, weapon: bow, kind: arrow, x: 0, y: 0, dirX: 1, dirY: 0, mask: ENEMY, ...overrides })
+
+  // One simulation step in scheduler order
+  const step = (dt: number) => {
+    movement.update(world as any, dt)
+    projectiles.update(dt)
+    collision.update(world)
+  }
+
+  const hp = (entity: Entity) => world.getComponent(entity, COMPONENTS.HEALTH)!.current
+
+  beforeEach(() => {
+    world = new World()
+    // 0.5 always hits; a 10 damage bow then rolls exactly 10
+    roll = 0.5
+    projectiles = createProjectileSystem(world, createRandomStream(() => roll))
+    collision = createCollisionSystem()
+    movement = createMovementSystem()
+    shooter = world.createEntity()
+    world.addComponent(shooter, COMPONENTS.TRANSFORM, { x: 0, y: 0, rotation: 0 })
+    world.addComponent(shooter, COMPONENTS.HEALTH, { current: 100, max: 100 })
+    world.addComponent(shooter, COMPONENTS.COLLIDER, createCollider(10, PLAYER))
+    bow = createWeapon('bow_1', 'Test Bow', 'bow', 10)
+  })
+
+  it('should spawn a trigger projectile flying along the launch direction', () => {
+    const entity = spawnProjectile(world, launch({ dirX: 0, dirY: 3 }))
+
+    expect(world.getComponent(entity, COMPONENTS.TRANSFORM)).toEqual({ x: 0, y: 0, rotation: Math.PI / 2 })
+    expect(world.getComponent(entity, COMPONENTS.VELOCITY)).toEqual({ vx: 0, vy: 100 })
+    expect(world.getComponent(entity, COMPONENTS.COLLIDER)).toMatchObject({ radius: 3, layer: PROJECTILE, isTrigger: true, solid: false, mask: ENEMY })
+    expect(world.getComponent(entity, COMPONENTS.RENDERABLE)).toMatchObject({ type: 'arrow', color: '#8a6a3a' })
+    expect(world.getComponent(entity, COMPONENTS.PROJECTILE)).toMatchObject({ owner: shooter, originX: 0, originY: 0, age: 0, hits: [] })
+  })
+
+  it('should expire projectiles after their lifetime or range', () => {
+    const slow = spawnProjectile(world, launch({ kind: { ...arrow, speed: 10 } }))
+    const fast = spawnProjectile(world, launch())
+
+    step(0.5)
+    step(0.5)
+    expect(world.isAlive(fast)).toBe(true)
+    step(0.5)
+    expect(world.isAlive(fast)).toBe(false)
+    expect(world.isAlive(slow)).toBe(true)
+    step(0.5)
+    expect(world.isAlive(slow)).toBe(false)
+  })
+
+  it('should stop at level walls', () => {
+    world.setResource(LevelGeometry, {
+      geometry: createStaticGeometry({ walls: [[{ x: 50, y: -50 }, { x: 60, y: -50 }, { x: 60, y: 50 }, { x: 50, y: 50 }]] }),
+    })
+    const enemy = spawnEnemy(100)
+    const entity = spawnProjectile(world, launch())
+
+    step(0.3)
+    expect(world.isAlive(entity)).toBe(true)
+    step(0.3)
+    expect(world.isAlive(entity)).toBe(false)
+    for (let i = 0; i < 5; i++) step(0.1)
+    expect(hp(enemy)).toBe(50)
+  })
+
+  it('should damage the first enemy it reaches and disappear', () => {
+    const near = spawnEnemy(40)
+    const far = spawnEnemy(90)
+    const entity = spawnProjectile(world, launch())
+
+    for (let i = 0; i < 10; i++) step(0.1)
+
+    expect(hp(near)).toBe(40)
+    expect(hp(far)).toBe(50)
+    expect(world.isAlive(entity)).toBe(false)
+  })
+
+  it('should deal less damage past the falloff start', () => {
+    // Reached after flying 110 of 150: scale 1 - 0.5 * (110 - 75) / 75 ≈ 0.77
+    const enemy = spawnEnemy(120)
+    spawnProjectile(world, launch())
+
+    for (let i = 0; i < 12; i++) step(0.1)
+
+    expect(hp(enemy)).toBe(42)
+  })
+
+  it('should pass through as many extra targets as its pierce allows', () => {
+    const enemies = [spawnEnemy(40), spawnEnemy(80), spawnEnemy(120)]
+    spawnProjectile(world, launch({ kind: { ...arrow, pierce: 1, falloffStart: 1 } }))
+
+    for (let i = 0; i < 14; i++) step(0.1)
+
+    expect(enemies.map(hp)).toEqual([40, 40, 50])
+  })
+
+  it('should keep flying after a miss and never hit its owner', () => {
+    roll = 0
+    const archer = spawnEnemy(0)
+    const enemy = spawnEnemy(40)
+    const entity = spawnProjectile(world, launch({ owner: archer }))
+
+    for (let i = 0; i < 5; i++) step(0.1)
+
+    expect(hp(archer)).toBe(50)
+    expect(hp(enemy)).toBe(50)
+    expect(world.isAlive(entity)).toBe(true)
+    expect(world.getComponent(entity, COMPONENTS.PROJECTILE)?.hits).toEqual([enemy])
+  })
+
+  it('should only fire when the weapon is ready', () => {
+    expect(projectiles.fire(launch())).toBeDefined()
+    expect(projectiles.fire(launch())).toBeUndefined()
+    expect(bow.durability.current).toBe(99)
+  })
+
+  it('should stop resolving hits once disposed', () => {
+    const enemy = spawnEnemy(40)
+    spawnProjectile(world, launch())
+    projectiles.dispose()
+
+    for (let i = 0; i < 5; i++) step(0.1)
+
+    expect(hp(enemy)).toBe(50)
+  })
+
+  it('should scale damage linearly from the falloff start to the end of the range', () => {
+    expect(projectileDamageScale(arrow, 0)).toBe(1)
+    expect(projectileDamageScale(arrow, 75)).toBe(1)
+    expect(projectileDamageScale(arrow, 112.5)).toBeCloseTo(0.75)
+    expect(projectileDamageScale(arrow, 400)).toBe(0.5)
+    expect(projectileDamageScale({ ...arrow, falloffStart: 1 }, 150)).toBe(1)
+  })
+
+  it('should turn damaging skills into weapons', () => {
+    const weapon = skillWeapon({
+      id: 'skill_fireball', name: 'Fireball', type: 'spell', damage: { baseValue: 20, variance: 5, type: 'fire' },
+      cooldown: 3000, range: 200, cost: { type: 'mana', amount: 30 }, effects: [], castTime: 500,
+    })
+
+    expect(weapon).toMatchObject({ id: 'skill_fireball', type: 'staff', range: 200, damage: { baseValue: 20, variance: 5, type: 'fire' } })
+  })
+
+  it('should launch skill casts as projectiles once the skill is ready', () => {
+    const enemy = spawnEnemy(40)
+    const fireball: Skill = {
+      id: 'skill_fireball', name: 'Fireball', type: 'spell', damage: { baseValue: 20, variance: 0, type: 'fire' },
+      cooldown: 3000, range: 200, cost: { type: 'none', amount: 0 }, effects: [], castTime: 0,
+    }
+    const { weapon: _, ...shot } = launch()
+
+    const entity = projectiles.cast(fireball, shot)
+    expect(entity).toBeDefined()
+    expect(projectiles.cast(fireball, shot)).toBeUndefined()
+    expect(world.getComponent(entity!, COMPONENTS.PROJECTILE)?.weapon).toMatchObject({ id: 'skill_fireball', type: 'staff' })
+
+    for (let i = 0; i < 5; i++) step(0.1)
+
+    expect(hp(enemy)).toBeLessThan(50)
+    expect(world.isAlive(entity!)).toBe(false)
+  })
+})
@@ -0,0 +1,175 @@
+import type { Entity, World } from '@engine/ECS'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { LevelGeometry } from '@engine/Resources'
+import type { GameEventMap } from '@engine/GameEvents'
+import { getRandomStream, type RandomStream } from '@engine/Random'
+import {
+  COLLISION_LAYERS,
+  createCollider,
+  createProjectile,
+  projectileDamageScale,
+  type Projectile,
+  type ProjectileKind,
+  type Transform,
+  type Velocity
+} from '@components'
+import type { Weapon } from '@components/Weapon'
+import type { Skill } from '@components/Skill'
+import { WeaponSystem } from './WeaponSystem'
+import { SkillSystem, type ResourcePool } from './SkillSystem'
+
+/**
+ * Everything needed to launch a projectile
+ *
+ * @property owner - Shooter; credited with the damage and never hit
+ * @property weapon - Weapon whose damage the hits roll
+ * @property kind - Flight stats, collider size and sprite
+ * @property x - Launch point x
+ * @property y - Launch point y
+ * @property dirX - Flight direction (any length)
+ * @property dirY - Flight direction (any length)
+ * @property mask - Collision layers the projectile hits, e.g. ENEMY for the player's arrows
+ */
+export type ProjectileLaunch = {
+  owner: Entity
+  weapon: Weapon
+  kind: ProjectileKind
+  x: number
+  y: number
+  dirX: number
+  dirY: number
+  mask: number
+}
+
+/**
+ * Spawn a projectile entity flying from the launch point.
+ *
+ * The projectile is a trigger collider on the PROJECTILE layer with a
+ * velocity, a renderable drawn with its kind's sprite (rotated to the
+ * flight direction) and a Projectile component. No cooldown is checked;
+ * see `fire` on the projectile system for weapon attacks.
+ *
+ * @example
+ * ```ts
+ * spawnProjectile(world, { owner: archer, weapon: bow, kind: arrow, x, y, dirX: 1, dirY: 0, mask: COLLISION_LAYERS.PLAYER })
+ * ```
+ */
+export const spawnProjectile = (world: World, launch: ProjectileLaunch): Entity => {
+  const { kind } = launch
+  const len = Math.hypot(launch.dirX, launch.dirY)
+  const nx = len > 0 ? launch.dirX / len : 1
+  const ny = len > 0 ? launch.dirY / len : 0
+
+  const entity = world.createEntity()
+  world.addComponent(entity, COMPONENTS.TRANSFORM, { x: launch.x, y: launch.y, rotation: Math.atan2(ny, nx) })
+  world.addComponent(entity, COMPONENTS.VELOCITY, { vx: nx * kind.speed, vy: ny * kind.speed })
+  world.addComponent(entity, COMPONENTS.COLLIDER, createCollider(kind.radius, COLLISION_LAYERS.PROJECTILE, { isTrigger: true, solid: false, mask: launch.mask }))
+  world.addComponent(entity, COMPONENTS.RENDERABLE, { type: kind.sprite, color: kind.color, radius: kind.radius })
+  world.addComponent(entity, COMPONENTS.PROJECTILE, createProjectile(launch.owner, launch.weapon, kind, launch.x, launch.y))
+  return entity
+}
+
+/**
+ * Weapon stand-in for a damaging skill, so skill projectiles roll their
+ * damage through WeaponSystem like bow and staff shots.
+ *
+ * @example
+ * ```ts
+ * spawnProjectile(world, { ...launch, weapon: skillWeapon(fireball) })
+ * ```
+ */
+export const skillWeapon = (skill: Skill): Weapon => ({
+  id: skill.id,
+  name: skill.name,
+  type: 'staff',
+  damage: {
+    baseValue: skill.damage?.baseValue ?? 0,
+    variance: skill.damage?.variance ?? 0,
+    type: skill.damage?.type
+  },
+  attackSpeed: 1,
+  range: skill.range,
+  weight: 0,
+  durability: { current: 1, max: 1 },
+  effects: []
+})
+
+/**
+ * Projectile system factory.
+ *
+ * - `update(dt)` ages projectiles and removes those past their lifetime or
+ *   range, or that flew into the level's static geometry this step. Run it
+ *   after movement.
+ * - Impacts come from the collision system: on CollisionEnter with an
+ *   entity that has Health (other than its owner) the hit is resolved by
+ *   WeaponSystem with the range falloff applied. A projectile strikes each
+ *   entity once and is removed after a hit unless it has pierce left;
+ *   misses fly on.
+ * - `fire(launch)` checks the owner's weapon cooldown and durability
+ *   before spawning.
+ * - `cast(skill, launch)` casts a damaging skill through SkillSystem
+ *   (cooldown and resources) and launches it with `skillWeapon`.
+ *
+ * @param world - Game world; impacts are read from its collision events
+ * @param random - Hit and damage rolls (default: the world's 'combat' stream)
+ * @returns System with `update`, `fire`, `cast` and `dispose`
+ *
+ * @example
+ * ```ts
+ * const projectiles = createProjectileSystem(world)
+ * scheduler.add({ name: 'projectiles', stage: 'fixed-update', after: ['movement'], run: projectiles.update })
+ * projectiles.fire({ owner: player, weapon: bow, kind: arrow, x, y, dirX, dirY, mask: COLLISION_LAYERS.ENEMY })
+ * projectiles.cast(arcaneBolt, { owner: player, kind: bolt, x, y, dirX, dirY, mask: COLLISION_LAYERS.ENEMY })
+ * ```
+ */
+export const createProjectileSystem = (world: World, random: RandomStream = getRandomStream(world, 'combat')) => {
+  const weapons = new WeaponSystem(world, random)
+  const skills = new SkillSystem(world, random)
+
+  const fire = (launch: ProjectileLaunch): Entity | undefined =>
+    weapons.beginRangedAttack(launch.owner, launch.weapon) ? spawnProjectile(world, launch) : undefined
+
+  const cast = (skill: Skill, launch: Omit<ProjectileLaunch, 'weapon'>, resources?: ResourcePool): Entity | undefined =>
+    skills.castSkill(launch.owner, skill, resources).success
+      ? spawnProjectile(world, { ...launch, weapon: skillWeapon(skill) })
+      : undefined
+
+  const update = (dt: number) => {
+    const geometry = world.getResource(LevelGeometry).geometry
+    const expired: Entity[] = []
+    for (const { entity, comps } of world.query(COMPONENTS.PROJECTILE, COMPONENTS.TRANSFORM, COMPONENTS.VELOCITY)) {
+      const [projectile, t, v] = comps as [Projectile, Transform, Velocity]
+      projectile.age += dt
+      const flown = Math.hypot(t.x - projectile.originX, t.y - projectile.originY)
+      // Walls stop projectiles: check the stretch flown this step
+      const blocked = geometry !== null && !geometry.lineOfSight({ x: t.x - v.vx * dt, y: t.y - v.vy * dt }, t)
+      if (projectile.age >= projectile.lifetime || flown >= projectile.range || blocked) expired.push(entity)
+    }
+    for (const entity of expired) world.removeEntity(entity)
+  }
+
+  const onEnter = ({ a, b }: GameEventMap['CollisionEnter']) => {
+    for (const [entity, target] of [[a, b], [b, a]]) {
+      const projectile = world.getComponent(entity, COMPONENTS.PROJECTILE) as Projectile | undefined
+      if (!projectile || target === projectile.owner || projectile.hits.includes(target)) continue
+      if (world.getComponent(target, COMPONENTS.HEALTH) === undefined) continue
+
+      const t = world.getComponent(entity, COMPONENTS.TRANSFORM) as Transform
+      const flown = Math.hypot(t.x - projectile.originX, t.y - projectile.originY)
+      const result = weapons.resolveProjectileHit(projectile.owner, target, projectile.weapon, projectileDamageScale(projectile, flown), flown)
+      projectile.hits.push(target)
+      if (!result.hit) continue
+      if (projectile.pierce > 0) projectile.pierce--
+      else world.removeEntity(entity)
+    }
+  }
+
+  const offEnter = world.on(GAME_EVENTS.COLLISION_ENTER, onEnter)
+
+  return {
+    update,
+    fire,
+    cast,
+    dispose: offEnter
+  }
+}
@@ -1,5 +1,6 @@
 import type { Entity, World } from '@engine/ECS'
 import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry, Spatial } from '@engine/Resources'
 import { applyDeadZone, CameraConfig, computeSmoothing, DEFAULT_CAMERA_CONFIG, lerp } from './CameraConfig'
 import { createEnemyVisualizationSystem } from './EnemyVisualizationSystem'
 import { drawSprite, drawEntityHealthBar } from './SpriteRenderer'
@@ -104,9 +105,9 @@ export const createRenderSystem = (
     const viewW = canvasSize ? canvasSize.width : logicalW
     const viewH = canvasSize ? canvasSize.height : logicalH
 
-    // ── Level background ────────────────────────────────────────────────────
+    // ── Level background and walls ──────────────────────────────────────────
     const themeType = options?.getThemeType?.() ?? 'forest'
-    drawBackground(ctx, themeType, camX, camY, viewW, viewH, totalTime)
+    drawBackground(ctx, themeType, camX, camY, viewW, viewH, totalTime, world.getResource(LevelGeometry).geometry)
 
     const halfW = viewW / 2
     const halfH = viewH / 2
@@ -116,12 +117,15 @@ export const createRenderSystem = (
     const maxY = camY + halfH
 
     // ── Collect candidates ──────────────────────────────────────────────────
+    // An explicitly passed index wins over the world's Spatial resource
+    const index: SpatialIndex | null = spatialIndex ?? world.getResource(Spatial).index
     let candidates: { x: number; y: number; entity: number }[] = []
-    if (spatialIndex) {
-      candidates = spatialIndex.query({ x: minX, y: minY, w: viewW, h: viewH })
+    if (index) {
+      candidates = index.query({ x: minX, y: minY, w: viewW, h: viewH })
     }
 
     // ── Draw entities ───────────────────────────────────────────────────────
+    // Transform is world space; children are resolved by the hierarchy system
     const drawEntity = (ent: number) => {
       const t    = world.getComponent(ent, COMPONENTS.TRANSFORM)
       const rend = world.getComponent(ent, COMPONENTS.RENDERABLE)
@@ -131,7 +135,7 @@ export const createRenderSystem = (
       const screenX = Math.round((t.x - camX) + viewW / 2)
       const screenY = Math.round((t.y - camY) + viewH / 2)
 
-      drawSprite(ctx, rend.type ?? 'circle', screenX, screenY, radius, totalTime, rend.color)
+      drawSprite(ctx, rend.type ?? 'circle', screenX, screenY, radius, totalTime, rend.color, t.rotation ?? 0)
 
       // Health bar above enemies / NPCs (not above the player)
       const meta = world.getComponent(ent, COMPONENTS.METADATA) as any
@@ -159,7 +163,7 @@ export const createRenderSystem = (
 
     // ── Debug + enemy visualization ─────────────────────────────────────────
     if (debugOverlay?.isEnabled()) {
-      debugOverlay.update(world, camX, camY, viewW, viewH, spatialIndex)
+      debugOverlay.update(world, camX, camY, viewW, viewH, index)
     }
 
     const enemyVisualizationSystem = createEnemyVisualizationSystem()
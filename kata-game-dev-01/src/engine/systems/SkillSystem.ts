@@ -24,6 +24,7 @@
 
 import type { World } from '@engine/ECS'
 import type { Entity } from '@engine/ECS'
+import { getRandomStream, type RandomStream } from '@engine/Random'
 import {
   isSkill,
   calculateSkillDamage,
@@ -82,6 +83,7 @@ interface CastingState {
  */
 export class SkillSystem {
   private world: World
+  private random: RandomStream
   private lastSkillCastTime = new Map<Entity, Map<string, number>>()
   private castingStates = new Map<Entity, CastingState>()
   private resourcePools = new Map<Entity, ResourcePool>()
@@ -90,9 +92,11 @@ export class SkillSystem {
    * Create a new Skill System.
    *
    * @param world - Game world instance
+   * @param random - Damage rolls (default: the world's 'combat' stream)
    */
-  constructor(world: World) {
+  constructor(world: World, random: RandomStream = getRandomStream(world, 'combat')) {
     this.world = world
+    this.random = random
   }
 
   /**
@@ -174,7 +178,7 @@ export class SkillSystem {
     // Calculate damage
     let damage = 0
     if (skill.damage) {
-      damage = calculateSkillDamage(skill)
+      damage = calculateSkillDamage(skill, 1.0, this.random.next)
     }
 
     // Record cast time
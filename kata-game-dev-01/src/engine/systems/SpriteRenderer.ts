@@ -12,10 +12,13 @@ export type SpriteType =
   | 'orc'
   | 'merchant'
   | 'potion_health'
+  | 'arrow'
+  | 'magic_bolt'
   | 'circle'
 
 /**
- * Draw an entity sprite centered at (x, y).
+ * Draw an entity sprite centered at (x, y), turned by `rotation` radians.
+ * Projectile sprites point along +x; others are drawn upright at rotation 0.
  * Falls back to a plain circle for unknown types.
  */
 export function drawSprite(
@@ -25,10 +28,12 @@ export function drawSprite(
   y: number,
   r: number,
   time: number,
-  fallbackColor = '#888'
+  fallbackColor = '#888',
+  rotation = 0
 ): void {
   ctx.save()
   ctx.translate(x, y)
+  if (rotation) ctx.rotate(rotation)
 
   switch (type) {
     case 'player':        drawPlayer(ctx, r, time);   break
@@ -36,6 +41,8 @@ export function drawSprite(
     case 'orc':           drawOrc(ctx, r, time);      break
     case 'merchant':      drawMerchant(ctx, r, time); break
     case 'potion_health': drawPotion(ctx, r, time);   break
+    case 'arrow':         drawArrow(ctx, r);          break
+    case 'magic_bolt':    drawMagicBolt(ctx, r, time); break
     default:
       ctx.fillStyle = fallbackColor
       ctx.beginPath()
@@ -588,3 +595,66 @@ function drawPotion(ctx: CanvasRenderingContext2D, r: number, time: number): voi
   ctx.stroke()
   ctx.lineCap = 'butt'
 }
+
+// ─── Arrow (points along +x) ─────────────────────────────────────────────────
+function drawArrow(ctx: CanvasRenderingContext2D, r: number): void {
+  const len = r * 4
+
+  // Shaft
+  ctx.strokeStyle = '#8a6a3a'
+  ctx.lineWidth = Math.max(1, r * 0.45)
+  ctx.beginPath()
+  ctx.moveTo(-len * 0.5, 0)
+  ctx.lineTo(len * 0.35, 0)
+  ctx.stroke()
+
+  // Head
+  ctx.fillStyle = '#c8ccd4'
+  ctx.beginPath()
+  ctx.moveTo(len * 0.5, 0)
+  ctx.lineTo(len * 0.3, -r * 0.7)
+  ctx.lineTo(len * 0.3, r * 0.7)
+  ctx.closePath()
+  ctx.fill()
+
+  // Fletching
+  ctx.fillStyle = '#e8e0d0'
+  ctx.beginPath()
+  ctx.moveTo(-len * 0.5, 0)
+  ctx.lineTo(-len * 0.62, -r * 0.7)
+  ctx.lineTo(-len * 0.36, 0)
+  ctx.lineTo(-len * 0.62, r * 0.7)
+  ctx.closePath()
+  ctx.fill()
+}
+
+// ─── Magic Bolt (points along +x) ────────────────────────────────────────────
+function drawMagicBolt(ctx: CanvasRenderingContext2D, r: number, time: number): void {
+  // Trail
+  const trail = ctx.createLinearGradient(-r * 4, 0, 0, 0)
+  trail.addColorStop(0, 'rgba(120,80,255,0)')
+  trail.addColorStop(1, 'rgba(150,110,255,0.55)')
+  ctx.fillStyle = trail
+  ctx.beginPath()
+  ctx.moveTo(-r * 4, 0)
+  ctx.lineTo(0, -r * 0.8)
+  ctx.lineTo(0, r * 0.8)
+  ctx.closePath()
+  ctx.fill()
+
+  // Glow (flickering)
+  const flicker = Math.sin(time * 20) * 0.12 + 0.6
+  const glow = ctx.createRadialGradient(0, 0, 0, 0, 0, r * 1.8)
+  glow.addColorStop(0, `rgba(200,170,255,${flicker})`)
+  glow.addColorStop(1, 'rgba(120,80,255,0)')
+  ctx.fillStyle = glow
+  ctx.beginPath()
+  ctx.arc(0, 0, r * 1.8, 0, Math.PI * 2)
+  ctx.fill()
+
+  // Core
+  ctx.fillStyle = '#f4eeff'
+  ctx.beginPath()
+  ctx.arc(0, 0, r * 0.6, 0, Math.PI * 2)
+  ctx.fill()
+}
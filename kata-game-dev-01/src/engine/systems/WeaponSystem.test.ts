@@ -5,6 +5,8 @@ import { WeaponSystem } from './WeaponSystem'
 import { createWeapon, type Weapon } from '@components/Weapon'
 import { vi } from 'vitest'
 import { COMPONENTS } from '@engine/constants'
+import { createRandomStream } from '@engine/Random'
+import { COLLISION_LAYERS, createCollider } from '@components'
 
 describe('WeaponSystem', () => {
   let world: World
@@ -72,6 +74,37 @@ describe('WeaponSystem', () => {
       expect(result.hit === inRange || !result.hit).toBe(true)
     })
 
+    it('should publish DamageDealt on hit and AttackMissed on miss', () => {
+      const dealt = vi.fn()
+      const missed = vi.fn()
+      world.on('DamageDealt', dealt)
+      world.on('AttackMissed', missed)
+      let roll = 0.5
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => roll))
+
+      const result = weaponSystem.executeAttack(player, enemy, sword)
+      expect(dealt).toHaveBeenCalledWith(expect.objectContaining({
+        attacker: player, target: enemy, amount: result.damage, source: 'weapon',
+      }))
+
+      roll = 0
+      weaponSystem.resetAttackCooldown(player)
+      weaponSystem.executeAttack(player, enemy, sword)
+      expect(missed).toHaveBeenCalledWith({ attacker: player, target: enemy, source: 'weapon' })
+    })
+
+    it('should publish EnemyKilled when a hostile target drops to zero', () => {
+      const killed = vi.fn()
+      world.on('EnemyKilled', killed)
+      world.addComponent(enemy, COMPONENTS.HOSTILE, {})
+      world.addComponent(enemy, COMPONENTS.HEALTH, { current: 1, max: 50 })
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0.5))
+
+      weaponSystem.executeAttack(player, enemy, sword)
+
+      expect(killed).toHaveBeenCalledWith({ entity: enemy, killer: player })
+    })
+
     it('should return attack result with metadata', () => {
       const result = weaponSystem.executeAttack(player, enemy, sword)
 
@@ -84,6 +117,90 @@ describe('WeaponSystem', () => {
     })
   })
 
+  describe('knockback', () => {
+    beforeEach(() => {
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0.5))
+      sword.damage.knockback = 200
+    })
+
+    it('should push the target away from the attacker on hit', () => {
+      world.getComponent(enemy, COMPONENTS.TRANSFORM)!.y = 20
+
+      weaponSystem.executeAttack(player, enemy, sword)
+
+      const body = world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)
+      expect(body?.vx).toBeCloseTo(200 / Math.SQRT2)
+      expect(body?.vy).toBeCloseTo(200 / Math.SQRT2)
+    })
+
+    it('should divide the impulse by the target mass and skip immovable targets', () => {
+      world.addComponent(enemy, COMPONENTS.COLLIDER, createCollider(10, COLLISION_LAYERS.ENEMY, { mass: 4 }))
+      weaponSystem.executeAttack(player, enemy, sword)
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toMatchObject({ vx: 50, vy: 0 })
+
+      world.removeComponent(enemy, COMPONENTS.PHYSICS_BODY)
+      world.getComponent(enemy, COMPONENTS.COLLIDER)!.immovable = true
+      weaponSystem.resetAttackCooldown(player)
+      weaponSystem.executeAttack(player, enemy, sword)
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toBeUndefined()
+    })
+
+    it('should not push on a miss or without weapon knockback', () => {
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0))
+      weaponSystem.executeAttack(player, enemy, sword)
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toBeUndefined()
+
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0.5))
+      sword.damage.knockback = 0
+      weaponSystem.executeAttack(player, enemy, sword)
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toBeUndefined()
+    })
+
+    it('should record the new body into the command buffer', () => {
+      weaponSystem.executeAttack(player, enemy, sword, world.commands)
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toBeUndefined()
+
+      world.flushCommands()
+      expect(world.getComponent(enemy, COMPONENTS.PHYSICS_BODY)).toMatchObject({ vx: 200, vy: 0 })
+    })
+  })
+
+  describe('ranged attacks', () => {
+    it('should gate shots by cooldown and durability and wear the weapon per shot', () => {
+      const bow = createWeapon('bow_1', 'Test Bow', 'bow', 10)
+
+      expect(weaponSystem.beginRangedAttack(player, bow)).toBe(true)
+      expect(bow.durability.current).toBe(99)
+      expect(weaponSystem.beginRangedAttack(player, bow)).toBe(false)
+
+      weaponSystem.resetAttackCooldown(player)
+      bow.durability.current = 0
+      expect(weaponSystem.beginRangedAttack(player, bow)).toBe(false)
+    })
+
+    it('should resolve projectile hits with falloff and publish them as projectile damage', () => {
+      const dealt = vi.fn()
+      const missed = vi.fn()
+      world.on('DamageDealt', dealt)
+      world.on('AttackMissed', missed)
+      let roll = 0.5
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => roll))
+
+      // Out of melee range and straight after another attack: neither matters on impact
+      world.getComponent(enemy, COMPONENTS.TRANSFORM)!.x = 500
+      weaponSystem.executeAttack(player, enemy, sword)
+      const result = weaponSystem.resolveProjectileHit(player, enemy, sword, 0.6, 500)
+
+      expect(result).toMatchObject({ hit: true, damage: 9, distance: 500 })
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(41)
+      expect(dealt).toHaveBeenCalledWith(expect.objectContaining({ target: enemy, amount: 9, remaining: 41, source: 'projectile' }))
+
+      roll = 0
+      expect(weaponSystem.resolveProjectileHit(player, enemy, sword).hit).toBe(false)
+      expect(missed).toHaveBeenCalledWith({ attacker: player, target: enemy, source: 'projectile' })
+    })
+  })
+
   describe('applyDamage', () => {
     it('should reduce health', () => {
       const before = world.getComponent(enemy, COMPONENTS.HEALTH)?.current || 0
@@ -104,6 +221,78 @@ describe('WeaponSystem', () => {
     })
   })
 
+  describe('recordDamage', () => {
+    it('should defer health change until the buffer is flushed', () => {
+      const remaining = weaponSystem.recordDamage(world.commands, enemy, 10)
+
+      expect(remaining).toBe(40)
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(50)
+
+      world.flushCommands()
+
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(40)
+    })
+
+    it('should record damage from executeAttack when a buffer is passed', () => {
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0.5))
+      const result = weaponSystem.executeAttack(player, enemy, sword, world.commands)
+
+      expect(result.hit).toBe(true)
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(50)
+
+      world.flushCommands()
+
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(50 - result.damage)
+    })
+
+    it('should add up hits recorded before a flush and report the kill once', () => {
+      const dealt = vi.fn()
+      const killed = vi.fn()
+      world.on('DamageDealt', dealt)
+      world.on('EnemyKilled', killed)
+      world.addComponent(enemy, COMPONENTS.HOSTILE, {})
+      weaponSystem = new WeaponSystem(world as any, createRandomStream(() => 0.5))
+      const axe = createWeapon('axe_1', 'Test Axe', 'axe', 30)
+
+      weaponSystem.executeAttack(player, enemy, axe, world.commands)
+      // A second attacker recording into the same buffer sees the first hit
+      new WeaponSystem(world as any, createRandomStream(() => 0.5)).executeAttack(player, enemy, axe, world.commands)
+
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(50)
+      expect(dealt.mock.calls.map(([e]) => e.remaining)).toEqual([20, 0])
+      expect(killed).toHaveBeenCalledTimes(1)
+
+      world.flushCommands()
+
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(0)
+      expect(weaponSystem.recordDamage(world.commands, enemy, 5)).toBe(0)
+    })
+
+    it('should project from live health after the buffer is cleared', () => {
+      weaponSystem.recordDamage(world.commands, enemy, 30)
+      world.commands.clear()
+
+      expect(weaponSystem.recordDamage(world.commands, enemy, 10)).toBe(40)
+      world.flushCommands()
+      expect(world.getComponent(enemy, COMPONENTS.HEALTH)?.current).toBe(40)
+    })
+
+    it('should forget damage to targets that lost health before the flush', () => {
+      weaponSystem.recordDamage(world.commands, enemy, 30)
+      world.removeComponent(enemy, COMPONENTS.HEALTH)
+      world.flushCommands()
+
+      world.addComponent(enemy, COMPONENTS.HEALTH, { current: 50, max: 50 })
+      expect(weaponSystem.recordDamage(world.commands, enemy, 10)).toBe(40)
+    })
+
+    it('should return undefined if no health component', () => {
+      const noHealth = world.createEntity()
+      expect(weaponSystem.recordDamage(world.commands, noHealth, 10)).toBeUndefined()
+      expect(world.commands.isEmpty()).toBe(true)
+    })
+  })
+
   describe('getWeaponCooldown', () => {
     it('should return base cooldown for normal speed', () => {
       const cooldown = weaponSystem.getWeaponCooldown(sword)
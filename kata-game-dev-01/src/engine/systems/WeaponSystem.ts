@@ -6,6 +6,8 @@
  * - Durability management
  * - Combat interactions
  * - Weapon effects application
+ * - Projectile launches and impacts
+ * - Publishing DamageDealt / AttackMissed / EnemyKilled on the world's event bus
  *
  * @example
  * ```ts
@@ -23,15 +25,30 @@
 
 import type { World } from '@engine/ECS'
 import type { Entity } from '@engine/ECS'
+import type { DamageSource } from '@engine/GameEvents'
+import type { CommandBuffer } from '@engine/CommandBuffer'
 import type { Transform } from '@components/Transform'
 import type { Health } from '@components/Health'
 import {
   calculateWeaponDamage,
   damageDurability,
   canUseWeapon,
+  getWeaponKnockback,
   type Weapon,
 } from '@components/Weapon'
-import { COMPONENTS } from '@engine/constants'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { getRandomStream, type RandomStream } from '@engine/Random'
+import { applyImpulse } from './MovementSystem'
+
+/**
+ * Key of the damage recorded into a command buffer but not flushed yet, per
+ * target. Shared by every WeaponSystem recording into the same buffer, so
+ * hits from different attackers in one frame see each other; the buffer
+ * drops it on flush and clear.
+ */
+const PENDING_DAMAGE = Symbol('pendingDamage')
+
+const pendingDamage = (commands: CommandBuffer) => commands.pending(PENDING_DAMAGE, () => new Map<Entity, number>())
 
 /**
  * Attack result containing damage and metadata.
@@ -60,15 +77,18 @@ export interface AttackResult {
  */
 export class WeaponSystem {
   private world: World
+  private random: RandomStream
   private lastAttackTime = new Map<Entity, number>()
 
   /**
    * Create a new Weapon System.
    *
    * @param world - Game world instance
+   * @param random - Hit and damage rolls (default: the world's 'combat' stream)
    */
-  constructor(world: World) {
+  constructor(world: World, random: RandomStream = getRandomStream(world, 'combat')) {
     this.world = world
+    this.random = random
   }
 
   /**
@@ -80,10 +100,16 @@ export class WeaponSystem {
    * - Distance to target
    * - Hit/miss
    * - Applies damage and effects
+   * - Knocks the target back, away from the attacker, by the weapon's knockback
+   *
+   * When a command buffer is passed, the damaged Health component is
+   * recorded into it instead of being written immediately, so the change
+   * (and its update event) lands at the next world sync point.
    *
    * @param attacker - Attacking entity
    * @param target - Target entity
    * @param weapon - Weapon being used
+   * @param commands - Optional command buffer for deferred damage
    * @returns Attack result
    *
    * @example
@@ -96,7 +122,7 @@ export class WeaponSystem {
    * }
    * ```
    */
-  executeAttack(attacker: Entity, target: Entity, weapon: Weapon): AttackResult {
+  executeAttack(attacker: Entity, target: Entity, weapon: Weapon, commands?: CommandBuffer): AttackResult {
     const timestamp = Date.now()
 
     // Check cooldown
@@ -116,16 +142,18 @@ export class WeaponSystem {
     const inRange = distance <= weapon.range
 
     // Determine hit
-    const hit = canAttack && weaponValid && inRange && Math.random() > 0.1 // 90% hit chance
+    const hit = canAttack && weaponValid && inRange && this.random.next() > 0.1 // 90% hit chance
 
     // Calculate damage
     let damage = 0
     if (hit) {
-      damage = calculateWeaponDamage(weapon)
-      // Apply damage to target
-      this.applyDamage(target, damage)
+      damage = calculateWeaponDamage(weapon, this.random.next)
+      this.dealDamage(attacker, target, damage, 'weapon', commands)
+      this.applyKnockback(attackerTransform, target, targetTransform, weapon, commands)
       // Reduce weapon durability
       damageDurability(weapon)
+    } else if (canAttack && weaponValid) {
+      this.world.emit(GAME_EVENTS.ATTACK_MISSED, { attacker, target, source: 'weapon' })
     }
     // Record attack time (immer, egal ob Hit oder Miss)
     this.lastAttackTime.set(attacker, timestamp)
@@ -141,6 +169,99 @@ export class WeaponSystem {
     }
   }
 
+  /**
+   * Start a ranged attack: check cooldown and weapon, then record the shot.
+   *
+   * Firing wears the weapon; the projectile's impact is resolved later
+   * with `resolveProjectileHit`.
+   *
+   * @param attacker - Shooting entity
+   * @param weapon - Bow, staff or other ranged weapon
+   * @returns true if the shot may be fired
+   *
+   * @example
+   * ```ts
+   * if (weaponSystem.beginRangedAttack(player, bow)) {
+   *   spawnProjectile(world, { owner: player, weapon: bow, kind: arrow, x, y, dirX, dirY, mask })
+   * }
+   * ```
+   */
+  beginRangedAttack(attacker: Entity, weapon: Weapon): boolean {
+    if (!this.isAttackReady(attacker, weapon) || !canUseWeapon(weapon)) return false
+    damageDurability(weapon)
+    this.lastAttackTime.set(attacker, Date.now())
+    return true
+  }
+
+  /**
+   * Resolve a projectile reaching a target.
+   *
+   * Rolls hit and damage like a melee attack, without cooldown or range
+   * checks (both happened at launch), and scales the damage by the
+   * projectile's range falloff.
+   *
+   * @param attacker - Entity that fired the projectile
+   * @param target - Entity the projectile reached
+   * @param weapon - Weapon the projectile was fired with
+   * @param damageScale - Falloff multiplier (1 = full damage)
+   * @param distance - Distance the projectile flew
+   * @param commands - Optional command buffer for deferred damage
+   * @returns Attack result
+   *
+   * @example
+   * ```ts
+   * const scale = projectileDamageScale(projectile, flown)
+   * weaponSystem.resolveProjectileHit(projectile.owner, enemy, projectile.weapon, scale, flown)
+   * ```
+   */
+  resolveProjectileHit(
+    attacker: Entity,
+    target: Entity,
+    weapon: Weapon,
+    damageScale = 1,
+    distance = 0,
+    commands?: CommandBuffer
+  ): AttackResult {
+    const hit = this.random.next() > 0.1 // 90% hit chance
+    let damage = 0
+    if (hit) {
+      damage = Math.max(1, Math.round(calculateWeaponDamage(weapon, this.random.next) * damageScale))
+      this.dealDamage(attacker, target, damage, 'projectile', commands)
+    } else {
+      this.world.emit(GAME_EVENTS.ATTACK_MISSED, { attacker, target, source: 'projectile' })
+    }
+    return { attacker, target, damage, hit, distance, weapon, timestamp: Date.now() }
+  }
+
+  /**
+   * Apply (or record) a hit and publish DamageDealt, plus EnemyKilled when
+   * it brings a hostile entity to zero health.
+   */
+  private dealDamage(attacker: Entity, target: Entity, damage: number, source: DamageSource, commands?: CommandBuffer): void {
+    const before = this.projectedHealth(target, commands)
+    // Apply damage to target (deferred when recording into a command buffer)
+    const remaining = commands ? this.recordDamage(commands, target, damage) : this.applyDamage(target, damage)
+
+    this.world.emit(GAME_EVENTS.DAMAGE_DEALT, { attacker, target, amount: damage, remaining, source })
+    if (remaining === 0 && before !== undefined && before > 0 && this.world.getComponent(target, COMPONENTS.HOSTILE)) {
+      this.world.emit(GAME_EVENTS.ENEMY_KILLED, { entity: target, killer: attacker })
+    }
+  }
+
+  /**
+   * Push a hit target away from the attacker by the weapon's knockback.
+   * Targets standing exactly on the attacker have no direction and stay put.
+   */
+  private applyKnockback(from: Transform | undefined, target: Entity, at: Transform | undefined, weapon: Weapon, commands?: CommandBuffer): void {
+    const knockback = getWeaponKnockback(weapon)
+    if (knockback <= 0 || !from || !at) return
+    const dx = at.x - from.x
+    const dy = at.y - from.y
+    const length = Math.hypot(dx, dy)
+    if (length === 0) return
+    applyImpulse(this.world, target, dx / length * knockback, dy / length * knockback, commands)
+  }
+
   /**
    * Apply damage to an entity.
    *
@@ -166,6 +287,51 @@ export class WeaponSystem {
     return health.current
   }
 
+  /**
+   * Record damage to an entity into a command buffer.
+   *
+   * The damage is subtracted from the target's Health when the buffer is
+   * flushed, so several hits recorded in one frame add up; the current
+   * component is left untouched until then.
+   *
+   * @param commands - Command buffer to record into
+   * @param entity - Target entity
+   * @param damage - Damage amount
+   * @returns Health amount after the flush, counting hits already recorded (or undefined if no health)
+   *
+   * @example
+   * ```ts
+   * weaponSystem.recordDamage(world.commands, enemy, 15)
+   * world.flushCommands()
+   * ```
+   */
+  recordDamage(commands: CommandBuffer, entity: Entity, damage: number): number | undefined {
+    const before = this.projectedHealth(entity, commands)
+    if (before === undefined) return undefined
+
+    const pending = pendingDamage(commands)
+    pending.set(entity, (pending.get(entity) ?? 0) + damage)
+    commands.updateComponent(entity, COMPONENTS.HEALTH, (health: Health) => {
+      // Hits recorded by listeners later in the same flush project from the updated health
+      const left = (pending.get(entity) ?? 0) - damage
+      if (left > 0) pending.set(entity, left)
+      else pending.delete(entity)
+      return { ...health, current: Math.max(0, health.current - damage) }
+    })
+    return Math.max(0, before - damage)
+  }
+
+  /**
+   * Health of an entity once the damage already recorded into the buffer
+   * is flushed (the live value without a buffer).
+   */
+  private projectedHealth(entity: Entity, commands?: CommandBuffer): number | undefined {
+    const health = this.world.getComponent(entity, COMPONENTS.HEALTH) as Health | undefined
+    if (!health) return undefined
+    const pending = commands ? pendingDamage(commands).get(entity) ?? 0 : 0
+    return Math.max(0, health.current - pending)
+  }
+
   /**
    * Get weapon cooldown in milliseconds.
    *
@@ -32,8 +32,41 @@ export function parseWithUndefined<T = any>(json: string): T {
     return JSON.parse(json, undefinedReviver) as T
 }
 
+/**
+ * Deep-copy plain data (component values, resources).
+ * Values that cannot be cloned (e.g. containing functions) are returned as-is.
+ */
+export function cloneValue<T>(value: T): T {
+    try {
+        return structuredClone(value)
+    } catch {
+        return value
+    }
+}
+
+/**
+ * Structural equality for plain data: primitives, arrays and plain objects.
+ * Other objects (Maps, class instances, ...) are compared by reference.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+    if (Array.isArray(a)) {
+        const other = b as unknown[]
+        return a.length === other.length && a.every((v, i) => deepEqual(v, other[i]))
+    }
+    if (Object.getPrototypeOf(a) !== Object.prototype || Object.getPrototypeOf(b) !== Object.prototype) return false
+    const aKeys = Object.keys(a)
+    if (aKeys.length !== Object.keys(b).length) return false
+    return aKeys.every(k => Object.prototype.hasOwnProperty.call(b, k)
+        && deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+}
+
 export default {
     stringifyWithUndefined,
-    parseWithUndefined
+    parseWithUndefined,
+    cloneValue,
+    deepEqual
 }
 
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { World } from '@engine/ECS'
+import { ReactiveWorld } from '@engine/ReactiveWorld'
 import { createItemInstance } from './configs/ItemConfig'
 import { equipItem, unequipItem, swapEquipment } from './GameActions'
 import { COMPONENTS } from '@engine/constants'
@@ -48,4 +49,49 @@ describe('GameActions - Equipment', () => {
     expect(eq.slots.mainHand).toBe(sword2.uid)
     expect(eq.slots.offHand).toBe(sword1.uid)
   })
+
+  it('equipItem replaces the current occupant and its stat bonuses', () => {
+    const { world, player } = setupPlayer()
+    const sword1 = createItemInstance('sword_iron', 1)
+    const sword2 = createItemInstance('sword_iron', 1)
+    world.addComponent(player, COMPONENTS.INVENTORY, [sword1, sword2])
+    equipItem(world, player, 'mainHand', sword1)
+    const statsWithOne = JSON.stringify(world.getComponent(player, COMPONENTS.CHARACTER_STATS))
+
+    expect(equipItem(world, player, 'mainHand', sword2)).toBe(true)
+    const eq = world.getComponent(player, COMPONENTS.EQUIPMENT)
+    expect(eq.slots.mainHand).toBe(sword2.uid)
+    expect(JSON.stringify(world.getComponent(player, COMPONENTS.CHARACTER_STATS))).toBe(statsWithOne)
+  })
+
+  it('equipItem keeps the occupant when the new item does not fit the slot', () => {
+    const world = new ReactiveWorld()
+    const player = world.createEntity()
+    const sword = createItemInstance('sword_iron', 1)
+    const armor = createItemInstance('armor_leather', 1)
+    world.addComponent(player, COMPONENTS.INVENTORY, [sword, armor])
+    world.addComponent(player, COMPONENTS.EQUIPMENT, { slots: {} })
+    equipItem(world, player, 'mainHand', sword)
+    const unequipped = vi.fn()
+    world.on('ItemUnequipped', unequipped)
+
+    expect(equipItem(world, player, 'mainHand', armor)).toBe(false)
+
+    expect(world.getComponent(player, COMPONENTS.EQUIPMENT).slots.mainHand).toBe(sword.uid)
+    expect(unequipped).not.toHaveBeenCalled()
+  })
+
+  it('equipItem keeps the occupant and its stats on a plain World when the new item does not fit', () => {
+    const { world, player } = setupPlayer()
+    const sword = createItemInstance('sword_iron', 1)
+    const armor = createItemInstance('armor_leather', 1)
+    world.addComponent(player, COMPONENTS.INVENTORY, [sword, armor])
+    equipItem(world, player, 'mainHand', sword)
+    const statsWithSword = JSON.stringify(world.getComponent(player, COMPONENTS.CHARACTER_STATS))
+
+    expect(equipItem(world, player, 'mainHand', armor)).toBe(false)
+
+    expect(world.getComponent(player, COMPONENTS.EQUIPMENT).slots).toEqual({ mainHand: sword.uid })
+    expect(JSON.stringify(world.getComponent(player, COMPONENTS.CHARACTER_STATS))).toBe(statsWithSword)
+  })
 })
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { World } from '@engine/ECS'
-import { createItemInstance } from './configs/ItemConfig'
+import { ReactiveWorld } from '@engine/ReactiveWorld'
+import { createItemInstance, type InventoryItem } from './configs/ItemConfig'
 import { 
   pickupItem, 
   dropItem, 
@@ -13,6 +14,7 @@ import {
   getDialogState
 } from './GameActions'
 import { COMPONENTS } from '@engine/constants'
+import { QuestFlags } from '@engine/Resources'
 import { createWeapon } from '@engine/components/Weapon'
 
 describe('GameActions - Inventory', () => {
@@ -32,6 +34,23 @@ describe('GameActions - Inventory', () => {
     expect(inv[0].quantity).toBeGreaterThanOrEqual(3)
   })
 
+  it('publishes ItemPickedUp and ItemDropped', () => {
+    const world = new World()
+    const player = world.createEntity()
+    const events: unknown[] = []
+    world.on('ItemPickedUp', e => events.push(e))
+    world.on('ItemDropped', e => events.push(e))
+
+    const potion = createItemInstance('potion_health', 3)
+    pickupItem(world as any, player, potion)
+    dropItem(world as any, player, potion.uid, 2)
+
+    expect(events).toEqual([
+      { entity: player, itemId: 'potion_health', quantity: 3 },
+      { entity: player, itemId: 'potion_health', uid: potion.uid, quantity: 2 },
+    ])
+  })
+
   it('consume a potion heals the player and decrements quantity', () => {
     const world = new World()
     const player = world.createEntity()
@@ -48,6 +67,26 @@ describe('GameActions - Inventory', () => {
     expect(hp.current).toBeGreaterThan(50)
   })
 
+  it('consume on a ReactiveWorld notifies health and inventory once each', () => {
+    const world = new ReactiveWorld()
+    const player = world.createEntity()
+    world.addComponent(player, COMPONENTS.HEALTH, { current: 50, max: 100 })
+    const potion = createItemInstance('potion_health', 2)
+    pickupItem(world, player, potion)
+    const inventoryBefore = world.getComponent(player, COMPONENTS.INVENTORY) as InventoryItem[]
+    const onHealth = vi.fn()
+    const onInventory = vi.fn()
+    world.onComponentChange(COMPONENTS.HEALTH, onHealth)
+    world.onComponentChange(COMPONENTS.INVENTORY, onInventory)
+
+    expect(consumeItem(world, player, inventoryBefore[0].uid)).toBe(true)
+
+    expect(onHealth).toHaveBeenCalledTimes(1)
+    expect(onInventory).toHaveBeenCalledTimes(1)
+    expect(inventoryBefore[0].quantity).toBe(2)
+    expect((world.getComponent(player, COMPONENTS.INVENTORY) as InventoryItem[])[0].quantity).toBe(1)
+  })
+
   it('drop item reduces quantity or removes entry', () => {
     const world = new World()
     const player = world.createEntity()
@@ -226,9 +265,8 @@ describe('GameActions - Dialog System', () => {
     chooseDialogOption(world, player, 0)
     
     // Check that quest flag was set
-    const questFlags = world.getComponent(player, COMPONENTS.QUEST_FLAGS) as any
-    expect(questFlags).toBeDefined()
-    expect(questFlags.orc_fortress_quest).toBe('accepted')
+    expect(world.getResource(QuestFlags).orc_fortress_quest).toBe('accepted')
+    expect(world.getComponent(player, COMPONENTS.QUEST_FLAGS)).toBeUndefined()
   })
 
   it('chooseDialogOption ends dialog with endDialog consequence', () => {
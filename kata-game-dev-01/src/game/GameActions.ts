@@ -1,5 +1,8 @@
 import type { World } from '@engine/ECS'
-import { COMPONENTS } from '@engine/constants'
+import { ReactiveWorld } from '@engine/ReactiveWorld'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { QuestFlags } from '@engine/Resources'
+import { getRandomStream } from '@engine/Random'
 import type { InventoryItem } from '@game/configs/ItemConfig'
 import { getItemDefinition, createItemInstance } from '@game/configs/ItemConfig'
 import { getDialogTree, getDialogNode } from '@game/configs/DialogConfig'
@@ -7,6 +10,14 @@ import type { DialogConsequence } from '@game/configs/DialogConfig'
 import EquipmentSystem from '@engine/systems/EquipmentSystem'
 import { WeaponSystem } from '@engine/systems/WeaponSystem'
 
+/**
+ * Run a multi-step action atomically. On a ReactiveWorld the steps form one
+ * transaction: listeners see a single coalesced change per component, and an
+ * action returning false is rolled back. Plain worlds run the steps directly.
+ */
+const atomically = (world: World, action: () => boolean): boolean =>
+  world instanceof ReactiveWorld ? world.transaction(action) : action()
+
 /**
  * Pickup item: add to player's inventory, respecting stack rules.
  * If inventory component doesn't exist, create it as InventoryItem[].
@@ -24,6 +35,8 @@ export const pickupItem = (world: World, player: number, item: InventoryItem) =>
 
   const def = getItemDefinition(item.id)
   if (!def) return false
+  // Stack merging mutates item.quantity, so remember what was picked up
+  const pickedUp = item.quantity
 
   if (def.stackable) {
     const existingIndex = inv.findIndex(i => i.id === item.id)
@@ -56,6 +69,7 @@ export const pickupItem = (world: World, player: number, item: InventoryItem) =>
     world.addComponent(player, COMPONENTS.INVENTORY, newInv)
   }
 
+  world.emit(GAME_EVENTS.ITEM_PICKED_UP, { entity: player, itemId: item.id, quantity: pickedUp })
   return true
 }
 
@@ -77,6 +91,7 @@ export const dropItem = (world: World, player: number, uid: string, qty = 1) =>
   const idx = inv.findIndex(i => i.uid === uid)
   if (idx === -1) return false
   const entry = inv[idx]
+  const dropped = Math.min(qty, entry.quantity)
   if (entry.quantity > qty) {
     entry.quantity -= qty
     // write back a new array reference to ensure reactive systems notice change
@@ -86,13 +101,14 @@ export const dropItem = (world: World, player: number, uid: string, qty = 1) =>
     newInv.splice(idx, 1)
     world.addComponent(player, COMPONENTS.INVENTORY, newInv)
   }
+  world.emit(GAME_EVENTS.ITEM_DROPPED, { entity: player, itemId: entry.id, uid, quantity: dropped })
   return true
 }
 
 /**
  * Consume item: apply effects of a consumable (e.g., healing) and decrement quantity
  */
-export const consumeItem = (world: World, player: number, uid: string) => {
+export const consumeItem = (world: World, player: number, uid: string) => atomically(world, () => {
   const inv = world.getComponent(player, COMPONENTS.INVENTORY) as InventoryItem[] | undefined
   if (!inv) return false
   const idx = inv.findIndex(i => i.uid === uid)
@@ -106,21 +122,19 @@ export const consumeItem = (world: World, player: number, uid: string) => {
   if (healing > 0) {
     const hp = world.getComponent(player, COMPONENTS.HEALTH) as any
     if (hp) {
-      hp.current = Math.min(hp.max, hp.current + healing)
-      world.addComponent(player, COMPONENTS.HEALTH, hp)
+      world.addComponent(player, COMPONENTS.HEALTH, { ...hp, current: Math.min(hp.max, hp.current + healing) })
     }
   }
 
-  // Decrement quantity or remove
-  if (entry.quantity > 1) {
-    entry.quantity -= 1
-    world.addComponent(player, COMPONENTS.INVENTORY, inv)
-  } else {
-    inv.splice(idx, 1)
-    world.addComponent(player, COMPONENTS.INVENTORY, inv)
-  }
+  // Decrement quantity or remove; write new references so observers see the change
+  const newInv = inv.slice()
+  if (entry.quantity > 1) newInv[idx] = { ...entry, quantity: entry.quantity - 1 }
+  else newInv.splice(idx, 1)
+  world.addComponent(player, COMPONENTS.INVENTORY, newInv)
+
+  world.emit(GAME_EVENTS.ITEM_CONSUMED, { entity: player, itemId: entry.id, uid })
   return true
-}
+})
 
 /**
  * Move item within inventory ordering (fromIndex to toIndex)
@@ -139,14 +153,23 @@ export const moveItem = (world: World, player: number, fromIndex: number, toInde
 
 /**
  * Equip an item from inventory into a given equipment slot.
+ * An item already in the slot is unequipped first (its stat bonuses are
+ * removed), but only once the new item is known to fit the slot; on a
+ * ReactiveWorld the swap is also atomic.
  * Uses EquipmentSystem for slot validation and stat updates.
  * @example
  * equipItem(world, player, 'mainHand', item)
  */
-export const equipItem = (world: World, player: number, slot: string, item: InventoryItem): boolean => {
+export const equipItem = (world: World, player: number, slot: string, item: InventoryItem): boolean => atomically(world, () => {
   const eq = new EquipmentSystem(world)
-  return eq.equip(player, slot, item)
-}
+  const current = (world.getComponent(player, COMPONENTS.EQUIPMENT) as any)?.slots?.[slot]
+  if (current === item.uid) return true
+  if (!eq.canEquip(slot, item)) return false
+  if (current !== undefined && unequipItem(world, player, slot) === undefined) return false
+  const equipped = eq.equip(player, slot, item)
+  if (equipped) world.emit(GAME_EVENTS.ITEM_EQUIPPED, { entity: player, slot, itemId: item.id, uid: item.uid })
+  return equipped
+})
 
 /**
  * Unequip an item from a given slot. Returns the uid of the removed item or undefined.
@@ -156,7 +179,9 @@ export const equipItem = (world: World, player: number, slot: string, item: Inve
  */
 export const unequipItem = (world: World, player: number, slot: string): string | undefined => {
   const eq = new EquipmentSystem(world)
-  return eq.unequip(player, slot)
+  const uid = eq.unequip(player, slot)
+  if (uid !== undefined) world.emit(GAME_EVENTS.ITEM_UNEQUIPPED, { entity: player, slot, uid })
+  return uid
 }
 
 /**
@@ -270,6 +295,7 @@ export const startDialog = (
   }
 
   world.addComponent(player, COMPONENTS.DIALOG_STATE, dialogState)
+  world.emit(GAME_EVENTS.DIALOG_STARTED, { entity: player, npc, treeId: dialogTreeId })
   return true
 }
 
@@ -325,6 +351,7 @@ export const chooseDialogOption = (
   if (shouldEnd) {
     // End dialog
     world.removeComponent(player, COMPONENTS.DIALOG_STATE)
+    world.emit(GAME_EVENTS.DIALOG_ENDED, { entity: player, treeId: dialogState.treeId })
   } else {
     // Update dialog state to next node
     const newDialogState = {
@@ -353,7 +380,7 @@ const processDialogConsequences = (
       case 'giveItems':
         if (consequence.items) {
           for (const item of consequence.items) {
-            const itemInstance = createItemInstance(item.id, item.quantity)
+            const itemInstance = createItemInstance(item.id, item.quantity, undefined, getRandomStream(world, 'loot').next)
             pickupItem(world, player, itemInstance)
           }
         }
@@ -375,14 +402,9 @@ const processDialogConsequences = (
 
       case 'setQuestFlag':
         if (consequence.flag) {
-          // Get or create quest flags component
-          let questFlags = world.getComponent(player, COMPONENTS.QUEST_FLAGS) as Record<string, any> | undefined
-          if (!questFlags) {
-            questFlags = {}
-          }
-          
-          questFlags[consequence.flag.key] = consequence.flag.value
-          world.addComponent(player, COMPONENTS.QUEST_FLAGS, questFlags)
+          // Flags live in the QuestFlags resource, shared with level triggers and saved with the game
+          world.getResource(QuestFlags)[consequence.flag.key] = consequence.flag.value
+          world.emit(GAME_EVENTS.QUEST_FLAG_SET, { entity: player, key: consequence.flag.key, value: consequence.flag.value })
         }
         break
 
@@ -404,7 +426,10 @@ const processDialogConsequences = (
  * endDialog(world, player)
  */
 export const endDialog = (world: World, player: number): void => {
+  const dialogState = world.getComponent(player, COMPONENTS.DIALOG_STATE) as any
+  if (!dialogState) return
   world.removeComponent(player, COMPONENTS.DIALOG_STATE)
+  world.emit(GAME_EVENTS.DIALOG_ENDED, { entity: player, treeId: dialogState.treeId })
 }
 
 /**
@@ -2,7 +2,13 @@ import { describe, it, expect, beforeEach } from 'vitest'
 import { LevelManager } from './LevelManager'
 import { ReactiveWorld } from '@engine/ReactiveWorld'
 import { COMPONENTS } from '@engine/constants'
+import { LevelGeometry, Theme } from '@engine/Resources'
+import { Random, createRandomState } from '@engine/Random'
+import { saveGame, loadGame } from './SaveSystem'
 import { LEVEL_1_FOREST, LEVEL_2_CAVE, LEVEL_3_FORTRESS } from '@game/configs/LevelConfig'
+import { createQuadTree } from '@engine/spatial/QuadTree'
+import { createEnemyAISystem } from '@engine/systems/EnemyAISystem'
+import type { EnemyComponent, Projectile } from '@components'
 
 describe('LevelManager', () => {
   let world: ReactiveWorld
@@ -46,6 +52,66 @@ describe('LevelManager', () => {
       expect(levelManager.getCurrentLevel()?.id).toBe('level_1_forest')
     })
 
+    it('should publish LevelLoaded with the spawned entity count', () => {
+      const loaded: { levelId: string; entityCount: number }[] = []
+      world.on('LevelLoaded', e => loaded.push(e))
+
+      levelManager.loadLevel('level_1_forest')
+
+      expect(loaded).toEqual([{ levelId: 'level_1_forest', entityCount: levelManager.getLevelEntities().size }])
+    })
+
+    it('should set the Theme resource from the level', () => {
+      levelManager.loadLevel('level_2_cave')
+      expect(world.getResource(Theme).type).toBe('cave')
+    })
+
+    it('should publish the level geometry as a resource', () => {
+      levelManager.loadLevel('level_1_forest')
+      expect(world.getResource(LevelGeometry).geometry).toBeNull()
+
+      levelManager.loadLevel('level_3_fortress')
+      expect(world.getResource(LevelGeometry).geometry?.isSolidAt(20, 600)).toBe(true)
+
+      levelManager.unloadLevel()
+      expect(world.getResource(LevelGeometry).geometry).toBeNull()
+    })
+
+    it('should spawn trigger zones as trigger colliders', () => {
+      levelManager.loadLevel('level_2_cave')
+      const zones = world.query(COMPONENTS.TRIGGER_ZONE, COMPONENTS.COLLIDER)
+
+      expect(zones.map(z => (z.comps[0] as any).zoneId).sort()).toEqual(['cave_ambush', 'cave_exit'])
+      expect(zones.every(z => (z.comps[1] as any).isTrigger && (z.comps[0] as any).levelId === 'level_2_cave')).toBe(true)
+
+      levelManager.unloadLevel()
+      expect(world.query(COMPONENTS.TRIGGER_ZONE)).toHaveLength(0)
+    })
+
+    it('should keep spawns out of walls', () => {
+      for (const levelId of ['level_2_cave', 'level_3_fortress']) {
+        levelManager.loadLevel(levelId)
+        const geometry = world.getResource(LevelGeometry).geometry!
+        for (const entity of levelManager.getLevelEntities()) {
+          const t = world.getComponent(entity, COMPONENTS.TRANSFORM)!
+          expect(geometry.isSolidAt(t.x, t.y)).toBe(false)
+        }
+      }
+    })
+
+    it('should place spawns identically for the same seed', () => {
+      const positions = (seed: number) => {
+        const w = new ReactiveWorld()
+        w.setResource(Random, createRandomState(seed))
+        const lm = new LevelManager(w)
+        lm.loadLevel('level_1_forest')
+        return [...lm.getLevelEntities()].map(e => w.getComponent(e, COMPONENTS.TRANSFORM))
+      }
+
+      expect(positions(77)).toEqual(positions(77))
+      expect(positions(77)).not.toEqual(positions(78))
+    })
+
     it('should return false for invalid level ID', () => {
       const success = levelManager.loadLevel('invalid_level')
       expect(success).toBe(false)
@@ -66,6 +132,35 @@ describe('LevelManager', () => {
       expect(enemies.length).toBeGreaterThan(0)
     })
 
+    it('should give ranged enemies their own AI state anchored at their spawn', () => {
+      levelManager.loadLevel('level_2_cave')
+
+      const shamans = world.query(COMPONENTS.ENEMY, COMPONENTS.TRANSFORM)
+      expect(shamans.length).toBe(2)
+      const [first, second] = shamans.map(({ comps: [enemy, t] }) => ({ enemy: enemy as EnemyComponent, t: t as { x: number; y: number } }))
+      expect(first.enemy).not.toBe(second.enemy)
+      expect(first.enemy.projectile?.sprite).toBe('magic_bolt')
+      expect({ x: first.enemy.spawnX, y: first.enemy.spawnY }).toEqual({ x: first.t.x, y: first.t.y })
+    })
+
+    it('should have ranged enemies shoot at a player in range', () => {
+      levelManager.loadLevel('level_2_cave')
+      const [{ entity: shaman, comps: [, t] }] = world.query(COMPONENTS.ENEMY, COMPONENTS.TRANSFORM)
+      const { x, y } = t as { x: number; y: number }
+      world.addComponent(playerEntity, COMPONENTS.TRANSFORM, { x: x + 100, y })
+      world.addComponent(playerEntity, COMPONENTS.PLAYER, {})
+      const quad = createQuadTree({ x: 0, y: 0, w: 2000, h: 2000 })
+      quad.insert({ x: x + 100, y, entity: playerEntity })
+      world.setResource(LevelGeometry, { geometry: null })
+      const ai = createEnemyAISystem(quad)
+
+      world.updateTime(5)
+      for (let i = 0; i < 3; i++) ai.update(world)
+
+      const owners = world.query(COMPONENTS.PROJECTILE).map(({ comps }) => (comps[0] as Projectile).owner)
+      expect(owners).toContain(shaman)
+    })
+
     it('should spawn NPCs from level definition', () => {
       levelManager.loadLevel('level_1_forest')
       
@@ -144,6 +239,16 @@ describe('LevelManager', () => {
       expect(playerTransformAfter).toBeDefined()
     })
 
+    it('should publish LevelUnloaded', () => {
+      const unloaded: string[] = []
+      world.on('LevelUnloaded', ({ levelId }) => unloaded.push(levelId))
+      levelManager.loadLevel('level_1_forest')
+
+      levelManager.unloadLevel()
+
+      expect(unloaded).toEqual(['level_1_forest'])
+    })
+
     it('should do nothing if no level is loaded', () => {
       expect(() => levelManager.unloadLevel()).not.toThrow()
       expect(levelManager.getCurrentLevel()).toBeNull()
@@ -186,6 +291,55 @@ describe('LevelManager', () => {
     })
   })
 
+  describe('adoptLevel', () => {
+    const enemyHealth = () =>
+      world.query(COMPONENTS.HOSTILE, COMPONENTS.HEALTH)
+        .map(({ entity, comps }) => [entity, (comps[1] as any).current])
+        .sort(([a], [b]) => a - b)
+
+    it('should keep the saved level state when loading a save', () => {
+      localStorage.clear()
+      levelManager.loadLevel('level_1_forest')
+      const [killed, wounded] = world.query(COMPONENTS.HOSTILE).map(e => e.entity)
+      world.removeEntity(killed)
+      world.addComponent(wounded, COMPONENTS.HEALTH, { current: 1, max: 20 })
+      saveGame(world, playerEntity, 'level_1_forest', 0, undefined, levelManager.getLevelEntities())
+      const saved = enemyHealth()
+      const savedLevelEntities = levelManager.getLevelEntities()
+
+      // Same steps as the load menu: restore the world, then adopt its level
+      levelManager.loadLevel('level_2_cave')
+      const saveData = loadGame(world, 0)!
+      levelManager.setPlayer(saveData.playerData.entityId)
+      expect(levelManager.adoptLevel(saveData.levelId, saveData.levelEntities ?? [])).toBe(true)
+
+      expect(enemyHealth()).toEqual(saved)
+      expect(levelManager.getCurrentLevel()?.id).toBe('level_1_forest')
+      // The killed enemy's handle is dead and not adopted
+      expect(levelManager.getLevelEntities()).toEqual(new Set([...savedLevelEntities].filter(e => e !== killed)))
+      expect(world.getResource(Theme).type).toBe('forest')
+      localStorage.clear()
+    })
+
+    it('should remove adopted entities on the next transition but keep the player', () => {
+      const enemy = world.createEntity()
+      world.addComponent(enemy, COMPONENTS.ENEMY, {})
+
+      levelManager.adoptLevel('level_3_fortress', [playerEntity, enemy])
+      expect(world.getResource(LevelGeometry).geometry).not.toBeNull()
+      expect(levelManager.getLevelEntities()).toEqual(new Set([enemy]))
+
+      levelManager.loadLevel('level_1_forest')
+      expect(world.isAlive(enemy)).toBe(false)
+      expect(world.isAlive(playerEntity)).toBe(true)
+    })
+
+    it('should return false for invalid level', () => {
+      expect(levelManager.adoptLevel('invalid_level', [])).toBe(false)
+      expect(levelManager.getCurrentLevel()).toBeNull()
+    })
+  })
+
   describe('getCameraBounds', () => {
     it('should return null when no level is loaded', () => {
       expect(levelManager.getCameraBounds()).toBeNull()
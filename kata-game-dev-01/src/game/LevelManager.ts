@@ -3,18 +3,26 @@
  * 
  * Manages level loading, unloading, and transitions.
  * Handles entity spawning, cleanup, and camera bounds setup.
+ * Publishes LevelLoaded / LevelUnloaded on the world's event bus and keeps
+ * the Theme and LevelGeometry resources in sync with the loaded level.
  */
 
 import { ReactiveWorld } from '@engine/ReactiveWorld'
 import { Entity } from '@engine/ECS'
-import { COMPONENTS } from '@engine/constants'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { componentRegistry } from '@engine/componentRegistry'
+import { LevelGeometry, Theme } from '@engine/Resources'
+import { createStaticGeometry, type StaticGeometry } from '@engine/spatial/StaticGeometry'
+import { getRandomStream, type RandomStream } from '@engine/Random'
+import { COLLISION_LAYERS, createCollider } from '@components'
 import {
   getLevelById,
   type LevelDefinition,
   type SpawnZone,
   type EnemySpawn,
   type NPCSpawn,
-  type ItemSpawn
+  type ItemSpawn,
+  type TriggerZone
 } from '@game/configs/LevelConfig'
 import {
   getBlueprintById,
@@ -22,14 +30,26 @@ import {
   type EntityBlueprint
 } from '@game/configs/EntityBlueprints'
 
+// Rolls landing inside a wall are retried up to this many times in total
+const SPAWN_ATTEMPTS = 8
+
 /**
- * Random spawn position within a zone
+ * Random spawn position within a zone, avoiding the level's walls when possible
  */
-const getRandomPositionInZone = (zone: SpawnZone): { x: number; y: number } => {
-  return {
-    x: zone.minX + Math.random() * (zone.maxX - zone.minX),
-    y: zone.minY + Math.random() * (zone.maxY - zone.minY)
+const getRandomPositionInZone = (
+  zone: SpawnZone,
+  random: RandomStream,
+  geometry: StaticGeometry | null = null
+): { x: number; y: number } => {
+  const roll = () => ({
+    x: random.range(zone.minX, zone.maxX),
+    y: random.range(zone.minY, zone.maxY)
+  })
+  let position = roll()
+  for (let attempt = 1; attempt < SPAWN_ATTEMPTS && geometry?.isSolidAt(position.x, position.y); attempt++) {
+    position = roll()
   }
+  return position
 }
 
 /**
@@ -42,9 +62,12 @@ export class LevelManager {
   private currentLevel: LevelDefinition | null = null
   private levelEntities: Set<Entity> = new Set()
   private playerEntity: Entity | null = null
+  // Spawn-zone and position rolls come from the world's seeded 'spawn' stream
+  private random: RandomStream
 
   constructor(world: ReactiveWorld) {
     this.world = world
+    this.random = getRandomStream(world, 'spawn')
   }
 
   /**
@@ -95,6 +118,8 @@ export class LevelManager {
     console.log(`[LevelManager] Loading level: ${level.name}`)
     this.currentLevel = level
     this.levelEntities.clear()
+    this.world.setResource(Theme, { type: level.theme?.themeType ?? 'forest' })
+    this.world.setResource(LevelGeometry, { geometry: level.geometry ? createStaticGeometry(level.geometry) : null })
 
     // Spawn enemies
     this.spawnEnemies(level.enemies)
@@ -105,7 +130,11 @@ export class LevelManager {
     // Spawn items
     this.spawnItems(level.items)
 
+    // Spawn trigger zones
+    this.spawnTriggers(level.id, level.triggers ?? [])
+
     console.log(`[LevelManager] Level loaded: ${level.name} with ${this.levelEntities.size} entities`)
+    this.world.emit(GAME_EVENTS.LEVEL_LOADED, { levelId: level.id, entityCount: this.levelEntities.size })
     return true
   }
 
@@ -132,8 +161,11 @@ export class LevelManager {
       }
     }
 
+    const levelId = this.currentLevel.id
     this.levelEntities.clear()
+    this.world.setResource(LevelGeometry, { geometry: null })
     this.currentLevel = null
+    this.world.emit(GAME_EVENTS.LEVEL_UNLOADED, { levelId })
   }
 
   /**
@@ -164,6 +196,58 @@ export class LevelManager {
     return success
   }
 
+  /**
+   * Adopt a level whose entities were restored from a save
+   * Sets the current level and its resources without spawning anything,
+   * so the restored enemies, items and triggers keep their saved state
+   * 
+   * @param levelId - Level ID the save was made in
+   * @param entities - Restored level entities; the player and dead handles are skipped
+   * @returns true if successful, false otherwise
+   * 
+   * @example
+   * ```ts
+   * const saveData = loadGame(world, 0)
+   * if (saveData) levelManager.adoptLevel(saveData.levelId, saveData.levelEntities ?? [])
+   * ```
+   */
+  adoptLevel(levelId: string, entities: Iterable<Entity>): boolean {
+    const level = getLevelById(levelId)
+    if (!level) {
+      console.error(`[LevelManager] Level not found: ${levelId}`)
+      return false
+    }
+
+    this.currentLevel = level
+    this.levelEntities.clear()
+    for (const entity of entities) {
+      if (entity !== this.playerEntity && this.world.isAlive(entity)) {
+        this.levelEntities.add(entity)
+      }
+    }
+    this.world.setResource(Theme, { type: level.theme?.themeType ?? 'forest' })
+    this.world.setResource(LevelGeometry, { geometry: level.geometry ? createStaticGeometry(level.geometry) : null })
+
+    console.log(`[LevelManager] Level restored: ${level.name} with ${this.levelEntities.size} entities`)
+    this.world.emit(GAME_EVENTS.LEVEL_LOADED, { levelId: level.id, entityCount: this.levelEntities.size })
+    return true
+  }
+
+  /**
+   * Spawn an extra wave of enemies into the current level
+   * Wave enemies are level entities, removed when the level unloads
+   * 
+   * @param enemies - Enemy spawn configurations
+   * 
+   * @example
+   * ```ts
+   * levelManager.spawnWave([{ blueprintId: 'goblin_scout', count: 3, spawnZones: [zone] }])
+   * ```
+   */
+  spawnWave(enemies: EnemySpawn[]): void {
+    this.spawnEnemies(enemies)
+  }
+
   /**
    * Spawn enemies from level definition
    * 
@@ -179,14 +263,17 @@ export class LevelManager {
 
       for (let i = 0; i < enemyConfig.count; i++) {
         // Pick random spawn zone
-        const zone = enemyConfig.spawnZones[Math.floor(Math.random() * enemyConfig.spawnZones.length)]
-        const position = getRandomPositionInZone(zone)
+        const zone = this.random.pick(enemyConfig.spawnZones)
+        const position = getRandomPositionInZone(zone, this.random, this.world.getResource(LevelGeometry).geometry)
 
         // Create entity with position override
         const entity = this.world.createEntity()
+        const { enemy } = blueprint.components
         const customBlueprint = createEntityFromBlueprint(blueprint, {
           components: {
-            transform: { x: position.x, y: position.y }
+            transform: { x: position.x, y: position.y },
+            // AI state is per enemy and anchored to where it spawned
+            ...(enemy && { enemy: { ...enemy, spawnX: position.x, spawnY: position.y } })
           }
         })
 
@@ -237,14 +324,17 @@ export class LevelManager {
 
       for (let i = 0; i < itemConfig.count; i++) {
         // Pick random spawn zone
-        const zone = itemConfig.spawnZones[Math.floor(Math.random() * itemConfig.spawnZones.length)]
-        const position = getRandomPositionInZone(zone)
+        const zone = this.random.pick(itemConfig.spawnZones)
+        const position = getRandomPositionInZone(zone, this.random, this.world.getResource(LevelGeometry).geometry)
 
         // Create entity with position override
         const entity = this.world.createEntity()
+        const { enemy } = blueprint.components
         const customBlueprint = createEntityFromBlueprint(blueprint, {
           components: {
-            transform: { x: position.x, y: position.y }
+            transform: { x: position.x, y: position.y },
+            // AI state is per enemy and anchored to where it spawned
+            ...(enemy && { enemy: { ...enemy, spawnX: position.x, spawnY: position.y } })
           }
         })
 
@@ -254,6 +344,23 @@ export class LevelManager {
     }
   }
 
+  /**
+   * Spawn trigger zones from level definition
+   * Each zone becomes a trigger collider tagged with its level and zone ID
+   * 
+   * @param levelId - Level the zones belong to
+   * @param zones - Trigger zone definitions
+   */
+  private spawnTriggers(levelId: string, zones: TriggerZone[]): void {
+    for (const zone of zones) {
+      const entity = this.world.createEntity()
+      this.world.addComponent(entity, COMPONENTS.TRANSFORM, { x: zone.x, y: zone.y, rotation: 0 })
+      this.world.addComponent(entity, COMPONENTS.COLLIDER, createCollider(zone.radius, COLLISION_LAYERS.TRIGGER, { isTrigger: true, solid: false }))
+      this.world.addComponent(entity, COMPONENTS.TRIGGER_ZONE, { levelId, zoneId: zone.id })
+      this.levelEntities.add(entity)
+    }
+  }
+
   /**
    * Instantiate blueprint on entity
    * Helper method to add all components from blueprint
@@ -262,20 +369,14 @@ export class LevelManager {
    * @param entityId - Entity to add components to
    */
   private instantiateBlueprint(blueprint: EntityBlueprint, entityId: Entity): void {
-    // Helper: map blueprint key (e.g. 'transform') to canonical runtime key from COMPONENTS (e.g. 'Transform')
-    const mapKey = (k: string) => {
-      const lower = k.toLowerCase()
-      const match = Object.values(COMPONENTS).find((v) => String(v).toLowerCase() === lower)
-      return match ?? k
-    }
-
     // Register all components from blueprint
     Object.entries(blueprint.components).forEach(([componentKey, componentData]) => {
       // Skip undefined components
       if (componentData === undefined) return
 
-      // Map to canonical component key used by the ECS
-      const key = mapKey(componentKey)
+      // Resolve blueprint key (e.g. 'transform') to the canonical ECS key (e.g. 'Transform');
+      // components the registry does not know keep their blueprint key
+      const key = componentRegistry.resolveKey(componentKey) ?? componentKey
       this.world.addComponent(entityId, key as any, componentData)
     })
   }
@@ -6,6 +6,8 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { ReactiveWorld } from '@engine/ReactiveWorld'
+import { Input, QuestFlags, Time, TriggerState } from '@engine/Resources'
+import { Random, createRandomState, getRandomStream } from '@engine/Random'
 import { COMPONENTS } from '@engine/constants'
 import {
   saveGame,
@@ -152,6 +154,113 @@ describe('SaveSystem', () => {
       expect(loaded?.worldState.entities.length).toBeGreaterThanOrEqual(2)
     })
     
+    it('should keep components outside COMPONENTS and remove entities created after the save', () => {
+      world.addComponent(playerId, 'Collider' as any, { type: 'circle', radius: 12 })
+      saveGame(world, playerId, 'level_1_forest', 0)
+
+      const spawned = world.createEntity()
+      world.addComponent(spawned, COMPONENTS.TRANSFORM, { x: 0, y: 0, rotation: 0 })
+      world.addComponent(playerId, COMPONENTS.HEALTH, { current: 1, max: 100 })
+      loadGame(world, 0)
+
+      expect(world.isAlive(spawned)).toBe(false)
+      expect(world.getComponent(playerId, 'Collider' as any)).toEqual({ type: 'circle', radius: 12 })
+      expect(world.getComponent(playerId, COMPONENTS.HEALTH)).toEqual({ current: 80, max: 100 })
+      // The allocator is saved too, so the next entity gets the same handle again
+      expect(world.createEntity()).toBe(spawned)
+    })
+
+    it('should store component versions and resolve legacy component keys', () => {
+      saveGame(world, playerId, 'level_1_forest', 0)
+      const raw = JSON.parse(localStorage.getItem('kata_game_save_slot_0')!)
+      const player = raw.worldState.entities.find((e: any) => e.id === playerId)
+      expect(player.versions[COMPONENTS.HEALTH]).toBe(1)
+
+      // Saves written before the registry may use blueprint-style keys and no versions
+      player.components = { health: { current: 42, max: 100 } }
+      delete player.versions
+      localStorage.setItem('kata_game_save_slot_0', JSON.stringify(raw))
+
+      const newWorld = new ReactiveWorld()
+      loadGame(newWorld, 0)
+      expect(newWorld.getComponent(playerId, COMPONENTS.HEALTH)).toEqual({ current: 42, max: 100 })
+    })
+
+    it('should move quest flags from the legacy player component into the resource', () => {
+      world.setResource(QuestFlags, { found_fortress: true })
+      saveGame(world, playerId, 'level_1_forest', 0)
+      const raw = JSON.parse(localStorage.getItem('kata_game_save_slot_0')!)
+      const player = raw.worldState.entities.find((e: any) => e.id === playerId)
+      player.components[COMPONENTS.QUEST_FLAGS] = { metMerchant: true, found_fortress: false }
+      localStorage.setItem('kata_game_save_slot_0', JSON.stringify(raw))
+
+      const newWorld = new ReactiveWorld()
+      loadGame(newWorld, 0)
+
+      expect(newWorld.getResource(QuestFlags)).toEqual({ metMerchant: true, found_fortress: true })
+      expect(newWorld.getComponent(playerId, COMPONENTS.QUEST_FLAGS)).toBeUndefined()
+    })
+
+    it('should restore the saved Time resource as is', () => {
+      world.updateTime(0.5)
+      world.updateTime(0.25)
+      saveGame(world, playerId, 'level_1_forest', 0)
+      // The plain elapsed time must not be applied on top of the restored resource
+      const raw = JSON.parse(localStorage.getItem('kata_game_save_slot_0')!)
+      raw.worldState.elapsedTime = 9
+      localStorage.setItem('kata_game_save_slot_0', JSON.stringify(raw))
+
+      const newWorld = new ReactiveWorld()
+      newWorld.updateTime(3)
+      loadGame(newWorld, 0)
+
+      expect(newWorld.getResource(Time)).toEqual({ elapsed: 0.75, delta: 0.25, frame: 2 })
+
+      // Older saves without resources still get their elapsed time back
+      delete raw.worldState.resources
+      localStorage.setItem('kata_game_save_slot_0', JSON.stringify(raw))
+      const legacyWorld = new ReactiveWorld()
+      loadGame(legacyWorld, 0)
+      expect(legacyWorld.getTime()).toBe(9)
+    })
+
+    it('should restore persistent resources but not input state', () => {
+      world.setResource(QuestFlags, { metMerchant: true })
+      world.setResource(Input, { pressedKeys: ['w'], actions: { moveUp: true } })
+      world.updateTime(12.5)
+      saveGame(world, playerId, 'level_1_forest', 0)
+
+      const newWorld = new ReactiveWorld()
+      loadGame(newWorld, 0)
+
+      expect(newWorld.getResource(QuestFlags)).toEqual({ metMerchant: true })
+      expect(newWorld.getTime()).toBe(12.5)
+      expect(newWorld.getResource(Input).pressedKeys).toEqual([])
+    })
+
+    it('should restore which level triggers have fired', () => {
+      world.getResource(TriggerState).fired['level_2_cave:cave_ambush:enter'] = 1
+      saveGame(world, playerId, 'level_2_cave', 0)
+
+      const newWorld = new ReactiveWorld()
+      loadGame(newWorld, 0)
+
+      expect(newWorld.getResource(TriggerState).fired).toEqual({ 'level_2_cave:cave_ambush:enter': 1 })
+    })
+
+    it('should store the random seed and continue the same sequence', () => {
+      world.setResource(Random, createRandomState(4242))
+      getRandomStream(world, 'combat').next()
+      saveGame(world, playerId, 'level_1_forest', 0)
+      const expected = getRandomStream(world, 'combat').next()
+
+      const newWorld = new ReactiveWorld()
+      const loaded = loadGame(newWorld, 0)
+
+      expect(loaded?.seed).toBe(4242)
+      expect(getRandomStream(newWorld, 'combat').next()).toBe(expected)
+    })
+
     it('should return null for empty slot', () => {
       const loaded = loadGame(world, 5)
       expect(loaded).toBeNull()
@@ -7,7 +7,11 @@
 
 import type { ReactiveWorld } from '@engine/ReactiveWorld'
 import type { Entity } from '@engine/ECS'
+import { QuestFlags, Time, type SerializedResources } from '@engine/Resources'
+import type { EntityAllocatorState, SnapshotEntity, WorldSnapshot } from '@engine/WorldSnapshot'
+import { Random, createRandomState } from '@engine/Random'
 import { COMPONENTS } from '@engine/constants'
+import { componentRegistry } from '@engine/componentRegistry'
 import { stringifyWithUndefined, parseWithUndefined } from '@engine/utils/serialization'
 
 /**
@@ -33,6 +37,8 @@ export interface SerializedEntity {
   id: Entity
   /** Component name to component data map */
   components: Record<string, unknown>
+  /** Data version per component, from the component registry (absent in older saves: 1) */
+  versions?: Record<string, number>
 }
 
 /**
@@ -61,6 +67,10 @@ export interface WorldState {
   entities: SerializedEntity[]
   /** World elapsed time */
   elapsedTime: number
+  /** Persistent world resources keyed by name (absent in older saves) */
+  resources?: SerializedResources
+  /** Entity allocator state, so new entities get the same handles after loading (absent in older saves) */
+  allocator?: EntityAllocatorState
 }
 
 /**
@@ -73,10 +83,14 @@ export interface GameSave {
   timestamp: number
   /** Current level ID */
   levelId: string
+  /** Entities belonging to the current level (absent in older saves) */
+  levelEntities?: Entity[]
   /** Player-specific data */
   playerData: PlayerData
   /** Complete world state */
   worldState: WorldState
+  /** Seed of the world's random generator (absent in older saves) */
+  seed?: number
   /** Optional save slot name/description */
   slotName?: string
 }
@@ -98,49 +112,64 @@ export interface SaveSlotInfo {
 }
 
 /**
- * Serialize entity with all its components
+ * Serialize a snapshot entity with all its components
  * 
- * @param world - Game world
- * @param entityId - Entity to serialize
+ * Registered components go through their registry serializer; others
+ * (e.g. game-specific components) are stored as plain copies.
+ * 
+ * @param snapshotEntity - Entity image from `world.snapshot()`
  * @returns Serialized entity data
  */
-const serializeEntity = (world: ReactiveWorld, entityId: Entity): SerializedEntity => {
-  const components: Record<string, unknown> = {}
+const serializeEntity = ({ entity, components }: SnapshotEntity): SerializedEntity => {
+  const serialized: Record<string, unknown> = {}
+  const versions: Record<string, number> = {}
   
-  // Serialize all known components
-  const componentKeys = Object.values(COMPONENTS)
-  for (const key of componentKeys) {
-    const component = world.getComponent(entityId, key as any)
-    if (component !== undefined) {
-      components[key] = component
-    }
+  for (const [key, component] of Object.entries(components)) {
+    const { data, version } = componentRegistry.serialize(key, component)
+    serialized[key] = data
+    versions[key] = version
   }
   
   return {
-    id: entityId,
-    components
+    id: entity,
+    components: serialized,
+    versions
   }
 }
 
 /**
- * Deserialize entity and restore its components
+ * Rebuild a snapshot entity from save data
+ * 
+ * Entity IDs are preserved, so references between entities stay valid.
  * 
- * @param world - Game world
  * @param serialized - Serialized entity data
- * @returns Restored entity ID
+ * @returns Entity image for `world.restore()`
  */
-const deserializeEntity = (world: ReactiveWorld, serialized: SerializedEntity): Entity => {
-  // Note: We assume entity IDs are preserved during save/load
-  // In a more complex system, you might need to create new entities
-  // and maintain an ID mapping
-  const entityId = serialized.id
+const deserializeEntity = (serialized: SerializedEntity): SnapshotEntity => {
+  const components: Record<string, unknown> = {}
   
-  // Restore all components
+  // Resolve legacy keys and upgrade data written by older component versions
   for (const [componentKey, componentData] of Object.entries(serialized.components)) {
-    world.addComponent(entityId, componentKey as any, componentData)
+    const key = componentRegistry.resolveKey(componentKey) ?? componentKey
+    const version = serialized.versions?.[componentKey] ?? 1
+    components[key] = componentRegistry.deserialize(key, componentData, version)
   }
   
-  return entityId
+  return { entity: serialized.id, components }
+}
+
+/**
+ * Move quest flags that older saves kept in a per-player component into
+ * the QuestFlags resource; flags already in the resource win.
+ *
+ * @param world - World the save was just restored into
+ */
+const migrateQuestFlags = (world: ReactiveWorld): void => {
+  for (const { entity, comps } of world.query(COMPONENTS.QUEST_FLAGS)) {
+    const [legacy] = comps as [Record<string, unknown>]
+    world.setResource(QuestFlags, { ...legacy, ...world.getResource(QuestFlags) })
+    world.removeComponent(entity, COMPONENTS.QUEST_FLAGS)
+  }
 }
 
 /**
@@ -151,11 +180,12 @@ const deserializeEntity = (world: ReactiveWorld, serialized: SerializedEntity):
  * @param levelId - Current level ID
  * @param slotNumber - Save slot number (0-9)
  * @param slotName - Optional slot name/description
+ * @param levelEntities - Entities of the current level, adopted again on load
  * @returns true if save succeeded, false otherwise
  * 
  * @example
  * ```ts
- * const success = saveGame(world, playerId, 'level_1_forest', 0, 'My Save')
+ * const success = saveGame(world, playerId, 'level_1_forest', 0, 'My Save', levelManager.getLevelEntities())
  * if (success) {
  *   console.log('Game saved!')
  * }
@@ -166,7 +196,8 @@ export const saveGame = (
   playerId: Entity,
   levelId: string,
   slotNumber: number,
-  slotName?: string
+  slotName?: string,
+  levelEntities?: Iterable<Entity>
 ): boolean => {
   try {
     if (slotNumber < 0 || slotNumber >= MAX_SAVE_SLOTS) {
@@ -190,33 +221,24 @@ export const saveGame = (
       stats: playerStats
     }
     
-    // Collect all entities and their components
-    // We'll query all entities by checking for any component
-    const allEntitiesSet = new Set<Entity>()
-    const componentKeys = Object.values(COMPONENTS)
-    for (const key of componentKeys) {
-      const entities = world.query(key as any)
-      for (const { entity } of entities) {
-        allEntitiesSet.add(entity)
-      }
-    }
-    
-    const entities: SerializedEntity[] = []
-    for (const entityId of allEntitiesSet) {
-      entities.push(serializeEntity(world, entityId))
-    }
+    // Collect all entities with all their components, registered or not
+    const snapshot = world.snapshot()
     
     const worldState: WorldState = {
-      entities,
-      elapsedTime: world.getTime()
+      entities: snapshot.entities.map(serializeEntity),
+      elapsedTime: world.getTime(),
+      resources: world.serializeResources(),
+      allocator: snapshot.allocator
     }
     
     const gameSave: GameSave = {
       version: SAVE_VERSION,
       timestamp: Date.now(),
       levelId,
+      levelEntities: levelEntities ? [...levelEntities] : undefined,
       playerData,
       worldState,
+      seed: world.getResource(Random).seed,
       slotName
     }
     
@@ -274,20 +296,30 @@ export const loadGame = (
       // Could implement migration here if needed
     }
     
-    // Clear existing world state
-    // Note: World doesn't have a clear method, so we'll need to work with what we have
-    // In practice, the caller should handle creating a fresh world or clearing state
-    
-    // Restore world time
-    const timeDiff = gameSave.worldState.elapsedTime - world.getTime()
-    if (timeDiff !== 0) {
-      world.updateTime(timeDiff)
+    // Restore resources (including Time and the random streams) when the save has them
+    if (gameSave.worldState.resources) {
+      world.restoreResources(gameSave.worldState.resources)
+    }
+    // Saves without stream state still restart the generator from their seed
+    if (gameSave.seed !== undefined && !gameSave.worldState.resources?.[Random.name]) {
+      world.setResource(Random, createRandomState(gameSave.seed))
+    }
+
+    // Older saves without a Time resource only carry the elapsed time
+    if (!gameSave.worldState.resources?.[Time.name]) {
+      const timeDiff = gameSave.worldState.elapsedTime - world.getTime()
+      if (timeDiff !== 0) {
+        world.updateTime(timeDiff)
+      }
     }
     
-    // Restore all entities
-    for (const serializedEntity of gameSave.worldState.entities) {
-      deserializeEntity(world, serializedEntity)
+    // Replace all entities; ones created since the save are removed
+    const snapshot: WorldSnapshot = {
+      entities: gameSave.worldState.entities.map(deserializeEntity),
+      allocator: gameSave.worldState.allocator
     }
+    world.restore(snapshot)
+    migrateQuestFlags(world)
     
     console.log(`[SaveSystem] Game loaded from slot ${slotNumber}`)
     return gameSave
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ReactiveWorld } from '@engine/ReactiveWorld'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { QuestFlags, TriggerState } from '@engine/Resources'
+import { COLLISION_LAYERS, createCollider } from '@components'
+import { createCollisionSystem } from '@engine/systems/CollisionSystem'
+import { LevelManager } from './LevelManager'
+import { createTriggerSystem, triggerKey } from './TriggerSystem'
+
+describe('TriggerSystem', () => {
+  let world: ReactiveWorld
+  let levelManager: LevelManager
+  let collision: ReturnType<typeof createCollisionSystem>
+  let triggers: ReturnType<typeof createTriggerSystem>
+  let player: number
+  let hints: string[]
+
+  // Move the player and let the collision system report the contacts
+  const walkTo = (x: number, y: number) => {
+    const t = world.getComponent(player, COMPONENTS.TRANSFORM)!
+    t.x = x
+    t.y = y
+    world.markChanged(player, COMPONENTS.TRANSFORM)
+    collision.update(world)
+  }
+
+  const hostileCount = () => world.query(COMPONENTS.HOSTILE).length
+
+  beforeEach(() => {
+    world = new ReactiveWorld()
+    levelManager = new LevelManager(world)
+    player = world.createEntity()
+    world.addComponent(player, COMPONENTS.TRANSFORM, { x: 100, y: 100, rotation: 0 })
+    world.addComponent(player, COMPONENTS.PLAYER, {})
+    world.addComponent(player, COMPONENTS.COLLIDER, createCollider(12, COLLISION_LAYERS.PLAYER))
+    levelManager.setPlayer(player)
+
+    collision = createCollisionSystem()
+    triggers = createTriggerSystem(world, levelManager)
+    hints = []
+    world.on(GAME_EVENTS.HINT_SHOWN, ({ text }) => hints.push(text))
+  })
+
+  it('should fire a once zone a single time and record it in TriggerState', () => {
+    levelManager.loadLevel('level_1_forest')
+    const fired: string[] = []
+    world.on(GAME_EVENTS.TRIGGER_FIRED, ({ zoneId, edge }) => fired.push(`${zoneId}:${edge}`))
+
+    walkTo(200, 200)
+    walkTo(100, 100)
+    walkTo(200, 200)
+
+    expect(fired).toEqual(['forest_welcome:enter'])
+    expect(hints).toHaveLength(1)
+    expect(world.getResource(TriggerState).fired[triggerKey('level_1_forest', 'forest_welcome', 'enter')]).toBe(1)
+  })
+
+  it('should skip once zones already fired in a loaded save', () => {
+    world.getResource(TriggerState).fired[triggerKey('level_1_forest', 'forest_welcome', 'enter')] = 1
+    levelManager.loadLevel('level_1_forest')
+
+    walkTo(200, 200)
+
+    expect(hints).toEqual([])
+  })
+
+  it('should fire repeat zones on every enter and exit', () => {
+    levelManager.loadLevel('level_3_fortress')
+
+    walkTo(760, 710)
+    walkTo(760, 900)
+    walkTo(760, 710)
+
+    expect(hints).toEqual(["The chieftain's keep", 'Leaving the keep', "The chieftain's keep"])
+    expect(world.getResource(TriggerState).fired[triggerKey('level_3_fortress', 'fortress_keep', 'enter')]).toBe(2)
+  })
+
+  it('should show a hint and spawn a wave', () => {
+    levelManager.loadLevel('level_2_cave')
+    const before = hostileCount()
+
+    walkTo(700, 700)
+
+    expect(hints).toEqual(['Ambush!'])
+    expect(hostileCount()).toBe(before + 3)
+  })
+
+  it('should set quest flags and load the next level at its spawn point', () => {
+    levelManager.loadLevel('level_2_cave')
+    const flags: string[] = []
+    world.on(GAME_EVENTS.QUEST_FLAG_SET, ({ key }) => flags.push(key))
+
+    walkTo(900, 900)
+
+    expect(world.getResource(QuestFlags).found_fortress).toBe(true)
+    expect(flags).toEqual(['found_fortress'])
+    expect(levelManager.getCurrentLevel()?.id).toBe('level_3_fortress')
+    expect(world.getComponent(player, COMPONENTS.TRANSFORM)).toMatchObject({ x: 120, y: 120 })
+  })
+
+  it('should start the dialog of a zone', () => {
+    levelManager.loadLevel('level_3_fortress')
+
+    walkTo(760, 480)
+
+    expect(world.getComponent(player, COMPONENTS.DIALOG_STATE)).toMatchObject({ active: true, treeId: 'guard_dialog' })
+  })
+
+  it('should ignore non-trigger contacts and entities other than the player', () => {
+    levelManager.loadLevel('level_1_forest')
+    const zone = world.query(COMPONENTS.TRIGGER_ZONE)[0].entity
+    const other = world.createEntity()
+
+    world.emit(GAME_EVENTS.COLLISION_ENTER, { a: zone, b: other, trigger: true })
+    world.emit(GAME_EVENTS.COLLISION_ENTER, { a: zone, b: player, trigger: false })
+
+    expect(hints).toEqual([])
+  })
+
+  it('should stop reacting once disposed', () => {
+    levelManager.loadLevel('level_1_forest')
+    triggers.dispose()
+
+    walkTo(200, 200)
+
+    expect(hints).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Trigger System
+ *
+ * Runs the scripted actions of level trigger zones. LevelManager spawns each
+ * zone as a trigger collider tagged with a TriggerZone component; the
+ * collision system reports the player touching it through CollisionEnter /
+ * CollisionExit, and this system looks the zone up in its level definition
+ * and runs its onEnter / onExit actions.
+ *
+ * 'once' zones fire each edge at most once per game. Fire counts live in the
+ * TriggerState resource, which is saved with the game.
+ */
+
+import type { Entity } from '@engine/ECS'
+import type { ReactiveWorld } from '@engine/ReactiveWorld'
+import { COMPONENTS, GAME_EVENTS } from '@engine/constants'
+import { QuestFlags, TriggerState } from '@engine/Resources'
+import type { GameEventMap } from '@engine/GameEvents'
+import { getLevelById, type TriggerAction } from '@game/configs/LevelConfig'
+import type { LevelManager } from '@game/LevelManager'
+import { startDialog } from '@game/GameActions'
+
+/** Seconds a hint stays on screen unless the action says otherwise */
+export const DEFAULT_HINT_DURATION = 4
+
+type TriggerEdge = GameEventMap['TriggerFired']['edge']
+
+/**
+ * Key under which a zone edge's fire count is stored in TriggerState
+ *
+ * @example
+ * ```ts
+ * world.getResource(TriggerState).fired[triggerKey('level_2_cave', 'cave_ambush', 'enter')] // 1
+ * ```
+ */
+export const triggerKey = (levelId: string, zoneId: string, edge: TriggerEdge): string =>
+  `${levelId}:${zoneId}:${edge}`
+
+/**
+ * Create the trigger system
+ *
+ * Subscribes to collision events on the world; call `dispose` to stop.
+ * Actions run in the order listed, so put `loadLevel` last when other
+ * actions should happen in the level being left.
+ *
+ * @param world - Game world
+ * @param levelManager - Level manager used for level loads and enemy waves
+ * @returns Object with `dispose`
+ *
+ * @example
+ * ```ts
+ * const triggers = createTriggerSystem(world, levelManager)
+ * world.on(GAME_EVENTS.HINT_SHOWN, ({ text }) => showHint(text))
+ * // on teardown
+ * triggers.dispose()
+ * ```
+ */
+export const createTriggerSystem = (world: ReactiveWorld, levelManager: LevelManager) => {
+  const runAction = (action: TriggerAction, player: Entity, zoneEntity: Entity) => {
+    switch (action.type) {
+      case 'loadLevel':
+        if (levelManager.loadLevel(action.levelId) && action.spawn) {
+          levelManager.resetPlayerPosition(action.spawn.x, action.spawn.y)
+        }
+        break
+      case 'setQuestFlag':
+        world.getResource(QuestFlags)[action.key] = action.value
+        world.emit(GAME_EVENTS.QUEST_FLAG_SET, { entity: player, key: action.key, value: action.value })
+        break
+      case 'startDialog':
+        // The zone stands in for the NPC
+        startDialog(world, player, zoneEntity, action.treeId)
+        break
+      case 'spawnWave':
+        levelManager.spawnWave(action.enemies)
+        break
+      case 'showHint':
+        world.emit(GAME_EVENTS.HINT_SHOWN, { text: action.text, duration: action.duration ?? DEFAULT_HINT_DURATION })
+        break
+    }
+  }
+
+  const fire = (zoneEntity: Entity, player: Entity, edge: TriggerEdge) => {
+    const tag = world.getComponent(zoneEntity, COMPONENTS.TRIGGER_ZONE) as { levelId: string; zoneId: string } | undefined
+    if (!tag) return
+    const zone = getLevelById(tag.levelId)?.triggers?.find(z => z.id === tag.zoneId)
+    const actions = edge === 'enter' ? zone?.onEnter : zone?.onExit
+    if (!zone || !actions?.length) return
+
+    const { fired } = world.getResource(TriggerState)
+    const key = triggerKey(tag.levelId, zone.id, edge)
+    if (zone.mode === 'once' && fired[key]) return
+    fired[key] = (fired[key] ?? 0) + 1
+
+    world.emit(GAME_EVENTS.TRIGGER_FIRED, { entity: player, levelId: tag.levelId, zoneId: zone.id, edge })
+    for (const action of actions) runAction(action, player, zoneEntity)
+  }
+
+  // Zones left because they (or the player) were removed are ignored: their components are gone
+  const onCollision = (edge: TriggerEdge) => ({ a, b, trigger }: GameEventMap['CollisionEnter']) => {
+    if (!trigger) return
+    for (const [zoneEntity, other] of [[a, b], [b, a]]) {
+      if (world.getComponent(other, COMPONENTS.PLAYER) !== undefined) fire(zoneEntity, other, edge)
+    }
+  }
+
+  const offEnter = world.on(GAME_EVENTS.COLLISION_ENTER, onCollision('enter'))
+  const offExit = world.on(GAME_EVENTS.COLLISION_EXIT, onCollision('exit'))
+
+  return {
+    dispose: () => {
+      offEnter()
+      offExit()
+    }
+  }
+}
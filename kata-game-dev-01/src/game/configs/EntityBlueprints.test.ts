@@ -1,16 +1,22 @@
 import { describe, it, expect } from 'vitest'
+import { COLLISION_LAYERS } from '@components'
 import {
   PLAYER_BLUEPRINT,
   GOBLIN_BLUEPRINT,
   ORC_BLUEPRINT,
   MERCHANT_BLUEPRINT,
   HEALTH_POTION_BLUEPRINT,
+  ARROW_BLUEPRINT,
+  MAGIC_BOLT_BLUEPRINT,
+  GOBLIN_SHAMAN_BLUEPRINT,
+  WEAPON_PROJECTILES,
   ENTITY_BLUEPRINTS,
   createEntityFromBlueprint,
   getBlueprintById,
   isValidBlueprint,
   getBlueprintsByType,
   getBlueprintsByTag,
+  getProjectileKind,
 } from './EntityBlueprints'
 
 describe('EntityBlueprints', () => {
@@ -140,7 +146,8 @@ describe('EntityBlueprints', () => {
       const enemies = getBlueprintsByType('enemy')
       expect(enemies).toContain(GOBLIN_BLUEPRINT)
       expect(enemies).toContain(ORC_BLUEPRINT)
-      expect(enemies.length).toBe(2)
+      expect(enemies).toContain(GOBLIN_SHAMAN_BLUEPRINT)
+      expect(enemies.length).toBe(3)
     })
 
     it('should identify NPCs correctly', () => {
@@ -307,8 +314,8 @@ describe('EntityBlueprints', () => {
   describe('Collision', () => {
     it('should have collision configuration', () => {
       const playerCollider = PLAYER_BLUEPRINT.components.collider
-      expect(playerCollider.width).toBeDefined()
-      expect(playerCollider.height).toBeDefined()
+      expect(playerCollider.radius).toBeGreaterThan(0)
+      expect(playerCollider.layer).toBe(COLLISION_LAYERS.PLAYER)
       expect(playerCollider.isTrigger).toBeDefined()
     })
 
@@ -322,6 +329,34 @@ describe('EntityBlueprints', () => {
     })
   })
 
+  describe('Projectiles', () => {
+    it('should list the projectile blueprints', () => {
+      expect(getBlueprintsByType('projectile').map(bp => bp.id).sort()).toEqual(['projectile_arrow', 'projectile_magic_bolt'])
+    })
+
+    it('should map bows and staffs to their projectiles', () => {
+      expect(WEAPON_PROJECTILES.bow).toBe(ARROW_BLUEPRINT.id)
+      expect(WEAPON_PROJECTILES.staff).toBe(MAGIC_BOLT_BLUEPRINT.id)
+    })
+
+    it('should build projectile kinds from the blueprint components', () => {
+      expect(getProjectileKind('projectile_arrow')).toMatchObject({ radius: 3, sprite: 'arrow', color: '#8a6a3a', speed: 420, pierce: 0 })
+      expect(getProjectileKind('projectile_magic_bolt')).toMatchObject({ sprite: 'magic_bolt', pierce: 1 })
+      expect(getProjectileKind('goblin_scout')).toBeUndefined()
+      expect(getProjectileKind('unknown')).toBeUndefined()
+    })
+
+    it('should arm the goblin shaman with magic bolts', () => {
+      expect(GOBLIN_SHAMAN_BLUEPRINT.type).toBe('enemy')
+      expect(GOBLIN_SHAMAN_BLUEPRINT.components.enemy.projectile).toEqual(getProjectileKind(MAGIC_BOLT_BLUEPRINT.id))
+    })
+
+    it('projectiles should have trigger colliders on the projectile layer', () => {
+      expect(ARROW_BLUEPRINT.components.collider).toMatchObject({ layer: COLLISION_LAYERS.PROJECTILE, isTrigger: true })
+      expect(MAGIC_BOLT_BLUEPRINT.components.collider).toMatchObject({ layer: COLLISION_LAYERS.PROJECTILE, isTrigger: true })
+    })
+  })
+
   describe('Registry Integrity', () => {
     it('all registered blueprints should be valid', () => {
       Object.values(ENTITY_BLUEPRINTS).forEach(blueprint => {
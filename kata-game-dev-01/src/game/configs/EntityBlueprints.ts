@@ -1,3 +1,6 @@
+import { COLLISION_LAYERS, type ProjectileKind } from '@components'
+import type { Weapon } from '@components/Weapon'
+
 /**
  * Defines the structure of an entity blueprint.
  * A blueprint is a template used to create entities with predefined components.
@@ -46,12 +49,14 @@ export interface EntityBlueprint {
  * Components:
  * - transform: Starting position
  * - velocity: Movement state
+ * - physicsBody: Knockback and pushes, capped speed
  * - collider: Collision boundaries
  * - renderable: Visual representation (blue circle)
  * - health: Player health
  * - inventory: Item storage
  * - equipment: Item slots
  * - stats: Level and progression
+ * - player: Tag for player queries
  *
  * @example
  * ```ts
@@ -75,12 +80,20 @@ export const PLAYER_BLUEPRINT: EntityBlueprint = {
       vx: 0,
       vy: 0,
     },
+    physicsBody: {
+      vx: 0,
+      vy: 0,
+      fx: 0,
+      fy: 0,
+      drag: 6,
+      friction: 100,
+      maxSpeed: 600,
+    },
     collider: {
-      width: 20,
-      height: 20,
+      radius: 10,
+      layer: COLLISION_LAYERS.PLAYER,
       isTrigger: false,
-      collisionGroup: 1,
-      collisionMask: 0xffff,
+      solid: true,
     },
     renderable: {
       type: 'player',
@@ -108,6 +121,7 @@ export const PLAYER_BLUEPRINT: EntityBlueprint = {
     metadata: {
       isPlayer: true,
     },
+    player: {},
   },
 }
 
@@ -122,12 +136,14 @@ export const PLAYER_BLUEPRINT: EntityBlueprint = {
  * Components:
  * - transform: Spawn position
  * - velocity: Movement state
+ * - physicsBody: Light, knocked back far
  * - collider: Small collision boundaries
  * - renderable: Green circle
  * - health: Low health (20 HP)
  * - damage: Low damage (5-7)
  * - ai: Aggressive behavior, medium range
  * - metadata: Marked as enemy
+ * - hostile: Tag for enemy queries
  *
  * @example
  * ```ts
@@ -150,9 +166,20 @@ export const GOBLIN_BLUEPRINT: EntityBlueprint = {
       vx: 0,
       vy: 0,
     },
+    physicsBody: {
+      vx: 0,
+      vy: 0,
+      fx: 0,
+      fy: 0,
+      drag: 4,
+      friction: 80,
+      maxSpeed: 500,
+    },
     collider: {
-      width: 15,
-      height: 15,
+      radius: 8,
+      layer: COLLISION_LAYERS.ENEMY,
+      isTrigger: false,
+      solid: true,
     },
     renderable: {
       type: 'goblin',
@@ -177,6 +204,7 @@ export const GOBLIN_BLUEPRINT: EntityBlueprint = {
     metadata: {
       isEnemy: true,
     },
+    hostile: {},
   },
 }
 
@@ -187,12 +215,14 @@ export const GOBLIN_BLUEPRINT: EntityBlueprint = {
  * Components:
  * - transform: Spawn position
  * - velocity: Movement state
+ * - physicsBody: Heavy, shrugs off knockback quickly
  * - collider: Large collision boundaries
  * - renderable: Yellow-green circle, larger radius
  * - health: High health (60 HP)
  * - damage: High damage (12-16)
  * - ai: Aggressive behavior, long range
  * - metadata: Marked as enemy
+ * - hostile: Tag for enemy queries
  *
  * @example
  * ```ts
@@ -215,9 +245,21 @@ export const ORC_BLUEPRINT: EntityBlueprint = {
       vx: 0,
       vy: 0,
     },
+    physicsBody: {
+      vx: 0,
+      vy: 0,
+      fx: 0,
+      fy: 0,
+      drag: 8,
+      friction: 150,
+      maxSpeed: 400,
+    },
     collider: {
-      width: 25,
-      height: 25,
+      radius: 12,
+      layer: COLLISION_LAYERS.ENEMY,
+      isTrigger: false,
+      solid: true,
+      mass: 3,
     },
     renderable: {
       type: 'orc',
@@ -242,6 +284,7 @@ export const ORC_BLUEPRINT: EntityBlueprint = {
     metadata: {
       isEnemy: true,
     },
+    hostile: {},
   },
 }
 
@@ -255,10 +298,12 @@ export const ORC_BLUEPRINT: EntityBlueprint = {
  *
  * Components:
  * - transform: Spawn position
+ * - collider: Immovable body (can't be shoved)
  * - renderable: Orange circle (distinguishable from enemies)
  * - health: Standard health (for safety)
  * - inventory: Pre-stocked with items
  * - metadata: Marked as NPC
+ * - npc: Tag for NPC queries
  *
  * @example
  * ```ts
@@ -277,6 +322,13 @@ export const MERCHANT_BLUEPRINT: EntityBlueprint = {
       x: 0,
       y: 0,
     },
+    collider: {
+      radius: 10,
+      layer: COLLISION_LAYERS.NPC,
+      isTrigger: false,
+      solid: true,
+      immovable: true,
+    },
     renderable: {
       type: 'merchant',
       color: '#ffaa00',
@@ -298,6 +350,7 @@ export const MERCHANT_BLUEPRINT: EntityBlueprint = {
       isNPC: true,
       dialogTreeId: 'merchant_dialog',
     },
+    npc: {},
   },
 }
 
@@ -331,9 +384,10 @@ export const HEALTH_POTION_BLUEPRINT: EntityBlueprint = {
       y: 0,
     },
     collider: {
-      width: 8,
-      height: 8,
+      radius: 4,
+      layer: COLLISION_LAYERS.TRIGGER,
       isTrigger: true,
+      solid: false,
     },
     renderable: {
       type: 'potion_health',
@@ -344,6 +398,213 @@ export const HEALTH_POTION_BLUEPRINT: EntityBlueprint = {
   },
 }
 
+/**
+ * PROJECTILE BLUEPRINTS
+ */
+
+/**
+ * Arrow projectile blueprint.
+ * Fast, long-ranged shot from bows; loses some damage at the end of its range.
+ *
+ * Components:
+ * - collider: Small trigger on the projectile layer (the shooter's side sets the mask)
+ * - renderable: Arrow sprite, rotated to the flight direction
+ * - projectile: Speed, lifetime, range, pierce and damage falloff
+ *
+ * @example
+ * ```ts
+ * projectiles.fire({ owner: player, weapon: bow, kind: getProjectileKind('projectile_arrow')!, x, y, dirX, dirY, mask })
+ * ```
+ */
+export const ARROW_BLUEPRINT: EntityBlueprint = {
+  id: 'projectile_arrow',
+  name: 'Arrow',
+  type: 'projectile',
+  tags: ['ranged', 'physical'],
+  description: 'A wooden arrow',
+  components: {
+    collider: {
+      radius: 3,
+      layer: COLLISION_LAYERS.PROJECTILE,
+      isTrigger: true,
+      solid: false,
+    },
+    renderable: {
+      type: 'arrow',
+      color: '#8a6a3a',
+      radius: 3,
+      layer: 6,
+    },
+    projectile: {
+      speed: 420,
+      lifetime: 1.5,
+      range: 420,
+      pierce: 0,
+      falloffStart: 0.5,
+      minDamageScale: 0.6,
+    },
+  },
+}
+
+/**
+ * Magic Bolt projectile blueprint.
+ * Slower staff shot that passes through one target and keeps its damage.
+ *
+ * Components:
+ * - collider: Trigger on the projectile layer
+ * - renderable: Glowing bolt sprite
+ * - projectile: Speed, lifetime, range, pierce and damage falloff
+ */
+export const MAGIC_BOLT_BLUEPRINT: EntityBlueprint = {
+  id: 'projectile_magic_bolt',
+  name: 'Magic Bolt',
+  type: 'projectile',
+  tags: ['ranged', 'magic'],
+  description: 'A crackling bolt of arcane energy',
+  components: {
+    collider: {
+      radius: 5,
+      layer: COLLISION_LAYERS.PROJECTILE,
+      isTrigger: true,
+      solid: false,
+    },
+    renderable: {
+      type: 'magic_bolt',
+      color: '#9a70ff',
+      radius: 5,
+      layer: 6,
+    },
+    projectile: {
+      speed: 300,
+      lifetime: 1.2,
+      range: 340,
+      pierce: 1,
+      falloffStart: 1,
+      minDamageScale: 1,
+    },
+  },
+}
+
+/**
+ * Projectile blueprint fired by each ranged weapon type.
+ */
+export const WEAPON_PROJECTILES: Partial<Record<Weapon['type'], string>> = {
+  bow: ARROW_BLUEPRINT.id,
+  staff: MAGIC_BOLT_BLUEPRINT.id,
+}
+
+/**
+ * Projectile kind described by a projectile blueprint's components.
+ */
+function projectileKindOf(blueprint: EntityBlueprint): ProjectileKind {
+  const { collider, renderable, projectile } = blueprint.components
+  return {
+    ...projectile,
+    radius: collider.radius,
+    sprite: renderable.type,
+    color: renderable.color,
+  }
+}
+
+/**
+ * RANGED ENEMY BLUEPRINTS
+ * Defined after the projectiles they shoot.
+ */
+
+/**
+ * Goblin Shaman blueprint.
+ * Frail caster that keeps its distance and shoots magic bolts.
+ *
+ * Components:
+ * - transform: Spawn position
+ * - velocity: Movement state
+ * - physicsBody: Light, knocked back far
+ * - collider: Small collision boundaries
+ * - renderable: Purple goblin
+ * - health: Low health (15 HP)
+ * - damage: Bolt damage (6-8)
+ * - ai: Ranged behavior, long range
+ * - enemy: AI state; shoots magic bolts from attack range (spawn point set when spawned)
+ * - metadata: Marked as enemy
+ * - hostile: Tag for enemy queries
+ *
+ * @example
+ * ```ts
+ * levelManager.spawnWave([{ blueprintId: 'goblin_shaman', count: 2, spawnZones: [zone] }])
+ * ```
+ */
+export const GOBLIN_SHAMAN_BLUEPRINT: EntityBlueprint = {
+  id: 'goblin_shaman',
+  name: 'Goblin Shaman',
+  type: 'enemy',
+  tags: ['ranged', 'magic', 'small'],
+  description: 'A goblin caster hurling bolts of arcane energy',
+  components: {
+    transform: {
+      x: 0,
+      y: 0,
+    },
+    velocity: {
+      vx: 0,
+      vy: 0,
+    },
+    physicsBody: {
+      vx: 0,
+      vy: 0,
+      fx: 0,
+      fy: 0,
+      drag: 4,
+      friction: 80,
+      maxSpeed: 400,
+    },
+    collider: {
+      radius: 8,
+      layer: COLLISION_LAYERS.ENEMY,
+      isTrigger: false,
+      solid: true,
+    },
+    renderable: {
+      type: 'goblin',
+      color: '#b060ff',
+      radius: 8,
+      layer: 5,
+    },
+    health: {
+      current: 15,
+      max: 15,
+    },
+    damage: {
+      baseValue: 7,
+      variance: 1,
+    },
+    ai: {
+      type: 'ranged',
+      detectionRange: 300,
+      attackRange: 220,
+      speed: 70,
+    },
+    enemy: {
+      attackRange: 220,
+      attackDamage: 7,
+      attackCooldown: 2,
+      lastAttackTime: 0,
+      speed: 70,
+      detectionRange: 300,
+      spawnX: 0,
+      spawnY: 0,
+      isReturning: false,
+      patrolRadius: 40,
+      patrolAngle: 0,
+      patrolSpeed: 25,
+      projectile: projectileKindOf(MAGIC_BOLT_BLUEPRINT),
+    },
+    metadata: {
+      isEnemy: true,
+    },
+    hostile: {},
+  },
+}
+
 /**
  * BLUEPRINT REGISTRY
  *
@@ -364,12 +625,33 @@ export const ENTITY_BLUEPRINTS: Record<string, EntityBlueprint> = {
   // Enemies
   [GOBLIN_BLUEPRINT.id]: GOBLIN_BLUEPRINT,
   [ORC_BLUEPRINT.id]: ORC_BLUEPRINT,
+  [GOBLIN_SHAMAN_BLUEPRINT.id]: GOBLIN_SHAMAN_BLUEPRINT,
 
   // NPCs
   [MERCHANT_BLUEPRINT.id]: MERCHANT_BLUEPRINT,
 
   // Items
   [HEALTH_POTION_BLUEPRINT.id]: HEALTH_POTION_BLUEPRINT,
+
+  // Projectiles
+  [ARROW_BLUEPRINT.id]: ARROW_BLUEPRINT,
+  [MAGIC_BOLT_BLUEPRINT.id]: MAGIC_BOLT_BLUEPRINT,
+}
+
+/**
+ * Resolve a projectile blueprint into the kind spawnProjectile launches.
+ *
+ * @param id - Projectile blueprint ID
+ * @returns Projectile kind, or undefined if the ID is not a projectile blueprint
+ *
+ * @example
+ * ```ts
+ * const arrow = getProjectileKind(WEAPON_PROJECTILES.bow!)
+ * ```
+ */
+export function getProjectileKind(id: string): ProjectileKind | undefined {
+  const blueprint = ENTITY_BLUEPRINTS[id]
+  return blueprint?.type === 'projectile' ? projectileKindOf(blueprint) : undefined
 }
 
 /**
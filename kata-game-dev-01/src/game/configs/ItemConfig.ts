@@ -1,6 +1,9 @@
 // ItemConfig.ts
 // Central item definitions and catalog for the game.
 
+import { defaultRandom, type RandomFn } from '@engine/Random'
+import type { Weapon } from '@components/Weapon'
+
 export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary'
 
 export interface ItemStats {
@@ -8,6 +11,8 @@ export interface ItemStats {
   defense?: number
   healing?: number
   durability?: number
+  range?: number
+  knockback?: number
   [key: string]: number | undefined
 }
 
@@ -22,6 +27,8 @@ export interface ItemDefinition {
   stats?: ItemStats
   weight?: number
   value?: number
+  // Weapon kind for weapons (default 'sword'); bows and staffs fire projectiles
+  weaponType?: Weapon['type']
 }
 
 export type InventoryItem = {
@@ -31,10 +38,16 @@ export type InventoryItem = {
   durability?: number
 }
 
-// Small helper to create unique instance ids (for tests / factories)
-export const createItemInstance = (id: string, quantity = 1, durability?: number): InventoryItem => ({
+// Small helper to create unique instance ids (for tests / factories).
+// Pass a world stream (e.g. getRandomStream(world, 'loot').next) for reproducible uids.
+export const createItemInstance = (
+  id: string,
+  quantity = 1,
+  durability?: number,
+  random: RandomFn = defaultRandom.next
+): InventoryItem => ({
   id,
-  uid: `${id}_#${Math.random().toString(36).slice(2, 9)}`,
+  uid: `${id}_#${random().toString(36).slice(2, 9)}`,
   quantity,
   durability,
 })
@@ -51,11 +64,46 @@ export const ITEM_CATALOG: Record<string, ItemDefinition> = {
     stats: {
       attack: 8,
       durability: 120,
+      knockback: 180,
     },
     weight: 6,
     value: 35,
   },
 
+  'bow_short': {
+    id: 'bow_short',
+    name: 'Short Bow',
+    description: 'A light hunting bow. Arrows lose force at long range.',
+    type: 'weapon',
+    weaponType: 'bow',
+    rarity: 'common',
+    stackable: false,
+    stats: {
+      attack: 6,
+      durability: 90,
+      range: 420,
+    },
+    weight: 3,
+    value: 40,
+  },
+
+  'staff_oak': {
+    id: 'staff_oak',
+    name: 'Oak Staff',
+    description: 'An apprentice staff. Its bolts pass through the first foe they strike.',
+    type: 'weapon',
+    weaponType: 'staff',
+    rarity: 'uncommon',
+    stackable: false,
+    stats: {
+      attack: 9,
+      durability: 80,
+      range: 340,
+    },
+    weight: 4,
+    value: 70,
+  },
+
   'potion_health': {
     id: 'potion_health',
     name: 'Health Potion',
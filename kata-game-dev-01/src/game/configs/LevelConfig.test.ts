@@ -13,6 +13,7 @@ import {
   type NPCSpawn,
   type ItemSpawn
 } from './LevelConfig'
+import { createStaticGeometry } from '@engine/spatial/StaticGeometry'
 
 describe('LevelConfig', () => {
   describe('Level Definitions', () => {
@@ -205,6 +206,18 @@ describe('LevelConfig', () => {
       expect(isValidLevel(invalid)).toBe(false)
     })
 
+    it('should reject invalid geometry', () => {
+      expect(isValidLevel({ ...LEVEL_1_FOREST, geometry: { tiles: { tileSize: 0, rows: ['#'] } } })).toBe(false)
+      expect(isValidLevel({ ...LEVEL_1_FOREST, geometry: { walls: [[{ x: 0, y: 0 }, { x: 1, y: 1 }]] } })).toBe(false)
+    })
+
+    it('should reject invalid trigger zones', () => {
+      const zone = { id: 'zone', x: 0, y: 0, radius: 10 }
+      expect(isValidLevel({ ...LEVEL_1_FOREST, triggers: [zone, { ...zone }] })).toBe(false)
+      expect(isValidLevel({ ...LEVEL_1_FOREST, triggers: [{ ...zone, radius: 0 }] })).toBe(false)
+      expect(isValidLevel({ ...LEVEL_1_FOREST, triggers: [{ ...zone, id: '' }] })).toBe(false)
+    })
+
     it('should reject invalid level (non-array enemies)', () => {
       const invalid = {
         id: 'test',
@@ -234,6 +247,38 @@ describe('LevelConfig', () => {
     })
   })
 
+  describe('Geometry', () => {
+    it('cave and fortress should declare walls', () => {
+      expect(LEVEL_2_CAVE.geometry?.tiles?.rows.length).toBeGreaterThan(0)
+      expect(LEVEL_3_FORTRESS.geometry?.walls?.length).toBeGreaterThan(0)
+    })
+
+    it('walls should enclose the camera bounds and leave the player start open', () => {
+      for (const level of [LEVEL_2_CAVE, LEVEL_3_FORTRESS]) {
+        const geometry = createStaticGeometry(level.geometry!)
+        const { width, height } = level.cameraBounds!
+
+        expect(geometry.isSolidAt(5, height / 2)).toBe(true)
+        expect(geometry.isSolidAt(width - 5, height / 2)).toBe(true)
+        expect(geometry.isSolidAt(width / 2, 5)).toBe(true)
+        expect(geometry.isSolidAt(width / 2, height - 5)).toBe(true)
+        expect(geometry.isSolidAt(200, 200)).toBe(false)
+      }
+    })
+  })
+
+  describe('Triggers', () => {
+    it('should point level loads at existing levels', () => {
+      for (const level of [LEVEL_1_FOREST, LEVEL_2_CAVE, LEVEL_3_FORTRESS]) {
+        for (const zone of level.triggers ?? []) {
+          for (const action of [...zone.onEnter ?? [], ...zone.onExit ?? []]) {
+            if (action.type === 'loadLevel') expect(getLevelById(action.levelId)).toBeDefined()
+          }
+        }
+      }
+    })
+  })
+
   describe('Theme', () => {
     it('all levels should have theme with backgroundColor', () => {
       expect(LEVEL_1_FOREST.theme?.backgroundColor).toBeDefined()
@@ -5,6 +5,8 @@
  * Each level has spawn zones, entity definitions, and metadata.
  */
 
+import type { StaticGeometryDefinition } from '@engine/spatial/StaticGeometry'
+
 /**
  * Spawn zone definition for entities
  */
@@ -24,7 +26,7 @@ export interface SpawnZone {
  */
 export interface EnemySpawn {
   /** Blueprint ID from EntityBlueprints */
-  blueprintId: 'goblin_scout' | 'orc_warrior'
+  blueprintId: 'goblin_scout' | 'orc_warrior' | 'goblin_shaman'
   /** Number of enemies to spawn */
   count: number
   /** Spawn zones where enemies can appear */
@@ -54,6 +56,49 @@ export interface ItemSpawn {
   spawnZones: SpawnZone[]
 }
 
+/**
+ * Action run when a trigger zone fires
+ *
+ * - loadLevel: switch to another level, optionally moving the player to a spawn point
+ * - setQuestFlag: set a quest flag
+ * - startDialog: open a dialog tree
+ * - spawnWave: spawn enemies like the level's own spawns
+ * - showHint: show a short hint (duration in seconds, default 4)
+ */
+export type TriggerAction =
+  | { type: 'loadLevel'; levelId: string; spawn?: { x: number; y: number } }
+  | { type: 'setQuestFlag'; key: string; value: unknown }
+  | { type: 'startDialog'; treeId: string }
+  | { type: 'spawnWave'; enemies: EnemySpawn[] }
+  | { type: 'showHint'; text: string; duration?: number }
+
+/**
+ * Named circular trigger zone; fires for the player only
+ *
+ * @example
+ * ```ts
+ * const exit: TriggerZone = {
+ *   id: 'cave_exit', x: 900, y: 900, radius: 40, mode: 'repeat',
+ *   onEnter: [{ type: 'loadLevel', levelId: 'level_3_fortress', spawn: { x: 120, y: 120 } }]
+ * }
+ * ```
+ */
+export interface TriggerZone {
+  /** Unique within the level; fired state is saved under it */
+  id: string
+  /** Zone centre */
+  x: number
+  y: number
+  /** Zone radius */
+  radius: number
+  /** 'once': each of enter/exit fires at most once per game; 'repeat' (default): every time */
+  mode?: 'once' | 'repeat'
+  /** Actions run in order when the player enters the zone */
+  onEnter?: TriggerAction[]
+  /** Actions run in order when the player leaves the zone */
+  onExit?: TriggerAction[]
+}
+
 /**
  * Level definition interface
  */
@@ -77,6 +122,10 @@ export interface LevelDefinition {
     width: number
     height: number
   }
+  /** Static collision geometry (solid tiles, polygon walls); also drawn by the background renderer */
+  geometry?: StaticGeometryDefinition
+  /** Trigger zones with scripted actions */
+  triggers?: TriggerZone[]
   /** Background color or theme */
   theme?: {
     backgroundColor?: string
@@ -127,6 +176,23 @@ export const LEVEL_1_FOREST: LevelDefinition = {
     width: 1200,
     height: 1000
   },
+  triggers: [
+    {
+      id: 'forest_welcome',
+      x: 200,
+      y: 200,
+      radius: 60,
+      mode: 'once',
+      onEnter: [{ type: 'showHint', text: 'Talk to the merchant in the clearing (click on him)' }]
+    },
+    {
+      id: 'forest_cave_entrance',
+      x: 1120,
+      y: 920,
+      radius: 40,
+      onEnter: [{ type: 'loadLevel', levelId: 'level_2_cave', spawn: { x: 120, y: 120 } }]
+    }
+  ],
   theme: {
     backgroundColor: '#2d4a2b',
     themeType: 'forest'
@@ -137,7 +203,7 @@ export const LEVEL_1_FOREST: LevelDefinition = {
  * Level 2: Cave
  * 
  * Darker level with more challenging enemies.
- * Mix of goblins and orcs in tight spaces.
+ * Mix of goblins and orcs in tight spaces, with goblin shamans shooting from the back.
  */
 export const LEVEL_2_CAVE: LevelDefinition = {
   id: 'level_2_cave',
@@ -158,6 +224,13 @@ export const LEVEL_2_CAVE: LevelDefinition = {
         { minX: 500, maxX: 850, minY: 200, maxY: 600 },
         { minX: 300, maxX: 600, minY: 600, maxY: 850 }
       ]
+    },
+    {
+      blueprintId: 'goblin_shaman',
+      count: 2,
+      spawnZones: [
+        { minX: 600, maxX: 850, minY: 650, maxY: 850 }
+      ]
     }
   ],
   npcs: [],
@@ -176,6 +249,57 @@ export const LEVEL_2_CAVE: LevelDefinition = {
     width: 1000,
     height: 1000
   },
+  // Rock border with a few outcrops; 50px tiles covering the camera bounds
+  geometry: {
+    tiles: {
+      tileSize: 50,
+      rows: [
+        '####################',
+        '#..................#',
+        '#..................#',
+        '#...........##.....#',
+        '#...........###....#',
+        '#..................#',
+        '#..................#',
+        '##.................#',
+        '###.......##.......#',
+        '##........##.......#',
+        '#..................#',
+        '#..................#',
+        '#.....##...........#',
+        '#.....###......##..#',
+        '#..............##..#',
+        '#..................#',
+        '#..................#',
+        '#...##.............#',
+        '#..................#',
+        '####################'
+      ]
+    }
+  },
+  triggers: [
+    {
+      id: 'cave_ambush',
+      x: 700,
+      y: 700,
+      radius: 60,
+      mode: 'once',
+      onEnter: [
+        { type: 'showHint', text: 'Ambush!', duration: 2 },
+        { type: 'spawnWave', enemies: [{ blueprintId: 'goblin_scout', count: 3, spawnZones: [{ minX: 600, maxX: 700, minY: 780, maxY: 880 }] }] }
+      ]
+    },
+    {
+      id: 'cave_exit',
+      x: 900,
+      y: 900,
+      radius: 40,
+      onEnter: [
+        { type: 'setQuestFlag', key: 'found_fortress', value: true },
+        { type: 'loadLevel', levelId: 'level_3_fortress', spawn: { x: 120, y: 120 } }
+      ]
+    }
+  ],
   theme: {
     backgroundColor: '#1a1a2e',
     themeType: 'cave'
@@ -225,6 +349,39 @@ export const LEVEL_3_FORTRESS: LevelDefinition = {
     width: 1200,
     height: 1200
   },
+  // Curtain walls around the level, a keep with a gate in its north wall and a buttress
+  geometry: {
+    walls: [
+      [{ x: 0, y: 0 }, { x: 1200, y: 0 }, { x: 1200, y: 40 }, { x: 0, y: 40 }],
+      [{ x: 0, y: 1160 }, { x: 1200, y: 1160 }, { x: 1200, y: 1200 }, { x: 0, y: 1200 }],
+      [{ x: 0, y: 40 }, { x: 40, y: 40 }, { x: 40, y: 1160 }, { x: 0, y: 1160 }],
+      [{ x: 1160, y: 40 }, { x: 1200, y: 40 }, { x: 1200, y: 1160 }, { x: 1160, y: 1160 }],
+      [{ x: 560, y: 520 }, { x: 720, y: 520 }, { x: 720, y: 550 }, { x: 560, y: 550 }],
+      [{ x: 800, y: 520 }, { x: 960, y: 520 }, { x: 960, y: 550 }, { x: 800, y: 550 }],
+      [{ x: 560, y: 550 }, { x: 590, y: 550 }, { x: 590, y: 870 }, { x: 560, y: 870 }],
+      [{ x: 930, y: 550 }, { x: 960, y: 550 }, { x: 960, y: 870 }, { x: 930, y: 870 }],
+      [{ x: 560, y: 870 }, { x: 960, y: 870 }, { x: 960, y: 900 }, { x: 560, y: 900 }],
+      [{ x: 300, y: 700 }, { x: 380, y: 780 }, { x: 300, y: 860 }]
+    ]
+  },
+  triggers: [
+    {
+      id: 'fortress_gate',
+      x: 760,
+      y: 480,
+      radius: 40,
+      mode: 'once',
+      onEnter: [{ type: 'startDialog', treeId: 'guard_dialog' }]
+    },
+    {
+      id: 'fortress_keep',
+      x: 760,
+      y: 710,
+      radius: 80,
+      onEnter: [{ type: 'showHint', text: 'The chieftain\'s keep' }],
+      onExit: [{ type: 'showHint', text: 'Leaving the keep', duration: 2 }]
+    }
+  ],
   theme: {
     backgroundColor: '#3d2817',
     themeType: 'fortress'
@@ -301,5 +458,12 @@ export const isValidLevel = (level: LevelDefinition): boolean => {
   if (!Array.isArray(level.enemies)) return false
   if (!Array.isArray(level.npcs)) return false
   if (!Array.isArray(level.items)) return false
+  if (level.geometry?.tiles && !(level.geometry.tiles.tileSize > 0)) return false
+  if (level.geometry?.walls?.some(wall => wall.length < 3)) return false
+  if (level.triggers) {
+    const ids = new Set(level.triggers.map(zone => zone.id))
+    if (ids.size !== level.triggers.length) return false
+    if (level.triggers.some(zone => !zone.id || !(zone.radius > 0))) return false
+  }
   return true
 }
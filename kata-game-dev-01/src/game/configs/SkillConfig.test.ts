@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { isSkill } from '@components/Skill'
+import { ARCANE_BOLT_SKILL, PLAYER_SKILL, SKILL_PROJECTILES } from './SkillConfig'
+import { getProjectileKind } from './EntityBlueprints'
+
+describe('SkillConfig', () => {
+  it('should define valid skills', () => {
+    expect(isSkill(ARCANE_BOLT_SKILL)).toBe(true)
+    expect(ARCANE_BOLT_SKILL.damage?.baseValue).toBeGreaterThan(0)
+  })
+
+  it('should map the player skill to a projectile', () => {
+    expect(getProjectileKind(SKILL_PROJECTILES[PLAYER_SKILL.id])).toMatchObject({ sprite: 'magic_bolt' })
+  })
+})
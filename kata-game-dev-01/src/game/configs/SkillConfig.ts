@@ -0,0 +1,41 @@
+/**
+ * Skill Configuration
+ * Defines the skills characters can cast and the projectiles ranged skills launch
+ */
+
+import type { Skill } from '@components/Skill'
+import { MAGIC_BOLT_BLUEPRINT } from './EntityBlueprints'
+
+/**
+ * Arcane Bolt skill.
+ * Free, short-cooldown spell the player casts with the secondary action.
+ *
+ * @example
+ * ```ts
+ * projectiles.cast(ARCANE_BOLT_SKILL, { owner: player, kind, x, y, dirX, dirY, mask: COLLISION_LAYERS.ENEMY })
+ * ```
+ */
+export const ARCANE_BOLT_SKILL: Skill = {
+  id: 'skill_arcane_bolt',
+  name: 'Arcane Bolt',
+  type: 'spell',
+  damage: { baseValue: 8, variance: 2, type: 'magic' },
+  cooldown: 1200,
+  range: 300,
+  cost: { type: 'none', amount: 0 },
+  effects: [],
+  castTime: 0,
+  description: 'Hurl a bolt of arcane energy at the nearest foe',
+}
+
+/**
+ * Skill the player casts with the secondary action.
+ */
+export const PLAYER_SKILL = ARCANE_BOLT_SKILL
+
+/**
+ * Projectile blueprint launched by each ranged skill, keyed by skill ID.
+ */
+export const SKILL_PROJECTILES: Record<string, string> = {
+  [ARCANE_BOLT_SKILL.id]: MAGIC_BOLT_BLUEPRINT.id,
+}
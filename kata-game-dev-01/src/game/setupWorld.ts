@@ -1,5 +1,6 @@
 import { World, Entity } from '@engine/ECS'
 import { COMPONENTS } from '@engine/constants'
+import { componentRegistry } from '@engine/componentRegistry'
 import {
   PLAYER_BLUEPRINT,
   GOBLIN_BLUEPRINT,
@@ -9,6 +10,7 @@ import {
   type EntityBlueprint,
 } from '@game/configs/EntityBlueprints'
 import { createItemInstance } from './configs/ItemConfig'
+import { getRandomStream } from '@engine/Random'
 
 /**
  * QuadTree configuration type.
@@ -25,6 +27,8 @@ export type QuadConfig = {
   mergeThreshold?: number
   /** Interval for rebalancing tree */
   rebalanceInterval?: number
+  /** Cell edge length when the spatial hash backend is selected */
+  cellSize?: number
 }
 
 /**
@@ -55,20 +59,14 @@ function instantiateBlueprint(
   blueprint: EntityBlueprint,
   entityId: Entity
 ): void {
-  // Helper: map blueprint key (e.g. 'transform') to canonical runtime key from COMPONENTS (e.g. 'Transform')
-  const mapKey = (k: string) => {
-    const lower = k.toLowerCase()
-    const match = Object.values(COMPONENTS).find((v) => String(v).toLowerCase() === lower)
-    return match ?? k
-  }
-
   // Register all components from blueprint
   Object.entries(blueprint.components).forEach(([componentKey, componentData]) => {
     // Skip undefined components
     if (componentData === undefined) return
 
-    // Map to canonical component key used by the ECS
-    const key = mapKey(componentKey)
+    // Resolve blueprint key (e.g. 'transform') to the canonical ECS key (e.g. 'Transform');
+    // components the registry does not know keep their blueprint key
+    const key = componentRegistry.resolveKey(componentKey) ?? componentKey
     world.addComponent(entityId, key as any, componentData)
   })
 }
@@ -150,7 +148,7 @@ export const createWorld = (worldInstance?: World): {
   instantiateBlueprint(world, PLAYER_BLUEPRINT, player)
   // Add starting weapon to inventory
   const inventory = (world.getComponent(player, COMPONENTS.INVENTORY) as any[]) ?? []
-  const sword = createItemInstance('sword_iron', 1)
+  const sword = createItemInstance('sword_iron', 1, undefined, getRandomStream(world, 'loot').next)
   inventory.push(sword)
   world.addComponent(player, COMPONENTS.INVENTORY, inventory)
   // Equip sword in main hand
@@ -197,6 +195,7 @@ export const createWorld = (worldInstance?: World): {
     maxDepth: 8,
     mergeThreshold: 0.25,
     rebalanceInterval: 256,
+    cellSize: 64,
   }
 
   return { world, player, quadConfig }
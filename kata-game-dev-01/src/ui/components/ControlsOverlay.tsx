@@ -8,6 +8,7 @@ export interface ControlsOverlayProps {
 const HOTKEYS: { key: string; action: string }[] = [
   { key: 'WASD / Arrows', action: 'Move' },
   { key: 'Space',          action: 'Attack' },
+  { key: 'Shift',          action: 'Cast Arcane Bolt' },
   { key: 'I',              action: 'Inventory' },
   { key: 'E',              action: 'Equipment' },
   { key: 'P',              action: 'Save / Load' },
@@ -7,6 +7,7 @@ import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import DebugOverlay from './DebugOverlay'
 import type { PerformanceMetrics } from '@/debug/PerformanceMonitor'
+import { ComponentCategory } from '@engine/componentCategories'
 
 describe('DebugOverlay', () => {
   const mockMetrics: PerformanceMetrics = {
@@ -32,7 +33,8 @@ describe('DebugOverlay', () => {
       opCounter: 100,
       avgChildOccupancy: 0.75
     },
-    totalFrames: 1000
+    totalFrames: 1000,
+    listenerErrors: 0
   }
 
   describe('Rendering', () => {
@@ -300,6 +302,27 @@ describe('DebugOverlay', () => {
       
       expect(screen.queryByText('QuadTree Stats')).toBeNull()
     })
+
+    it('should label spatial hash stats by cells', () => {
+      const metricsHash = {
+        ...mockMetrics,
+        quadTreeStats: undefined,
+        spatialIndexStats: { backend: 'hash' as const, cellSize: 64, nodes: 12, items: 30, avgItemsPerNode: 2.5, opCounter: 80 }
+      }
+      render(
+        <DebugOverlay 
+          metrics={metricsHash} 
+          isVisible={true} 
+          onToggle={() => {}} 
+        />
+      )
+
+      expect(screen.getByText('Spatial Hash Stats')).toBeDefined()
+      expect(screen.getByText('Cells:')).toBeDefined()
+      expect(screen.getByText('Avg Items/Cell:')).toBeDefined()
+      expect(screen.queryByText('Splits:')).toBeNull()
+      expect(screen.queryByText('QuadTree Stats')).toBeNull()
+    })
   })
 
   describe('Performance Report', () => {
@@ -401,4 +424,75 @@ describe('DebugOverlay', () => {
       expect(overlay).toBeDefined()
     })
   })
+
+  describe('Random Seed', () => {
+    it('should show the seed when given', () => {
+      render(<DebugOverlay metrics={mockMetrics} isVisible={true} onToggle={() => {}} seed={123456} />)
+
+      expect(screen.getByText('Random Seed:')).toBeDefined()
+      expect(screen.getByText('123456')).toBeDefined()
+    })
+
+    it('should hide the seed when not given', () => {
+      render(<DebugOverlay metrics={mockMetrics} isVisible={true} onToggle={() => {}} />)
+
+      expect(screen.queryByText('Random Seed:')).toBeNull()
+    })
+  })
+
+  describe('Entity Inspector', () => {
+    it('should list the inspected entity components', () => {
+      render(
+        <DebugOverlay
+          metrics={mockMetrics}
+          isVisible={true}
+          onToggle={() => {}}
+          inspectedEntity={{
+            entity: 7,
+            components: [
+              { key: 'Health', category: ComponentCategory.COMBAT, value: { current: 5, max: 10 }, valid: true },
+              { key: 'Transform', category: ComponentCategory.SPATIAL, value: { x: 'bad' }, valid: false },
+            ],
+          }}
+        />
+      )
+
+      expect(screen.getByText('Entity 7')).toBeDefined()
+      expect(screen.getByText('{"current":5,"max":10}')).toBeDefined()
+      expect(screen.getByText('{"x":"bad"}').style.color).toBe('rgb(255, 0, 0)')
+    })
+
+    it('should not render the inspector without an entity', () => {
+      render(<DebugOverlay metrics={mockMetrics} isVisible={true} onToggle={() => {}} />)
+
+      expect(screen.queryByText(/^Entity \d+$/)).toBeNull()
+    })
+  })
+
+  describe('Listener Errors', () => {
+    it('should list failing listeners with their error counts', () => {
+      render(
+        <DebugOverlay
+          metrics={{ ...mockMetrics, listenerErrors: 4 }}
+          isVisible={true}
+          onToggle={() => {}}
+          listenerFailures={[
+            { listener: 'syncMinimap', count: 3, component: 'Transform', message: 'boom' },
+            { listener: 'anonymous', count: 1, component: 'Health', message: 'oops' },
+          ]}
+        />
+      )
+
+      expect(screen.getByText('Listener Errors')).toBeDefined()
+      expect(screen.getByText('4')).toBeDefined()
+      expect(screen.getByText('syncMinimap (Transform):')).toBeDefined()
+      expect(screen.getByText('3×')).toBeDefined()
+    })
+
+    it('should hide the section when no listener has failed', () => {
+      render(<DebugOverlay metrics={mockMetrics} isVisible={true} onToggle={() => {}} />)
+
+      expect(screen.queryByText('Listener Errors')).toBeNull()
+    })
+  })
 })
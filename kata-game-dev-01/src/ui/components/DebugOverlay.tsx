@@ -2,7 +2,9 @@
  * Debug Overlay Component
  * 
  * Displays performance metrics and debug information in a toggleable overlay.
- * Shows FPS, entity count, system timings, memory usage, and QuadTree statistics.
+ * Shows FPS, entity count, the world's random seed, system timings, memory usage,
+ * spatial index statistics, component listener errors, and optionally the components
+ * of one inspected entity.
  * 
  * @example
  * ```tsx
@@ -17,6 +19,17 @@
 import React from 'react'
 import './DebugOverlay.css'
 import type { PerformanceMetrics } from '@/debug/PerformanceMonitor'
+import type { Entity } from '@engine/ECS'
+import type { InspectedComponent } from '@engine/componentRegistry'
+import type { ListenerFailure } from '@engine/ListenerError'
+
+/**
+ * Entity shown in the inspector section (see `componentRegistry.inspect`)
+ */
+export interface InspectedEntity {
+  entity: Entity
+  components: InspectedComponent[]
+}
 
 /**
  * DebugOverlay props
@@ -33,6 +46,15 @@ export interface DebugOverlayProps {
   
   /** Show QuadTree visualization (optional) */
   showQuadTreeViz?: boolean
+
+  /** Entity whose components are listed in the inspector (optional) */
+  inspectedEntity?: InspectedEntity
+
+  /** Component listeners that have thrown (see `world.getListenerFailures`) */
+  listenerFailures?: ListenerFailure[]
+
+  /** Seed of the world's Random resource, to reproduce a run (optional) */
+  seed?: number
   
   /** Additional CSS class */
   className?: string
@@ -59,6 +81,19 @@ const formatMemory = (mb: number): string => {
   return mb.toFixed(2) + ' MB'
 }
 
+/**
+ * Format a component value as a short single-line preview
+ */
+const formatComponentValue = (value: unknown): string => {
+  let text: string
+  try {
+    text = JSON.stringify(value) ?? String(value)
+  } catch {
+    text = String(value)
+  }
+  return text.length > 60 ? text.slice(0, 57) + '...' : text
+}
+
 /**
  * Get FPS color based on performance
  */
@@ -88,6 +123,9 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
   isVisible,
   onToggle,
   showQuadTreeViz = false,
+  inspectedEntity,
+  listenerFailures = [],
+  seed,
   className = ''
 }) => {
   if (!isVisible) {
@@ -100,6 +138,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
 
   const fpsColor = getFpsColor(metrics.fps)
   const frameTimeColor = getFrameTimeColor(metrics.frameTime)
+  const spatialStats = metrics.spatialIndexStats ?? metrics.quadTreeStats
 
   return (
     <div className={`debug-overlay ${className}`}>
@@ -169,6 +208,12 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
               <span className="metric-label">Count:</span>
               <span className="metric-value">{metrics.entityCount}</span>
             </div>
+            {seed !== undefined && (
+              <div className="debug-metric">
+                <span className="metric-label">Random Seed:</span>
+                <span className="metric-value">{seed}</span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -211,43 +256,94 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
           </div>
         )}
 
-        {/* QuadTree Stats Section */}
-        {metrics.quadTreeStats && (
+        {/* Spatial Index Stats Section */}
+        {spatialStats && (
           <div className="debug-section">
-            <h4>QuadTree Stats</h4>
+            <h4>{spatialStats.backend === 'hash' ? 'Spatial Hash Stats' : 'QuadTree Stats'}</h4>
             <div className="debug-metrics">
+              {spatialStats.cellSize !== undefined && (
+                <div className="debug-metric">
+                  <span className="metric-label">Cell Size:</span>
+                  <span className="metric-value">{spatialStats.cellSize}</span>
+                </div>
+              )}
               <div className="debug-metric">
-                <span className="metric-label">Nodes:</span>
-                <span className="metric-value">{metrics.quadTreeStats.nodes}</span>
+                <span className="metric-label">{spatialStats.backend === 'hash' ? 'Cells:' : 'Nodes:'}</span>
+                <span className="metric-value">{spatialStats.nodes}</span>
               </div>
               <div className="debug-metric">
                 <span className="metric-label">Items:</span>
-                <span className="metric-value">{metrics.quadTreeStats.items}</span>
+                <span className="metric-value">{spatialStats.items}</span>
               </div>
               <div className="debug-metric">
-                <span className="metric-label">Avg Items/Node:</span>
+                <span className="metric-label">{spatialStats.backend === 'hash' ? 'Avg Items/Cell:' : 'Avg Items/Node:'}</span>
                 <span className="metric-value">
-                  {metrics.quadTreeStats.avgItemsPerNode.toFixed(2)}
+                  {spatialStats.avgItemsPerNode.toFixed(2)}
                 </span>
               </div>
-              <div className="debug-metric">
-                <span className="metric-label">Splits:</span>
-                <span className="metric-value">{metrics.quadTreeStats.splits}</span>
-              </div>
-              <div className="debug-metric">
-                <span className="metric-label">Merges:</span>
-                <span className="metric-value">{metrics.quadTreeStats.merges}</span>
-              </div>
+              {spatialStats.splits !== undefined && (
+                <div className="debug-metric">
+                  <span className="metric-label">Splits:</span>
+                  <span className="metric-value">{spatialStats.splits}</span>
+                </div>
+              )}
+              {spatialStats.merges !== undefined && (
+                <div className="debug-metric">
+                  <span className="metric-label">Merges:</span>
+                  <span className="metric-value">{spatialStats.merges}</span>
+                </div>
+              )}
               <div className="debug-metric">
                 <span className="metric-label">Operations:</span>
-                <span className="metric-value">{metrics.quadTreeStats.opCounter}</span>
+                <span className="metric-value">{spatialStats.opCounter}</span>
               </div>
+              {spatialStats.avgChildOccupancy !== undefined && (
+                <div className="debug-metric">
+                  <span className="metric-label">Avg Child Occ:</span>
+                  <span className="metric-value">
+                    {formatPercent(spatialStats.avgChildOccupancy * 100)}
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Listener Errors Section */}
+        {(metrics.listenerErrors > 0 || listenerFailures.length > 0) && (
+          <div className="debug-section">
+            <h4>Listener Errors</h4>
+            <div className="debug-metrics">
               <div className="debug-metric">
-                <span className="metric-label">Avg Child Occ:</span>
-                <span className="metric-value">
-                  {formatPercent(metrics.quadTreeStats.avgChildOccupancy * 100)}
-                </span>
+                <span className="metric-label">Total:</span>
+                <span className="metric-value" style={{ color: '#ff0000' }}>{metrics.listenerErrors}</span>
               </div>
+              {listenerFailures.map((failure, index) => (
+                <div key={index} className="debug-metric" title={failure.message}>
+                  <span className="metric-label">{failure.listener} ({failure.component}):</span>
+                  <span className="metric-value">{failure.count}×</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Entity Inspector Section */}
+        {inspectedEntity && (
+          <div className="debug-section">
+            <h4>Entity {inspectedEntity.entity}</h4>
+            <div className="debug-metrics">
+              {inspectedEntity.components.map(component => (
+                <div key={component.key} className="debug-metric" title={component.category ?? 'unregistered'}>
+                  <span className="metric-label">{component.key}:</span>
+                  <span
+                    className="metric-value"
+                    style={component.valid ? undefined : { color: '#ff0000' }}
+                  >
+                    {formatComponentValue(component.value)}
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import HintBanner from './HintBanner'
+
+describe('HintBanner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should render nothing without a hint', () => {
+    const { container } = render(<HintBanner text={null} />)
+    expect(container.firstChild).toBeNull()
+  })
+
+  it('should show the hint and expire after its duration', () => {
+    const onExpire = vi.fn()
+    render(<HintBanner text="Ambush!" duration={2} onExpire={onExpire} />)
+
+    expect(screen.getByRole('status').textContent).toBe('Ambush!')
+    act(() => { vi.advanceTimersByTime(1999) })
+    expect(onExpire).not.toHaveBeenCalled()
+    act(() => { vi.advanceTimersByTime(1) })
+    expect(onExpire).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not restart the timer when only the callback changes', () => {
+    const first = vi.fn()
+    const second = vi.fn()
+    const { rerender } = render(<HintBanner text="Hello" duration={1} onExpire={first} />)
+
+    act(() => { vi.advanceTimersByTime(600) })
+    rerender(<HintBanner text="Hello" duration={1} onExpire={second} />)
+    act(() => { vi.advanceTimersByTime(400) })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react'
+import './HintBanner.css'
+
+export interface HintBannerProps {
+  /** Hint to show; nothing is rendered when null */
+  text: string | null
+  /** Seconds before the hint expires */
+  duration?: number
+  /** Callback when the hint has been shown for its duration */
+  onExpire?: () => void
+}
+
+/**
+ * Hint Banner Component
+ *
+ * Short on-screen message raised by level trigger zones (HintShown events).
+ * Give it a new `key` per hint so a repeated hint restarts its timer.
+ */
+export const HintBanner: React.FC<HintBannerProps> = ({ text, duration = 4, onExpire }) => {
+  // Keep onExpire in a ref so changing the callback never restarts the timer.
+  const onExpireRef = useRef(onExpire)
+  onExpireRef.current = onExpire
+
+  useEffect(() => {
+    if (!text) return
+    const timer = setTimeout(() => onExpireRef.current?.(), duration * 1000)
+    return () => clearTimeout(timer)
+  }, [text, duration])
+
+  if (!text) return null
+
+  return (
+    <div className="hint-banner" role="status">
+      {text}
+    </div>
+  )
+}
+
+export default HintBanner
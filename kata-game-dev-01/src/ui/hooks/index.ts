@@ -16,7 +16,9 @@ export {
   useWorldQuery,
   useWorldQueryWithComponents,
   useWorldQueryFilter,
+  useQueryMembers,
   type QueryResult,
+  type WorldQuerySpec,
 } from './useWorldQuery'
 
 // Convenience hooks
@@ -15,7 +15,7 @@
  */
 
 import { useComponentWatch } from './useComponentWatch'
-import { useWorldQuery } from './useWorldQuery'
+import { useWorldQuery, useQueryMembers } from './useWorldQuery'
 import type { ReactiveWorld } from '@engine/ReactiveWorld'
 import type { Entity } from '@engine/ECS'
 
@@ -135,7 +135,7 @@ export function usePlayerStats(
  * ```
  */
 export function useAllEnemies(world: ReactiveWorld | null): Entity[] {
-  return useWorldQuery(world, ['Enemy', 'Transform'])
+  return useQueryMembers(world, ['Enemy', 'Transform'])
 }
 
 /**
@@ -150,7 +150,7 @@ export function useAllEnemies(world: ReactiveWorld | null): Entity[] {
  * ```
  */
 export function useAllNPCs(world: ReactiveWorld | null): Entity[] {
-  return useWorldQuery(world, ['NPC', 'Transform'])
+  return useQueryMembers(world, ['NPC', 'Transform'])
 }
 
 /**
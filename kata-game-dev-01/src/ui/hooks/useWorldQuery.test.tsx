@@ -5,6 +5,7 @@ import {
   useWorldQuery,
   useWorldQueryWithComponents,
   useWorldQueryFilter,
+  useQueryMembers,
 } from './useWorldQuery'
 import type { Entity } from '@engine/ECS'
 
@@ -118,6 +119,67 @@ describe('useWorldQuery', () => {
     })
   })
 
+  describe('Query filters', () => {
+    it('should exclude entities with a without component', () => {
+      const player = world.createEntity()
+      const enemy = world.createEntity()
+      world.addComponent(player, 'Transform', { x: 0, y: 0 })
+      world.addComponent(player, 'Player', {})
+      world.addComponent(enemy, 'Transform', { x: 5, y: 5 })
+
+      const { result } = renderHook(() =>
+        useWorldQuery(world, { with: ['Transform'], without: ['Player'] })
+      )
+
+      expect(result.current).toEqual([enemy])
+    })
+
+    it('should not require optional components', () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'Transform', { x: 0, y: 0 })
+
+      const { result } = renderHook(() =>
+        useWorldQuery(world, { with: ['Transform'], optional: ['Metadata'] })
+      )
+
+      expect(result.current).toEqual([entity])
+    })
+
+    it('should accept filters produced by the query builder', () => {
+      const npc = world.createEntity()
+      world.addComponent(npc, 'Transform', { x: 0, y: 0 })
+      world.addComponent(npc, 'NPC', {})
+      const other = world.createEntity()
+      world.addComponent(other, 'Transform', { x: 0, y: 0 })
+
+      const filter = world.queryBuilder().with('Transform', 'NPC').toFilter()
+      const { result } = renderHook(() => useWorldQuery(world, filter))
+
+      expect(result.current).toEqual([npc])
+    })
+
+    it('should drop an entity when it gains an excluded component', async () => {
+      const entity = world.createEntity()
+      world.addComponent(entity, 'Transform', { x: 0, y: 0 })
+
+      const { result } = renderHook(() =>
+        useWorldQuery(world, { with: ['Transform'], without: ['Hostile'] })
+      )
+      expect(result.current).toEqual([entity])
+
+      act(() => {
+        world.addComponent(entity, 'Hostile', {})
+      })
+
+      await waitFor(
+        () => {
+          expect(result.current).toHaveLength(0)
+        },
+        { timeout: 1000 }
+      )
+    })
+  })
+
   describe('Performance', () => {
     it('should handle large entity counts', async () => {
       const entities: Entity[] = []
@@ -202,6 +264,65 @@ describe('useWorldQueryWithComponents', () => {
   })
 })
 
+describe('useWorldQueryWithComponents filters', () => {
+  let world: ReactiveWorld
+
+  beforeEach(() => {
+    world = new ReactiveWorld()
+  })
+
+  afterEach(() => {
+    cleanup()
+    world.clearAllListeners()
+  })
+
+  it('should return optional components, undefined when missing', () => {
+    const named = world.createEntity()
+    world.addComponent(named, 'Transform', { x: 0, y: 0 })
+    world.addComponent(named, 'Metadata', { name: 'Mira' })
+    const plain = world.createEntity()
+    world.addComponent(plain, 'Transform', { x: 5, y: 5 })
+    const player = world.createEntity()
+    world.addComponent(player, 'Transform', { x: 9, y: 9 })
+    world.addComponent(player, 'Player', {})
+
+    const { result } = renderHook(() =>
+      useWorldQueryWithComponents<{ Transform: { x: number; y: number } }, { Metadata: { name: string } }>(
+        world, { with: ['Transform'], without: ['Player'], optional: ['Metadata'] }
+      )
+    )
+
+    expect(result.current).toHaveLength(2)
+    expect(result.current.find(r => r.entity === named)?.components)
+      .toEqual({ Transform: { x: 0, y: 0 }, Metadata: { name: 'Mira' } })
+    expect(result.current.find(r => r.entity === plain)?.components)
+      .toEqual({ Transform: { x: 5, y: 5 }, Metadata: undefined })
+  })
+
+  it('should update when an optional component changes', async () => {
+    const entity = world.createEntity()
+    world.addComponent(entity, 'Transform', { x: 0, y: 0 })
+
+    const { result } = renderHook(() =>
+      useWorldQueryWithComponents<{ Transform: { x: number; y: number } }, { Metadata: { name: string } }>(
+        world, { with: ['Transform'], optional: ['Metadata'] }
+      )
+    )
+    expect(result.current[0].components.Metadata).toBeUndefined()
+
+    act(() => {
+      world.addComponent(entity, 'Metadata', { name: 'Mira' })
+    })
+
+    await waitFor(
+      () => {
+        expect(result.current[0].components.Metadata).toEqual({ name: 'Mira' })
+      },
+      { timeout: 1000 }
+    )
+  })
+})
+
 describe('useWorldQueryFilter', () => {
   let world: ReactiveWorld
 
@@ -311,3 +432,54 @@ describe('useWorldQueryFilter', () => {
   })
 })
 
+describe('useQueryMembers', () => {
+  let world: ReactiveWorld
+
+  beforeEach(() => {
+    world = new ReactiveWorld()
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should track entities entering and leaving the query', () => {
+    const existing = world.createEntity()
+    world.addComponent(existing, 'Enemy', {})
+    world.addComponent(existing, 'Transform', { x: 0, y: 0 })
+
+    const { result } = renderHook(() => useQueryMembers(world, ['Enemy', 'Transform']))
+    expect(result.current).toEqual([existing])
+
+    const added = world.createEntity()
+    act(() => {
+      world.addComponent(added, 'Enemy', {})
+      world.addComponent(added, 'Transform', { x: 5, y: 5 })
+    })
+    expect(result.current).toEqual([existing, added])
+
+    act(() => {
+      world.removeEntity(existing)
+    })
+    expect(result.current).toEqual([added])
+  })
+
+  it('should not re-render when matching entities only change components', () => {
+    const entity = world.createEntity()
+    world.addComponent(entity, 'Enemy', {})
+    world.addComponent(entity, 'Transform', { x: 0, y: 0 })
+    let renders = 0
+
+    renderHook(() => {
+      renders++
+      return useQueryMembers(world, ['Enemy', 'Transform'])
+    })
+    const rendersAfterMount = renders
+
+    act(() => {
+      for (let i = 1; i <= 10; i++) world.addComponent(entity, 'Transform', { x: i, y: 0 })
+    })
+
+    expect(renders).toBe(rendersAfterMount)
+  })
+})
@@ -22,7 +22,7 @@
 
 import { useState, useEffect } from 'react'
 import type { ReactiveWorld } from '@engine/ReactiveWorld'
-import type { Entity } from '@engine/ECS'
+import type { Entity, QueryFilter } from '@engine/ECS'
 import type { ComponentKey } from '@engine/constants'
 
 /**
@@ -33,24 +33,64 @@ export interface QueryResult<T extends Record<string, any> = Record<string, any>
   components: T
 }
 
+/**
+ * Component list or with/without/optional filter accepted by `useWorldQuery`.
+ */
+export type WorldQuerySpec = ComponentKey[] | QueryFilter
+
+/**
+ * Normalize a query spec into a filter object.
+ *
+ * @param spec - Component list or filter
+ * @returns Filter with all clauses present
+ */
+const toFilter = (spec: WorldQuerySpec) => {
+  if (Array.isArray(spec)) return { with: spec, without: [] as ComponentKey[], optional: [] as ComponentKey[] }
+  return {
+    with: spec.with.map(String) as ComponentKey[],
+    without: (spec.without ?? []).map(String) as ComponentKey[],
+    optional: (spec.optional ?? []).map(String) as ComponentKey[],
+  }
+}
+
+/**
+ * Run a query spec through the world's cached `queryFiltered`.
+ *
+ * @param world - World to query
+ * @param filter - Normalized filter
+ * @returns Matching rows: required components, then optional ones
+ */
+const runQuery = (world: ReactiveWorld, filter: ReturnType<typeof toFilter>) =>
+  world.queryFiltered({ with: filter.with, without: filter.without, optional: filter.optional })
+
 /**
  * Query entities with specific components.
  *
+ * Accepts either a list of required components or the same
+ * with/without/optional filter used by `world.queryFiltered`
+ * (e.g. `world.queryBuilder().with(...).without(...).toFilter()`).
+ * Optional components do not affect which entities are returned; use
+ * `useWorldQueryWithComponents` to read them.
+ *
  * @param world - ReactiveWorld instance
- * @param componentNames - Array of required component names
- * @returns Array of entities that have all specified components
+ * @param spec - Array of required component names, or a query filter
+ * @returns Array of entities that have all required and none of the excluded components
  *
  * @example
  * ```tsx
  * const enemies = useWorldQuery(world, ['Enemy', 'Health'])
  * const players = useWorldQuery(world, ['Player', 'Transform'])
+ * const others = useWorldQuery(world, { with: ['Transform', 'Health'], without: ['Player'] })
  * ```
  */
 export function useWorldQuery(
   world: ReactiveWorld | null,
-  componentNames: ComponentKey[]
+  spec: WorldQuerySpec
 ): Entity[] {
   const [entities, setEntities] = useState<Entity[]>([])
+  const filter = toFilter(spec)
+  const componentNames = filter.with
+  const excludedNames = filter.without
 
   useEffect(() => {
     if (!world) {
@@ -60,30 +100,13 @@ export function useWorldQuery(
 
     let isMounted = true
 
-    // Function to check if entity has all required components
     const updateQuery = () => {
       if (!isMounted) return
-
-      const results: Entity[] = []
-
-      // Query all entities (simple implementation)
-      // In production, use World.query() if available
-      const allEntities = world.getAllEntities ? world.getAllEntities() : []
-
-      for (const entity of allEntities) {
-        const hasAll = componentNames.every(name =>
-          world.getComponent(entity, name) !== undefined
-        )
-        if (hasAll) {
-          results.push(entity)
-        }
-      }
-
-      setEntities(results)
+      setEntities(runQuery(world, { ...filter, optional: [] }).map(({ entity }) => entity))
     }
 
-    // Subscribe to all relevant component changes
-    const unsubscribers = componentNames.map(componentName =>
+    // Subscribe to all relevant component changes (required and excluded)
+    const unsubscribers = [...componentNames, ...excludedNames].map(componentName =>
       world.onComponentChange(componentName, () => {
         updateQuery()
       })
@@ -96,7 +119,53 @@ export function useWorldQuery(
       isMounted = false
       unsubscribers.forEach(unsub => unsub())
     }
-  }, [world, ...componentNames])
+  }, [world, componentNames.join('|'), excludedNames.join('|')])
+
+  return entities
+}
+
+/**
+ * Track entities matching a query via `world.observe`.
+ *
+ * Unlike `useWorldQuery`, this only re-renders when an entity enters or
+ * leaves the query; writes to the components of matching entities (e.g.
+ * every Transform update) do not cause a render.
+ *
+ * @param world - ReactiveWorld instance
+ * @param spec - Array of required component names, or a query filter
+ * @returns Array of matching entities, in the order they entered
+ *
+ * @example
+ * ```tsx
+ * const enemies = useQueryMembers(world, ['Enemy', 'Transform'])
+ * ```
+ */
+export function useQueryMembers(
+  world: ReactiveWorld | null,
+  spec: WorldQuerySpec
+): Entity[] {
+  const [entities, setEntities] = useState<Entity[]>([])
+  const filter = toFilter(spec)
+  const componentNames = filter.with
+  const excludedNames = filter.without
+
+  useEffect(() => {
+    if (!world) {
+      setEntities([])
+      return
+    }
+
+    // Entities already matching are reported during observe(); publish them once afterwards
+    let attached = false
+    const observer = world.observe({ with: componentNames, without: excludedNames }, {
+      onEnter: () => { if (attached) setEntities(observer.entities()) },
+      onExit: () => { if (attached) setEntities(observer.entities()) },
+    })
+    attached = true
+    setEntities(observer.entities())
+
+    return () => observer.dispose()
+  }, [world, componentNames.join('|'), excludedNames.join('|')])
 
   return entities
 }
@@ -104,8 +173,12 @@ export function useWorldQuery(
 /**
  * Query entities with components and return full data.
  *
+ * Accepts the same component list or with/without/optional filter as
+ * `useWorldQuery`. Optional components are included in `components` and
+ * are `undefined` for entities that lack them.
+ *
  * @param world - ReactiveWorld instance
- * @param componentNames - Array of required component names
+ * @param spec - Array of required component names, or a query filter
  * @returns Array of query results with entity and components
  *
  * @example
@@ -118,13 +191,23 @@ export function useWorldQuery(
  * results.forEach(({ entity, components }) => {
  *   console.log(entity, components.Transform, components.Health)
  * })
+ *
+ * // Metadata is Metadata | undefined
+ * const npcs = useWorldQueryWithComponents<{ Transform: Transform }, { Metadata: Metadata }>(
+ *   world, { with: ['Transform', 'NPC'], optional: ['Metadata'] }
+ * )
  * ```
  */
-export function useWorldQueryWithComponents<T extends Record<string, any>>(
+export function useWorldQueryWithComponents<
+  T extends Record<string, any>,
+  O extends Record<string, any> = {}
+>(
   world: ReactiveWorld | null,
-  componentNames: ComponentKey[]
-): QueryResult<T>[] {
-  const [results, setResults] = useState<QueryResult<T>[]>([])
+  spec: WorldQuerySpec
+): QueryResult<T & Partial<O>>[] {
+  const [results, setResults] = useState<QueryResult<T & Partial<O>>[]>([])
+  const filter = toFilter(spec)
+  const columns = [...filter.with, ...filter.optional]
 
   useEffect(() => {
     if (!world) {
@@ -136,36 +219,15 @@ export function useWorldQueryWithComponents<T extends Record<string, any>>(
 
     const updateQuery = () => {
       if (!isMounted) return
-
-      const queryResults: QueryResult<T>[] = []
-
-      const allEntities = world.getAllEntities ? world.getAllEntities() : []
-
-      for (const entity of allEntities) {
-        const components: Partial<T> = {}
-        let hasAll = true
-
-        for (const name of componentNames) {
-          const comp = world.getComponent(entity, name)
-          if (comp === undefined) {
-            hasAll = false
-            break
-          }
-          components[name as keyof T] = comp
-        }
-
-        if (hasAll) {
-          queryResults.push({
-            entity,
-            components: components as T,
-          })
-        }
-      }
-
-      setResults(queryResults)
+      setResults(runQuery(world, filter).map(({ entity, comps }) => {
+        const components: Record<string, unknown> = {}
+        columns.forEach((name, i) => { components[name] = comps[i] })
+        return { entity, components: components as T & Partial<O> }
+      }))
     }
 
-    const unsubscribers = componentNames.map(componentName =>
+    // Optional components do not change membership but do change the returned data
+    const unsubscribers = [...columns, ...filter.without].map(componentName =>
       world.onComponentChange(componentName, () => {
         updateQuery()
       })
@@ -177,7 +239,7 @@ export function useWorldQueryWithComponents<T extends Record<string, any>>(
       isMounted = false
       unsubscribers.forEach(unsub => unsub())
     }
-  }, [world, ...componentNames])
+  }, [world, columns.join('|'), filter.without.join('|')])
 
   return results
 }